@@ -0,0 +1,69 @@
+import { consumeLoginToken, createSession, sessionCookie } from "@/lib/auth";
+import { LOCALE_COOKIE, resolveLocale, translate, type Locale, type MessageKey } from "@/lib/i18n";
+
+export const runtime = "nodejs";
+
+// Helper function to escape a value for an HTML attribute
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// Helper function to pick the page's language the way app/layout.tsx does
+function requestLocale(req: Request): Locale {
+  const cookies = (req.headers.get("cookie") || "").split(";").map((part) => part.trim().split("="));
+  const saved = cookies.find(([name]) => name === LOCALE_COOKIE)?.[1];
+  return resolveLocale(saved, req.headers.get("accept-language"));
+}
+
+// Target of the emailed link. Opening it only shows a button that posts the
+// token back, so mail scanners and link previews that fetch the URL cannot use
+// the link up before its owner does.
+export async function GET(req: Request) {
+  const token = new URL(req.url).searchParams.get("token") || "";
+  const locale = requestLocale(req);
+  const t = (key: MessageKey) => escapeHtml(translate(locale, key));
+  const html = `<!doctype html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${t("signIn.confirmTitle")}</title>
+<style>
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: system-ui, sans-serif; background: #E6E8E3; color: #2D2D2D; }
+  form { text-align: center; padding: 2rem; border-radius: 1rem; background: #FDFBF7; border: 1px solid rgba(0, 0, 0, 0.1); }
+  button { margin-top: 1rem; padding: 0.5rem 1.5rem; border: 0; border-radius: 0.5rem; background: #D99B83; color: #fff; font-size: 0.95rem; cursor: pointer; }
+</style>
+</head>
+<body>
+<form method="post" action="/api/auth/callback">
+  <p>${t("signIn.confirmText")}</p>
+  <input type="hidden" name="token" value="${escapeHtml(token)}">
+  <button type="submit">${t("signIn.submit")}</button>
+</form>
+</body>
+</html>`;
+  return new Response(html, {
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Cache-Control": "no-store",
+      "Referrer-Policy": "no-referrer",
+    },
+  });
+}
+
+// Spend the token from the confirmation page: starts a session and returns to the app
+export async function POST(req: Request) {
+  const form = await req.formData().catch(() => null);
+  const token = form?.get("token");
+  const user = typeof token === "string" ? consumeLoginToken(token) : null;
+  if (!user) {
+    return Response.redirect(new URL("/?authError=link", req.url), 303);
+  }
+
+  console.log("[Auth] Signed in with email link:", user.email);
+  const session = createSession(user.id, "link");
+  return new Response(null, {
+    status: 303,
+    headers: { Location: "/", "Set-Cookie": sessionCookie(session.token, session.expiresAt) },
+  });
+}
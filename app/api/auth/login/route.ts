@@ -0,0 +1,18 @@
+import { checkAuthRateLimit, createSession, quotaExceededResponse, sessionCookie, verifyCredentials } from "@/lib/auth";
+import { authErrorResponse } from "@/lib/api-errors";
+
+export const runtime = "nodejs";
+
+export async function POST(req: Request) {
+  try {
+    const { email, password } = await req.json();
+    const limit = await checkAuthRateLimit(req, "login", email);
+    if (!limit.allowed) return quotaExceededResponse(limit);
+
+    const user = await verifyCredentials(email, password);
+    const session = createSession(user.id, "password");
+    return Response.json({ user }, { headers: { "Set-Cookie": sessionCookie(session.token, session.expiresAt) } });
+  } catch (error) {
+    return authErrorResponse(error);
+  }
+}
@@ -0,0 +1,9 @@
+import { clearSessionCookie, deleteSession, getSessionToken } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+export async function POST(req: Request) {
+  const token = getSessionToken(req);
+  if (token) deleteSession(token);
+  return new Response(null, { status: 204, headers: { "Set-Cookie": clearSessionCookie() } });
+}
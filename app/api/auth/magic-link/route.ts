@@ -0,0 +1,21 @@
+import { authLinkOrigin, checkAuthRateLimit, createLoginToken, quotaExceededResponse, sendAuthLink } from "@/lib/auth";
+import { authErrorResponse } from "@/lib/api-errors";
+
+export const runtime = "nodejs";
+
+// Email a one-time sign-in link to APP_URL (the request's origin in development)
+export async function POST(req: Request) {
+  try {
+    const { email } = await req.json();
+    const origin = authLinkOrigin(req);
+    const limit = await checkAuthRateLimit(req, "link", email);
+    if (!limit.allowed) return quotaExceededResponse(limit);
+
+    const { email: to, token } = createLoginToken(email);
+    await sendAuthLink(to, token, origin, "sign-in");
+    console.log("[Auth] Sign-in link sent to", to);
+    return Response.json({ sent: true });
+  } catch (error) {
+    return authErrorResponse(error);
+  }
+}
@@ -0,0 +1,15 @@
+import { addPassword, getSessionToken } from "@/lib/auth";
+import { authErrorResponse } from "@/lib/api-errors";
+
+export const runtime = "nodejs";
+
+// Add a password to the signed-in account (sessions started by an email link only)
+export async function POST(req: Request) {
+  try {
+    const { password } = await req.json();
+    await addPassword(getSessionToken(req), password);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return authErrorResponse(error);
+  }
+}
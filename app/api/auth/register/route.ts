@@ -0,0 +1,22 @@
+import { authLinkOrigin, checkAuthRateLimit, quotaExceededResponse, registerUser, sendAuthLink } from "@/lib/auth";
+import { authErrorResponse } from "@/lib/api-errors";
+
+export const runtime = "nodejs";
+
+// Start a registration: the account is created when the emailed confirmation link
+// is opened, and its owner adds a password from that session
+export async function POST(req: Request) {
+  try {
+    const { email } = await req.json();
+    const origin = authLinkOrigin(req);
+    const limit = await checkAuthRateLimit(req, "register", email);
+    if (!limit.allowed) return quotaExceededResponse(limit);
+
+    const { email: to, token } = registerUser(email);
+    await sendAuthLink(to, token, origin, "register");
+    console.log("[Auth] Confirmation link sent to", to);
+    return Response.json({ sent: true }, { status: 202 });
+  } catch (error) {
+    return authErrorResponse(error);
+  }
+}
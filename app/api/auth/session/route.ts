@@ -0,0 +1,17 @@
+import { canAddPassword, getSessionToken, getUserForToken, getUsageSummary, isAuthDisabled } from "@/lib/auth";
+import { unauthorizedResponse } from "@/lib/api-errors";
+
+export const runtime = "nodejs";
+
+// The signed-in user, whether they can add a password, and today's usage against their quotas
+export async function GET(req: Request) {
+  const token = getSessionToken(req);
+  const user = getUserForToken(token);
+  if (!user) return unauthorizedResponse();
+  return Response.json({
+    user,
+    authDisabled: isAuthDisabled(),
+    canAddPassword: canAddPassword(token),
+    usage: await getUsageSummary(user.id),
+  });
+}
@@ -1,4 +1,56 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  getProvider,
+  estimateTokens,
+  type ChatContent,
+  type ContentPart,
+  type FinishReason,
+  type TokenUsage,
+  type ToolCall,
+} from "@/lib/providers";
+import { getSessionUser, checkRequestQuota, recordTokenUsage, quotaExceededResponse } from "@/lib/auth";
+import { unauthorizedResponse } from "@/lib/api-errors";
+import {
+  getContextBudget,
+  planContext,
+  summarizeTurns,
+  summaryInstruction,
+  parseContextSummary,
+  type ContextSummary,
+} from "@/lib/context";
+import { validateChatOptions } from "@/lib/models";
+import { validatePromptOptions, personaInstruction, languageInstruction } from "@/lib/settings";
+import { encodeChatEvent, CHAT_EVENT_CONTENT_TYPE, type ChatEvent } from "@/lib/chat-events";
+import { combineUsage } from "@/lib/usage";
+import { isMediaType } from "@/lib/utils";
+import { getUpload, readUploadAsDataUrl } from "@/lib/upload-store";
+import { ingestPdf, retrieve, formatContext } from "@/lib/rag";
+import {
+  validateSchema,
+  toResponseSchema,
+  extractionInstruction,
+  parseExtraction,
+  type ExtractionSchema,
+} from "@/lib/extraction";
+import {
+  validateComparison,
+  comparisonInstruction,
+  documentLabel,
+  parseComparison,
+  COMPARISON_RESPONSE_SCHEMA,
+} from "@/lib/comparison";
+import {
+  getTools,
+  toolDeclarations,
+  toolsInstruction,
+  runTool,
+  MAX_TOOL_STEPS,
+  MAX_CALLS_PER_STEP,
+  type ToolContext,
+} from "@/lib/tools";
+import { CHART_INSTRUCTION } from "@/lib/charts";
+
+// Excerpts retrieved per extraction request (normal questions use the retrieval default)
+const EXTRACTION_TOP_K = 40;
 
 // API route configuration for larger body size (supports PDF uploads up to 10MB)
 export const config = {
@@ -18,7 +70,10 @@ When analyzing documents:
 4. If the document is an image, describe what you see and answer questions about it
 5. For PDFs, read the content and provide comprehensive analysis
 6. Always be helpful and professional
-7. Think through complex problems step-by-step before answering`;
+7. Think through complex problems step-by-step before answering
+8. When excerpts from uploaded documents are provided, ground your answer in them and say when they do not cover the question
+9. For video and audio, describe what is shown or said and reference timestamps (MM:SS)
+10. When answering from document excerpts, cite the page after each claim as [p.N]; when several documents are in use, write [document name, p.N]`;
 
 // Helper function to get MIME type from file type or data URL
 function getMimeType(fileType: string, base64: string): string {
@@ -28,7 +83,7 @@ function getMimeType(fileType: string, base64: string): string {
   if (fileType === "application/pdf") {
     return "application/pdf";
   }
-  if (fileType.startsWith("video/")) {
+  if (fileType.startsWith("video/") || fileType.startsWith("audio/")) {
     return fileType;
   }
   // Try to detect from data URL prefix
@@ -40,6 +95,11 @@ function getMimeType(fileType: string, base64: string): string {
 
 // Helper function to check file size (base64 encoded size)
 function checkFileSize(base64: string, fileType: string): { valid: boolean; error?: string } {
+  // Video and audio must have been uploaded through /api/media
+  if (isMediaType(fileType)) {
+    return { valid: false, error: "Video and audio files must be uploaded through /api/media before sending." };
+  }
+
   // Calculate approximate original size (base64 is ~33% larger)
   const base64Length = base64.replace(/^data:[^;]+;base64,/, "").length;
   const originalSizeBytes = Math.floor(base64Length * 0.75);
@@ -48,11 +108,7 @@ function checkFileSize(base64: string, fileType: string): { valid: boolean; erro
   // Gemini limits:
   // - Images: ~4.5MB after base64 encoding
   // - PDFs: ~4.5MB after base64 encoding
-  // - Videos: Not supported in inlineData
-
-  if (fileType.startsWith("video/")) {
-    return { valid: false, error: "Videos are not currently supported. Please upload images or PDFs." };
-  }
+  // - Video/audio: referenced by Files API URI instead of inlineData
 
   if (originalSizeMB > 4.5) {
     return {
@@ -65,8 +121,8 @@ function checkFileSize(base64: string, fileType: string): { valid: boolean; erro
 }
 
 // Helper function to convert Vercel AI SDK message format to Google Gemini format
-function buildGoogleGenAIPrompt(messages: any[]) {
-  const contents: any[] = [];
+function buildGoogleGenAIPrompt(messages: any[]): ChatContent[] {
+  const contents: ChatContent[] = [];
 
   // Convert messages (assistant → model for Gemini)
   for (const message of messages) {
@@ -80,6 +136,14 @@ function buildGoogleGenAIPrompt(messages: any[]) {
         for (const part of message.content) {
           if (part.type === "text") {
             parts.push({ text: part.text });
+          } else if (part.type === "file") {
+            // Media uploaded through the Files API is referenced by URI
+            parts.push({
+              fileData: {
+                mimeType: getMimeType(part.fileType || "", ""),
+                fileUri: part.fileUri,
+              },
+            });
           } else if (part.type === "image") {
             // Extract base64 data from data URL
             const base64Data = part.image.includes("base64,")
@@ -112,24 +176,216 @@ function buildGoogleGenAIPrompt(messages: any[]) {
   return contents;
 }
 
+// Helper function to load uploaded files by ID from the upload store
+async function resolveUploads(ids: string[]): Promise<{ resolved: any[]; missing: string[] }> {
+  const resolved: any[] = [];
+  const missing: string[] = [];
+  for (const id of ids) {
+    const upload = await getUpload(id);
+    const base64 = upload && (await readUploadAsDataUrl(id));
+    if (upload && base64) {
+      resolved.push({ id, name: upload.name, type: upload.type, base64 });
+    } else {
+      missing.push(id);
+    }
+  }
+  return { resolved, missing };
+}
+
+// Helper function to ingest PDFs for retrieval; returns the files that still need
+// to be sent inline and the IDs of the indexed documents
+async function ingestFiles(chatId: string, files: any[]): Promise<{ inline: any[]; documentIds: string[] }> {
+  const inline: any[] = [];
+  const documentIds: string[] = [];
+  for (const file of files) {
+    if (file.fileUri || getMimeType(file.type || "", file.base64) !== "application/pdf") {
+      inline.push(file);
+      continue;
+    }
+    try {
+      const result = await ingestPdf(chatId, file);
+      console.log("[API] Indexed", file.name, "-", result.chunks, "chunks from", result.pages, "pages");
+      if (result.indexed) {
+        documentIds.push(result.documentId);
+      } else {
+        inline.push(file);
+      }
+    } catch (e) {
+      console.error("[API] Failed to index", file.name, e);
+      inline.push(file);
+    }
+  }
+  return { inline, documentIds };
+}
+
+// Helper function to prepend excerpts retrieved from the given documents to the last user message
+async function addRetrievedContext(chatId: string, documentIds: string[], messages: any[], topK?: number): Promise<any[]> {
+  const lastUserMessageIndex = messages.findLastIndex((m: any) => m.role === "user");
+  if (lastUserMessageIndex === -1) return messages;
+
+  const userMessage = messages[lastUserMessageIndex];
+  const query = typeof userMessage.content === "string"
+    ? userMessage.content
+    : (userMessage.content || [])
+        .filter((part: any) => part.type === "text")
+        .map((part: any) => part.text)
+        .join("\n");
+
+  try {
+    const results = await retrieve(chatId, query, { documentIds, topK });
+    if (results.length === 0) return messages;
+    console.log("[API] Retrieved", results.length, "chunks for context");
+
+    const contextPart = { type: "text", text: formatContext(results) };
+    const content = typeof userMessage.content === "string"
+      ? [contextPart, { type: "text", text: userMessage.content }]
+      : [contextPart, ...userMessage.content];
+
+    const updated = [...messages];
+    updated[lastUserMessageIndex] = { ...userMessage, content };
+    return updated;
+  } catch (e) {
+    console.error("[API] Retrieval failed, continuing without context:", e);
+    return messages;
+  }
+}
+
 export async function POST(req: Request) {
   try {
     console.log("[API] Chat request received");
-    const { messages, files } = await req.json();
+
+    // Every request is made by a signed-in user and counts against their limits
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    const quota = await checkRequestQuota(user.id);
+    if (!quota.allowed) {
+      console.log("[API] Quota exceeded for", user.email, "-", quota.kind);
+      return quotaExceededResponse(quota);
+    }
+
+    const {
+      messages,
+      files,
+      fileIds,
+      chatId,
+      model,
+      generationConfig,
+      extraction,
+      comparison,
+      summary,
+      persona,
+      responseLanguage,
+    } = await req.json();
 
     console.log("[API] Messages:", messages.length);
-    console.log("[API] Files:", files ? "Yes" : "No");
+    console.log("[API] Files:", files || fileIds?.length ? "Yes" : "No");
+
+    // Validate the requested model and settings against the allowlist
+    const options = validateChatOptions(model, generationConfig);
+    if (!options.valid) {
+      return new Response(
+        JSON.stringify({
+          error: options.error,
+          details: "Choose a supported model and keep generation settings within range.",
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // The chat's persona and the answer language from the user's settings
+    const promptOptions = validatePromptOptions(persona, responseLanguage);
+    if (!promptOptions.valid) {
+      return new Response(
+        JSON.stringify({
+          error: promptOptions.error,
+          details: "Edit the persona or language in Settings and try again.",
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Extraction mode: the model answers with JSON rows matching the user's schema
+    let extractionSchema: ExtractionSchema | undefined;
+    if (extraction) {
+      const checked = validateSchema(extraction.schema);
+      if (!checked.valid) {
+        return new Response(
+          JSON.stringify({
+            error: checked.error,
+            details: "Fix the extraction fields and try again.",
+          }),
+          { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+      }
+      extractionSchema = checked.schema;
+    }
+
+    // Compare mode: two of the sent files, labelled A and B, are compared clause by clause
+    let compareRefs: { a: string; b: string } | undefined;
+    if (comparison) {
+      const checked = validateComparison(comparison);
+      if (!checked.valid || extractionSchema) {
+        return new Response(
+          JSON.stringify({
+            error: checked.valid ? "A request can extract data or compare documents, not both" : checked.error,
+            details: "Pick two different documents as A and B and try again.",
+          }),
+          { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+      }
+      compareRefs = checked.refs;
+    }
+    // Names of the compared documents, once their files are found below
+    let compareNames: { a: string; b: string } | undefined;
 
     // Enhance messages with file attachments
     let enhancedMessages = [...messages];
+    // Documents this turn may draw excerpts from: the chat's enabled PDFs, re-sent every turn
+    let indexedDocumentIds: string[] = [];
+
+    // Files referenced by upload ID (see /api/uploads); expired IDs must be re-uploaded
+    let uploadedFiles: any[] = [];
+    if (Array.isArray(fileIds) && fileIds.length > 0) {
+      const { resolved, missing } = await resolveUploads(fileIds);
+      if (missing.length > 0) {
+        return new Response(
+          JSON.stringify({
+            error: "Some uploaded files have expired",
+            details: "Re-upload the files and try again.",
+            missingFileIds: missing,
+          }),
+          { status: 410, headers: { "Content-Type": "application/json" } }
+        );
+      }
+      uploadedFiles = resolved;
+    }
 
-    if (files) {
+    if (files || uploadedFiles.length > 0) {
       try {
-        const parsedFiles = JSON.parse(files);
+        let parsedFiles = [...(files ? JSON.parse(files) : []), ...uploadedFiles];
         console.log("[API] Processing", parsedFiles.length, "files");
 
-        // Validate file sizes before processing
+        if (compareRefs) {
+          // Both documents are sent whole and labelled; clause-by-clause comparison
+          // needs all of them, not the excerpts retrieval would pick
+          const { a, b } = compareRefs;
+          const fileRef = (file: any) => file.id || file.fileUri || file.name;
+          const fileA = parsedFiles.find((file) => fileRef(file) === a);
+          const fileB = parsedFiles.find((file) => fileRef(file) === b);
+          // Missing documents are reported below
+          parsedFiles = fileA && fileB ? [{ ...fileA, label: "A" }, { ...fileB, label: "B" }] : [];
+          if (fileA && fileB) compareNames = { a: fileA.name, b: fileB.name };
+        } else if (chatId) {
+          // Index PDFs into the chat's vector store; indexed PDFs are answered from
+          // retrieved excerpts instead of being inlined, other files stay inline
+          const ingested = await ingestFiles(chatId, parsedFiles);
+          parsedFiles = ingested.inline;
+          indexedDocumentIds = ingested.documentIds;
+        }
+
+        // Validate sizes of what will be inlined (uploaded media is already on Google's side)
         for (const file of parsedFiles) {
+          if (file.fileUri) continue;
           const sizeCheck = checkFileSize(file.base64, file.type);
           if (!sizeCheck.valid) {
             throw new Error(sizeCheck.error);
@@ -143,11 +399,17 @@ export async function POST(req: Request) {
 
         if (lastUserMessageIndex !== -1 && parsedFiles.length > 0) {
           const userMessage = enhancedMessages[lastUserMessageIndex];
-          const fileParts = parsedFiles.map((file: any) => ({
-            type: "image",
-            image: file.base64,
-            fileType: file.type, // Include file type for proper MIME detection
-          }));
+          // Each file is preceded by its name (and A/B label when comparing) so the model can tell them apart
+          const fileParts = parsedFiles.flatMap((file: any) => [
+            { type: "text", text: documentLabel(file.name || "Untitled", file.label) },
+            file.fileUri
+              ? { type: "file", fileUri: file.fileUri, fileType: file.type }
+              : {
+                  type: "image",
+                  image: file.base64,
+                  fileType: file.type, // Include file type for proper MIME detection
+                },
+          ]);
 
           enhancedMessages[lastUserMessageIndex] = {
             ...userMessage,
@@ -163,68 +425,250 @@ export async function POST(req: Request) {
         return new Response(
           JSON.stringify({
             error: errorMessage,
-            details: "Please check the file size and type. Max size is 4.5MB for PDFs and images.",
+            details: "Please check the file size and type. Max size is 4.5MB for PDFs and images; video and audio are uploaded separately.",
           }),
           { status: 400, headers: { "Content-Type": "application/json" } }
         );
       }
     }
 
-    // Initialize Google Generative AI
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      throw new Error("GEMINI_API_KEY is not set");
+    if (compareRefs && !compareNames) {
+      return new Response(
+        JSON.stringify({
+          error: "The documents to compare were not sent with the request",
+          details: "Pick two documents as A and B and try again.",
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
     }
 
-    const genAI = new GoogleGenerativeAI(apiKey);
+    // Ground the latest question in retrieved document excerpts
+    if (chatId && indexedDocumentIds.length > 0) {
+      // Extraction needs every matching record, so it draws on many more excerpts
+      enhancedMessages = await addRetrievedContext(
+        chatId,
+        indexedDocumentIds,
+        enhancedMessages,
+        extractionSchema ? EXTRACTION_TOP_K : undefined
+      );
+    }
 
-    const model = genAI.getGenerativeModel({
-      model: "gemini-2.5-flash",
-      systemInstruction: systemPrompt,
-    });
+    const provider = getProvider();
+
+    // Abandon the model stream when the client disconnects or cancels the response body
+    const abortController = new AbortController();
+    req.signal.addEventListener("abort", () => abortController.abort());
 
-    console.log("[API] Starting stream with model");
+    // Tools for normal questions; extraction and comparison answer in JSON mode,
+    // which Gemini does not combine with function calling
+    const toolContext: ToolContext = { chatId, documentIds: indexedDocumentIds };
+    const tools = extractionSchema || compareNames ? [] : getTools(toolContext);
+    const declarations = tools.length > 0 ? toolDeclarations(tools) : undefined;
+
+    // Base rules first, then the user's persona and language, then the extraction
+    // or comparison format, which nothing before it may override
+    const baseInstruction = [
+      systemPrompt,
+      tools.length > 0 && toolsInstruction(tools),
+      !extractionSchema && !compareNames && CHART_INSTRUCTION,
+      promptOptions.persona && personaInstruction(promptOptions.persona),
+      promptOptions.responseLanguage && languageInstruction(promptOptions.responseLanguage),
+      extractionSchema && extractionInstruction(extractionSchema),
+      compareNames && comparisonInstruction(compareNames.a, compareNames.b),
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+
+    // Keep the prompt within the model's budget, summarizing older turns when it is not
+    const budget = getContextBudget(options.model);
+    const fixedTokens = estimateTokens(baseInstruction) + (declarations ? estimateTokens(JSON.stringify(declarations)) : 0);
+    const plan = planContext(enhancedMessages, parseContextSummary(summary), budget, fixedTokens);
+    let contextSummary = plan.summary;
+    let newSummary: { summary: ContextSummary; usage?: TokenUsage } | undefined;
+    // Older turns are dropped only once a summary replaces them. Summaries point at
+    // message IDs, so clients that send none are not compacted.
+    enhancedMessages = [...plan.older, ...plan.messages];
+    if (plan.older.length > 0 && typeof plan.older[plan.older.length - 1].id === "string") {
+      console.log("[API] About", plan.estimatedTokens, "tokens exceeds the budget of", budget, "- summarizing", plan.older.length, "messages");
+      try {
+        const result = await summarizeTurns(provider, options.model.id, plan.summary, plan.older, abortController.signal);
+        contextSummary = {
+          content: result.content,
+          throughMessageId: plan.older[plan.older.length - 1].id,
+          summarizedCount: (plan.summary?.summarizedCount || 0) + plan.older.length,
+        };
+        newSummary = { summary: contextSummary, usage: result.usage };
+        enhancedMessages = plan.messages;
+        if (result.usage) await recordTokenUsage(user.id, result.usage.totalTokens);
+      } catch (e) {
+        // Send the full history instead; the model may still accept it
+        console.error("[API] Summarizing history failed:", e);
+      }
+    }
+
+    console.log("[API] Starting stream with provider:", provider.id, "model:", options.model.id);
 
     // Build prompt in Google Gemini format
     const contents = buildGoogleGenAIPrompt(enhancedMessages);
 
-    // Generate content stream with thinking config
-    const geminiStream = await model.generateContentStream({
-      contents,
-      generationConfig: {
-        temperature: 0.7,
-        topP: 0.95,
-        topK: 40,
-        maxOutputTokens: 8192,
-      },
-    });
+    const streamStep = (stepContents: ChatContent[], allowTools: boolean) =>
+      provider.streamText({
+        signal: abortController.signal,
+        model: options.model.id,
+        systemInstruction: contextSummary ? `${baseInstruction}\n\n${summaryInstruction(contextSummary)}` : baseInstruction,
+        contents: stepContents,
+        generationConfig: {
+          ...options.settings,
+          topK: 40,
+          ...(extractionSchema
+            ? { responseMimeType: "application/json", responseSchema: toResponseSchema(extractionSchema.fields) }
+            : {}),
+          ...(compareNames ? { responseMimeType: "application/json", responseSchema: COMPARISON_RESPONSE_SCHEMA } : {}),
+        },
+        tools: declarations,
+        toolChoice: declarations ? (allowTools ? "auto" : "none") : undefined,
+      });
 
-    console.log("[API] Stream created, returning response");
+    console.log("[API] Starting response stream");
 
-    // Create a plain ReadableStream for maximum compatibility
+    // Stream typed NDJSON events so the client can tell text from usage,
+    // finish reasons, safety blocks, tool steps and errors
     const stream = new ReadableStream({
       async start(controller) {
         const encoder = new TextEncoder();
+        const send = (event: ChatEvent) => controller.enqueue(encoder.encode(encodeChatEvent(event)));
+        let fullText = "";
+        let usageRecorded = false;
         try {
-          for await (const chunk of geminiStream.stream) {
-            const text = chunk.text();
-            if (text) {
-              controller.enqueue(encoder.encode(text));
+          if (newSummary) send({ type: "summary", ...newSummary });
+
+          // Agent loop: while the model calls tools, run them and send the results
+          // back, for at most MAX_TOOL_STEPS rounds; the round after that must answer
+          let stepContents = contents;
+          let usage: TokenUsage | undefined;
+          let finish: { reason: FinishReason; rawReason?: string } | undefined;
+          for (let step = 0; ; step++) {
+            const allowTools = Boolean(declarations) && step < MAX_TOOL_STEPS;
+            let stepText = "";
+            const calls: ToolCall[] = [];
+            for await (const chunk of streamStep(stepContents, allowTools)) {
+              if (abortController.signal.aborted) break;
+              if (chunk.type === "text") {
+                fullText += chunk.text;
+                stepText += chunk.text;
+                send({ type: "delta", text: chunk.text });
+              } else if (chunk.type === "usage") {
+                usageRecorded = true;
+                usage = combineUsage(usage, chunk.usage);
+                await recordTokenUsage(user.id, chunk.usage.totalTokens);
+              } else if (chunk.type === "toolCall") {
+                calls.push({ ...chunk.call, id: chunk.call.id || `call-${step}-${calls.length}` });
+              } else if (chunk.type === "finish") {
+                finish = chunk;
+              }
+            }
+            if (abortController.signal.aborted || !allowTools || calls.length === 0 || finish?.reason === "safety") break;
+
+            console.log("[API] Step", step + 1, "- running", calls.length, "tool calls");
+            const results: ContentPart[] = [];
+            for (const [i, call] of calls.entries()) {
+              send({ type: "toolCall", id: call.id!, name: call.name, args: call.args });
+              const outcome =
+                i < MAX_CALLS_PER_STEP
+                  ? await runTool(call, tools, toolContext)
+                  : { error: `Too many tool calls at once; make at most ${MAX_CALLS_PER_STEP}` };
+              send({ type: "toolResult", id: call.id!, ...outcome });
+              results.push({
+                functionResponse: {
+                  id: call.id,
+                  name: call.name,
+                  response: "result" in outcome ? outcome.result : { error: outcome.error },
+                },
+              });
+            }
+            stepContents = [
+              ...stepContents,
+              { role: "model", parts: [...(stepText ? [{ text: stepText }] : []), ...calls.map((call) => ({ functionCall: call }))] },
+              { role: "user", parts: results },
+            ];
+          }
+
+          if (usage) send({ type: "usage", usage });
+          if (finish && !abortController.signal.aborted) {
+            console.log("[API] Finish reason:", finish.rawReason || finish.reason);
+            if (finish.reason === "safety") {
+              send({
+                type: "safety",
+                reason: finish.rawReason,
+                message: "The response was blocked by the model's safety filters.",
+              });
+            } else if (extractionSchema) {
+              try {
+                const { rows, warnings } = parseExtraction(fullText, extractionSchema);
+                console.log("[API] Extracted", rows.length, "rows,", warnings.length, "warnings");
+                send({ type: "extraction", rows, warnings });
+              } catch (e) {
+                send({
+                  type: "error",
+                  message:
+                    finish.reason === "length"
+                      ? "The extraction was cut off before it finished. Raise Max tokens or narrow the question."
+                      : e instanceof Error ? e.message : "Could not read the extracted data",
+                });
+              }
+            } else if (compareNames) {
+              try {
+                const { summary, rows, warnings } = parseComparison(fullText);
+                console.log("[API] Compared", rows.length, "clauses,", warnings.length, "warnings");
+                send({ type: "comparison", summary, rows, warnings });
+              } catch (e) {
+                send({
+                  type: "error",
+                  message:
+                    finish.reason === "length"
+                      ? "The comparison was cut off before it finished. Raise Max tokens or ask about fewer clauses."
+                      : e instanceof Error ? e.message : "Could not read the comparison",
+                });
+              }
             }
+            send({ type: "finish", reason: finish.reason });
+          }
+          if (abortController.signal.aborted) {
+            console.log("[API] Stream cancelled by client");
+            return;
           }
           console.log("[API] Stream finished successfully");
         } catch (error) {
+          if (abortController.signal.aborted) {
+            console.log("[API] Stream cancelled by client");
+            return;
+          }
           console.error("[API] Stream error:", error);
-          controller.error(error);
+          send({
+            type: "error",
+            message: error instanceof Error ? error.message : "The model stream failed unexpectedly",
+          });
         } finally {
-          controller.close();
+          // Cancelled streams end before the provider reports usage; count what was generated
+          if (!usageRecorded) {
+            await recordTokenUsage(user.id, estimateTokens(fullText)).catch((e) =>
+              console.error("[API] Failed to record usage:", e)
+            );
+          }
+          // The controller is already closed if the client cancelled the body
+          try {
+            controller.close();
+          } catch {}
         }
       },
+      cancel() {
+        abortController.abort();
+      },
     });
 
     return new Response(stream, {
       headers: {
-        "Content-Type": "text/plain; charset=utf-8",
+        "Content-Type": CHAT_EVENT_CONTENT_TYPE,
         "Cache-Control": "no-cache",
         "Connection": "keep-alive",
       },
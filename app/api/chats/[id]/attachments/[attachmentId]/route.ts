@@ -0,0 +1,32 @@
+import { deleteAttachment, listAttachments, saveAttachment, validateDocument } from "@/lib/chat-store";
+import { errorResponse, storeErrorResponse, unauthorizedResponse } from "@/lib/api-errors";
+import { getSessionUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+type Context = { params: Promise<{ id: string; attachmentId: string }> };
+
+// Rename or include/exclude a document
+export async function PATCH(req: Request, { params }: Context) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    const { id, attachmentId } = await params;
+    const current = listAttachments(user.id, id)?.find((a) => a.id === attachmentId);
+    if (!current) return errorResponse(404, "Attachment not found");
+    return Response.json(saveAttachment(user.id, id, validateDocument({ ...current, ...(await req.json()), id: attachmentId })));
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
+
+export async function DELETE(req: Request, { params }: Context) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    const { id, attachmentId } = await params;
+    return deleteAttachment(user.id, id, attachmentId) ? new Response(null, { status: 204 }) : errorResponse(404, "Attachment not found");
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
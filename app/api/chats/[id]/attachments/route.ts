@@ -0,0 +1,32 @@
+import { listAttachments, saveAttachment, validateDocument } from "@/lib/chat-store";
+import { errorResponse, storeErrorResponse, unauthorizedResponse } from "@/lib/api-errors";
+import { getSessionUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+type Context = { params: Promise<{ id: string }> };
+
+// The chat's document set (metadata only; contents stay with the client and upload store)
+export async function GET(req: Request, { params }: Context) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    const { id } = await params;
+    const attachments = listAttachments(user.id, id);
+    return attachments ? Response.json({ attachments }) : errorResponse(404, "Chat not found");
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
+
+export async function POST(req: Request, { params }: Context) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    const { id } = await params;
+    const attachment = saveAttachment(user.id, id, validateDocument(await req.json()));
+    return attachment ? Response.json(attachment, { status: 201 }) : errorResponse(404, "Chat not found");
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { deleteMessage, updateMessage } from "@/lib/chat-store";
+import { errorResponse, storeErrorResponse, unauthorizedResponse } from "@/lib/api-errors";
+import { getSessionUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+type Context = { params: Promise<{ id: string; messageId: string }> };
+
+// Update a message's content or fields (e.g. edited extraction rows)
+export async function PATCH(req: Request, { params }: Context) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    const { id, messageId } = await params;
+    const message = updateMessage(user.id, id, messageId, await req.json());
+    return message ? Response.json(message) : errorResponse(404, "Message not found");
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
+
+// Delete a message together with every reply below it
+export async function DELETE(req: Request, { params }: Context) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    const { id, messageId } = await params;
+    const deleted = deleteMessage(user.id, id, messageId);
+    return deleted > 0 ? Response.json({ deleted }) : errorResponse(404, "Message not found");
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { addMessage, getChat, validateMessage } from "@/lib/chat-store";
+import { errorResponse, storeErrorResponse, unauthorizedResponse } from "@/lib/api-errors";
+import { getSessionUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+type Context = { params: Promise<{ id: string }> };
+
+// All messages of the chat's tree, in creation order, with the selected branch
+export async function GET(req: Request, { params }: Context) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    const { id } = await params;
+    const chat = getChat(user.id, id);
+    return chat ? Response.json({ messages: chat.tree.nodes, selected: chat.tree.selected }) : errorResponse(404, "Chat not found");
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
+
+// Add a message under its parentId; it becomes the selected branch
+export async function POST(req: Request, { params }: Context) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    const { id } = await params;
+    const message = addMessage(user.id, id, validateMessage(await req.json()));
+    return message ? Response.json(message, { status: 201 }) : errorResponse(404, "Chat not found");
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
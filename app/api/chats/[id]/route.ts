@@ -0,0 +1,55 @@
+import { deleteChat, getChat, saveChat, updateChat, validateChat } from "@/lib/chat-store";
+import { errorResponse, storeErrorResponse, unauthorizedResponse } from "@/lib/api-errors";
+import { getSessionUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+type Context = { params: Promise<{ id: string }> };
+
+export async function GET(req: Request, { params }: Context) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    const { id } = await params;
+    const chat = getChat(user.id, id);
+    return chat ? Response.json(chat) : errorResponse(404, "Chat not found");
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
+
+// Create or replace the whole chat (used by the client's autosave and migration)
+export async function PUT(req: Request, { params }: Context) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    const { id } = await params;
+    return Response.json(saveChat(user.id, validateChat(await req.json(), id)));
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
+
+// Update title (a rename), model, generation settings, pin, tags or folder
+export async function PATCH(req: Request, { params }: Context) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    const { id } = await params;
+    const chat = updateChat(user.id, id, await req.json());
+    return chat ? Response.json(chat) : errorResponse(404, "Chat not found");
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
+
+export async function DELETE(req: Request, { params }: Context) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    const { id } = await params;
+    return deleteChat(user.id, id) ? new Response(null, { status: 204 }) : errorResponse(404, "Chat not found");
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
@@ -0,0 +1,44 @@
+import { deleteAllChats, getChat, listChats, listFullChats, saveChat, validateChat } from "@/lib/chat-store";
+import { errorResponse, storeErrorResponse, unauthorizedResponse } from "@/lib/api-errors";
+import { getSessionUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+// List chats, newest first. Summaries by default; ?full=1 returns complete chats
+// (message trees and document sets) for clients syncing their offline cache.
+export async function GET(req: Request) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    const full = new URL(req.url).searchParams.get("full") === "1";
+    return Response.json({ chats: full ? listFullChats(user.id) : listChats(user.id) });
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
+
+// Create a chat from a full ChatHistory body
+export async function POST(req: Request) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    const chat = validateChat(await req.json());
+    if (getChat(user.id, chat.id)) {
+      return errorResponse(409, `Chat ${chat.id} already exists`, "Use PUT /api/chats/{id} to replace it.");
+    }
+    return Response.json(saveChat(user.id, chat), { status: 201 });
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
+
+// Delete every chat
+export async function DELETE(req: Request) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    return Response.json({ deleted: deleteAllChats(user.id) });
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
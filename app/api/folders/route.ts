@@ -0,0 +1,28 @@
+import { listFolders, saveFolders, validateFolders } from "@/lib/chat-store";
+import { storeErrorResponse, unauthorizedResponse } from "@/lib/api-errors";
+import { getSessionUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+// The user's chat folders in sidebar order
+export async function GET(req: Request) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    return Response.json({ folders: listFolders(user.id) });
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
+
+// Replace the folder list ({ folders: [{ id, name }] }); chats in removed folders are unfiled
+export async function PUT(req: Request) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    const body = await req.json();
+    return Response.json({ folders: saveFolders(user.id, validateFolders(body?.folders)) });
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
@@ -0,0 +1,87 @@
+import { uploadFile, waitForFileActive } from "@/lib/gemini-files";
+import { isMediaType } from "@/lib/utils";
+import { checkRequestQuota, getSessionUser, quotaExceededResponse } from "@/lib/auth";
+import { unauthorizedResponse } from "@/lib/api-errors";
+
+// Uploading and processing long recordings can take minutes
+export const maxDuration = 300;
+
+// Gemini Files API limit per file
+const MAX_MEDIA_SIZE = 2 * 1024 * 1024 * 1024;
+
+// Streams a video or audio file (raw request body) to the Gemini Files API,
+// waits for processing to finish and returns the file URI to reference in prompts.
+//
+// Headers: Content-Type (the media type), Content-Length, X-File-Name (URI-encoded)
+export async function POST(req: Request) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+
+    const mimeType = (req.headers.get("content-type") || "").split(";")[0].trim();
+    const size = Number(req.headers.get("content-length"));
+    let displayName = "media";
+    try {
+      displayName = decodeURIComponent(req.headers.get("x-file-name") || "media");
+    } catch {
+      // A malformed name is not worth failing the upload over
+    }
+
+    console.log("[Media] Upload received:", displayName, mimeType, size, "bytes");
+
+    if (!isMediaType(mimeType)) {
+      return new Response(
+        JSON.stringify({
+          error: `Unsupported media type: ${mimeType || "unknown"}`,
+          details: "Only video and audio files are uploaded through this endpoint.",
+        }),
+        { status: 415, headers: { "Content-Type": "application/json" } }
+      );
+    }
+    if (!Number.isFinite(size) || size <= 0 || size > MAX_MEDIA_SIZE || !req.body) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid or missing file size",
+          details: "Media files must be between 1 byte and 2GB.",
+        }),
+        { status: 413, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Each upload is a call on the API key, so it counts like a chat request
+    const quota = await checkRequestQuota(user.id);
+    if (!quota.allowed) {
+      console.log("[Media] Quota exceeded for", user.email, "-", quota.kind);
+      return quotaExceededResponse(quota);
+    }
+
+    // The stand-in server used for local runs and tests accepts any key
+    const apiKey = process.env.GEMINI_API_KEY || (process.env.GEMINI_FILES_BASE_URL ? "stub" : "");
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY is not set");
+    }
+
+    const options = { apiKey, signal: req.signal };
+    const uploaded = await uploadFile(req.body, { size, mimeType, displayName }, options);
+    console.log("[Media] Uploaded as", uploaded.name, "- waiting for processing");
+
+    const file = await waitForFileActive(uploaded.name, options);
+    console.log("[Media] File ready:", file.uri);
+
+    return Response.json({
+      name: file.name,
+      uri: file.uri,
+      mimeType: file.mimeType || mimeType,
+      displayName,
+    });
+  } catch (error) {
+    console.error("[Media] Upload error:", error);
+    return new Response(
+      JSON.stringify({
+        error: "Failed to upload media",
+        details: error instanceof Error ? error.message : "Unknown error",
+      }),
+      { status: 502, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { deleteTemplate, updateTemplate, validateTemplate } from "@/lib/template-store";
+import { errorResponse, storeErrorResponse, unauthorizedResponse } from "@/lib/api-errors";
+import { getSessionUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+type Context = { params: Promise<{ id: string }> };
+
+// Replace one of the user's own templates; shared templates of other accounts are read-only
+export async function PUT(req: Request, { params }: Context) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    const { id } = await params;
+    const template = updateTemplate(user.id, id, validateTemplate(await req.json()));
+    return template ? Response.json(template) : errorResponse(404, "Template not found");
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
+
+export async function DELETE(req: Request, { params }: Context) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    const { id } = await params;
+    return deleteTemplate(user.id, id) ? new Response(null, { status: 204 }) : errorResponse(404, "Template not found");
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
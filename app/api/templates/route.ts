@@ -0,0 +1,27 @@
+import { createTemplate, listTemplates, validateTemplate } from "@/lib/template-store";
+import { storeErrorResponse, unauthorizedResponse } from "@/lib/api-errors";
+import { getSessionUser } from "@/lib/auth";
+
+export const runtime = "nodejs";
+
+// The user's prompt templates and those other accounts shared
+export async function GET(req: Request) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    return Response.json({ templates: listTemplates(user.id) });
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
+
+// Create a template ({ title, description, icon, body, featured, shared }); the server picks its ID
+export async function POST(req: Request) {
+  try {
+    const user = getSessionUser(req);
+    if (!user) return unauthorizedResponse();
+    return Response.json(createTemplate(user.id, validateTemplate(await req.json())), { status: 201 });
+  } catch (error) {
+    return storeErrorResponse(error);
+  }
+}
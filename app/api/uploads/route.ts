@@ -0,0 +1,91 @@
+import busboy from "busboy";
+import { Readable } from "stream";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import { saveUpload, sweepExpiredUploads, UploadTooLargeError, type StoredUpload } from "@/lib/upload-store";
+import { isMediaType } from "@/lib/utils";
+import { getSessionUser } from "@/lib/auth";
+import { unauthorizedResponse } from "@/lib/api-errors";
+
+export const runtime = "nodejs";
+
+// Per-file limit for documents and images. Text PDFs are indexed rather than
+// inlined, so they may exceed the 4.5MB inline limit enforced by /api/chat.
+const MAX_UPLOAD_SIZE = 50 * 1024 * 1024;
+const MAX_FILES = 10;
+
+// Helper function to stream multipart parts into the upload store
+function parseMultipart(req: Request): Promise<StoredUpload[]> {
+  return new Promise((resolve, reject) => {
+    const parser = busboy({
+      headers: Object.fromEntries(req.headers),
+      limits: { files: MAX_FILES, fileSize: MAX_UPLOAD_SIZE + 1 },
+    });
+    const saves: Promise<StoredUpload>[] = [];
+    let failed = false;
+
+    const fail = (error: unknown) => {
+      if (failed) return;
+      failed = true;
+      reject(error);
+    };
+
+    parser.on("file", (_field, stream, info) => {
+      const type = info.mimeType || "application/octet-stream";
+      if (isMediaType(type)) {
+        stream.resume();
+        fail(new Error(`${info.filename}: video and audio are uploaded through /api/media`));
+        return;
+      }
+
+      const save = saveUpload(stream, { name: info.filename || "upload", type }, MAX_UPLOAD_SIZE);
+      save.catch(fail);
+      saves.push(save);
+    });
+    parser.on("filesLimit", () => fail(new Error(`At most ${MAX_FILES} files per upload`)));
+    parser.on("error", fail);
+    parser.on("close", () => {
+      Promise.all(saves).then(resolve, fail);
+    });
+
+    Readable.fromWeb(req.body as NodeReadableStream<Uint8Array>).on("error", fail).pipe(parser);
+  });
+}
+
+// Accepts multipart/form-data uploads (any number of file fields), streams them
+// into the content-addressed store and returns their IDs for /api/chat `fileIds`.
+export async function POST(req: Request) {
+  try {
+    if (!getSessionUser(req)) return unauthorizedResponse();
+
+    const contentType = req.headers.get("content-type") || "";
+    if (!contentType.startsWith("multipart/form-data") || !req.body) {
+      return new Response(
+        JSON.stringify({
+          error: "Expected a multipart/form-data body",
+          details: "Send files as form fields, e.g. FormData.append(\"file\", file).",
+        }),
+        { status: 415, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const uploads = await parseMultipart(req);
+    console.log("[Uploads] Stored", uploads.map((u) => `${u.name} (${u.id.slice(0, 12)})`).join(", "));
+
+    // Opportunistic cleanup; never fails the upload
+    sweepExpiredUploads().catch((e) => console.error("[Uploads] Sweep failed:", e));
+
+    return Response.json({
+      files: uploads.map(({ id, name, type, size, expiresAt }) => ({ id, name, type, size, expiresAt })),
+    });
+  } catch (error) {
+    console.error("[Uploads] Upload error:", error);
+    const tooLarge = error instanceof UploadTooLargeError;
+    return new Response(
+      JSON.stringify({
+        error: tooLarge ? error.message : "Failed to upload files",
+        details: error instanceof Error ? error.message : "Unknown error",
+      }),
+      { status: tooLarge ? 413 : 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
@@ -1,7 +1,10 @@
 import type { Metadata, Viewport } from "next";
 import { Libre_Baskerville, Source_Sans_3 } from "next/font/google";
+import { cookies, headers } from "next/headers";
 import "./globals.css";
 import { Toaster } from "@/components/ui/sonner";
+import I18nProvider from "@/components/i18n-provider";
+import { LOCALE_COOKIE, resolveLocale } from "@/lib/i18n";
 
 const libreBaskerville = Libre_Baskerville({
   subsets: ["latin"],
@@ -31,20 +34,25 @@ export const viewport: Viewport = {
   themeColor: "#E6E8E3",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  // UI language: the one picked in the sidebar, else the browser's
+  const locale = resolveLocale((await cookies()).get(LOCALE_COOKIE)?.value, (await headers()).get("accept-language"));
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body className={`${sourceSans.variable} ${libreBaskerville.variable} font-sans antialiased`}>
-        <div className="flex h-screen bg-paper">
-          {/* Main content - Full width on mobile, rounded on desktop */}
-          <main className="flex-1 w-full md:rounded-l-3xl bg-card-cream overflow-hidden shadow-2xl">
-            {children}
-          </main>
-        </div>
+        <I18nProvider initialLocale={locale}>
+          <div className="flex h-screen bg-paper">
+            {/* Main content - Full width on mobile, rounded on desktop */}
+            <main className="flex-1 w-full md:rounded-l-3xl bg-card-cream overflow-hidden shadow-2xl">
+              {children}
+            </main>
+          </div>
+        </I18nProvider>
         <Toaster />
       </body>
     </html>
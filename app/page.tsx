@@ -1,5 +1,13 @@
+import { cookies } from "next/headers";
 import ChatInterface from "@/components/chat-interface";
+import SignIn from "@/components/sign-in";
+import { SESSION_COOKIE, getUserForToken } from "@/lib/auth";
 
-export default function Home() {
-  return <ChatInterface />;
+export default async function Home({ searchParams }: { searchParams: Promise<{ authError?: string }> }) {
+  const user = getUserForToken((await cookies()).get(SESSION_COOKIE)?.value);
+  if (!user) {
+    const { authError } = await searchParams;
+    return <SignIn linkExpired={authError === "link"} />;
+  }
+  return <ChatInterface userId={user.id} />;
 }
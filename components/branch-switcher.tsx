@@ -0,0 +1,44 @@
+"use client";
+
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { useI18n } from "@/components/i18n-provider";
+
+interface BranchSwitcherProps {
+  // Zero-based position of the shown branch
+  index: number;
+  total: number;
+  disabled?: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+}
+
+// "◀ 2/3 ▶" control for moving between sibling versions of a message
+export default function BranchSwitcher({ index, total, disabled, onPrevious, onNext }: BranchSwitcherProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex items-center gap-0.5 text-xs text-ink/50 select-none">
+      <button
+        type="button"
+        onClick={onPrevious}
+        disabled={disabled || index <= 0}
+        className="p-0.5 rounded hover:text-terra disabled:opacity-30 transition-colors"
+        aria-label={t("message.previousVersion")}
+      >
+        <ChevronLeft className="w-3.5 h-3.5" />
+      </button>
+      <span className="tabular-nums">
+        {index + 1}/{total}
+      </span>
+      <button
+        type="button"
+        onClick={onNext}
+        disabled={disabled || index >= total - 1}
+        className="p-0.5 rounded hover:text-terra disabled:opacity-30 transition-colors"
+        aria-label={t("message.nextVersion")}
+      >
+        <ChevronRight className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+}
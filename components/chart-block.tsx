@@ -0,0 +1,290 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import {
+  ResponsiveContainer,
+  LineChart,
+  BarChart,
+  PieChart,
+  ScatterChart,
+  Line,
+  Bar,
+  Pie,
+  Cell,
+  Scatter,
+  CartesianGrid,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+} from "recharts";
+import { BarChart3, Table2, Download } from "lucide-react";
+import { toast } from "sonner";
+import { cn, downloadFile } from "@/lib/utils";
+import { toCSV } from "@/lib/table-export";
+import { chartTable, type ChartSpec } from "@/lib/charts";
+import { useI18n } from "@/components/i18n-provider";
+
+interface ChartBlockProps {
+  spec: ChartSpec;
+}
+
+// Series colors, starting from the app's accent
+const CHART_COLORS = ["#D99B83", "#2D2D2D", "#8FAE84", "#E8C07D", "#7C9CB8", "#C08A74", "#A58BB0", "#9CA3AF"];
+
+const CHART_HEIGHT = 280;
+
+const compactNumber = new Intl.NumberFormat(undefined, { notation: "compact", maximumFractionDigits: 1 });
+
+// Helper function to format a value for tooltips and the table, with the chart's unit
+function formatValue(value: unknown, unit: string): string {
+  if (typeof value !== "number") return String(value ?? "");
+  const number = value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+  return unit ? `${number} ${unit}` : number;
+}
+
+// Helper function to turn a chart title into a file name
+function fileBaseName(spec: ChartSpec): string {
+  return spec.title.replace(/[^\w\s-]/g, "").trim().replace(/\s+/g, "-").toLowerCase() || "chart";
+}
+
+// Helper function to draw the chart's SVG, with its title and legend, onto a canvas and save it as PNG
+async function downloadPng(container: HTMLElement | null, spec: ChartSpec, legend: { name: string; color: string }[]) {
+  const svg = container?.querySelector("svg.recharts-surface");
+  if (!svg) throw new Error("Chart is not rendered");
+  const { width, height } = svg.getBoundingClientRect();
+
+  const clone = svg.cloneNode(true) as SVGElement;
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+  clone.setAttribute("style", "font-family: system-ui, sans-serif; font-size: 12px");
+  const image = new Image();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = () => reject(new Error("Chart image failed to load"));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(clone))}`;
+  });
+
+  const scale = 2;
+  const padding = 16;
+  const header = (spec.title ? 28 : 0) + (legend.length > 1 ? 22 : 0);
+  const canvas = document.createElement("canvas");
+  canvas.width = (width + padding * 2) * scale;
+  canvas.height = (height + header + padding * 2) * scale;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not available");
+
+  context.scale(scale, scale);
+  context.fillStyle = "#FDFBF7";
+  context.fillRect(0, 0, width + padding * 2, height + header + padding * 2);
+  context.textBaseline = "middle";
+  let y = padding;
+  if (spec.title) {
+    context.fillStyle = "#2D2D2D";
+    context.font = "600 15px system-ui, sans-serif";
+    context.fillText(spec.title, padding, y + 10);
+    y += 28;
+  }
+  if (legend.length > 1) {
+    context.font = "12px system-ui, sans-serif";
+    let x = padding;
+    for (const item of legend) {
+      context.fillStyle = item.color;
+      context.fillRect(x, y + 4, 10, 10);
+      context.fillStyle = "#2D2D2D";
+      context.fillText(item.name, x + 14, y + 9);
+      x += 14 + context.measureText(item.name).width + 16;
+    }
+    y += 22;
+  }
+  context.drawImage(image, padding, y, width, height);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  if (!blob) throw new Error("PNG export failed");
+  downloadFile(`${fileBaseName(spec)}.png`, blob, "image/png");
+}
+
+// A chart from a ```chart block in an answer: interactive chart with tooltips,
+// a toggle to the underlying data table, and PNG/CSV downloads
+export default function ChartBlock({ spec }: ChartBlockProps) {
+  const { t } = useI18n();
+  const [view, setView] = useState<"chart" | "table">("chart");
+  const chartRef = useRef<HTMLDivElement>(null);
+  const table = useMemo(() => chartTable(spec), [spec]);
+
+  // Line and bar charts take one row per label with a key per series
+  const categoryData = useMemo(
+    () =>
+      spec.labels.map((label) => ({
+        label,
+        ...Object.fromEntries(spec.series.map((s, i) => [`s${i}`, s.data.find((point) => point.x === label)?.y ?? null])),
+      })),
+    [spec]
+  );
+
+  // Pie slices skip missing values so colors match between slices, legend and PNG
+  const pieData = spec.series[0].data.filter((point) => point.y !== null);
+  const legend =
+    spec.type === "pie"
+      ? pieData.map((point, i) => ({ name: String(point.x), color: CHART_COLORS[i % CHART_COLORS.length] }))
+      : spec.series.map((s, i) => ({ name: s.name, color: CHART_COLORS[i % CHART_COLORS.length] }));
+
+  const tooltip = (
+    <Tooltip
+      formatter={(value) => formatValue(value, spec.unit)}
+      contentStyle={{ backgroundColor: "#FDFBF7", border: "1px solid rgba(45,45,45,0.1)", borderRadius: 8, fontSize: 12 }}
+    />
+  );
+  const axisProps = { tick: { fontSize: 11, fill: "rgba(45,45,45,0.6)" }, stroke: "rgba(45,45,45,0.2)" };
+  const xAxisLabel = spec.xLabel ? { value: spec.xLabel, position: "insideBottom" as const, offset: -4, fontSize: 11 } : undefined;
+  const yAxisLabel = spec.yLabel ? { value: spec.yLabel, angle: -90, position: "insideLeft" as const, fontSize: 11 } : undefined;
+  const margin = { top: 8, right: 16, bottom: spec.xLabel ? 16 : 4, left: spec.yLabel ? 8 : 0 };
+
+  const renderChart = () => {
+    switch (spec.type) {
+      case "line":
+      case "bar": {
+        const Chart = spec.type === "line" ? LineChart : BarChart;
+        return (
+          <Chart data={categoryData} margin={margin}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(45,45,45,0.08)" />
+            <XAxis dataKey="label" {...axisProps} label={xAxisLabel} />
+            <YAxis {...axisProps} tickFormatter={(value: number) => compactNumber.format(value)} label={yAxisLabel} />
+            {tooltip}
+            {spec.series.length > 1 && <Legend wrapperStyle={{ fontSize: 12 }} verticalAlign="top" />}
+            {spec.series.map((s, i) =>
+              spec.type === "line" ? (
+                <Line
+                  key={s.name}
+                  type="monotone"
+                  dataKey={`s${i}`}
+                  name={s.name}
+                  stroke={CHART_COLORS[i % CHART_COLORS.length]}
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                  connectNulls={false}
+                />
+              ) : (
+                <Bar key={s.name} dataKey={`s${i}`} name={s.name} fill={CHART_COLORS[i % CHART_COLORS.length]} radius={[3, 3, 0, 0]} />
+              )
+            )}
+          </Chart>
+        );
+      }
+      case "pie":
+        return (
+          <PieChart>
+            {tooltip}
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <Pie data={pieData} dataKey="y" nameKey="x" outerRadius="75%" stroke="#FDFBF7">
+              {pieData.map((point, i) => (
+                <Cell key={`${point.x}-${i}`} fill={CHART_COLORS[i % CHART_COLORS.length]} />
+              ))}
+            </Pie>
+          </PieChart>
+        );
+      case "scatter":
+        return (
+          <ScatterChart margin={margin}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(45,45,45,0.08)" />
+            <XAxis type="number" dataKey="x" name={spec.xLabel || "x"} {...axisProps} label={xAxisLabel} />
+            <YAxis
+              type="number"
+              dataKey="y"
+              name={spec.yLabel || "y"}
+              {...axisProps}
+              tickFormatter={(value: number) => compactNumber.format(value)}
+              label={yAxisLabel}
+            />
+            {tooltip}
+            {spec.series.length > 1 && <Legend wrapperStyle={{ fontSize: 12 }} verticalAlign="top" />}
+            {spec.series.map((s, i) => (
+              <Scatter key={s.name} name={s.name} data={s.data} fill={CHART_COLORS[i % CHART_COLORS.length]} />
+            ))}
+          </ScatterChart>
+        );
+    }
+  };
+
+  const savePng = async () => {
+    try {
+      await downloadPng(chartRef.current, spec, legend);
+    } catch (e) {
+      console.error("Chart PNG export failed:", e);
+      toast.error(t("toast.chartPngFailed"));
+    }
+  };
+
+  const buttonClass =
+    "flex items-center gap-1 px-2 py-0.5 rounded-md text-xs font-medium text-ink/70 border border-text-ink/10 hover:border-terra/40 hover:text-terra transition-colors";
+
+  return (
+    <div className="my-2 flex flex-col gap-2 w-full rounded-lg border border-text-ink/10 bg-white/60 p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {spec.title && <p className="text-sm font-serif font-semibold text-ink">{spec.title}</p>}
+        <div className="flex items-center gap-1 ml-auto">
+          <button
+            type="button"
+            onClick={() => setView(view === "chart" ? "table" : "chart")}
+            className={buttonClass}
+            aria-label={view === "chart" ? t("chart.showTable") : t("chart.showChart")}
+          >
+            {view === "chart" ? <Table2 className="w-3.5 h-3.5" /> : <BarChart3 className="w-3.5 h-3.5" />}
+            {view === "chart" ? t("chart.data") : t("chart.chart")}
+          </button>
+          <Download className="w-3.5 h-3.5 text-ink/40 ml-1" />
+          {view === "chart" && (
+            <button
+              type="button"
+              onClick={savePng}
+              className={buttonClass}
+            >
+              PNG
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => downloadFile(`${fileBaseName(spec)}.csv`, toCSV(table.columns, table.rows), "text/csv;charset=utf-8")}
+            className={buttonClass}
+          >
+            CSV
+          </button>
+        </div>
+      </div>
+
+      {view === "chart" ? (
+        <div ref={chartRef} className="w-full" style={{ height: CHART_HEIGHT }}>
+          <ResponsiveContainer width="100%" height="100%">
+            {renderChart()}
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <div className="overflow-auto rounded-lg border border-text-ink/10 bg-white/60" style={{ maxHeight: CHART_HEIGHT }}>
+          <table className="w-full border-collapse text-left text-sm">
+            <thead>
+              <tr className="border-b border-text-ink/10" style={{ backgroundColor: "rgba(217,155,131,0.12)" }}>
+                {table.columns.map((column) => (
+                  <th key={column} className="px-2 py-1.5 text-xs font-semibold text-ink">
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.map((row, i) => (
+                <tr key={i} className="border-b border-text-ink/5 last:border-b-0">
+                  {table.columns.map((column, c) => (
+                    <td key={column} className={cn("px-2 py-1.5 text-ink/80", c > 0 && "tabular-nums")}>
+                      {typeof row[column] === "number" ? formatValue(row[column], "") : String(row[column] ?? "")}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+import { Download, FileText, FileJson, FileCode, Printer } from "lucide-react";
+import { toast } from "sonner";
+import { downloadFile } from "@/lib/utils";
+import { chatFileName, exportChatHTML, exportChatJSON, exportChatMarkdown } from "@/lib/chat-export";
+import type { ChatHistory } from "@/lib/chat-types";
+import { useI18n } from "@/components/i18n-provider";
+
+interface ChatExportMenuProps {
+  chat: ChatHistory;
+}
+
+// Export the open chat as Markdown, JSON or an HTML report (printable to PDF)
+export default function ChatExportMenu({ chat }: ChatExportMenuProps) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const printReport = async () => {
+    // Open the window before any await so popup blockers treat it as user-initiated
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) {
+      toast.error(t("toast.printBlocked"));
+      return;
+    }
+    printWindow.document.write(await exportChatHTML(chat));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  const options = [
+    {
+      label: t("export.markdown"),
+      icon: FileText,
+      run: async () => downloadFile(chatFileName(chat, "md"), exportChatMarkdown(chat), "text/markdown;charset=utf-8"),
+    },
+    {
+      label: t("export.json"),
+      icon: FileJson,
+      run: async () => downloadFile(chatFileName(chat, "json"), exportChatJSON(chat), "application/json"),
+    },
+    {
+      label: t("export.html"),
+      icon: FileCode,
+      run: async () => downloadFile(chatFileName(chat, "html"), await exportChatHTML(chat), "text/html;charset=utf-8"),
+    },
+    { label: t("export.print"), icon: Printer, run: printReport },
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="p-2 bg-card-cream rounded-lg shadow-sm border border-text-ink/10 hover:bg-terra/10 transition-colors"
+        aria-label={t("export.title")}
+        aria-expanded={isOpen}
+        title={t("export.title")}
+      >
+        <Download className="w-5 h-5 text-ink" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-52 rounded-xl bg-card-cream border border-text-ink/10 shadow-md overflow-hidden z-30">
+          {options.map(({ label, icon: Icon, run }) => (
+            <button
+              key={label}
+              onClick={async () => {
+                setIsOpen(false);
+                try {
+                  await run();
+                } catch (error) {
+                  console.error("Export failed:", error);
+                  toast.error(t("toast.exportFailed"));
+                }
+              }}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm text-ink text-left hover:bg-terra/10 transition-colors"
+            >
+              <Icon className="w-4 h-4 text-terra" />
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,100 +1,463 @@
 "use client";
 
-import { useState, useRef, useCallback, FormEvent, useEffect } from "react";
+import { useState, useRef, useCallback, useMemo, FormEvent, useEffect, Fragment } from "react";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { ScrollArea } from "./ui/scroll-area";
 import { Card, CardContent } from "./ui/card";
 import { Sheet } from "./ui/sheet";
 import { Progress } from "./ui/progress";
-import ReactMarkdown from "react-markdown";
 import Sidebar from "./sidebar";
+import { useI18n } from "./i18n-provider";
 import { toast } from "sonner";
-import { Paperclip, Send, Loader2, FileText, Image as ImageIcon, X, BarChart3, Video, Languages, Menu, ArrowRight } from "lucide-react";
-import { fileToBase64 } from "@/lib/utils";
+import { Paperclip, Send, Loader2, FileText, Image as ImageIcon, X, Video, Menu, ArrowRight, Square, Pencil, RefreshCw, AudioLines, Table2, GitCompare } from "lucide-react";
+import { isMediaType, downloadFile } from "@/lib/utils";
+import { uploadFile, uploadMedia, reuploadAttachments } from "@/lib/upload-client";
 import { cn } from "@/lib/utils";
+import { parseChatEventStream } from "@/lib/chat-events";
+import type { FinishReason, TokenUsage } from "@/lib/providers/types";
+import MessageNotice from "./message-notice";
+import BranchSwitcher from "./branch-switcher";
+import {
+  getChatTree,
+  type Message,
+  type AttachedFile,
+  type ChatHistory,
+  type ChatDocument,
+  type ChatFolder,
+  type ChatMetaUpdate,
+} from "@/lib/chat-types";
+import { saveAttachment, getAttachments, deleteAttachment, clearAttachments } from "@/lib/attachment-store";
+import DocumentChips from "./document-chips";
+import DocumentViewer from "./document-viewer";
+import ChatExportMenu from "./chat-export-menu";
+import { exportAllChatsZip, mergeImportedChats, readImportFile } from "@/lib/chat-export";
+import {
+  syncChats,
+  claimChatCache,
+  queueChatSave,
+  deleteChatRemote,
+  deleteAllChatsRemote,
+  flushChatSaves,
+  clearChatCache,
+  loadCachedFolders,
+  queueFoldersSave,
+  syncFolders,
+  newChatId,
+  CHAT_ID_REISSUED_EVENT,
+} from "@/lib/chat-sync";
+import { fetchSession, notifyAccessError, type SessionInfo } from "@/lib/auth-client";
+import MessageUsage from "./message-usage";
+import ContextSummaryDivider from "./context-summary-divider";
+import UsageDashboard from "./usage-dashboard";
+import HistoryBrowser from "./history-browser";
+import SettingsDialog from "./settings-dialog";
+import PersonaPicker from "./persona-picker";
+import TemplateIcon from "./template-icon";
+import TemplatePalette from "./template-palette";
+import TemplateVariablesForm from "./template-variables-form";
+import TemplateLibrary from "./template-library";
+import {
+  BUILTIN_TEMPLATES,
+  searchTemplates,
+  startTemplates,
+  templateVariables,
+  type PromptTemplate,
+  type TemplateDraft,
+} from "@/lib/prompt-templates";
+import { cacheTemplates, deleteTemplate, fetchTemplates, loadCachedTemplates, saveTemplate } from "@/lib/template-client";
+import { DEFAULT_SETTINGS, loadSettings, saveSettings, resolveResponseLanguage, type AppSettings } from "@/lib/settings";
+import { chatUsageTotals, combineUsage, formatCost, formatTokens, loadPrices, savePrices, type PriceTable } from "@/lib/usage";
+import type { ContextSummary } from "@/lib/context";
+import ExtractionTable from "./extraction-table";
+import ExtractionSchemaPicker from "./extraction-schema-picker";
+import { BUILTIN_SCHEMAS, type ExtractionResult, type ExtractionRow, type ExtractionSchema } from "@/lib/extraction";
+import ComparisonTable from "./comparison-table";
+import ToolSteps from "./tool-steps";
+import MarkdownMessage from "./markdown-message";
+import type { ToolStep } from "@/lib/tools/types";
+import ComparisonPicker from "./comparison-picker";
+import { pickComparisonDocuments, type ComparisonResult } from "@/lib/comparison";
+import type { Citation } from "@/lib/citations";
+import { emptyTree, addNode, selectNode, updateNode, getActivePath, getPathTo, getSiblings, type MessageTree } from "@/lib/chat-tree";
+import { DEFAULT_MODEL, DEFAULT_GENERATION_SETTINGS, type GenerationSettings } from "@/lib/models";
 
-interface Message {
-  id: string;
-  role: "user" | "assistant";
-  content: string;
-}
+const STORAGE_KEY = "documind_chats";
+const CURRENT_CHAT_KEY = "documind_current_chat";
 
-interface AttachedFile {
-  id: string;
-  name: string;
-  type: string;
-  base64: string;
+// Helper function to compare what the auto-save writes besides the messages
+function isSameChatState(a: ChatHistory, b: ChatHistory): boolean {
+  return (
+    a.title === b.title &&
+    a.model === b.model &&
+    (a.personaId ?? null) === (b.personaId ?? null) &&
+    JSON.stringify(a.generationSettings) === JSON.stringify(b.generationSettings) &&
+    JSON.stringify(a.documents ?? []) === JSON.stringify(b.documents ?? []) &&
+    JSON.stringify(getChatTree(a).selected) === JSON.stringify(b.tree.selected)
+  );
 }
 
-interface ChatHistory {
-  id: string;
-  title: string;
-  timestamp: number;
-  messages: Message[];
+interface ChatInterfaceProps {
+  // The signed-in user; chats are synced to their account
+  userId: string;
 }
 
-const STORAGE_KEY = "documind_chats";
-const CURRENT_CHAT_KEY = "documind_current_chat";
-
-export default function ChatInterface() {
-  const [messages, setMessages] = useState<Message[]>([]);
+export default function ChatInterface({ userId }: ChatInterfaceProps) {
+  const { t, locale } = useI18n();
+  const [tree, setTree] = useState<MessageTree<Message>>(emptyTree);
+  // Parent of the response being generated; later messages are hidden meanwhile
+  const [generatingFrom, setGeneratingFrom] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState("");
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [streamingContent, setStreamingContent] = useState("");
+  // Tool calls of the answer being streamed
+  const [streamingToolSteps, setStreamingToolSteps] = useState<ToolStep[]>([]);
+  // Files picked for the next message; on send they join the chat's document set
   const [attachedFiles, setAttachedFiles] = useState<AttachedFile[]>([]);
+  const [documents, setDocuments] = useState<ChatDocument[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [chatHistory, setChatHistory] = useState<ChatHistory[]>([]);
+  const [folders, setFolders] = useState<ChatFolder[]>([]);
   const [currentChatId, setCurrentChatId] = useState<string | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isProcessingFile, setIsProcessingFile] = useState(false);
+  const [model, setModel] = useState(DEFAULT_MODEL);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(DEFAULT_GENERATION_SETTINGS);
+  // Extraction mode sends the next question with a field schema and gets a table back;
+  // compare mode sends two documents labelled A and B and gets a clause-by-clause diff
+  const [mode, setMode] = useState<"chat" | "extract" | "compare">("chat");
+  const [extractionSchema, setExtractionSchema] = useState<ExtractionSchema>(BUILTIN_SCHEMAS[0]);
+  const [comparePair, setComparePair] = useState<{ a: string | null; b: string | null }>({ a: null, b: null });
+  // Signed-in account and today's usage, shown in the sidebar
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  // Per-model prices for cost estimates, and whether the usage dashboard is open
+  const [prices, setPrices] = useState<PriceTable>({});
+  const [showUsage, setShowUsage] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  // User settings (defaults for new chats, answer language, personas) and the open chat's persona
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
+  const [personaId, setPersonaId] = useState<string | null>(null);
+  // The user's own and shared prompt templates, the "/" palette's selection, and a
+  // template waiting for its variables before it goes into the composer
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [paletteIndex, setPaletteIndex] = useState(0);
+  const [isPaletteDismissed, setIsPaletteDismissed] = useState(false);
+  const [pendingTemplate, setPendingTemplate] = useState<PromptTemplate | null>(null);
+  // Message opened from a history search result; scrolled to and briefly highlighted
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+  // File shown in the side panel, optionally at a cited page
+  const [viewer, setViewer] = useState<{ file: AttachedFile; page?: number; focusKey: number } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Latest history for the autosave, which keeps a chat's title, pin, tags and folder
+  const chatHistoryRef = useRef<ChatHistory[]>([]);
+
+  // The visible conversation is the selected branch of the tree
+  const messages = useMemo(() => getActivePath(tree), [tree]);
+  // Documents that can be compared (not video or audio), including files attached for the next message
+  const compareCandidates = useMemo(
+    () => [...documents, ...attachedFiles].filter((d) => !isMediaType(d.type)).map(({ id, name }) => ({ id, name })),
+    [documents, attachedFiles]
+  );
+  const compareDocuments = useMemo(
+    () => pickComparisonDocuments(compareCandidates, comparePair),
+    [compareCandidates, comparePair]
+  );
+  const visibleMessages = useMemo(() => {
+    if (!isLoading || !generatingFrom) return messages;
+    return messages.slice(0, messages.findIndex((m) => m.id === generatingFrom) + 1);
+  }, [messages, isLoading, generatingFrom]);
+
+  const currentChat = useMemo(
+    () => (isLoading ? undefined : chatHistory.find((c) => c.id === currentChatId)),
+    [chatHistory, currentChatId, isLoading]
+  );
+
+  // The latest summary on the visible branch and the messages it stands in for
+  const activeSummary = useMemo(
+    () => [...visibleMessages].reverse().find((m) => m.contextSummary)?.contextSummary,
+    [visibleMessages]
+  );
+  const summarizedIds = useMemo(() => {
+    const end = activeSummary ? visibleMessages.findIndex((m) => m.id === activeSummary.throughMessageId) : -1;
+    return new Set(visibleMessages.slice(0, end + 1).map((m) => m.id));
+  }, [visibleMessages, activeSummary]);
+
+  // Tokens and cost of every reply in the open chat, including other branches
+  const chatTotals = useMemo(() => chatUsageTotals(tree.nodes, prices, model), [tree, prices, model]);
+
+  // Schema or compared documents of the question being answered, when it was asked in extraction or compare mode
+  const generatingQuestion = useMemo(
+    () => (isLoading && generatingFrom ? tree.nodes.find((m) => m.id === generatingFrom) : undefined),
+    [tree, isLoading, generatingFrom]
+  );
+  const generatingSchema = generatingQuestion?.extractionSchema;
+  const generatingComparison = generatingQuestion?.compareDocuments;
 
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, []);
 
-  // Load chat history from localStorage on mount
+  // Load saved settings. The empty chat shown first starts from their defaults;
+  // a restored chat overrides them below.
+  useEffect(() => {
+    const applySavedSettings = () => {
+      const saved = loadSettings();
+      setSettings(saved);
+      setModel(saved.defaultModel);
+      setGenerationSettings(saved.generationSettings);
+      setPersonaId(saved.defaultPersonaId);
+    };
+    applySavedSettings();
+  }, []);
+
+  // Drop chats, templates and attachments another account left in this browser
+  // before the effects below read them. The sidebar's own effect ran first, so
+  // tell it to reload.
   useEffect(() => {
+    if (claimChatCache(userId)) {
+      clearAttachments().catch((e) => console.error("Error clearing attachments:", e));
+      window.dispatchEvent(new CustomEvent("chat-history-updated"));
+    }
+  }, [userId]);
+
+  // Load prompt templates from the cache, then from the server
+  useEffect(() => {
+    const loadTemplates = async () => {
+      setTemplates(loadCachedTemplates());
+      const latest = await fetchTemplates();
+      if (latest) setTemplates(latest);
+    };
+    loadTemplates();
+  }, [userId]);
+
+  // Load chat history from the localStorage cache on mount, then sync with the server
+  useEffect(() => {
+    const openChat = (chat: ChatHistory) => {
+      setTree(getChatTree(chat));
+      setCurrentChatId(chat.id);
+      setDocuments(chat.documents || []);
+      setModel(chat.model || DEFAULT_MODEL);
+      setGenerationSettings(chat.generationSettings || DEFAULT_GENERATION_SETTINGS);
+      setPersonaId(chat.personaId ?? null);
+    };
+
+    setFolders(loadCachedFolders());
+
+    let cached: ChatHistory[] = [];
     const savedChats = localStorage.getItem(STORAGE_KEY);
     if (savedChats) {
       try {
-        const history: ChatHistory[] = JSON.parse(savedChats);
-        setChatHistory(history.sort((a, b) => b.timestamp - a.timestamp));
+        cached = JSON.parse(savedChats);
+        setChatHistory(cached.sort((a, b) => b.timestamp - a.timestamp));
 
         // Load current chat if exists
         const currentChatId = localStorage.getItem(CURRENT_CHAT_KEY);
-        if (currentChatId && history.length > 0) {
-          const currentChat = history.find((c) => c.id === currentChatId);
-          if (currentChat) {
-            setMessages(currentChat.messages);
-            setCurrentChatId(currentChat.id);
-          }
-        }
+        const currentChat = cached.find((c) => c.id === currentChatId);
+        if (currentChat) openChat(currentChat);
       } catch (e) {
         console.error("Error loading chat history:", e);
       }
     }
+
+    const sync = async () => {
+      // Folders first, so chats filed offline find their folder on the server
+      const syncedFolders = await syncFolders();
+      if (syncedFolders) setFolders(syncedFolders);
+
+      const history = await syncChats(cached);
+      if (!history) return;
+      cached = history;
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+      setChatHistory(history);
+      window.dispatchEvent(new CustomEvent("chat-history-updated"));
+
+      // Show the open chat's latest version if it changed on another device
+      const currentChatId = localStorage.getItem(CURRENT_CHAT_KEY);
+      const remote = history.find((c) => c.id === currentChatId);
+      const local = JSON.parse(savedChats || "[]").find((c: ChatHistory) => c.id === currentChatId);
+      if (remote && (!local || remote.timestamp > local.timestamp)) openChat(remote);
+    };
+
+    sync();
+    // Push changes made while offline once the connection is back
+    window.addEventListener("online", sync);
+    return () => window.removeEventListener("online", sync);
+  }, [userId]);
+
+  // Follow a chat the sync moved to a new ID because the server refused its old one
+  useEffect(() => {
+    const handleReissued = (e: Event) => {
+      const { from, to } = (e as CustomEvent<{ from: string; to: string }>).detail;
+      setChatHistory((prev) => prev.map((c) => (c.id === from ? { ...c, id: to } : c)));
+      setCurrentChatId((current) => (current === from ? to : current));
+      window.dispatchEvent(new CustomEvent("chat-history-updated"));
+    };
+    window.addEventListener(CHAT_ID_REISSUED_EVENT, handleReissued);
+    return () => window.removeEventListener(CHAT_ID_REISSUED_EVENT, handleReissued);
+  }, []);
+
+  // Load the account and usage; refreshed after every response
+  const refreshSession = useCallback(async () => {
+    const info = await fetchSession();
+    if (info) setSession(info);
+  }, []);
+
+  useEffect(() => {
+    refreshSession();
+  }, [refreshSession]);
+
+  // Load model prices saved from the usage dashboard
+  useEffect(() => {
+    const loadSavedPrices = () => setPrices(loadPrices());
+    loadSavedPrices();
+  }, []);
+
+  const updatePrices = useCallback((next: PriceTable) => {
+    setPrices(next);
+    savePrices(next);
+  }, []);
+
+  // Save settings; an empty new chat picks up changed defaults right away
+  const updateSettings = useCallback(
+    (next: AppSettings) => {
+      setSettings(next);
+      saveSettings(next);
+      if (currentChatId || tree.nodes.length > 0) return;
+      if (next.defaultModel !== settings.defaultModel) setModel(next.defaultModel);
+      if (next.generationSettings !== settings.generationSettings) setGenerationSettings(next.generationSettings);
+      if (next.defaultPersonaId !== settings.defaultPersonaId) setPersonaId(next.defaultPersonaId);
+    },
+    [currentChatId, tree, settings]
+  );
+
+  // The sidebar's "Reply in" picker edits the same setting as the settings dialog
+  const changeResponseLanguage = useCallback(
+    (responseLanguage: string) => updateSettings({ ...settings, responseLanguage }),
+    [settings, updateSettings]
+  );
+
+  // "/" at the start of the composer opens the template palette; the rest is its search
+  const paletteQuery = input.startsWith("/") ? input.slice(1) : null;
+  const isPaletteOpen = paletteQuery !== null && !isPaletteDismissed && !pendingTemplate && !isLoading;
+  const paletteMatches = useMemo(
+    () => (paletteQuery === null ? [] : searchTemplates([...BUILTIN_TEMPLATES, ...templates], paletteQuery)),
+    [paletteQuery, templates]
+  );
+
+  // Put a template in the composer, asking for its variables first if it has any
+  const applyTemplate = useCallback((template: PromptTemplate) => {
+    setShowTemplates(false);
+    if (templateVariables(template.body).length > 0) {
+      setInput("");
+      setPendingTemplate(template);
+      return;
+    }
+    setInput(template.body);
+    inputRef.current?.focus();
   }, []);
 
-  // Auto-save messages to localStorage
+  const changeInput = (value: string) => {
+    setInput(value);
+    setPaletteIndex(0);
+    if (!value.startsWith("/")) setIsPaletteDismissed(false);
+  };
+
+  // Arrow keys, Enter, Tab and Escape drive the palette while it is open
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isPaletteOpen) return;
+    if ((e.key === "ArrowDown" || e.key === "ArrowUp") && paletteMatches.length > 0) {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setPaletteIndex((i) => (i + step + paletteMatches.length) % paletteMatches.length);
+    } else if ((e.key === "Enter" || e.key === "Tab") && paletteMatches[paletteIndex]) {
+      e.preventDefault();
+      applyTemplate(paletteMatches[paletteIndex]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setIsPaletteDismissed(true);
+    }
+  };
+
+  // Create or update one of the user's templates on the server
+  const storeTemplate = useCallback(
+    async (draft: TemplateDraft, id?: string) => {
+      const saved = await saveTemplate(draft, id);
+      // New templates go after the user's own and before shared ones
+      const ownCount = templates.filter((t) => t.source === "own").length;
+      const next = id
+        ? templates.map((t) => (t.id === id ? saved : t))
+        : [...templates.slice(0, ownCount), saved, ...templates.slice(ownCount)];
+      setTemplates(next);
+      cacheTemplates(next);
+    },
+    [templates]
+  );
+
+  const removeTemplate = useCallback(
+    async (template: PromptTemplate) => {
+      await deleteTemplate(template.id);
+      const next = templates.filter((t) => t.id !== template.id);
+      setTemplates(next);
+      cacheTemplates(next);
+    },
+    [templates]
+  );
+
+  // Send pending saves, then forget this browser's copy of the account's chats
+  const signOut = useCallback(async () => {
+    await flushChatSaves();
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => {});
+    clearChatCache();
+    await clearAttachments().catch((e) => console.error("Error clearing attachments:", e));
+    window.location.assign("/");
+  }, []);
+
+  useEffect(() => {
+    chatHistoryRef.current = chatHistory;
+  }, [chatHistory]);
+
+  // Read by the auto-save below, so switching the locale does not re-save the open chat
+  const tRef = useRef(t);
+  useEffect(() => {
+    tRef.current = t;
+  }, [t]);
+
+  // Auto-save the message tree to localStorage. Only new or edited messages move
+  // the chat to the top of the history; opening it, switching branches or changing
+  // the model keeps its place, and a save that would change nothing is skipped.
   useEffect(() => {
-    if (messages.length === 0) return;
+    if (tree.nodes.length === 0) return;
 
-    const chatId = currentChatId || Date.now().toString();
+    const chatId = currentChatId || newChatId();
+    const existing = chatHistoryRef.current.find((c) => c.id === chatId);
+    const messagesChanged = !existing || JSON.stringify(getChatTree(existing).nodes) !== JSON.stringify(tree.nodes);
     const firstUserMessage = messages.find((m) => m.role === "user");
     const content = firstUserMessage?.content || "";
-    const title = content.slice(0, 40) + (content.length > 40 ? "..." : "") || "New Chat";
+    const title = content.slice(0, 40) + (content.length > 40 ? "..." : "") || tRef.current("chat.defaultTitle");
 
     const updatedChat: ChatHistory = {
       id: chatId,
-      title,
-      timestamp: Date.now(),
-      messages,
+      title: existing?.customTitle ? existing.title : title,
+      timestamp: existing && !messagesChanged ? existing.timestamp : Date.now(),
+      tree,
+      model,
+      generationSettings,
+      documents,
+      customTitle: existing?.customTitle,
+      pinned: existing?.pinned,
+      tags: existing?.tags,
+      folderId: existing?.folderId,
+      personaId: personaId ?? undefined,
     };
+    if (existing && !messagesChanged && isSameChatState(existing, updatedChat)) return;
 
     // Update history list
     setChatHistory((prev) => {
@@ -106,48 +469,237 @@ export default function ChatInterface() {
       return newHistory;
     });
 
+    queueChatSave(updatedChat);
+
     setCurrentChatId(chatId);
     localStorage.setItem(CURRENT_CHAT_KEY, chatId);
-  }, [messages, currentChatId]);
+  }, [tree, messages, currentChatId, model, generationSettings, documents, personaId]);
 
   // Start a new chat
   const startNewChat = useCallback(() => {
-    setMessages([]);
+    setTree(emptyTree());
     setCurrentChatId(null);
+    setDocuments([]);
+    setViewer(null);
     setInput("");
     setStreamingContent("");
+    setStreamingToolSteps([]);
+    setModel(settings.defaultModel);
+    setGenerationSettings(settings.generationSettings);
+    setPersonaId(settings.defaultPersonaId);
     localStorage.removeItem(CURRENT_CHAT_KEY);
     setIsMobileMenuOpen(false);
     // Dispatch event for sidebar to update
     window.dispatchEvent(new CustomEvent("chat-history-updated"));
-  }, []);
+  }, [settings]);
+
+  // Download every chat as a zip of JSON (re-importable) and Markdown files
+  const exportAllChats = useCallback(() => {
+    if (chatHistory.length === 0) return;
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(`documind-chats-${date}.zip`, exportAllChatsZip(chatHistory) as Uint8Array<ArrayBuffer>, "application/zip");
+  }, [chatHistory]);
+
+  // Merge chats from JSON or zip exports into the history
+  const importChats = useCallback(
+    async (files: File[]) => {
+      try {
+        const imported = (await Promise.all(files.map(readImportFile))).flat();
+        const { history, added, renamed, skipped } = mergeImportedChats(chatHistory, imported);
+
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+        setChatHistory(history);
+        window.dispatchEvent(new CustomEvent("chat-history-updated"));
+        const existing = new Set(chatHistory.map((c) => c.id));
+        history.filter((c) => !existing.has(c.id)).forEach(queueChatSave);
+
+        const details = [
+          renamed > 0 && t("toast.importRenamed", { count: renamed }),
+          skipped > 0 && t("toast.importSkipped", { count: skipped }),
+        ].filter(Boolean);
+        const count = added + renamed;
+        toast.success(t(count === 1 ? "toast.imported.one" : "toast.imported.other", { count }), {
+          description: details.length > 0 ? details.join(", ") : t("toast.importHint"),
+        });
+      } catch (error) {
+        console.error("Import failed:", error);
+        toast.error(error instanceof Error ? error.message : t("toast.importFailed"));
+      }
+    },
+    [chatHistory, t]
+  );
 
-  // Load a specific chat
-  const loadChat = useCallback((chatId: string) => {
+  // Load a specific chat, optionally switching to the branch that contains a message
+  const loadChat = useCallback((chatId: string, messageId?: string) => {
     const chat = chatHistory.find((c) => c.id === chatId);
     if (chat) {
-      setMessages(chat.messages);
+      const chatTree = getChatTree(chat);
+      const hasMessage = !!messageId && chatTree.nodes.some((m) => m.id === messageId);
+      setTree(hasMessage ? selectNode(chatTree, messageId) : chatTree);
+      setFocusedMessageId(hasMessage ? messageId : null);
       setCurrentChatId(chat.id);
+      setDocuments(chat.documents || []);
+      setViewer(null);
+      setModel(chat.model || DEFAULT_MODEL);
+      setGenerationSettings(chat.generationSettings || DEFAULT_GENERATION_SETTINGS);
+      setPersonaId(chat.personaId ?? null);
       localStorage.setItem(CURRENT_CHAT_KEY, chatId);
       setIsMobileMenuOpen(false);
     }
   }, [chatHistory]);
 
+  const openFromHistory = useCallback(
+    (chatId: string, messageId?: string) => {
+      loadChat(chatId, messageId);
+      setShowHistory(false);
+    },
+    [loadChat]
+  );
+
+  // Scroll a message opened from search into view once it has rendered, then drop the highlight
+  useEffect(() => {
+    if (!focusedMessageId) return;
+    document.getElementById(`message-${focusedMessageId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timeout = setTimeout(() => setFocusedMessageId(null), 2500);
+    return () => clearTimeout(timeout);
+  }, [focusedMessageId]);
+
+  // Helper function to store the history after a sidebar action
+  const storeHistory = useCallback((history: ChatHistory[]) => {
+    setChatHistory(history);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+    // Dispatch event for sidebar to update
+    window.dispatchEvent(new CustomEvent("chat-history-updated"));
+  }, []);
+
+  // Rename, pin, tag or file a chat. Its timestamp is kept so it does not jump to the top.
+  const updateChatMeta = useCallback(
+    (chatId: string, update: ChatMetaUpdate) => {
+      const chat = chatHistory.find((c) => c.id === chatId);
+      if (!chat) return;
+      const updated: ChatHistory = { ...chat, ...update, ...(update.title !== undefined && { customTitle: true }) };
+      storeHistory(chatHistory.map((c) => (c.id === chatId ? updated : c)));
+      queueChatSave(updated);
+    },
+    [chatHistory, storeHistory]
+  );
+
+  // Delete one chat. Undo puts it back; its document contents are only removed
+  // from this browser once the toast has closed without an undo.
+  const deleteChat = useCallback(
+    (chatId: string) => {
+      const chat = chatHistory.find((c) => c.id === chatId);
+      if (!chat) return;
+      storeHistory(chatHistory.filter((c) => c.id !== chatId));
+      deleteChatRemote(chatId);
+      if (chatId === currentChatId) startNewChat();
+
+      let undone = false;
+      const removeDocuments = () => {
+        if (undone) return;
+        for (const doc of chat.documents || []) {
+          deleteAttachment(doc.id).catch((e) => console.error("Error deleting attachment:", e));
+        }
+      };
+      toast(t("toast.chatDeleted", { title: chat.title }), {
+        duration: 8000,
+        action: {
+          label: t("common.undo"),
+          onClick: () => {
+            undone = true;
+            setChatHistory((prev) => {
+              const restored = [...prev.filter((c) => c.id !== chatId), chat].sort((a, b) => b.timestamp - a.timestamp);
+              localStorage.setItem(STORAGE_KEY, JSON.stringify(restored));
+              return restored;
+            });
+            window.dispatchEvent(new CustomEvent("chat-history-updated"));
+            queueChatSave(chat);
+          },
+        },
+        onAutoClose: removeDocuments,
+        onDismiss: removeDocuments,
+      });
+    },
+    [chatHistory, currentChatId, startNewChat, storeHistory, t]
+  );
+
+  // Save the folder list; chats in a removed folder move back out of it
+  const changeFolders = useCallback(
+    (next: ChatFolder[]) => {
+      setFolders(next);
+      queueFoldersSave(next);
+      const ids = new Set(next.map((f) => f.id));
+      const orphaned = chatHistory.filter((c) => c.folderId && !ids.has(c.folderId));
+      if (orphaned.length === 0) return;
+      const unfiled = new Map(orphaned.map((c) => [c.id, { ...c, folderId: undefined }]));
+      storeHistory(chatHistory.map((c) => unfiled.get(c.id) ?? c));
+      unfiled.forEach((chat) => queueChatSave(chat));
+    },
+    [chatHistory, storeHistory]
+  );
+
   // Clear all history
   const clearHistory = useCallback(() => {
-    if (confirm("Are you sure you want to clear all chat history?")) {
-      setMessages([]);
+    if (confirm(t("chat.clearConfirm"))) {
+      setTree(emptyTree());
       setCurrentChatId(null);
+      setDocuments([]);
+      setViewer(null);
       setChatHistory([]);
+      clearAttachments().catch((e) => console.error("Error clearing attachments:", e));
       localStorage.removeItem(STORAGE_KEY);
       localStorage.removeItem(CURRENT_CHAT_KEY);
+      deleteAllChatsRemote().catch(() => toast.error(t("toast.clearRemoteFailed")));
       setIsMobileMenuOpen(false);
       // Show success toast
-      toast.success("History cleared successfully");
+      toast.success(t("toast.historyCleared"));
       // Dispatch event for sidebar to update
       window.dispatchEvent(new CustomEvent("chat-history-updated"));
     }
-  }, []);
+  }, [t]);
+
+  // Upload a video or audio file and wait until it has been processed
+  const attachMedia = useCallback(async (file: File): Promise<AttachedFile | null> => {
+    const maxSize = 2 * 1024 * 1024 * 1024; // 2GB
+    if (file.size > maxSize) {
+      toast.error(t("toast.fileTooLarge", { name: file.name, max: "2GB" }));
+      return null;
+    }
+
+    toast.loading(t("toast.uploading", { name: file.name }), { id: `upload-${file.name}` });
+
+    try {
+      const media = await uploadMedia(file, (fraction) => {
+        setUploadProgress(Math.round(fraction * 100));
+        // Once the bytes are sent the server waits for Google to finish processing
+        if (fraction === 1) {
+          toast.loading(t("toast.processing", { name: file.name }), {
+            id: `upload-${file.name}`,
+            description: t("toast.processingHint"),
+          });
+        }
+      });
+
+      toast.success(t("toast.fileAttached", { name: file.name }), {
+        id: `upload-${file.name}`,
+        description: t("toast.fileReady"),
+      });
+      return {
+        id: `${Date.now()}-${Math.random()}`,
+        name: file.name,
+        type: media.mimeType || file.type,
+        fileUri: media.uri,
+        size: file.size,
+      };
+    } catch (error) {
+      console.error("Error uploading media:", error);
+      toast.error(t("toast.fileFailed", { name: file.name }), {
+        id: `upload-${file.name}`,
+        description: error instanceof Error ? error.message : undefined,
+      });
+      return null;
+    }
+  }, [t]);
 
   const processFiles = useCallback(async (files: File[]) => {
     if (files.length === 0) return;
@@ -158,39 +710,45 @@ export default function ChatInterface() {
     const newFiles: AttachedFile[] = [];
 
     for (const file of files) {
-      // Check file size (10MB limit)
-      const maxSize = 10 * 1024 * 1024; // 10MB
+      setUploadProgress(0);
+
+      // Video and audio are uploaded to the Gemini Files API and referenced by URI
+      if (isMediaType(file.type)) {
+        const mediaFile = await attachMedia(file);
+        if (mediaFile) newFiles.push(mediaFile);
+        continue;
+      }
+
+      // Check file size (50MB upload limit)
+      const maxSize = 50 * 1024 * 1024; // 50MB
       if (file.size > maxSize) {
-        toast.error(`File too large: ${file.name} (Max 10MB)`);
+        toast.error(t("toast.fileTooLarge", { name: file.name, max: "50MB" }));
         continue;
       }
 
       // Show uploading toast
-      toast.loading(`Processing ${file.name}...`, { id: `upload-${file.name}` });
-
-      // Simulate progress animation
-      for (let i = 0; i <= 100; i += 10) {
-        setUploadProgress(i);
-        await new Promise(resolve => setTimeout(resolve, 50));
-      }
+      toast.loading(t("toast.uploading", { name: file.name }), { id: `upload-${file.name}` });
 
       try {
-        const base64 = await fileToBase64(file);
+        const uploaded = await uploadFile(file, (fraction) => setUploadProgress(Math.round(fraction * 100)));
         newFiles.push({
           id: `${Date.now()}-${Math.random()}`,
           name: file.name,
-          type: file.type,
-          base64,
+          type: uploaded.type || file.type,
+          size: uploaded.size,
+          uploadId: uploaded.id,
+          blob: file,
         });
 
-        toast.success(`File attached: ${file.name}`, {
+        toast.success(t("toast.fileAttached", { name: file.name }), {
           id: `upload-${file.name}`,
-          description: "Ready for analysis",
+          description: t("toast.fileReady"),
         });
       } catch (error) {
         console.error("Error processing file:", error);
-        toast.error(`Failed to process ${file.name}`, {
+        toast.error(t("toast.fileFailed", { name: file.name }), {
           id: `upload-${file.name}`,
+          description: error instanceof Error ? error.message : undefined,
         });
       }
     }
@@ -202,7 +760,7 @@ export default function ChatInterface() {
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
-  }, []);
+  }, [attachMedia, t]);
 
   const handleFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
@@ -228,84 +786,193 @@ export default function ChatInterface() {
 
   const removeFile = useCallback((id: string) => {
     setAttachedFiles((prev) => prev.filter((f) => f.id !== id));
+    setViewer((prev) => (prev?.file.id === id ? null : prev));
   }, []);
 
-  const handleSubmit = useCallback(
-    async (e: FormEvent<HTMLFormElement>) => {
-      e.preventDefault();
-
-      if (!input.trim() && attachedFiles.length === 0) return;
-
-      const userMessage: Message = {
-        id: `user-${Date.now()}`,
-        role: "user",
-        content: input,
-      };
-
-      setMessages((prev) => [...prev, userMessage]);
-      setInput("");
+  // Stream a response to `history` and add it to the tree under `parentId`.
+  // The chat's enabled documents are sent with every request so follow-ups stay grounded.
+  const generateResponse = useCallback(
+    async (chatId: string, history: Message[], parentId: string, chatDocuments: ChatDocument[]) => {
+      setGeneratingFrom(parentId);
       setIsLoading(true);
       setStreamingContent("");
-      // Triple Lock #3: Force blur on mobile to dismiss keyboard
-      if (window.innerWidth < 768) {
-        (document.activeElement as HTMLElement)?.blur();
-      }
-      inputRef.current?.blur();
+      setStreamingToolSteps([]);
+
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      // Hoisted so a stopped response can keep what arrived before the abort
+      let fullContent = "";
+      let toolSteps: ToolStep[] = [];
+      // A question asked in extraction or compare mode carries its schema or documents,
+      // so edits and regenerations extract or compare too
+      const schema = history[history.length - 1]?.extractionSchema;
+      const compare = history[history.length - 1]?.compareDocuments;
+      // Older turns already summarized on this branch are replaced by the summary server-side
+      const summary = [...history].reverse().find((m) => m.contextSummary)?.contextSummary;
+      // A persona deleted or left unfinished in settings is not sent
+      const persona = settings.personas.find((p) => p.id === personaId && p.name.trim() && p.instructions.trim());
+
+      const addResponse = (message: Omit<Message, "parentId">) => {
+        setTree((prev) => addNode(prev, { ...message, parentId, model, createdAt: Date.now() }));
+        setStreamingContent("");
+        setStreamingToolSteps([]);
+      };
 
       try {
-        const response = await fetch("/api/chat", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            messages: [...messages, userMessage],
-            files: attachedFiles.length > 0 ? JSON.stringify(attachedFiles) : undefined,
-          }),
-        });
+        // A comparison sends its two documents, whether or not they are enabled
+        const sendIds = compare ? [compare.a.id, compare.b.id] : chatDocuments.filter((d) => d.enabled).map((d) => d.id);
+        const attachments = await getAttachments(sendIds);
+        if (attachments.length < sendIds.length) {
+          toast.warning(t("toast.documentsSkipped"));
+        }
+        // The route finds the compared files by upload ID, Files API URI or (older inline files) name
+        const compareRef = (id: string) => {
+          const attachment = attachments.find((a) => a.id === id);
+          return attachment && (attachment.uploadId || attachment.fileUri || attachment.name);
+        };
+
+        const postChat = () => {
+          // Uploaded documents go by ID; media by Files API URI; older attachments inline
+          const inlineFiles = attachments
+            .filter((a) => !a.uploadId)
+            .map(({ name, type, base64, fileUri }) => ({ name, type, base64, fileUri }));
+          return fetch("/api/chat", {
+            method: "POST",
+            signal: abortController.signal,
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+              // Failed turns have no content worth sending back to the model
+              messages: history
+                .filter((m) => m.role === "user" || m.content)
+                .map(({ id, role, content }) => ({ id, role, content })),
+              files: inlineFiles.length > 0 ? JSON.stringify(inlineFiles) : undefined,
+              fileIds: attachments.flatMap((a) => (a.uploadId ? [a.uploadId] : [])),
+              chatId,
+              model,
+              generationConfig: generationSettings,
+              extraction: schema ? { schema } : undefined,
+              comparison: compare ? { a: compareRef(compare.a.id), b: compareRef(compare.b.id) } : undefined,
+              summary,
+              persona: persona ? { name: persona.name, instructions: persona.instructions } : undefined,
+              responseLanguage: resolveResponseLanguage(settings.responseLanguage, locale),
+            }),
+          });
+        };
+
+        let response = await postChat();
+        // The server's copies expire; re-upload from this browser and retry once
+        if (response.status === 410) {
+          const { missingFileIds = [] } = await response.json();
+          await reuploadAttachments(attachments, missingFileIds);
+          response = await postChat();
+        }
 
         if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
+          // Keep the JSON error body so the handler below can show its details
+          const data = await response.text();
+          notifyAccessError(response.status, data, t);
+          throw new Error(`HTTP error! status: ${response.status}`, { cause: { data } });
         }
 
-        const reader = response.body?.getReader();
-        if (!reader) {
+        if (!response.body) {
           throw new Error("No reader available");
         }
 
-        const decoder = new TextDecoder();
-        let fullContent = "";
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const text = decoder.decode(value, { stream: true });
-          fullContent += text;
-          setStreamingContent(text);
+        let finishReason: FinishReason | undefined;
+        let safetyMessage: string | undefined;
+        let streamError: string | undefined;
+        let extraction: ExtractionResult | undefined;
+        let comparison: ComparisonResult | undefined;
+        let usage: TokenUsage | undefined;
+        let contextSummary: ContextSummary | undefined;
+        let summaryUsage: TokenUsage | undefined;
+
+        for await (const event of parseChatEventStream(response.body)) {
+          switch (event.type) {
+            case "delta":
+              fullContent += event.text;
+              setStreamingContent(fullContent);
+              break;
+            case "usage":
+              usage = event.usage;
+              break;
+            case "summary":
+              contextSummary = event.summary;
+              summaryUsage = event.usage;
+              break;
+            case "finish":
+              finishReason = event.reason;
+              break;
+            case "safety":
+              safetyMessage = event.message;
+              break;
+            case "error":
+              streamError = event.message;
+              break;
+            case "extraction":
+              if (schema) extraction = { schema, rows: event.rows, warnings: event.warnings };
+              break;
+            case "comparison":
+              if (compare) comparison = { documents: compare, summary: event.summary, rows: event.rows, warnings: event.warnings };
+              break;
+            case "toolCall":
+              toolSteps = [...toolSteps, { id: event.id, name: event.name, args: event.args }];
+              setStreamingToolSteps(toolSteps);
+              break;
+            case "toolResult":
+              toolSteps = toolSteps.map((step) =>
+                step.id === event.id ? { ...step, result: event.result, error: event.error } : step
+              );
+              setStreamingToolSteps(toolSteps);
+              break;
+          }
         }
 
-        // Add complete assistant message
-        const assistantMessage: Message = {
+        // Add complete assistant message, with the reason it stopped if not a normal finish
+        addResponse({
           id: `assistant-${Date.now()}`,
           role: "assistant",
           content: fullContent,
-        };
-        setMessages((prev) => [...prev, assistantMessage]);
-        setStreamingContent("");
-        setAttachedFiles([]);
+          finishReason,
+          safetyMessage,
+          error: streamError,
+          extraction,
+          comparison,
+          toolSteps: toolSteps.length > 0 ? toolSteps : undefined,
+          // Includes the call that summarized older turns
+          usage: combineUsage(usage, summaryUsage),
+          contextSummary,
+        });
       } catch (error) {
+        // Stopped by the user: keep the partial answer, marked as stopped
+        if (abortController.signal.aborted) {
+          addResponse({
+            id: `assistant-${Date.now()}`,
+            role: "assistant",
+            content: fullContent,
+            stopped: true,
+            // A tool still running when stopped never reports back
+            toolSteps:
+              toolSteps.length > 0
+                ? toolSteps.map((step) => (step.result || step.error ? step : { ...step, error: t("chat.toolStopped") }))
+                : undefined,
+          });
+          return;
+        }
+
         console.error("Chat error:", error);
 
         // Extract error message from response if available
-        let errorText = "抱歉，发生了错误。请稍后再试。";
+        let errorText = t("chat.errorReply");
         if (error instanceof Error && error.message) {
           // Check if it's a fetch error with response
           const fetchError = error as any;
           if (fetchError.cause && fetchError.cause.data) {
             try {
               const errorData = JSON.parse(fetchError.cause.data);
-              errorText = `错误: ${errorData.error || errorText}`;
+              errorText = t("chat.errorPrefix", { message: errorData.error || errorText });
               if (errorData.details) {
                 errorText += `\n\n${errorData.details}`;
               }
@@ -318,24 +985,203 @@ export default function ChatInterface() {
         }
 
         // Add error message
-        const errorMessage: Message = {
+        addResponse({
           id: `error-${Date.now()}`,
           role: "assistant",
-          content: errorText,
-        };
-        setMessages((prev) => [...prev, errorMessage]);
+          content: "",
+          error: errorText,
+        });
       } finally {
+        abortControllerRef.current = null;
+        setGeneratingFrom(null);
         setIsLoading(false);
         scrollToBottom();
+        refreshSession();
+      }
+    },
+    [model, generationSettings, settings, personaId, scrollToBottom, refreshSession, t, locale]
+  );
+
+  const handleSubmit = useCallback(
+    async (e: FormEvent<HTMLFormElement>) => {
+      e.preventDefault();
+
+      const isExtracting = mode === "extract";
+      const isComparing = mode === "compare";
+      if (isComparing && !compareDocuments) {
+        toast.error(t("toast.compareNeedsTwo"));
+        return;
+      }
+      if (!input.trim() && attachedFiles.length === 0 && !(isExtracting && documents.length > 0) && !isComparing) return;
+
+      const defaultQuestion = isExtracting
+        ? t("chat.extractQuestion", { schema: extractionSchema.name.toLowerCase() })
+        : isComparing
+          ? t("chat.compareQuestion", { a: compareDocuments!.a.name, b: compareDocuments!.b.name })
+          : input;
+      const userMessage: Message = {
+        id: `user-${Date.now()}`,
+        parentId: messages[messages.length - 1]?.id ?? null,
+        role: "user",
+        content: input.trim() || defaultQuestion,
+        ...(isExtracting ? { extractionSchema } : {}),
+        ...(isComparing ? { compareDocuments: compareDocuments! } : {}),
+      };
+
+      // Fix the chat ID before the first request so documents and the server's index can be keyed on it
+      const chatId = currentChatId || newChatId();
+      setCurrentChatId(chatId);
+
+      setTree((prev) => addNode(prev, userMessage));
+      setInput("");
+      // Triple Lock #3: Force blur on mobile to dismiss keyboard
+      if (window.innerWidth < 768) {
+        (document.activeElement as HTMLElement)?.blur();
+      }
+      inputRef.current?.blur();
+
+      // Newly attached files join the chat's persistent document set
+      let chatDocuments = documents;
+      if (attachedFiles.length > 0) {
+        try {
+          await Promise.all(attachedFiles.map((file) => saveAttachment(chatId, file)));
+        } catch (error) {
+          console.error("Error storing attachments:", error);
+          toast.error(t("toast.storeAttachmentsFailed"));
+        }
+        chatDocuments = [
+          ...documents,
+          ...attachedFiles.map((file) => ({
+            id: file.id,
+            name: file.name,
+            type: file.type,
+            size: file.size ?? Math.floor((file.base64 || "").replace(/^data:[^;]+;base64,/, "").length * 0.75),
+            enabled: true,
+          })),
+        ];
+        setDocuments(chatDocuments);
+        setAttachedFiles([]);
+      }
+
+      await generateResponse(chatId, [...messages, userMessage], userMessage.id, chatDocuments);
+    },
+    [messages, input, attachedFiles, documents, currentChatId, mode, extractionSchema, compareDocuments, generateResponse, t]
+  );
+
+  // Resend an edited question as a new branch next to the original
+  const submitEdit = useCallback(
+    async (original: Message) => {
+      const content = editDraft.trim();
+      setEditingId(null);
+      if (!content || content === original.content) return;
+
+      const editedMessage: Message = {
+        id: `user-${Date.now()}`,
+        parentId: original.parentId,
+        role: "user",
+        content,
+        extractionSchema: original.extractionSchema,
+        compareDocuments: original.compareDocuments,
+      };
+
+      setTree((prev) => addNode(prev, editedMessage));
+      await generateResponse(
+        currentChatId || newChatId(),
+        [...getPathTo(tree, original.parentId), editedMessage],
+        editedMessage.id,
+        documents
+      );
+    },
+    [tree, editDraft, currentChatId, documents, generateResponse]
+  );
+
+  // Generate another answer to the same question as a sibling branch
+  const regenerate = useCallback(
+    async (answer: Message) => {
+      if (!answer.parentId) return;
+      await generateResponse(
+        currentChatId || newChatId(),
+        getPathTo(tree, answer.parentId),
+        answer.parentId,
+        documents
+      );
+    },
+    [tree, currentChatId, documents, generateResponse]
+  );
+
+  // Keep edits made in an extraction table with the answer
+  const updateExtractionRows = useCallback((message: Message, rows: ExtractionRow[]) => {
+    if (!message.extraction) return;
+    setTree((prev) => updateNode(prev, message.id, { extraction: { ...message.extraction!, rows } }));
+  }, []);
+
+  const toggleDocument = useCallback((id: string) => {
+    setDocuments((prev) => prev.map((d) => (d.id === id ? { ...d, enabled: !d.enabled } : d)));
+  }, []);
+
+  const removeDocument = useCallback((id: string) => {
+    setDocuments((prev) => prev.filter((d) => d.id !== id));
+    deleteAttachment(id).catch((e) => console.error("Error deleting attachment:", e));
+  }, []);
+
+  // Open the document a citation points to at the cited page. Citations without a
+  // document name refer to the first included PDF.
+  const openCitation = useCallback(
+    async (citation: Citation) => {
+      const pdfs = documents.filter((d) => d.type === "application/pdf");
+      const name = citation.document?.toLowerCase();
+      const target =
+        (name && pdfs.find((d) => d.name.toLowerCase() === name)) ||
+        (name && pdfs.find((d) => d.name.toLowerCase().includes(name) || name.includes(d.name.toLowerCase()))) ||
+        pdfs.find((d) => d.enabled) ||
+        pdfs[0];
+      if (!target) {
+        toast.error(t("toast.citedDocumentMissing"));
+        return;
+      }
+
+      try {
+        const [file] = await getAttachments([target.id]);
+        if (!file) {
+          toast.error(t("toast.documentNotStored", { name: target.name }));
+          return;
+        }
+        setViewer((prev) => ({ file, page: citation.page, focusKey: (prev?.focusKey ?? 0) + 1 }));
+      } catch (error) {
+        console.error("Error opening citation:", error);
+        toast.error(t("toast.citationFailed"));
       }
     },
-    [messages, input, attachedFiles, scrollToBottom]
+    [documents, t]
   );
 
+  const previewFile = useCallback((file: AttachedFile) => {
+    setViewer((prev) => ({ file, focusKey: (prev?.focusKey ?? 0) + 1 }));
+  }, []);
+
+  const switchBranch = useCallback((message: Message, direction: -1 | 1) => {
+    setTree((prev) => {
+      const { siblings, index } = getSiblings(prev, message);
+      const target = siblings[index + direction];
+      return target ? selectNode(prev, target.id) : prev;
+    });
+  }, []);
+
+  // Stop the in-flight response; the server abandons the model stream on disconnect
+  const stopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
   const getFileIcon = (type: string) => {
     if (type.startsWith("image/")) {
       return <ImageIcon className="w-4 h-4" />;
     }
+    if (type.startsWith("video/")) {
+      return <Video className="w-4 h-4" />;
+    }
+    if (type.startsWith("audio/")) {
+      return <AudioLines className="w-4 h-4" />;
+    }
     return <FileText className="w-4 h-4" />;
   };
 
@@ -348,6 +1194,23 @@ export default function ChatInterface() {
         onLoadChat={loadChat}
         onNewChat={startNewChat}
         onClearHistory={clearHistory}
+        model={model}
+        onModelChange={setModel}
+        generationSettings={generationSettings}
+        onGenerationSettingsChange={setGenerationSettings}
+        onExportAll={exportAllChats}
+        onImport={importChats}
+        session={session}
+        onSignOut={signOut}
+        onOpenUsage={() => setShowUsage(true)}
+        onOpenHistory={() => setShowHistory(true)}
+        onOpenSettings={() => setShowSettings(true)}
+        responseLanguage={settings.responseLanguage}
+        onResponseLanguageChange={changeResponseLanguage}
+        folders={folders}
+        onFoldersChange={changeFolders}
+        onUpdateChat={updateChatMeta}
+        onDeleteChat={deleteChat}
       />
 
       {/* Main Chat Interface */}
@@ -364,8 +1227,8 @@ export default function ChatInterface() {
             <div className="w-20 h-20 bg-terra rounded-full flex items-center justify-center mx-auto mb-4 shadow-lg">
               <Paperclip className="w-10 h-10 text-white" />
             </div>
-            <p className="text-2xl font-serif font-semibold text-terra mb-2">Drop files here</p>
-            <p className="text-sm text-ink/60">Supports images, PDFs, and videos</p>
+            <p className="text-2xl font-serif font-semibold text-terra mb-2">{t("chat.dropFiles")}</p>
+            <p className="text-sm text-ink/60">{t("chat.dropHint")}</p>
           </div>
         </div>
       )}
@@ -374,11 +1237,18 @@ export default function ChatInterface() {
       <button
         onClick={() => setIsMobileMenuOpen(true)}
         className="md:hidden fixed top-4 left-4 z-30 p-2 bg-card-cream rounded-lg shadow-sm border border-text-ink/10 hover:bg-terra/10 transition-colors"
-        aria-label="Open sidebar"
+        aria-label={t("chat.openSidebar")}
       >
         <Menu className="w-5 h-5 text-ink" />
       </button>
 
+      {/* Export the open chat */}
+      {currentChat && (
+        <div className="absolute top-4 right-4 z-30">
+          <ChatExportMenu chat={currentChat} />
+        </div>
+      )}
+
       {/* Mobile Sidebar Sheet */}
       <Sheet open={isMobileMenuOpen} onOpenChange={setIsMobileMenuOpen}>
         <Sidebar
@@ -388,9 +1258,36 @@ export default function ChatInterface() {
           onLoadChat={loadChat}
           onNewChat={startNewChat}
           onClearHistory={clearHistory}
+          model={model}
+          onModelChange={setModel}
+          generationSettings={generationSettings}
+          onGenerationSettingsChange={setGenerationSettings}
+          onExportAll={exportAllChats}
+          onImport={importChats}
+          session={session}
+          onSignOut={signOut}
+          onOpenUsage={() => setShowUsage(true)}
+          onOpenHistory={() => setShowHistory(true)}
+          onOpenSettings={() => setShowSettings(true)}
+          responseLanguage={settings.responseLanguage}
+          onResponseLanguageChange={changeResponseLanguage}
+          folders={folders}
+          onFoldersChange={changeFolders}
+          onUpdateChat={updateChatMeta}
+          onDeleteChat={deleteChat}
         />
       </Sheet>
 
+      {/* Chat document set, toggleable per turn */}
+      {documents.length > 0 && (
+        <DocumentChips
+          documents={documents}
+          disabled={isLoading}
+          onToggle={toggleDocument}
+          onRemove={removeDocument}
+        />
+      )}
+
       {/* Messages Area */}
       <ScrollArea className="flex-1 px-4 md:px-8 py-6">
         <div className="space-y-6">
@@ -399,137 +1296,204 @@ export default function ChatInterface() {
               {/* Hero Title */}
               <div className="mb-12 text-center">
                 <h1 className="text-4xl font-serif font-bold mb-3" style={{ color: "#2D2D2D" }}>
-                  Your Research Companion
+                  {t("chat.heroTitle")}
                 </h1>
                 <p className="font-light" style={{ color: "rgba(45,45,45,0.7)" }}>
-                  Ready to uncover new insights from your documents?
+                  {t("chat.heroSubtitle")}
                 </p>
               </div>
 
-              {/* Suggestion Cards */}
+              {/* Suggestion Cards, from the template library */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-5 w-full max-w-2xl">
-                {/* Card 1 */}
-                <button
-                  onClick={() => setInput("Summarize this contract")}
-                  className="flex flex-col h-40 rounded-2xl overflow-hidden shadow-sm hover:shadow-md transition-all cursor-pointer group text-left"
-                >
-                  <div className="h-1/2 flex items-center justify-between px-5 py-4" style={{ backgroundColor: "#D99B83" }}>
-                    <FileText className="w-8 h-8 text-white stroke-[1.5px]" />
-                    <ArrowRight className="w-5 h-5 text-white opacity-60 group-hover:opacity-100 transition-opacity" />
-                  </div>
-                  <div className="h-1/2 flex flex-col justify-center px-5 py-3" style={{ backgroundColor: "#FDFBF7" }}>
-                    <h3 className="font-serif text-base font-semibold" style={{ color: "#2D2D2D" }}>Summarize this contract</h3>
-                    <p className="text-sm mt-0.5" style={{ color: "#6B6B6B" }}>Extract key points from legal documents</p>
-                  </div>
-                </button>
-
-                {/* Card 2 */}
-                <button
-                  onClick={() => setInput("Analyze this financial chart")}
-                  className="flex flex-col h-40 rounded-2xl overflow-hidden shadow-sm hover:shadow-md transition-all cursor-pointer group text-left"
-                >
-                  <div className="h-1/2 flex items-center justify-between px-5 py-4" style={{ backgroundColor: "#D99B83" }}>
-                    <BarChart3 className="w-8 h-8 text-white stroke-[1.5px]" />
-                    <ArrowRight className="w-5 h-5 text-white opacity-60 group-hover:opacity-100 transition-opacity" />
-                  </div>
-                  <div className="h-1/2 flex flex-col justify-center px-5 py-3" style={{ backgroundColor: "#FDFBF7" }}>
-                    <h3 className="font-serif text-base font-semibold" style={{ color: "#2D2D2D" }}>Analyze this financial chart</h3>
-                    <p className="text-sm mt-0.5" style={{ color: "#6B6B6B" }}>Get insights from data visualizations</p>
-                  </div>
-                </button>
-
-                {/* Card 3 */}
-                <button
-                  onClick={() => setInput("Extract insights from video")}
-                  className="flex flex-col h-40 rounded-2xl overflow-hidden shadow-sm hover:shadow-md transition-all cursor-pointer group text-left"
-                >
-                  <div className="h-1/2 flex items-center justify-between px-5 py-4" style={{ backgroundColor: "#D99B83" }}>
-                    <Video className="w-8 h-8 text-white stroke-[1.5px]" />
-                    <ArrowRight className="w-5 h-5 text-white opacity-60 group-hover:opacity-100 transition-opacity" />
-                  </div>
-                  <div className="h-1/2 flex flex-col justify-center px-5 py-3" style={{ backgroundColor: "#FDFBF7" }}>
-                    <h3 className="font-serif text-base font-semibold" style={{ color: "#2D2D2D" }}>Extract insights from video</h3>
-                    <p className="text-sm mt-0.5" style={{ color: "#6B6B6B" }}>Analyze video frames and content</p>
-                  </div>
-                </button>
-
-                {/* Card 4 */}
-                <button
-                  onClick={() => setInput("Translate this document")}
-                  className="flex flex-col h-40 rounded-2xl overflow-hidden shadow-sm hover:shadow-md transition-all cursor-pointer group text-left"
-                >
-                  <div className="h-1/2 flex items-center justify-between px-5 py-4" style={{ backgroundColor: "#D99B83" }}>
-                    <Languages className="w-8 h-8 text-white stroke-[1.5px]" />
-                    <ArrowRight className="w-5 h-5 text-white opacity-60 group-hover:opacity-100 transition-opacity" />
-                  </div>
-                  <div className="h-1/2 flex flex-col justify-center px-5 py-3" style={{ backgroundColor: "#FDFBF7" }}>
-                    <h3 className="font-serif text-base font-semibold" style={{ color: "#2D2D2D" }}>Translate this document</h3>
-                    <p className="text-sm mt-0.5" style={{ color: "#6B6B6B" }}>Convert content to any language</p>
-                  </div>
-                </button>
+                {startTemplates(templates).map((template) => (
+                  <button
+                    key={template.id}
+                    onClick={() => applyTemplate(template)}
+                    className="flex flex-col h-40 rounded-2xl overflow-hidden shadow-sm hover:shadow-md transition-all cursor-pointer group text-left"
+                  >
+                    <div className="h-1/2 flex items-center justify-between px-5 py-4" style={{ backgroundColor: "#D99B83" }}>
+                      <TemplateIcon icon={template.icon} className="w-8 h-8 text-white stroke-[1.5px]" />
+                      <ArrowRight className="w-5 h-5 text-white opacity-60 group-hover:opacity-100 transition-opacity" />
+                    </div>
+                    <div className="h-1/2 flex flex-col justify-center px-5 py-3" style={{ backgroundColor: "#FDFBF7" }}>
+                      <h3 className="font-serif text-base font-semibold truncate" style={{ color: "#2D2D2D" }}>{template.title}</h3>
+                      <p className="text-sm mt-0.5 line-clamp-2" style={{ color: "#6B6B6B" }}>{template.description}</p>
+                    </div>
+                  </button>
+                ))}
               </div>
+              <button
+                onClick={() => setShowTemplates(true)}
+                className="mt-6 text-sm text-ink/50 hover:text-terra transition-colors"
+              >
+                {t("chat.browseTemplates")}
+              </button>
             </div>
           ) : (
             <>
-              {messages.map((message) => {
+              {visibleMessages.map((message) => {
                 console.log('[Frontend] Rendering message:', message.role, 'Content length:', message.content?.length || 0);
+                const { siblings, index: siblingIndex } = getSiblings(tree, message);
+                const isEditing = editingId === message.id;
                 return (
-                  <div
-                    key={message.id}
-                    className={cn(
-                      "flex gap-4",
-                      message.role === "user" ? "justify-end" : "justify-start"
-                    )}
-                  >
-                    {message.role === "assistant" && (
-                      <div className="w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0" style={{ backgroundColor: "#FDFBF7", border: "1px solid rgba(217,155,131,0.3)" }}>
-                        <FileText className="w-5 h-5" style={{ color: "#D99B83" }} />
-                      </div>
-                    )}
+                  <Fragment key={message.id}>
                     <div
+                      id={`message-${message.id}`}
                       className={cn(
-                        "px-4 py-3 max-w-[80%]",
-                        message.role === "user"
-                          ? "rounded-2xl rounded-tr-sm"
-                          : "rounded-2xl"
+                        "flex gap-4 rounded-2xl transition-shadow duration-700",
+                        message.role === "user" ? "justify-end" : "justify-start",
+                        summarizedIds.has(message.id) && "opacity-60",
+                        focusedMessageId === message.id && "ring-2 ring-terra/40 ring-offset-4 ring-offset-paper"
                       )}
-                      style={
-                        message.role === "user"
-                          ? { backgroundColor: "#D99B83", color: "white" }
-                          : { backgroundColor: "#FDFBF7", border: "1px solid rgba(217,155,131,0.3)", color: "#2D2D2D" }
-                      }
                     >
-                      {message.role === "assistant" ? (
-                        message.content ? (
-                          <div className="prose prose-sm md:prose-base max-w-none break-words text-sm md:text-base">
-                            <ReactMarkdown
-                              components={{
-                                p: ({ children }) => <p className="mb-2 last:mb-0" style={{ color: "#2D2D2D" }}>{children}</p>,
-                                ul: ({ children }) => <ul className="mb-2 ml-4 list-disc" style={{ color: "#2D2D2D" }}>{children}</ul>,
-                                ol: ({ children }) => <ol className="mb-2 ml-4 list-decimal" style={{ color: "#2D2D2D" }}>{children}</ol>,
-                                li: ({ children }) => <li className="mb-1" style={{ color: "#2D2D2D" }}>{children}</li>,
-                                code: ({ children }) => <code className="px-1.5 py-0.5 rounded text-xs font-mono" style={{ backgroundColor: "rgba(217,155,131,0.2)", color: "#2D2D2D" }}>{children}</code>,
-                                pre: ({ children }) => <pre className="p-3 rounded-lg overflow-x-auto text-xs md:text-sm my-2" style={{ backgroundColor: "#2D2D2D", color: "#FDFBF7" }}>{children}</pre>,
-                                h1: ({ children }) => <h1 className="text-lg font-serif font-bold mb-2" style={{ color: "#2D2D2D" }}>{children}</h1>,
-                                h2: ({ children }) => <h2 className="text-base font-serif font-bold mb-2" style={{ color: "#2D2D2D" }}>{children}</h2>,
-                                h3: ({ children }) => <h3 className="text-sm font-serif font-bold mb-1" style={{ color: "#2D2D2D" }}>{children}</h3>,
-                                a: ({ children, href }) => <a href={href} className="underline font-medium" style={{ color: "#D99B83" }} target="_blank" rel="noopener noreferrer">{children}</a>,
-                                blockquote: ({ children }) => <blockquote className="border-l-4 pl-3 italic my-2" style={{ borderColor: "rgba(217,155,131,0.4)", color: "rgba(45,45,45,0.7)" }}>{children}</blockquote>,
+                      {message.role === "assistant" && (
+                        <div className="w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0" style={{ backgroundColor: "#FDFBF7", border: "1px solid rgba(217,155,131,0.3)" }}>
+                          <FileText className="w-5 h-5" style={{ color: "#D99B83" }} />
+                        </div>
+                      )}
+                      <div
+                        className={cn(
+                          "group flex flex-col gap-1 max-w-[80%]",
+                          message.role === "user" ? "items-end" : "items-start"
+                        )}
+                      >
+                      <div
+                        className={cn(
+                          "px-4 py-3 max-w-full",
+                          message.role === "user"
+                            ? "rounded-2xl rounded-tr-sm"
+                            : "rounded-2xl",
+                          isEditing && "w-full"
+                        )}
+                        style={
+                          message.role === "user"
+                            ? { backgroundColor: "#D99B83", color: "white" }
+                            : { backgroundColor: "#FDFBF7", border: "1px solid rgba(217,155,131,0.3)", color: "#2D2D2D" }
+                        }
+                      >
+                        {message.role === "assistant" ? (
+                          <>
+                            {message.toolSteps && <ToolSteps steps={message.toolSteps} />}
+                            {message.extraction ? (
+                              <ExtractionTable
+                                result={message.extraction}
+                                disabled={isLoading}
+                                onRowsChange={(rows) => updateExtractionRows(message, rows)}
+                              />
+                            ) : message.comparison ? (
+                              <ComparisonTable
+                                result={message.comparison}
+                                question={messages.find((m) => m.id === message.parentId)?.content ?? ""}
+                              />
+                            ) : message.content ? (
+                              <MarkdownMessage content={message.content} onCitation={openCitation} />
+                            ) : !message.error && !message.safetyMessage && !message.stopped ? (
+                              <span className="italic" style={{ color: "#9CA3AF" }}>{t("chat.thinking")}</span>
+                            ) : null}
+                          </>
+                        ) : isEditing ? (
+                          <form
+                            onSubmit={(e) => {
+                              e.preventDefault();
+                              submitEdit(message);
+                            }}
+                            className="flex flex-col gap-2"
+                          >
+                            <textarea
+                              value={editDraft}
+                              onChange={(e) => setEditDraft(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === "Escape") setEditingId(null);
                               }}
-                            >
-                              {message.content}
-                            </ReactMarkdown>
-                          </div>
+                              rows={3}
+                              autoFocus
+                              className="w-full min-w-[240px] rounded-lg p-2 text-sm outline-none resize-y"
+                              style={{ backgroundColor: "#FDFBF7", color: "#2D2D2D" }}
+                            />
+                            <div className="flex justify-end gap-2 text-xs">
+                              <button
+                                type="button"
+                                onClick={() => setEditingId(null)}
+                                className="px-3 py-1 rounded-md hover:bg-white/20 transition-colors"
+                              >
+                                {t("common.cancel")}
+                              </button>
+                              <button
+                                type="submit"
+                                className="px-3 py-1 rounded-md font-medium"
+                                style={{ backgroundColor: "#FDFBF7", color: "#D99B83" }}
+                              >
+                                {t("chat.saveAndSend")}
+                              </button>
+                            </div>
+                          </form>
                         ) : (
-                          <span className="italic" style={{ color: "#9CA3AF" }}>Thinking...</span>
-                        )
-                      ) : (
-                        <p className="whitespace-pre-wrap break-words text-sm leading-relaxed">
-                          {message.content}
-                        </p>
+                          <>
+                            {message.extractionSchema && (
+                              <p className="flex items-center gap-1 text-xs opacity-80 mb-1">
+                                <Table2 className="w-3.5 h-3.5" />
+                                {t("chat.extractLabel", { schema: message.extractionSchema.name })}
+                              </p>
+                            )}
+                            <p className="whitespace-pre-wrap break-words text-sm leading-relaxed">
+                              {message.content}
+                            </p>
+                          </>
+                        )}
+                        {message.role === "assistant" && (
+                          <MessageNotice
+                            finishReason={message.finishReason}
+                            safetyMessage={message.safetyMessage}
+                            error={message.error}
+                            stopped={message.stopped}
+                          />
+                        )}
+                      </div>
+
+                      {/* Message actions: branch switcher, edit / regenerate */}
+                      {!isEditing && (
+                        <div className="flex items-center gap-1 text-ink/40">
+                          {siblings.length > 1 && (
+                            <BranchSwitcher
+                              index={siblingIndex}
+                              total={siblings.length}
+                              disabled={isLoading}
+                              onPrevious={() => switchBranch(message, -1)}
+                              onNext={() => switchBranch(message, 1)}
+                            />
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => {
+                              if (message.role === "user") {
+                                setEditDraft(message.content);
+                                setEditingId(message.id);
+                              } else {
+                                regenerate(message);
+                              }
+                            }}
+                            disabled={isLoading}
+                            className="p-1 rounded-md opacity-100 md:opacity-0 group-hover:opacity-100 hover:text-terra transition-all disabled:hidden"
+                            aria-label={message.role === "user" ? t("chat.editAndResend") : t("chat.regenerate")}
+                            title={message.role === "user" ? t("chat.editAndResend") : t("chat.regenerate")}
+                          >
+                            {message.role === "user" ? (
+                              <Pencil className="w-3.5 h-3.5" />
+                            ) : (
+                              <RefreshCw className="w-3.5 h-3.5" />
+                            )}
+                          </button>
+                          {message.role === "assistant" && message.usage && (
+                            <MessageUsage usage={message.usage} price={prices[message.model || model]} />
+                          )}
+                        </div>
                       )}
+                      </div>
                     </div>
-                  </div>
+                    {message.id === activeSummary?.throughMessageId && (
+                      <ContextSummaryDivider summary={activeSummary} />
+                    )}
+                  </Fragment>
                 );
               })}
 
@@ -540,9 +1504,21 @@ export default function ChatInterface() {
                     <FileText className="w-5 h-5" style={{ color: "#D99B83" }} />
                   </div>
                   <div className="rounded-2xl px-4 py-3 max-w-[80%]" style={{ backgroundColor: "#FDFBF7", border: "1px solid rgba(217,155,131,0.3)" }}>
-                    <p className="text-sm" style={{ color: "#2D2D2D" }}>
-                      {streamingContent || <Loader2 className="w-5 h-5 animate-spin" style={{ color: "#D99B83" }} />}
-                    </p>
+                    {streamingToolSteps.length > 0 && <ToolSteps steps={streamingToolSteps} />}
+                    {streamingContent && (generatingSchema || generatingComparison) ? (
+                      // Raw JSON is unreadable while it streams; the table appears when it completes
+                      <p className="flex items-center gap-2 text-sm italic" style={{ color: "#9CA3AF" }}>
+                        <Loader2 className="w-4 h-4 animate-spin" style={{ color: "#D99B83" }} />
+                        {generatingSchema
+                          ? t("chat.extracting", { schema: generatingSchema.name.toLowerCase() })
+                          : t("chat.comparing", { a: generatingComparison!.a.name, b: generatingComparison!.b.name })}{" "}
+                        {t("chat.characters", { count: streamingContent.length.toLocaleString(locale) })}
+                      </p>
+                    ) : streamingContent ? (
+                      <MarkdownMessage content={streamingContent} onCitation={openCitation} isStreaming />
+                    ) : (
+                      <Loader2 className="w-5 h-5 animate-spin" style={{ color: "#D99B83" }} />
+                    )}
                   </div>
                 </div>
               )}
@@ -562,15 +1538,22 @@ export default function ChatInterface() {
                 key={file.id}
                 className="flex items-center gap-2 bg-bg-sidebar rounded-full px-4 py-2 text-sm shadow-sm border border-text-ink/10"
               >
-                {getFileIcon(file.type)}
-                <span className="text-ink max-w-[200px] truncate">
-                  {file.name}
-                </span>
+                <button
+                  type="button"
+                  onClick={() => previewFile(file)}
+                  className="flex items-center gap-2 hover:text-terra transition-colors"
+                  title={t("chat.previewFile", { name: file.name })}
+                >
+                  {getFileIcon(file.type)}
+                  <span className="text-ink max-w-[200px] truncate">
+                    {file.name}
+                  </span>
+                </button>
                 <button
                   onClick={() => removeFile(file.id)}
                   className="text-ink/50 hover:text-terra transition-colors"
                   disabled={isProcessingFile}
-                  aria-label={`Remove ${file.name}`}
+                  aria-label={t("chat.removeFile", { name: file.name })}
                 >
                   <X className="w-4 h-4" />
                 </button>
@@ -579,15 +1562,68 @@ export default function ChatInterface() {
           </div>
         )}
 
+        {mode === "extract" && (
+          <ExtractionSchemaPicker
+            schema={extractionSchema}
+            onSchemaChange={setExtractionSchema}
+            disabled={isLoading}
+          />
+        )}
+
+        {mode === "compare" && (
+          <ComparisonPicker
+            candidates={compareCandidates}
+            documents={compareDocuments}
+            onChange={setComparePair}
+            disabled={isLoading}
+          />
+        )}
+
         {/* Upload Progress Bar */}
         {isProcessingFile && (
           <div className="mb-3">
             <Progress value={uploadProgress} className="h-2" />
-            <p className="text-xs text-ink/50 mt-1 text-center">Processing file... {uploadProgress}%</p>
+            <p className="text-xs text-ink/50 mt-1 text-center">{t("chat.uploadProgress", { percent: uploadProgress })}</p>
           </div>
         )}
 
+        <div className="flex items-center mb-2">
+          <PersonaPicker
+            personas={settings.personas}
+            personaId={personaId}
+            onPersonaChange={setPersonaId}
+            onManage={() => setShowSettings(true)}
+            disabled={isLoading}
+          />
+        </div>
+
+        {pendingTemplate && (
+          <TemplateVariablesForm
+            key={pendingTemplate.id}
+            template={pendingTemplate}
+            onSubmit={(text) => {
+              setPendingTemplate(null);
+              setInput(text);
+              inputRef.current?.focus();
+            }}
+            onCancel={() => {
+              setPendingTemplate(null);
+              inputRef.current?.focus();
+            }}
+          />
+        )}
+
         <form onSubmit={handleSubmit} className="relative">
+          {isPaletteOpen && (
+            <TemplatePalette
+              matches={paletteMatches}
+              activeIndex={paletteIndex}
+              onActiveIndexChange={setPaletteIndex}
+              onPick={applyTemplate}
+              onManage={() => setShowTemplates(true)}
+              onClose={() => setIsPaletteDismissed(true)}
+            />
+          )}
           {/* Journal Style Input */}
           <div
             className="relative flex items-center gap-2 rounded-xl p-3 transition-colors"
@@ -602,41 +1638,96 @@ export default function ChatInterface() {
               onClick={() => fileInputRef.current?.click()}
               className="p-2 text-gray-400 hover:text-gray-600 rounded-lg transition-all"
               disabled={isLoading || isProcessingFile}
-              aria-label="Attach file"
+              aria-label={t("chat.attachFile")}
             >
               <Paperclip className="w-5 h-5 stroke-[1.5px]" />
             </button>
 
+            <button
+              type="button"
+              onClick={() => setMode((current) => (current === "extract" ? "chat" : "extract"))}
+              className={cn(
+                "p-2 rounded-lg transition-all",
+                mode === "extract" ? "text-terra bg-terra/10" : "text-gray-400 hover:text-gray-600"
+              )}
+              disabled={isLoading}
+              aria-pressed={mode === "extract"}
+              aria-label={t("chat.extractMode")}
+              title={t("chat.extractMode")}
+            >
+              <Table2 className="w-5 h-5 stroke-[1.5px]" />
+            </button>
+
+            <button
+              type="button"
+              onClick={() => setMode((current) => (current === "compare" ? "chat" : "compare"))}
+              className={cn(
+                "p-2 rounded-lg transition-all",
+                mode === "compare" ? "text-terra bg-terra/10" : "text-gray-400 hover:text-gray-600"
+              )}
+              disabled={isLoading}
+              aria-pressed={mode === "compare"}
+              aria-label={t("chat.compareMode")}
+              title={t("chat.compareMode")}
+            >
+              <GitCompare className="w-5 h-5 stroke-[1.5px]" />
+            </button>
+
             <input
               type="text"
               ref={inputRef}
               value={input}
-              onChange={(e) => setInput(e.target.value)}
-              placeholder="Write your thoughts..."
+              onChange={(e) => changeInput(e.target.value)}
+              onKeyDown={handleComposerKeyDown}
+              placeholder={
+                mode === "extract"
+                  ? t("chat.placeholderExtract")
+                  : mode === "compare"
+                    ? t("chat.placeholderCompare")
+                    : t("chat.placeholder")
+              }
               className="flex-1 bg-transparent border-none outline-none focus:ring-0 text-base md:text-sm py-2 px-2 placeholder-gray-400"
               style={{ color: "#2D2D2D" }}
               disabled={isLoading || isProcessingFile}
             />
 
-            <button
-              type="submit"
-              disabled={isLoading || isProcessingFile || (!input.trim() && attachedFiles.length === 0)}
-              className="p-2 rounded-lg transition-all disabled:opacity-40 disabled:cursor-not-allowed hover:bg-gray-100"
-              style={{ color: "#D99B83" }}
-              aria-label="Send message"
-            >
-              {isLoading || isProcessingFile ? (
-                <Loader2 className="w-5 h-5 animate-spin" />
-              ) : (
-                <Send className="w-5 h-5 stroke-[1.5px]" />
-              )}
-            </button>
+            {isLoading ? (
+              <button
+                type="button"
+                onClick={stopGeneration}
+                className="p-2 rounded-lg transition-all hover:bg-gray-100"
+                style={{ color: "#D99B83" }}
+                aria-label={t("chat.stop")}
+              >
+                <Square className="w-5 h-5 fill-current" />
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={
+                  isProcessingFile ||
+                  (!input.trim() &&
+                    attachedFiles.length === 0 &&
+                    !(mode === "extract" && documents.length > 0) &&
+                    !(mode === "compare" && compareDocuments))
+                }
+                className="p-2 rounded-lg transition-all disabled:opacity-40 disabled:cursor-not-allowed hover:bg-gray-100"
+                style={{ color: "#D99B83" }}
+                aria-label={t("chat.send")}
+              >
+                {isProcessingFile ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Send className="w-5 h-5 stroke-[1.5px]" />
+                )}
+              </button>
+            )}
           </div>
 
           <input
             ref={fileInputRef}
             type="file"
-            accept="image/*,application/pdf,video/*"
+            accept="image/*,application/pdf,video/*,audio/*"
             multiple
             onChange={handleFileSelect}
             className="hidden"
@@ -645,10 +1736,73 @@ export default function ChatInterface() {
         </form>
 
         <p className="text-xs text-ink/40 mt-3 text-center font-light">
-          Press Enter to send · Drag & drop files anywhere
+          {t("chat.composerHint")}
+          {chatTotals.responses > 0 && (
+            <>
+              {" · "}
+              <button
+                type="button"
+                onClick={() => setShowUsage(true)}
+                className="hover:text-terra transition-colors"
+                title={t("chat.openUsage")}
+              >
+                {t("chat.chatTokens", { tokens: formatTokens(chatTotals.totalTokens) })}
+                {chatTotals.cost > 0 && ` · ${formatCost(chatTotals.cost)}`}
+              </button>
+            </>
+          )}
         </p>
       </div>
     </div>
+
+      {showUsage && (
+        <UsageDashboard
+          chats={chatHistory}
+          prices={prices}
+          onPricesChange={updatePrices}
+          onClose={() => setShowUsage(false)}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsDialog
+          settings={settings}
+          onSettingsChange={updateSettings}
+          onClose={() => setShowSettings(false)}
+          canAddPassword={session?.canAddPassword}
+          onPasswordAdded={refreshSession}
+        />
+      )}
+
+      {showTemplates && (
+        <TemplateLibrary
+          templates={templates}
+          onSave={storeTemplate}
+          onDelete={removeTemplate}
+          onUse={applyTemplate}
+          onClose={() => setShowTemplates(false)}
+        />
+      )}
+
+      {showHistory && (
+        <HistoryBrowser
+          chats={chatHistory}
+          currentChatId={currentChatId}
+          onOpenChat={openFromHistory}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {/* Document preview / citation side panel */}
+      {viewer && (
+        <DocumentViewer
+          key={viewer.file.id}
+          file={viewer.file}
+          page={viewer.page}
+          focusKey={viewer.focusKey}
+          onClose={() => setViewer(null)}
+        />
+      )}
     </div>
   );
 }
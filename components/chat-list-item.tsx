@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from "react";
+import { FileText, Ellipsis, Pencil, Pin, PinOff, Folder, FolderMinus, Trash2, Check } from "lucide-react";
+import { cn } from "@/lib/utils";
+import TagDot from "./tag-dot";
+import {
+  CHAT_DRAG_TYPE,
+  CHAT_TAG_COLORS,
+  type ChatFolder,
+  type ChatHistory,
+  type ChatMetaUpdate,
+} from "@/lib/chat-types";
+import { useI18n } from "@/components/i18n-provider";
+
+interface ChatListItemProps {
+  chat: Pick<ChatHistory, "id" | "title" | "pinned" | "tags" | "folderId">;
+  // Second line under the title, e.g. "2h ago"
+  meta: string;
+  active: boolean;
+  folders: ChatFolder[];
+  onOpen: () => void;
+  onUpdate: (update: ChatMetaUpdate) => void;
+  onDelete: () => void;
+}
+
+// A chat in the sidebar: opens on click, drags onto folders, and has a menu to
+// rename, pin, tag, file or delete it
+export default function ChatListItem({ chat, meta, active, folders, onOpen, onUpdate, onDelete }: ChatListItemProps) {
+  const { t } = useI18n();
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [draftTitle, setDraftTitle] = useState<string | null>(null);
+  const tags = chat.tags ?? [];
+
+  const commitRename = () => {
+    const title = draftTitle?.trim();
+    if (title && title !== chat.title) onUpdate({ title });
+    setDraftTitle(null);
+  };
+
+  const toggleTag = (color: (typeof CHAT_TAG_COLORS)[number]) =>
+    onUpdate({ tags: tags.includes(color) ? tags.filter((tag) => tag !== color) : [...tags, color] });
+
+  const runAndClose = (action: () => void) => () => {
+    setIsMenuOpen(false);
+    action();
+  };
+
+  const menuItemClass =
+    "w-full flex items-center gap-2 px-3 py-1.5 text-sm text-ink text-left hover:bg-terra/10 transition-colors";
+
+  return (
+    <div
+      draggable={draftTitle === null}
+      onDragStart={(e) => {
+        e.dataTransfer.setData(CHAT_DRAG_TYPE, chat.id);
+        e.dataTransfer.effectAllowed = "move";
+      }}
+      className={cn(
+        "relative group flex items-start gap-3 py-2.5 pl-3 pr-1 transition-colors border-l-4",
+        active ? "border-terra" : "border-transparent hover:bg-card-cream/50"
+      )}
+    >
+      <FileText
+        className={cn(
+          "w-4.5 h-4.5 flex-shrink-0 mt-0.5 stroke-[1.5px]",
+          active ? "text-terra" : "text-ink/40 group-hover:text-ink/60"
+        )}
+      />
+      {draftTitle !== null ? (
+        <input
+          autoFocus
+          value={draftTitle}
+          onChange={(e) => setDraftTitle(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitRename();
+            if (e.key === "Escape") setDraftTitle(null);
+          }}
+          maxLength={500}
+          aria-label={t("chatItem.title")}
+          className="flex-1 min-w-0 bg-paper border border-terra/40 rounded-md px-1.5 py-0.5 text-sm text-ink outline-none"
+        />
+      ) : (
+        <button onClick={onOpen} className="flex-1 min-w-0 text-left">
+          <p
+            className={cn(
+              "text-sm truncate",
+              active ? "font-semibold text-ink" : "font-medium text-ink/70 group-hover:text-ink"
+            )}
+          >
+            {chat.title}
+          </p>
+          <p className="flex items-center gap-1.5 text-xs text-ink/40 mt-0.5">
+            {chat.pinned && <Pin className="w-3 h-3 stroke-[1.5px]" />}
+            {tags.map((color) => (
+              <TagDot key={color} color={color} />
+            ))}
+            <span className="truncate">{meta}</span>
+          </p>
+        </button>
+      )}
+
+      {draftTitle === null && (
+        <button
+          onClick={() => setIsMenuOpen((open) => !open)}
+          className={cn(
+            "p-1 rounded-md text-ink/50 hover:text-ink hover:bg-card-cream transition-opacity",
+            isMenuOpen ? "opacity-100" : "opacity-0 group-hover:opacity-100 focus:opacity-100"
+          )}
+          aria-label={t("chatItem.options")}
+          aria-expanded={isMenuOpen}
+        >
+          <Ellipsis className="w-4 h-4" />
+        </button>
+      )}
+
+      {isMenuOpen && (
+        <>
+          {/* Clicking anywhere else closes the menu */}
+          <div className="fixed inset-0 z-20" onClick={() => setIsMenuOpen(false)} />
+          <div className="absolute right-1 top-9 w-48 py-1 rounded-xl bg-card-cream border border-text-ink/10 shadow-md z-30">
+            <button onClick={runAndClose(() => setDraftTitle(chat.title))} className={menuItemClass}>
+              <Pencil className="w-4 h-4 text-terra" />
+              {t("chatItem.rename")}
+            </button>
+            <button onClick={runAndClose(() => onUpdate({ pinned: !chat.pinned }))} className={menuItemClass}>
+              {chat.pinned ? <PinOff className="w-4 h-4 text-terra" /> : <Pin className="w-4 h-4 text-terra" />}
+              {t(chat.pinned ? "chatItem.unpin" : "chatItem.pin")}
+            </button>
+
+            <div className="flex items-center gap-1.5 px-3 py-2" role="group" aria-label={t("chatItem.colorTags")}>
+              {CHAT_TAG_COLORS.map((color) => (
+                <button
+                  key={color}
+                  onClick={() => toggleTag(color)}
+                  className={cn(
+                    "p-0.5 rounded-full border-2 transition-colors",
+                    tags.includes(color) ? "border-ink/60" : "border-transparent hover:border-ink/20"
+                  )}
+                  aria-label={t(tags.includes(color) ? "chatItem.removeTag" : "chatItem.addTag", { color: t(`tag.${color}`) })}
+                  aria-pressed={tags.includes(color)}
+                >
+                  <TagDot color={color} className="w-3 h-3" />
+                </button>
+              ))}
+            </div>
+
+            {(folders.length > 0 || chat.folderId) && (
+              <div className="border-t border-text-ink/10 py-1">
+                <p className="px-3 py-1 text-[11px] text-ink/40 uppercase tracking-wide">{t("chatItem.moveToFolder")}</p>
+                {folders.map((folder) => (
+                  <button
+                    key={folder.id}
+                    onClick={runAndClose(() => onUpdate({ folderId: folder.id }))}
+                    className={menuItemClass}
+                  >
+                    <Folder className="w-4 h-4 text-ink/50" />
+                    <span className="flex-1 truncate">{folder.name}</span>
+                    {chat.folderId === folder.id && <Check className="w-3.5 h-3.5 text-terra" />}
+                  </button>
+                ))}
+                {chat.folderId && (
+                  <button onClick={runAndClose(() => onUpdate({ folderId: undefined }))} className={menuItemClass}>
+                    <FolderMinus className="w-4 h-4 text-ink/50" />
+                    {t("chatItem.removeFromFolder")}
+                  </button>
+                )}
+              </div>
+            )}
+
+            <div className="border-t border-text-ink/10 pt-1">
+              <button onClick={runAndClose(onDelete)} className={cn(menuItemClass, "text-red-600")}>
+                <Trash2 className="w-4 h-4" />
+                {t("chatItem.delete")}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { ArrowLeftRight, GitCompare } from "lucide-react";
+import type { ComparisonDocuments } from "@/lib/comparison";
+import { useI18n } from "@/components/i18n-provider";
+
+interface ComparisonPickerProps {
+  // The chat's documents that can be compared
+  candidates: { id: string; name: string }[];
+  // The current choice (see pickComparisonDocuments); null with fewer than two documents
+  documents: ComparisonDocuments | null;
+  onChange: (pair: { a: string; b: string }) => void;
+  disabled?: boolean;
+}
+
+const selectClass =
+  "flex-1 min-w-0 bg-paper border border-text-ink/10 rounded-lg px-2 py-1 text-sm text-ink outline-none focus:border-terra disabled:opacity-50";
+
+// Chooses which of the chat's documents are compared as A and B
+export default function ComparisonPicker({ candidates, documents, onChange, disabled }: ComparisonPickerProps) {
+  const { t } = useI18n();
+  if (!documents) {
+    return (
+      <div className="mb-3 flex items-center gap-2 rounded-xl bg-card-cream border border-text-ink/10 px-3 py-2 text-sm text-ink/60">
+        <GitCompare className="w-4 h-4 text-terra flex-shrink-0" />
+        {t("compare.attachTwo")}
+      </div>
+    );
+  }
+
+  const { a, b } = documents;
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-2 rounded-xl bg-card-cream border border-text-ink/10 px-3 py-2">
+      <GitCompare className="w-4 h-4 text-terra flex-shrink-0" />
+      <label className="flex flex-1 min-w-[160px] items-center gap-1.5">
+        <span className="text-xs font-semibold text-terra">A</span>
+        <select
+          value={a.id}
+          onChange={(e) => onChange({ a: e.target.value, b: e.target.value === b.id ? a.id : b.id })}
+          disabled={disabled}
+          className={selectClass}
+          aria-label={t("compare.documentA")}
+        >
+          {candidates.map((d) => (
+            <option key={d.id} value={d.id}>
+              {d.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <button
+        type="button"
+        onClick={() => onChange({ a: b.id, b: a.id })}
+        disabled={disabled}
+        className="p-1 text-ink/40 hover:text-terra transition-colors disabled:opacity-50"
+        aria-label={t("compare.swap")}
+        title={t("compare.swap")}
+      >
+        <ArrowLeftRight className="w-4 h-4" />
+      </button>
+      <label className="flex flex-1 min-w-[160px] items-center gap-1.5">
+        <span className="text-xs font-semibold text-terra">B</span>
+        <select
+          value={b.id}
+          onChange={(e) => onChange({ a: e.target.value === a.id ? b.id : a.id, b: e.target.value })}
+          disabled={disabled}
+          className={selectClass}
+          aria-label={t("compare.documentB")}
+        >
+          {candidates.map((d) => (
+            <option key={d.id} value={d.id}>
+              {d.name}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
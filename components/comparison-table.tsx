@@ -0,0 +1,204 @@
+"use client";
+
+import { useState } from "react";
+import { Download, AlertTriangle } from "lucide-react";
+import { cn, downloadFile } from "@/lib/utils";
+import { toCSV } from "@/lib/table-export";
+import { exportComparisonHTML, exportComparisonMarkdown } from "@/lib/chat-export";
+import {
+  CHANGE_KINDS,
+  CHANGE_LABELS,
+  countChanges,
+  diffWords,
+  type ChangeKind,
+  type ComparisonResult,
+  type ComparisonRow,
+} from "@/lib/comparison";
+import { useI18n } from "@/components/i18n-provider";
+
+interface ComparisonTableProps {
+  result: ComparisonResult;
+  // The question the comparison answers, for the exported report
+  question: string;
+}
+
+const CHANGE_STYLES: Record<ChangeKind, { marker: string; badge: string; row: string }> = {
+  added: { marker: "+", badge: "bg-green-100 text-green-800", row: "bg-green-50/60" },
+  removed: { marker: "−", badge: "bg-red-100 text-red-800", row: "bg-red-50/60" },
+  changed: { marker: "~", badge: "bg-amber-100 text-amber-800", row: "bg-amber-50/60" },
+  unchanged: { marker: "=", badge: "bg-ink/5 text-ink/50", row: "" },
+};
+
+// One side of a clause; in changed clauses the words the other side lacks are highlighted
+function ClauseText({ row, side }: { row: ComparisonRow; side: "a" | "b" }) {
+  const { t } = useI18n();
+  const text = row[side];
+  if (text === null) return <span className="italic text-ink/40">{t("compare.notIn", { side: side.toUpperCase() })}</span>;
+
+  const diff = row.change === "changed" && row.a !== null && row.b !== null ? diffWords(row.a, row.b) : null;
+  if (!diff) return <>{text}</>;
+  return (
+    <>
+      {diff[side].map((segment, i) =>
+        segment.changed ? (
+          <mark
+            key={i}
+            className={cn("rounded-sm text-ink", side === "a" ? "bg-red-200/70 line-through decoration-red-700/50" : "bg-green-200/70")}
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+// A compare-mode answer: documents A and B side by side, clause by clause, with
+// change markers and a report export
+export default function ComparisonTable({ result, question }: ComparisonTableProps) {
+  const { t } = useI18n();
+  const [hideUnchanged, setHideUnchanged] = useState(false);
+  const [showWarnings, setShowWarnings] = useState(false);
+  const { documents, summary, rows, warnings } = result;
+  const counts = countChanges(rows);
+  const visibleRows = hideUnchanged ? rows.filter((row) => row.change !== "unchanged") : rows;
+  const stem = (name: string) => name.replace(/\.[^.]+$/, "");
+  const baseName =
+    `${stem(documents.a.name)}-vs-${stem(documents.b.name)}`
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "comparison";
+
+  const columns = ["clause", "change", "a", "b", "note", "pageA", "pageB"];
+  const exports = [
+    {
+      label: t("compare.report"),
+      run: () => downloadFile(`${baseName}.html`, exportComparisonHTML(result, question), "text/html;charset=utf-8"),
+    },
+    {
+      label: "Markdown",
+      run: () => downloadFile(`${baseName}.md`, exportComparisonMarkdown(result, question), "text/markdown;charset=utf-8"),
+    },
+    {
+      label: "CSV",
+      run: () =>
+        downloadFile(
+          `${baseName}.csv`,
+          toCSV(columns, rows.map((row) => ({ ...row, change: CHANGE_LABELS[row.change] }))),
+          "text/csv;charset=utf-8"
+        ),
+    },
+  ];
+
+  return (
+    <div className="flex flex-col gap-2 w-full">
+      <div className="flex flex-wrap items-center gap-2">
+        <p className="text-sm font-serif font-semibold text-ink">
+          <span className="text-terra">A</span> {documents.a.name} <span className="text-ink/40">{t("compare.versus")}</span>{" "}
+          <span className="text-terra">B</span> {documents.b.name}
+        </p>
+        <div className="flex items-center gap-1 ml-auto">
+          <Download className="w-3.5 h-3.5 text-ink/40" />
+          {exports.map(({ label, run }) => (
+            <button
+              key={label}
+              type="button"
+              onClick={run}
+              className="px-2 py-0.5 rounded-md text-xs font-medium text-ink/70 border border-text-ink/10 hover:border-terra/40 hover:text-terra transition-colors"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {summary && <p className="text-sm text-ink">{summary}</p>}
+
+      <div className="flex flex-wrap items-center gap-1.5 text-xs">
+        {CHANGE_KINDS.map((kind) => (
+          <span key={kind} className={cn("px-1.5 py-0.5 rounded-md font-medium", CHANGE_STYLES[kind].badge)}>
+            {CHANGE_STYLES[kind].marker} {counts[kind]} {t(`compare.kind.${kind}`)}
+          </span>
+        ))}
+        <label className="flex items-center gap-1 ml-auto text-ink/60">
+          <input
+            type="checkbox"
+            checked={hideUnchanged}
+            onChange={(e) => setHideUnchanged(e.target.checked)}
+            className="accent-terra"
+          />
+          {t("compare.changesOnly")}
+        </label>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-text-ink/10 bg-white/60">
+        <table className="w-full border-collapse text-left text-sm">
+          <thead>
+            <tr className="border-b border-text-ink/10" style={{ backgroundColor: "rgba(217,155,131,0.12)" }}>
+              <th className="px-2 py-1.5 text-xs font-semibold text-ink w-40">{t("compare.clause")}</th>
+              <th className="px-2 py-1.5 text-xs font-semibold text-ink min-w-[180px]">A · {documents.a.name}</th>
+              <th className="px-2 py-1.5 text-xs font-semibold text-ink min-w-[180px]">B · {documents.b.name}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.length === 0 && (
+              <tr>
+                <td colSpan={3} className="px-2 py-3 text-sm text-ink/50 italic">
+                  {t(rows.length === 0 ? "compare.noClauses" : "compare.noDifferences")}
+                </td>
+              </tr>
+            )}
+            {visibleRows.map((row, i) => (
+              <tr key={i} className={cn("border-b border-text-ink/5 last:border-b-0 align-top", CHANGE_STYLES[row.change].row)}>
+                <td className="px-2 py-1.5">
+                  <span
+                    className={cn("inline-block px-1.5 rounded-md text-[11px] font-semibold", CHANGE_STYLES[row.change].badge)}
+                    title={t(`compare.change.${row.change}`)}
+                  >
+                    {CHANGE_STYLES[row.change].marker} {t(`compare.kind.${row.change}`)}
+                  </span>
+                  <p className="font-medium text-ink mt-0.5">{row.clause}</p>
+                  {(row.pageA || row.pageB) && (
+                    <p className="text-[11px] text-ink/40">
+                      {row.pageA ? t("compare.page", { side: "A", page: row.pageA }) : ""}
+                      {row.pageA && row.pageB ? " · " : ""}
+                      {row.pageB ? t("compare.page", { side: "B", page: row.pageB }) : ""}
+                    </p>
+                  )}
+                </td>
+                <td className="px-2 py-1.5 text-ink/80 whitespace-pre-wrap">
+                  <ClauseText row={row} side="a" />
+                </td>
+                <td className="px-2 py-1.5 text-ink/80 whitespace-pre-wrap">
+                  <ClauseText row={row} side="b" />
+                  {row.note && <p className="mt-1 text-xs text-ink/60 italic">{row.note}</p>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {warnings.length > 0 && (
+        <button
+          type="button"
+          onClick={() => setShowWarnings((show) => !show)}
+          className="self-start flex items-center gap-1 text-xs text-amber-700 hover:underline"
+          aria-expanded={showWarnings}
+        >
+          <AlertTriangle className="w-3.5 h-3.5" />
+          {t(warnings.length === 1 ? "compare.review.one" : "compare.review.other", { count: warnings.length })}
+        </button>
+      )}
+      {showWarnings && (
+        <ul className="text-xs text-amber-800 list-disc ml-5 space-y-0.5">
+          {warnings.map((warning, i) => (
+            <li key={i}>{warning}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
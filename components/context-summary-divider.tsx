@@ -0,0 +1,44 @@
+"use client";
+
+import { useState } from "react";
+import { Layers, ChevronDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ContextSummary } from "@/lib/context";
+import { useI18n } from "@/components/i18n-provider";
+
+interface ContextSummaryDividerProps {
+  summary: ContextSummary;
+}
+
+// Marks where the model's view of the chat begins: messages above were
+// summarized to fit the context budget and are no longer sent word for word
+export default function ContextSummaryDivider({ summary }: ContextSummaryDividerProps) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const count = summary.summarizedCount;
+
+  return (
+    <div className="my-2">
+      <div className="flex items-center gap-3">
+        <div className="flex-1 h-px bg-text-ink/10" />
+        <button
+          type="button"
+          onClick={() => setIsOpen((open) => !open)}
+          className="flex items-center gap-1.5 text-xs text-ink/50 hover:text-terra transition-colors"
+          aria-expanded={isOpen}
+        >
+          <Layers className="w-3.5 h-3.5" />
+          {t(count === 1 ? "message.summarized.one" : "message.summarized.other", { count })}
+          <ChevronDown className={cn("w-3.5 h-3.5 transition-transform", isOpen && "rotate-180")} />
+        </button>
+        <div className="flex-1 h-px bg-text-ink/10" />
+      </div>
+      {isOpen && (
+        <div className="mt-2 mx-auto max-w-2xl rounded-xl bg-bg-sidebar border border-text-ink/10 px-4 py-3">
+          <p className="text-xs font-medium text-ink/50 mb-1">{t("message.summaryHeading")}</p>
+          <p className="text-sm text-ink/80 whitespace-pre-wrap break-words">{summary.content}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { FileText, Image as ImageIcon, Video, AudioLines, X, Eye, EyeOff } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ChatDocument } from "@/lib/chat-types";
+import { useI18n } from "@/components/i18n-provider";
+
+interface DocumentChipsProps {
+  documents: ChatDocument[];
+  disabled?: boolean;
+  onToggle: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))}KB` : `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+
+// The chat's document set. Enabled documents are sent with every question;
+// clicking a chip includes or excludes it from the next turn.
+export default function DocumentChips({ documents, disabled, onToggle, onRemove }: DocumentChipsProps) {
+  const { t } = useI18n();
+  const enabledCount = documents.filter((d) => d.enabled).length;
+
+  return (
+    <div className="px-4 md:px-8 pr-16 md:pr-16 pt-16 md:pt-4 pb-2 border-b border-text-ink/10">
+      <p className="text-xs text-ink/50 mb-2">
+        {t("documents.heading", { enabled: enabledCount, total: documents.length })}
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {documents.map((doc) => (
+          <div
+            key={doc.id}
+            className={cn(
+              "flex items-center gap-1.5 rounded-full pl-3 pr-2 py-1.5 text-sm border transition-all",
+              doc.enabled
+                ? "bg-card-cream border-terra/40 text-ink shadow-sm"
+                : "bg-transparent border-dashed border-text-ink/20 text-ink/40"
+            )}
+          >
+            <button
+              type="button"
+              onClick={() => onToggle(doc.id)}
+              disabled={disabled}
+              className="flex items-center gap-1.5 disabled:cursor-not-allowed"
+              aria-pressed={doc.enabled}
+              title={t(doc.enabled ? "documents.exclude" : "documents.include")}
+            >
+              {doc.type.startsWith("image/") ? (
+                <ImageIcon className="w-3.5 h-3.5" />
+              ) : doc.type.startsWith("video/") ? (
+                <Video className="w-3.5 h-3.5" />
+              ) : doc.type.startsWith("audio/") ? (
+                <AudioLines className="w-3.5 h-3.5" />
+              ) : (
+                <FileText className="w-3.5 h-3.5" />
+              )}
+              <span className={cn("max-w-[180px] truncate", !doc.enabled && "line-through")}>{doc.name}</span>
+              <span className="text-xs text-ink/40">{formatSize(doc.size)}</span>
+              {doc.enabled ? <Eye className="w-3.5 h-3.5 text-terra" /> : <EyeOff className="w-3.5 h-3.5" />}
+            </button>
+            <button
+              type="button"
+              onClick={() => onRemove(doc.id)}
+              disabled={disabled}
+              className="text-ink/40 hover:text-terra transition-colors disabled:cursor-not-allowed"
+              aria-label={t("documents.remove", { name: doc.name })}
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
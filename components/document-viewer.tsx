@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { X, Loader2, FileText } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { AttachedFile } from "@/lib/chat-types";
+import { useI18n } from "@/components/i18n-provider";
+
+type PdfDocument = Awaited<ReturnType<typeof import("unpdf").getDocumentProxy>>;
+
+interface DocumentViewerProps {
+  file: AttachedFile;
+  // Page to jump to and highlight (PDFs only)
+  page?: number;
+  // Changes on every citation click, so clicking the same page again scrolls back to it
+  focusKey?: number;
+  onClose: () => void;
+}
+
+// Canvas width pages are rendered at; CSS scales them to the panel
+const RENDER_WIDTH = 900;
+
+// Helper function to read an attachment's bytes from its blob or legacy base64
+async function readBytes(file: AttachedFile): Promise<Uint8Array> {
+  if (file.blob) return new Uint8Array(await file.blob.arrayBuffer());
+  const binary = atob((file.base64 || "").replace(/^data:[^;]+;base64,/, ""));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+// One PDF page, rendered once it scrolls near the viewport
+function PdfPage({ pdf, pageNumber, aspectRatio, highlighted }: {
+  pdf: PdfDocument;
+  pageNumber: number;
+  aspectRatio: number;
+  highlighted: boolean;
+}) {
+  const { t } = useI18n();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+
+  useEffect(() => {
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) {
+          setIsVisible(true);
+          observer.disconnect();
+        }
+      },
+      { rootMargin: "600px 0px" }
+    );
+    if (containerRef.current) observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!isVisible || !canvasRef.current) return;
+    const canvas = canvasRef.current;
+    let task: ReturnType<Awaited<ReturnType<PdfDocument["getPage"]>>["render"]> | undefined;
+    let cancelled = false;
+
+    (async () => {
+      const pdfPage = await pdf.getPage(pageNumber);
+      if (cancelled) return;
+      const viewport = pdfPage.getViewport({ scale: RENDER_WIDTH / pdfPage.getViewport({ scale: 1 }).width });
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      task = pdfPage.render({ canvas, viewport });
+      await task.promise.catch(() => {});
+    })();
+
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [isVisible, pdf, pageNumber]);
+
+  return (
+    <div
+      ref={containerRef}
+      data-page={pageNumber}
+      className={cn(
+        "relative bg-white shadow-sm rounded-sm transition-shadow",
+        highlighted && "ring-4 ring-terra/70"
+      )}
+      style={{ aspectRatio }}
+    >
+      <canvas ref={canvasRef} className="w-full h-full" />
+      <span
+        className={cn(
+          "absolute top-2 right-2 rounded-full px-2 py-0.5 text-xs font-medium",
+          highlighted ? "bg-terra text-white" : "bg-black/40 text-white"
+        )}
+      >
+        {t(highlighted ? "preview.cited" : "preview.page", { page: pageNumber })}
+      </span>
+    </div>
+  );
+}
+
+function PdfView({ file, page, focusKey }: { file: AttachedFile; page?: number; focusKey?: number }) {
+  const { t } = useI18n();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [pdf, setPdf] = useState<{ doc: PdfDocument; aspectRatio: number } | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  // Load pdf.js lazily; it is only needed once a document is opened
+  useEffect(() => {
+    let cancelled = false;
+    let doc: PdfDocument | undefined;
+
+    (async () => {
+      try {
+        const { getDocumentProxy } = await import("unpdf");
+        doc = await getDocumentProxy(await readBytes(file));
+        const first = (await doc.getPage(1)).getViewport({ scale: 1 });
+        if (!cancelled) setPdf({ doc, aspectRatio: first.width / first.height });
+      } catch (e) {
+        console.error("[Viewer] Failed to open PDF:", e);
+        if (!cancelled) setFailed(true);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      doc?.destroy();
+    };
+  }, [file]);
+
+  // Jump to the cited page
+  useEffect(() => {
+    if (!pdf || !page) return;
+    scrollRef.current
+      ?.querySelector(`[data-page="${page}"]`)
+      ?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }, [pdf, page, focusKey]);
+
+  if (failed) {
+    return <p className="p-6 text-sm text-ink/60">{t("preview.openFailed")}</p>;
+  }
+  if (!pdf) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-terra" />
+      </div>
+    );
+  }
+
+  return (
+    <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-4 bg-bg-sidebar">
+      {page && page > pdf.doc.numPages && (
+        <p className="text-xs text-ink/60 text-center">
+          {t("preview.pageMissing", { page, count: pdf.doc.numPages })}
+        </p>
+      )}
+      {Array.from({ length: pdf.doc.numPages }, (_, i) => (
+        <PdfPage
+          key={i + 1}
+          pdf={pdf.doc}
+          pageNumber={i + 1}
+          aspectRatio={pdf.aspectRatio}
+          highlighted={i + 1 === page}
+        />
+      ))}
+    </div>
+  );
+}
+
+function ImageView({ file }: { file: AttachedFile }) {
+  const src = useMemo(() => (file.blob ? URL.createObjectURL(file.blob) : file.base64 || ""), [file]);
+
+  useEffect(() => {
+    return () => {
+      if (src.startsWith("blob:")) URL.revokeObjectURL(src);
+    };
+  }, [src]);
+
+  return (
+    <div className="flex-1 overflow-auto p-4 bg-bg-sidebar flex items-start justify-center">
+      {/* eslint-disable-next-line @next/next/no-img-element -- local blob/data URL */}
+      <img src={src} alt={file.name} className="max-w-full h-auto rounded-sm shadow-sm" />
+    </div>
+  );
+}
+
+// Side panel showing a document or image: attachments before they are sent,
+// and the source page behind a citation in an answer.
+export default function DocumentViewer({ file, page, focusKey, onClose }: DocumentViewerProps) {
+  const { t } = useI18n();
+  const hasContent = Boolean(file.blob || file.base64);
+
+  return (
+    <aside
+      className="fixed inset-0 z-40 md:static md:z-auto md:w-[45%] md:max-w-[640px] flex flex-col h-screen bg-card-cream md:border-l border-text-ink/10"
+      aria-label={t("preview.label", { name: file.name })}
+    >
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-text-ink/10">
+        <FileText className="w-4 h-4 text-terra flex-shrink-0" />
+        <p className="flex-1 text-sm font-medium text-ink truncate">{file.name}</p>
+        {page && <span className="text-xs text-ink/50">{t("preview.page", { page })}</span>}
+        <button
+          onClick={onClose}
+          className="p-1 rounded-md text-ink/50 hover:text-terra transition-colors"
+          aria-label={t("preview.close")}
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {!hasContent ? (
+        <p className="p-6 text-sm text-ink/60">
+          {t(file.fileUri ? "preview.media" : "preview.notStored")}
+        </p>
+      ) : file.type === "application/pdf" ? (
+        <PdfView file={file} page={page} focusKey={focusKey} />
+      ) : file.type.startsWith("image/") ? (
+        <ImageView file={file} />
+      ) : (
+        <p className="p-6 text-sm text-ink/60">{t("preview.unsupported")}</p>
+      )}
+    </aside>
+  );
+}
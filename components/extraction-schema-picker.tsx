@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Table2, Plus, Trash2, Save, SlidersHorizontal } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  BUILTIN_SCHEMAS,
+  FIELD_TYPES,
+  MAX_FIELDS,
+  validateSchema,
+  type ExtractionField,
+  type ExtractionSchema,
+  type FieldType,
+} from "@/lib/extraction";
+import { useI18n } from "@/components/i18n-provider";
+
+const SCHEMAS_KEY = "documind_extraction_schemas";
+
+interface ExtractionSchemaPickerProps {
+  schema: ExtractionSchema;
+  onSchemaChange: (schema: ExtractionSchema) => void;
+  disabled?: boolean;
+}
+
+// Picks the fields to extract: a built-in or saved schema, optionally edited.
+// Custom schemas are saved in localStorage.
+export default function ExtractionSchemaPicker({ schema, onSchemaChange, disabled }: ExtractionSchemaPickerProps) {
+  const { t } = useI18n();
+  const [savedSchemas, setSavedSchemas] = useState<ExtractionSchema[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
+
+  // Load saved schemas from localStorage, and keep them in sync across tabs
+  useEffect(() => {
+    const loadSchemas = () => {
+      try {
+        setSavedSchemas(JSON.parse(localStorage.getItem(SCHEMAS_KEY) || "[]"));
+      } catch (e) {
+        console.error("Error loading extraction schemas:", e);
+      }
+    };
+
+    loadSchemas();
+    window.addEventListener("storage", loadSchemas);
+    return () => window.removeEventListener("storage", loadSchemas);
+  }, []);
+
+  const persist = (schemas: ExtractionSchema[]) => {
+    setSavedSchemas(schemas);
+    localStorage.setItem(SCHEMAS_KEY, JSON.stringify(schemas));
+  };
+
+  const allSchemas = [...BUILTIN_SCHEMAS, ...savedSchemas];
+  const isSaved = savedSchemas.some((s) => s.id === schema.id);
+  const builtin = BUILTIN_SCHEMAS.find((s) => s.id === schema.id);
+
+  const updateField = (index: number, update: Partial<ExtractionField>) => {
+    onSchemaChange({
+      ...schema,
+      fields: schema.fields.map((f, i) => (i === index ? { ...f, ...update } : f)),
+    });
+  };
+
+  const addField = () => {
+    onSchemaChange({
+      ...schema,
+      fields: [...schema.fields, { name: `field_${schema.fields.length + 1}`, type: "string" }],
+    });
+  };
+
+  const removeField = (index: number) => {
+    onSchemaChange({ ...schema, fields: schema.fields.filter((_, i) => i !== index) });
+  };
+
+  const saveSchema = () => {
+    const checked = validateSchema(schema);
+    if (!checked.valid) {
+      toast.error(checked.error);
+      return;
+    }
+    // Edited built-ins are saved as a new custom schema
+    const saved = builtin
+      ? {
+          ...checked.schema,
+          id: `schema-${Date.now()}`,
+          name: checked.schema.name === builtin.name ? t("extraction.customName", { name: builtin.name }) : checked.schema.name,
+        }
+      : checked.schema;
+    persist(isSaved ? savedSchemas.map((s) => (s.id === saved.id ? saved : s)) : [...savedSchemas, saved]);
+    onSchemaChange(saved);
+    toast.success(t("toast.schemaSaved", { name: saved.name }));
+  };
+
+  const deleteSchema = () => {
+    persist(savedSchemas.filter((s) => s.id !== schema.id));
+    onSchemaChange(BUILTIN_SCHEMAS[0]);
+  };
+
+  return (
+    <div className="mb-3 rounded-xl border border-text-ink/10 bg-bg-sidebar px-3 py-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Table2 className="w-4 h-4 text-terra" />
+        <span className="text-xs font-medium text-ink/60">{t("extraction.extract")}</span>
+        <select
+          value={allSchemas.some((s) => s.id === schema.id) ? schema.id : ""}
+          disabled={disabled}
+          onChange={(e) => {
+            const next = allSchemas.find((s) => s.id === e.target.value);
+            if (next) onSchemaChange(next);
+          }}
+          className="flex-1 min-w-[160px] bg-card-cream border border-text-ink/10 rounded-lg px-2 py-1 text-sm text-ink outline-none"
+        >
+          {!allSchemas.some((s) => s.id === schema.id) && <option value="">{t("extraction.unsaved", { name: schema.name })}</option>}
+          <optgroup label={t("extraction.builtIn")}>
+            {BUILTIN_SCHEMAS.map((s) => (
+              <option key={s.id} value={s.id}>{s.name}</option>
+            ))}
+          </optgroup>
+          {savedSchemas.length > 0 && (
+            <optgroup label={t("extraction.saved")}>
+              {savedSchemas.map((s) => (
+                <option key={s.id} value={s.id}>{s.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        <button
+          type="button"
+          onClick={() => setIsEditing((editing) => !editing)}
+          className={cn(
+            "flex items-center gap-1 px-2 py-1 rounded-lg text-xs transition-colors",
+            isEditing ? "bg-terra/15 text-terra" : "text-ink/60 hover:text-terra"
+          )}
+          aria-expanded={isEditing}
+        >
+          <SlidersHorizontal className="w-3.5 h-3.5" />
+          {t(schema.fields.length === 1 ? "extraction.fields.one" : "extraction.fields.other", { count: schema.fields.length })}
+        </button>
+      </div>
+
+      {isEditing && (
+        <div className="mt-2 space-y-2">
+          <input
+            value={schema.name}
+            onChange={(e) => onSchemaChange({ ...schema, name: e.target.value })}
+            disabled={disabled}
+            placeholder={t("extraction.schemaName")}
+            className="w-full bg-card-cream border border-text-ink/10 rounded-lg px-2 py-1 text-sm text-ink outline-none"
+          />
+          {schema.fields.map((field, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <input
+                value={field.name}
+                onChange={(e) => updateField(index, { name: e.target.value.replace(/\s+/g, "_") })}
+                disabled={disabled}
+                placeholder="field_name"
+                className="w-32 bg-card-cream border border-text-ink/10 rounded-lg px-2 py-1 text-sm font-mono text-ink outline-none"
+                aria-label={t("extraction.fieldName")}
+              />
+              <select
+                value={field.type}
+                onChange={(e) => updateField(index, { type: e.target.value as FieldType })}
+                disabled={disabled}
+                className="bg-card-cream border border-text-ink/10 rounded-lg px-2 py-1 text-sm text-ink outline-none"
+                aria-label={t("extraction.fieldType")}
+              >
+                {FIELD_TYPES.map((type) => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+              <input
+                value={field.description || ""}
+                onChange={(e) => updateField(index, { description: e.target.value || undefined })}
+                disabled={disabled}
+                placeholder={t("extraction.descriptionPlaceholder")}
+                className="flex-1 min-w-[120px] bg-card-cream border border-text-ink/10 rounded-lg px-2 py-1 text-sm text-ink outline-none"
+                aria-label={t("extraction.fieldDescription")}
+              />
+              <label className="flex items-center gap-1 text-xs text-ink/60">
+                <input
+                  type="checkbox"
+                  checked={Boolean(field.required)}
+                  onChange={(e) => updateField(index, { required: e.target.checked })}
+                  disabled={disabled}
+                  className="accent-[#D99B83]"
+                />
+                {t("extraction.required")}
+              </label>
+              <button
+                type="button"
+                onClick={() => removeField(index)}
+                disabled={disabled || schema.fields.length <= 1}
+                className="p-1 text-ink/40 hover:text-terra transition-colors disabled:opacity-30"
+                aria-label={t("extraction.removeField", { name: field.name })}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-3 text-xs">
+            <button
+              type="button"
+              onClick={addField}
+              disabled={disabled || schema.fields.length >= MAX_FIELDS}
+              className="flex items-center gap-1 text-ink/60 hover:text-terra transition-colors disabled:opacity-40"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              {t("extraction.addField")}
+            </button>
+            <button
+              type="button"
+              onClick={saveSchema}
+              disabled={disabled}
+              className="flex items-center gap-1 text-ink/60 hover:text-terra transition-colors"
+            >
+              <Save className="w-3.5 h-3.5" />
+              {t(isSaved ? "extraction.saveChanges" : "extraction.saveAsNew")}
+            </button>
+            {isSaved && (
+              <button
+                type="button"
+                onClick={deleteSchema}
+                disabled={disabled}
+                className="flex items-center gap-1 text-ink/60 hover:text-red-600 transition-colors ml-auto"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+                {t("extraction.deleteSchema")}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, Trash2, Download, AlertTriangle } from "lucide-react";
+import { downloadFile } from "@/lib/utils";
+import { toCSV, toJSON, toXLSX } from "@/lib/table-export";
+import type { CellValue, ExtractionField, ExtractionResult, ExtractionRow } from "@/lib/extraction";
+import { useI18n } from "@/components/i18n-provider";
+
+interface ExtractionTableProps {
+  result: ExtractionResult;
+  disabled?: boolean;
+  onRowsChange?: (rows: ExtractionRow[]) => void;
+}
+
+// Helper function to read an edited cell back into its field's type; text that
+// does not parse is kept as typed so the user can fix it
+function parseCell(text: string, field: ExtractionField): CellValue {
+  const value = text.trim();
+  if (!value) return null;
+  if (field.type === "number" || field.type === "integer") {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : value;
+  }
+  if (field.type === "boolean") return value === "true";
+  return value;
+}
+
+// Cell input that commits on blur, so each keystroke doesn't rewrite the chat history
+function EditableCell({ value, field, disabled, onCommit }: {
+  value: CellValue;
+  field: ExtractionField;
+  disabled?: boolean;
+  onCommit: (value: CellValue) => void;
+}) {
+  const { t } = useI18n();
+  const text = value === null || value === undefined ? "" : String(value);
+
+  if (field.type === "boolean") {
+    return (
+      <select
+        value={text}
+        disabled={disabled}
+        onChange={(e) => onCommit(e.target.value === "" ? null : e.target.value === "true")}
+        className="w-full bg-transparent px-2 py-1 text-sm outline-none focus:bg-white"
+      >
+        <option value="">—</option>
+        <option value="true">{t("extraction.yes")}</option>
+        <option value="false">{t("extraction.no")}</option>
+      </select>
+    );
+  }
+
+  return (
+    <input
+      key={text}
+      defaultValue={text}
+      disabled={disabled}
+      onBlur={(e) => {
+        if (e.target.value !== text) onCommit(parseCell(e.target.value, field));
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") e.currentTarget.blur();
+      }}
+      inputMode={field.type === "number" || field.type === "integer" ? "decimal" : undefined}
+      className="w-full min-w-[80px] bg-transparent px-2 py-1 text-sm outline-none focus:bg-white"
+    />
+  );
+}
+
+// Extracted records as an editable table with CSV / JSON / XLSX export
+export default function ExtractionTable({ result, disabled, onRowsChange }: ExtractionTableProps) {
+  const { t } = useI18n();
+  const [showWarnings, setShowWarnings] = useState(false);
+  const { schema, rows, warnings } = result;
+  const columns = schema.fields.map((f) => f.name);
+  const baseName = schema.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "extraction";
+
+  const updateCell = (rowIndex: number, column: string, value: CellValue) => {
+    onRowsChange?.(rows.map((row, i) => (i === rowIndex ? { ...row, [column]: value } : row)));
+  };
+
+  const addRow = () => {
+    onRowsChange?.([...rows, Object.fromEntries(columns.map((c) => [c, null]))]);
+  };
+
+  const deleteRow = (rowIndex: number) => {
+    onRowsChange?.(rows.filter((_, i) => i !== rowIndex));
+  };
+
+  const exports = [
+    { label: "CSV", run: () => downloadFile(`${baseName}.csv`, toCSV(columns, rows), "text/csv;charset=utf-8") },
+    { label: "JSON", run: () => downloadFile(`${baseName}.json`, toJSON(columns, rows), "application/json") },
+    {
+      label: "XLSX",
+      run: () =>
+        downloadFile(
+          `${baseName}.xlsx`,
+          toXLSX(columns, rows, schema.name) as Uint8Array<ArrayBuffer>,
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        ),
+    },
+  ];
+
+  return (
+    <div className="flex flex-col gap-2 w-full">
+      <div className="flex flex-wrap items-center gap-2">
+        <p className="text-sm font-serif font-semibold text-ink">
+          {schema.name} · {t(rows.length === 1 ? "extraction.rows.one" : "extraction.rows.other", { count: rows.length })}
+        </p>
+        <div className="flex items-center gap-1 ml-auto">
+          <Download className="w-3.5 h-3.5 text-ink/40" />
+          {exports.map(({ label, run }) => (
+            <button
+              key={label}
+              type="button"
+              onClick={run}
+              className="px-2 py-0.5 rounded-md text-xs font-medium text-ink/70 border border-text-ink/10 hover:border-terra/40 hover:text-terra transition-colors"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-text-ink/10 bg-white/60">
+        <table className="w-full border-collapse text-left">
+          <thead>
+            <tr className="border-b border-text-ink/10" style={{ backgroundColor: "rgba(217,155,131,0.12)" }}>
+              {schema.fields.map((field) => (
+                <th key={field.name} className="px-2 py-1.5 text-xs font-semibold text-ink whitespace-nowrap" title={field.description}>
+                  {field.name}
+                  {field.required && <span className="text-terra">*</span>}
+                  <span className="ml-1 font-normal text-ink/40">{field.type}</span>
+                </th>
+              ))}
+              <th className="w-8" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={columns.length + 1} className="px-2 py-3 text-sm text-ink/50 italic">
+                  {t("extraction.empty")}
+                </td>
+              </tr>
+            )}
+            {rows.map((row, rowIndex) => (
+              <tr key={rowIndex} className="group/row border-b border-text-ink/5 last:border-b-0">
+                {schema.fields.map((field) => (
+                  <td key={field.name} className="p-0 align-top">
+                    <EditableCell
+                      value={row[field.name]}
+                      field={field}
+                      disabled={disabled}
+                      onCommit={(value) => updateCell(rowIndex, field.name, value)}
+                    />
+                  </td>
+                ))}
+                <td className="p-0 align-middle">
+                  <button
+                    type="button"
+                    onClick={() => deleteRow(rowIndex)}
+                    disabled={disabled}
+                    className="p-1 text-ink/30 opacity-100 md:opacity-0 group-hover/row:opacity-100 hover:text-terra transition-all"
+                    aria-label={t("extraction.deleteRow", { row: rowIndex + 1 })}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center gap-3 text-xs">
+        <button
+          type="button"
+          onClick={addRow}
+          disabled={disabled}
+          className="flex items-center gap-1 text-ink/50 hover:text-terra transition-colors disabled:cursor-not-allowed"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          {t("extraction.addRow")}
+        </button>
+        {warnings.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setShowWarnings((show) => !show)}
+            className="flex items-center gap-1 text-amber-700 hover:underline"
+            aria-expanded={showWarnings}
+          >
+            <AlertTriangle className="w-3.5 h-3.5" />
+            {t(warnings.length === 1 ? "extraction.review.one" : "extraction.review.other", { count: warnings.length })}
+          </button>
+        )}
+      </div>
+      {showWarnings && (
+        <ul className="text-xs text-amber-800 list-disc ml-5 space-y-0.5">
+          {warnings.map((warning, i) => (
+            <li key={i}>{warning}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
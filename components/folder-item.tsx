@@ -0,0 +1,122 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import { ChevronRight, Folder, FolderOpen, Pencil, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { CHAT_DRAG_TYPE, type ChatFolder } from "@/lib/chat-types";
+import { useI18n } from "@/components/i18n-provider";
+
+interface FolderItemProps {
+  folder: ChatFolder;
+  chatCount: number;
+  isExpanded: boolean;
+  onToggle: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  // A chat was dragged onto the folder
+  onDropChat: (chatId: string) => void;
+  // The folder's chats, shown while expanded
+  children: ReactNode;
+}
+
+// A folder in the sidebar that chats can be dragged into
+export default function FolderItem({
+  folder,
+  chatCount,
+  isExpanded,
+  onToggle,
+  onRename,
+  onDelete,
+  onDropChat,
+  children,
+}: FolderItemProps) {
+  const { t } = useI18n();
+  const [draftName, setDraftName] = useState<string | null>(null);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
+  const commitRename = () => {
+    const name = draftName?.trim();
+    if (name && name !== folder.name) onRename(name);
+    setDraftName(null);
+  };
+
+  const FolderIcon = isExpanded ? FolderOpen : Folder;
+
+  return (
+    <div>
+      <div
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes(CHAT_DRAG_TYPE)) return;
+          e.preventDefault();
+          e.dataTransfer.dropEffect = "move";
+          setIsDropTarget(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDropTarget(false);
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDropTarget(false);
+          const chatId = e.dataTransfer.getData(CHAT_DRAG_TYPE);
+          if (chatId) onDropChat(chatId);
+        }}
+        className={cn(
+          "group flex items-center gap-2 px-2 py-2 rounded-lg transition-colors",
+          isDropTarget ? "bg-terra/15 ring-1 ring-terra/40" : "hover:bg-card-cream/50"
+        )}
+      >
+        {draftName !== null ? (
+          <>
+            <FolderIcon className="w-4 h-4 ml-5 text-ink/50 stroke-[1.5px] flex-shrink-0" />
+            <input
+              autoFocus
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") commitRename();
+                if (e.key === "Escape") setDraftName(null);
+              }}
+              maxLength={100}
+              aria-label={t("folder.name")}
+              className="flex-1 min-w-0 bg-paper border border-terra/40 rounded-md px-1.5 py-0.5 text-sm text-ink outline-none"
+            />
+          </>
+        ) : (
+          <>
+            <button onClick={onToggle} className="flex-1 min-w-0 flex items-center gap-2 text-left" aria-expanded={isExpanded}>
+              <ChevronRight
+                className={cn("w-3.5 h-3.5 text-ink/40 flex-shrink-0 transition-transform", isExpanded && "rotate-90")}
+              />
+              <FolderIcon className="w-4 h-4 text-ink/50 stroke-[1.5px] flex-shrink-0" />
+              <span className="text-sm font-medium text-ink/70 group-hover:text-ink truncate">{folder.name}</span>
+              <span className="text-xs text-ink/40">{chatCount}</span>
+            </button>
+            <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+              <button
+                onClick={() => setDraftName(folder.name)}
+                className="p-1 text-ink/40 hover:text-ink"
+                aria-label={t("folder.rename", { name: folder.name })}
+              >
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={onDelete}
+                className="p-1 text-ink/40 hover:text-red-600"
+                aria-label={t("folder.delete", { name: folder.name })}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {isExpanded && (
+        <div className="ml-3 space-y-1">
+          {chatCount === 0 ? <p className="px-3 py-2 text-xs text-ink/40">{t("folder.empty")}</p> : children}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from "react";
+import { History, Search, X, FileText, MessageSquare } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ChatHistory } from "@/lib/chat-types";
+import { groupChatsByDate, searchChats, type ChatSearchResult, type DateGroup, type MatchRange } from "@/lib/chat-search";
+import { useI18n } from "@/components/i18n-provider";
+
+interface HistoryBrowserProps {
+  chats: ChatHistory[];
+  currentChatId?: string | null;
+  // messageId is set when a search result for a specific message was picked
+  onOpenChat: (chatId: string, messageId?: string) => void;
+  onClose: () => void;
+}
+
+// Chats rendered per page; the next page loads as the end of the list scrolls into view
+const PAGE_SIZE = 30;
+
+// Text with the matched ranges wrapped in <mark>
+function Highlighted({ text, ranges }: { text: string; ranges: MatchRange[] }) {
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start > offset) parts.push(text.slice(offset, start));
+    parts.push(
+      <mark key={i} className="bg-terra/25 text-ink rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    offset = end;
+  });
+  if (offset < text.length) parts.push(text.slice(offset));
+  return <>{parts}</>;
+}
+
+// Every chat grouped by date, with full-text search over titles and messages
+export default function HistoryBrowser({ chats, currentChatId, onOpenChat, onClose }: HistoryBrowserProps) {
+  const { t, locale } = useI18n();
+  const [query, setQuery] = useState("");
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [now] = useState(() => Date.now());
+  // Searching every message is the slow part, so let typing stay responsive
+  const deferredQuery = useDeferredValue(query.trim());
+  const listRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const sorted = useMemo(() => [...chats].sort((a, b) => b.timestamp - a.timestamp), [chats]);
+  const results = useMemo(
+    () => (deferredQuery ? new Map(searchChats(sorted, deferredQuery).map((r) => [r.chat.id, r])) : null),
+    [sorted, deferredQuery]
+  );
+  const listed = useMemo(
+    () => (results ? [...results.values()].map((r) => r.chat) : sorted),
+    [results, sorted]
+  );
+  const groups = useMemo(
+    () => groupChatsByDate(listed.slice(0, visibleCount), now),
+    [listed, visibleCount, now]
+  );
+  const hasMore = visibleCount < listed.length;
+
+  // Load the next page when the sentinel below the list becomes visible
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) setVisibleCount((count) => count + PAGE_SIZE);
+      },
+      { root: listRef.current, rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, groups]);
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    setVisibleCount(PAGE_SIZE);
+    listRef.current?.scrollTo({ top: 0 });
+  };
+
+  const groupLabel = (group: DateGroup) =>
+    group.kind === "month"
+      ? new Date(group.year, group.month).toLocaleDateString(locale, { month: "long", year: "numeric" })
+      : t(`history.${group.kind}`);
+
+  const renderMatches = (result: ChatSearchResult) => {
+    const more = result.matchCount - result.matches.length;
+    return (
+      <div className="mt-1 space-y-1">
+        {result.matches.map((match) => (
+          <button
+            key={match.messageId}
+            onClick={() => onOpenChat(result.chat.id, match.messageId)}
+            className="w-full flex items-start gap-2 text-left rounded-lg px-2 py-1.5 text-xs text-ink/70 hover:bg-bg-sidebar transition-colors"
+          >
+            <MessageSquare className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-ink/40" />
+            <span className="min-w-0">
+              <span className="font-medium text-ink/50">{t(match.role === "user" ? "history.you" : "history.assistant")}</span>
+              <Highlighted text={match.snippet} ranges={match.ranges} />
+            </span>
+          </button>
+        ))}
+        {more > 0 && (
+          <p className="px-2 text-[11px] text-ink/40">
+            {t(more === 1 ? "history.moreMatches.one" : "history.moreMatches.other", { count: more })}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label={t("history.title")}
+        className="w-full max-w-2xl h-[85vh] flex flex-col bg-card-cream rounded-2xl shadow-xl border border-text-ink/10"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-5 py-4 border-b border-text-ink/10">
+          <History className="w-5 h-5 text-terra" />
+          <h2 className="text-lg font-serif font-semibold text-ink flex-1">{t("history.title")}</h2>
+          <span className="text-xs text-ink/50">
+            {results
+              ? t("history.matchCount", { count: listed.length, total: chats.length })
+              : t(chats.length === 1 ? "history.count.one" : "history.count.other", { count: chats.length })}
+          </span>
+          <button onClick={onClose} className="p-1 text-ink/50 hover:text-ink transition-colors" aria-label={t("common.close")}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-5 py-3 border-b border-text-ink/10">
+          <label className="flex items-center gap-2 bg-paper border border-text-ink/10 rounded-lg px-3 py-2 focus-within:border-terra">
+            <Search className="w-4 h-4 text-ink/40" />
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => handleQueryChange(e.target.value)}
+              placeholder={t("history.searchPlaceholder")}
+              className="flex-1 bg-transparent text-sm text-ink outline-none"
+            />
+            {query && (
+              <button onClick={() => handleQueryChange("")} className="text-ink/40 hover:text-ink" aria-label={t("history.clearSearch")}>
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </label>
+        </div>
+
+        <div ref={listRef} className="flex-1 overflow-y-auto px-3 py-3">
+          {listed.length === 0 ? (
+            <p className="text-sm text-ink/50 text-center py-10">
+              {results ? t("history.noMatches", { query: deferredQuery }) : t("sidebar.emptyTitle")}
+            </p>
+          ) : (
+            groups.map((group) => (
+              <section key={group.key} className="mb-4">
+                <h3 className="px-2 mb-1 text-xs font-medium text-ink/50 uppercase tracking-wide">
+                  {groupLabel(group.group)}
+                </h3>
+                <div className="space-y-0.5">
+                  {group.chats.map((chat) => {
+                    const result = results?.get(chat.id);
+                    return (
+                      <div
+                        key={chat.id}
+                        className={cn(
+                          "rounded-xl px-2 py-1.5",
+                          currentChatId === chat.id ? "bg-terra/10" : "hover:bg-paper/60"
+                        )}
+                      >
+                        <button
+                          onClick={() => onOpenChat(chat.id)}
+                          className="w-full flex items-center gap-3 text-left"
+                        >
+                          <FileText className="w-4 h-4 flex-shrink-0 text-ink/40 stroke-[1.5px]" />
+                          <span className="flex-1 min-w-0 text-sm font-medium text-ink truncate">
+                            {result ? <Highlighted text={chat.title} ranges={result.titleRanges} /> : chat.title}
+                          </span>
+                          <span className="text-xs text-ink/40 flex-shrink-0">
+                            {new Date(chat.timestamp).toLocaleString(locale, {
+                              dateStyle: "medium",
+                              timeStyle: "short",
+                            })}
+                          </span>
+                        </button>
+                        {result && result.matches.length > 0 && renderMatches(result)}
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+            ))
+          )}
+          {hasMore && <div ref={sentinelRef} className="h-8" />}
+        </div>
+      </div>
+    </div>
+  );
+}
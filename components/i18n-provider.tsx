@@ -0,0 +1,40 @@
+"use client";
+
+import { createContext, useCallback, useContext, useMemo, useState, type ReactNode } from "react";
+import { LOCALE_COOKIE, translate, type Locale, type Translate } from "@/lib/i18n";
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+// Keep the locale for a year; the server reads it to render the next page load
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+// Provides the UI locale (chosen on the server from the cookie or browser) and its strings
+export default function I18nProvider({ initialLocale, children }: { initialLocale: Locale; children: ReactNode }) {
+  const [locale, setLocaleState] = useState(initialLocale);
+
+  const setLocale = useCallback((next: Locale) => {
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+    document.documentElement.lang = next;
+    setLocaleState(next);
+  }, []);
+
+  const value = useMemo<I18nContextValue>(
+    () => ({ locale, setLocale, t: (key, vars) => translate(locale, key, vars) }),
+    [locale, setLocale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+// The current locale, a setter for the switcher, and t() for strings
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error("useI18n must be used inside I18nProvider");
+  return context;
+}
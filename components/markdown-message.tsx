@@ -0,0 +1,249 @@
+"use client";
+
+import { isValidElement, useEffect, useId, useState, type ReactNode } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import "katex/dist/katex.min.css";
+import { Copy, Check } from "lucide-react";
+import { toast } from "sonner";
+import { parseCitationHref, type Citation } from "@/lib/citations";
+import { prepareMarkdown } from "@/lib/markdown";
+import { parseChartSpec } from "@/lib/charts";
+import ChartBlock from "@/components/chart-block";
+import { useI18n } from "@/components/i18n-provider";
+
+interface MarkdownMessageProps {
+  content: string;
+  onCitation: (citation: Citation) => void;
+  // The answer is still arriving: diagrams and charts stay as source until it is complete
+  isStreaming?: boolean;
+}
+
+// Helper function to collect the plain text of rendered children (highlighted code is nested spans)
+function nodeText(node: ReactNode): string {
+  if (typeof node === "string" || typeof node === "number") return String(node);
+  if (Array.isArray(node)) return node.map(nodeText).join("");
+  if (isValidElement<{ children?: ReactNode }>(node)) return nodeText(node.props.children);
+  return "";
+}
+
+// A fenced code block with its language and a copy button
+function CodeBlock({ language, text, children }: { language?: string; text: string; children: ReactNode }) {
+  const { t } = useI18n();
+  const [isCopied, setIsCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch {
+      toast.error(t("toast.copyFailed"));
+    }
+  };
+
+  return (
+    <div className="my-2 rounded-lg overflow-hidden" style={{ backgroundColor: "#2D2D2D" }}>
+      <div className="flex items-center justify-between px-3 py-1 text-[11px] border-b border-white/10" style={{ color: "rgba(253,251,247,0.6)" }}>
+        <span className="font-mono">{language || "text"}</span>
+        <button
+          type="button"
+          onClick={copy}
+          className="flex items-center gap-1 hover:text-white transition-colors"
+          aria-label={t("answer.copyCode")}
+        >
+          {isCopied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+          {isCopied ? t("answer.copied") : t("answer.copy")}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-xs md:text-sm" style={{ color: "#FDFBF7" }}>
+        {children}
+      </pre>
+    </div>
+  );
+}
+
+// Mermaid is large, so it is loaded the first time a diagram is shown
+let mermaidLoader: Promise<typeof import("mermaid").default> | null = null;
+
+function loadMermaid() {
+  mermaidLoader ??= import("mermaid").then(({ default: mermaid }) => {
+    mermaid.initialize({
+      startOnLoad: false,
+      // Diagram labels come from the model; strict mode strips scripts and click handlers
+      securityLevel: "strict",
+      theme: "base",
+      themeVariables: {
+        fontFamily: "system-ui, sans-serif",
+        primaryColor: "#F7F4EF",
+        primaryBorderColor: "#D99B83",
+        primaryTextColor: "#2D2D2D",
+        secondaryColor: "#E6E8E3",
+        tertiaryColor: "#FDFBF7",
+        lineColor: "#C08A74",
+      },
+    });
+    return mermaid;
+  });
+  return mermaidLoader;
+}
+
+// A ```mermaid block drawn as a diagram; invalid source falls back to the code
+function MermaidDiagram({ source }: { source: string }) {
+  const { t } = useI18n();
+  const id = `mermaid-${useId().replace(/[^a-zA-Z0-9_-]/g, "")}`;
+  const [rendered, setRendered] = useState<{ source: string; svg: string | null } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const render = async () => {
+      try {
+        const mermaid = await loadMermaid();
+        const { svg } = await mermaid.render(id, source);
+        if (!cancelled) setRendered({ source, svg });
+      } catch (e) {
+        console.error("Mermaid diagram failed to render:", e);
+        if (!cancelled) setRendered({ source, svg: null });
+      }
+    };
+    render();
+    return () => {
+      cancelled = true;
+    };
+  }, [id, source]);
+
+  if (rendered?.source === source && rendered.svg) {
+    return (
+      <div
+        className="my-2 p-3 rounded-lg overflow-x-auto bg-white/60 border border-text-ink/10 flex justify-center"
+        dangerouslySetInnerHTML={{ __html: rendered.svg }}
+      />
+    );
+  }
+  return (
+    <>
+      <CodeBlock language="mermaid" text={source}>
+        <code>{source}</code>
+      </CodeBlock>
+      {rendered?.source === source && (
+        <p className="text-xs italic -mt-1 mb-2" style={{ color: "#9CA3AF" }}>
+          {t("answer.diagramFailed")}
+        </p>
+      )}
+    </>
+  );
+}
+
+// A ```chart block drawn as a chart; an invalid spec falls back to the code with the reason
+function ChartSpecBlock({ source }: { source: string }) {
+  const { t } = useI18n();
+  const parsed = parseChartSpec(source);
+  if (parsed.valid) return <ChartBlock spec={parsed.spec} />;
+  return (
+    <>
+      <CodeBlock language="chart" text={source}>
+        <code>{source}</code>
+      </CodeBlock>
+      <p className="text-xs italic -mt-1 mb-2" style={{ color: "#9CA3AF" }}>
+        {t("answer.chartFailed", { error: parsed.error })}
+      </p>
+    </>
+  );
+}
+
+// Renders an assistant answer: GFM tables and task lists, highlighted code with a
+// copy button, KaTeX math, Mermaid diagrams, charts and clickable page citations
+export default function MarkdownMessage({ content, onCitation, isStreaming }: MarkdownMessageProps) {
+  const { t } = useI18n();
+  const components: Components = {
+    p: ({ children }) => <p className="mb-2 last:mb-0" style={{ color: "#2D2D2D" }}>{children}</p>,
+    ul: ({ children, className }) => (
+      <ul
+        className={className?.includes("contains-task-list") ? "mb-2 ml-1 list-none" : "mb-2 ml-4 list-disc"}
+        style={{ color: "#2D2D2D" }}
+      >
+        {children}
+      </ul>
+    ),
+    ol: ({ children }) => <ol className="mb-2 ml-4 list-decimal" style={{ color: "#2D2D2D" }}>{children}</ol>,
+    li: ({ children }) => <li className="mb-1" style={{ color: "#2D2D2D" }}>{children}</li>,
+    input: ({ type, checked }) =>
+      type === "checkbox" ? (
+        <input type="checkbox" checked={checked} readOnly className="mr-1.5 align-middle accent-terra" />
+      ) : null,
+    // Fenced blocks: a language class, or the trailing newline every fenced block keeps
+    code: ({ children, className }) =>
+      className || String(children).endsWith("\n") ? (
+        <code className={className}>{children}</code>
+      ) : (
+        <code className="px-1.5 py-0.5 rounded text-xs font-mono" style={{ backgroundColor: "rgba(217,155,131,0.2)", color: "#2D2D2D" }}>
+          {children}
+        </code>
+      ),
+    pre: ({ children }) => {
+      const code = isValidElement<{ className?: string; children?: ReactNode }>(children) ? children : null;
+      const language = /language-([\w-]+)/.exec(code?.props.className || "")?.[1];
+      const text = nodeText(code?.props.children ?? children).replace(/\n$/, "");
+      if (language === "mermaid" && !isStreaming) return <MermaidDiagram source={text} />;
+      if (language === "chart" && !isStreaming) return <ChartSpecBlock source={text} />;
+      return (
+        <CodeBlock language={language} text={text}>
+          {children}
+        </CodeBlock>
+      );
+    },
+    table: ({ children }) => (
+      <div className="my-2 overflow-x-auto rounded-lg border border-text-ink/10 bg-white/60">
+        <table className="w-full border-collapse text-left text-sm">{children}</table>
+      </div>
+    ),
+    thead: ({ children }) => <thead style={{ backgroundColor: "rgba(217,155,131,0.12)" }}>{children}</thead>,
+    tr: ({ children }) => <tr className="border-b border-text-ink/5 last:border-b-0">{children}</tr>,
+    th: ({ children, style }) => (
+      <th className="px-2 py-1.5 text-xs font-semibold border-b border-text-ink/10" style={{ ...style, color: "#2D2D2D" }}>
+        {children}
+      </th>
+    ),
+    td: ({ children, style }) => (
+      <td className="px-2 py-1.5 align-top" style={{ ...style, color: "#2D2D2D" }}>
+        {children}
+      </td>
+    ),
+    h1: ({ children }) => <h1 className="text-lg font-serif font-bold mb-2" style={{ color: "#2D2D2D" }}>{children}</h1>,
+    h2: ({ children }) => <h2 className="text-base font-serif font-bold mb-2" style={{ color: "#2D2D2D" }}>{children}</h2>,
+    h3: ({ children }) => <h3 className="text-sm font-serif font-bold mb-1" style={{ color: "#2D2D2D" }}>{children}</h3>,
+    a: ({ children, href }) => {
+      const citation = parseCitationHref(href);
+      if (citation) {
+        return (
+          <button
+            type="button"
+            onClick={() => onCitation(citation)}
+            className="inline-flex items-center mx-0.5 px-1.5 py-0.5 rounded-md text-xs font-medium align-baseline hover:bg-terra hover:text-white transition-colors"
+            style={{ backgroundColor: "rgba(217,155,131,0.2)", color: "#2D2D2D" }}
+            title={t("answer.openCitation", { document: citation.document || t("answer.citedDocument"), page: citation.page })}
+          >
+            {children}
+          </button>
+        );
+      }
+      return <a href={href} className="underline font-medium" style={{ color: "#D99B83" }} target="_blank" rel="noopener noreferrer">{children}</a>;
+    },
+    blockquote: ({ children }) => <blockquote className="border-l-4 pl-3 italic my-2" style={{ borderColor: "rgba(217,155,131,0.4)", color: "rgba(45,45,45,0.7)" }}>{children}</blockquote>,
+  };
+
+  return (
+    <div className="prose prose-sm md:prose-base max-w-none break-words text-sm md:text-base">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, [remarkMath, { singleDollarTextMath: false }]]}
+        rehypePlugins={[[rehypeKatex, { throwOnError: false }], [rehypeHighlight, { plainText: ["mermaid", "chart"] }]]}
+        components={components}
+      >
+        {prepareMarkdown(content)}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { AlertTriangle, ShieldAlert, Scissors, Square } from "lucide-react";
+import type { FinishReason } from "@/lib/providers/types";
+import { useI18n } from "@/components/i18n-provider";
+
+interface MessageNoticeProps {
+  finishReason?: FinishReason;
+  safetyMessage?: string;
+  error?: string;
+  stopped?: boolean;
+}
+
+// Explains why an assistant response ended, when it wasn't a normal finish.
+// Errors are rendered apart from the answer so they are never mistaken for model text.
+export default function MessageNotice({ finishReason, safetyMessage, error, stopped }: MessageNoticeProps) {
+  const { t } = useI18n();
+
+  if (error) {
+    return (
+      <div
+        role="alert"
+        className="flex items-start gap-2 mt-2 first:mt-0 px-3 py-2 rounded-lg text-sm"
+        style={{ backgroundColor: "rgba(185,28,28,0.08)", border: "1px solid rgba(185,28,28,0.25)", color: "#991B1B" }}
+      >
+        <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        <p className="whitespace-pre-wrap break-words">{error}</p>
+      </div>
+    );
+  }
+
+  if (safetyMessage || finishReason === "safety") {
+    return (
+      <div
+        className="flex items-start gap-2 mt-2 first:mt-0 px-3 py-2 rounded-lg text-sm"
+        style={{ backgroundColor: "rgba(217,155,131,0.12)", border: "1px solid rgba(217,155,131,0.4)", color: "#2D2D2D" }}
+      >
+        <ShieldAlert className="w-4 h-4 mt-0.5 flex-shrink-0" style={{ color: "#D99B83" }} />
+        <p>{safetyMessage || t("message.safetyBlocked")}</p>
+      </div>
+    );
+  }
+
+  if (stopped) {
+    return (
+      <p className="flex items-center gap-1.5 mt-2 first:mt-0 text-xs" style={{ color: "#6B6B6B" }}>
+        <Square className="w-3 h-3 fill-current" />
+        {t("message.stopped")}
+      </p>
+    );
+  }
+
+  if (finishReason === "length") {
+    return (
+      <p className="flex items-center gap-1.5 mt-2 text-xs" style={{ color: "#6B6B6B" }}>
+        <Scissors className="w-3.5 h-3.5" />
+        {t("message.cutOff", { setting: t("generation.maxOutputTokens") })}
+      </p>
+    );
+  }
+
+  return null;
+}
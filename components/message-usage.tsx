@@ -0,0 +1,36 @@
+"use client";
+
+import { Coins } from "lucide-react";
+import type { TokenUsage } from "@/lib/providers/types";
+import { formatCost, formatTokens, usageCost, type ModelPrice } from "@/lib/usage";
+import { useI18n } from "@/components/i18n-provider";
+
+interface MessageUsageProps {
+  usage: TokenUsage;
+  price?: ModelPrice;
+}
+
+// Token counts and cost of one reply, shown beside its actions
+export default function MessageUsage({ usage, price }: MessageUsageProps) {
+  const { t } = useI18n();
+  const thoughts = usage.thoughtsTokens || 0;
+  const detail = [
+    t("message.promptTokens", { count: usage.promptTokens.toLocaleString() }),
+    t("message.outputTokens", { count: usage.outputTokens.toLocaleString() }),
+    thoughts > 0 ? t("message.thinkingTokens", { count: thoughts.toLocaleString() }) : "",
+    price ? t("message.costAtPrices", { cost: formatCost(usageCost(usage, price)) }) : t("message.noPrice"),
+  ].filter(Boolean);
+  const summary = [
+    t("message.usageIn", { count: formatTokens(usage.promptTokens) }),
+    t("message.usageOut", { count: formatTokens(usage.outputTokens) }),
+    thoughts > 0 ? t("message.usageThinking", { count: formatTokens(thoughts) }) : "",
+    price ? formatCost(usageCost(usage, price)) : "",
+  ].filter(Boolean);
+
+  return (
+    <span className="flex items-center gap-1 text-[11px] text-ink/40" title={detail.join("\n")}>
+      <Coins className="w-3 h-3" />
+      {summary.join(" · ")}
+    </span>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import { Sparkles, Check, ChevronDown, SlidersHorizontal, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  MODELS,
+  DEFAULT_GENERATION_SETTINGS,
+  GENERATION_LIMITS,
+  getModel,
+  type GenerationSettings,
+} from "@/lib/models";
+import { useI18n } from "@/components/i18n-provider";
+
+interface ModelPickerProps {
+  model: string;
+  onModelChange?: (model: string) => void;
+  settings: GenerationSettings;
+  onSettingsChange?: (settings: GenerationSettings) => void;
+}
+
+export default function ModelPicker({ model, onModelChange, settings, onSettingsChange }: ModelPickerProps) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const current = getModel(model) || MODELS[0];
+
+  const selectModel = (id: string) => {
+    onModelChange?.(id);
+    // Clamp max tokens to what the newly selected model allows
+    const maxTokens = getModel(id)?.maxOutputTokens ?? settings.maxOutputTokens;
+    if (settings.maxOutputTokens > maxTokens) {
+      onSettingsChange?.({ ...settings, maxOutputTokens: maxTokens });
+    }
+    setIsOpen(false);
+  };
+
+  const updateSetting = (key: keyof GenerationSettings, value: number) => {
+    onSettingsChange?.({ ...settings, [key]: value });
+  };
+
+  const sliders: { key: keyof GenerationSettings; label: string; min: number; max: number; step: number }[] = [
+    { key: "temperature", label: t("generation.temperature"), ...GENERATION_LIMITS.temperature },
+    { key: "topP", label: t("generation.topP"), ...GENERATION_LIMITS.topP },
+    {
+      key: "maxOutputTokens",
+      label: t("generation.maxOutputTokens"),
+      ...GENERATION_LIMITS.maxOutputTokens,
+      max: current.maxOutputTokens,
+    },
+  ];
+
+  return (
+    <div className="mb-2">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl bg-card-cream border border-text-ink/10 hover:border-terra/30 transition-all group"
+        aria-expanded={isOpen}
+      >
+        <Sparkles className="w-4 h-4 text-terra stroke-[1.5px]" />
+        <div className="flex-1 text-left">
+          <p className="text-xs font-medium text-ink/50">{t("model.heading")}</p>
+          <p className="text-sm font-medium text-ink group-hover:text-terra transition-colors">
+            {current.label}
+          </p>
+        </div>
+        <ChevronDown className={cn("w-4 h-4 text-ink/40 transition-transform", isOpen && "rotate-180")} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 rounded-xl bg-card-cream border border-text-ink/10 shadow-sm overflow-hidden">
+          {MODELS.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => selectModel(option.id)}
+              className="w-full flex items-start gap-2 px-3 py-2 text-left hover:bg-terra/10 transition-colors"
+            >
+              <Check className={cn("w-4 h-4 mt-0.5 text-terra", option.id === current.id ? "opacity-100" : "opacity-0")} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-ink">{option.label}</p>
+                <p className="text-xs text-ink/50">{t(option.descriptionKey)}</p>
+              </div>
+            </button>
+          ))}
+
+          <button
+            onClick={() => setShowAdvanced((show) => !show)}
+            className="w-full flex items-center gap-2 px-3 py-2 border-t border-text-ink/10 text-xs font-medium text-ink/60 hover:text-ink transition-colors"
+          >
+            <SlidersHorizontal className="w-3.5 h-3.5" />
+            {t("model.advanced")}
+          </button>
+
+          {showAdvanced && (
+            <div className="px-3 pb-3 space-y-3">
+              {sliders.map(({ key, label, min, max, step }) => (
+                <label key={key} className="block">
+                  <div className="flex justify-between text-xs text-ink/60 mb-1">
+                    <span>{label}</span>
+                    <span className="font-mono">{settings[key]}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={settings[key]}
+                    onChange={(e) => updateSetting(key, Number(e.target.value))}
+                    className="w-full accent-[#D99B83]"
+                  />
+                </label>
+              ))}
+              <button
+                onClick={() => onSettingsChange?.(DEFAULT_GENERATION_SETTINGS)}
+                className="flex items-center gap-1 text-xs text-ink/50 hover:text-terra transition-colors"
+              >
+                <RotateCcw className="w-3 h-3" />
+                {t("model.resetSettings")}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+import { UserRound, ChevronDown, Check, Settings } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Persona } from "@/lib/settings";
+import { useI18n } from "@/components/i18n-provider";
+
+interface PersonaPickerProps {
+  personas: Persona[];
+  personaId: string | null;
+  onPersonaChange: (id: string | null) => void;
+  onManage: () => void;
+  disabled?: boolean;
+}
+
+// Choose the persona the open chat is answered with
+export default function PersonaPicker({ personas, personaId, onPersonaChange, onManage, disabled }: PersonaPickerProps) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const usable = personas.filter((p) => p.name.trim() && p.instructions.trim());
+  const current = usable.find((p) => p.id === personaId);
+
+  const choose = (id: string | null) => {
+    onPersonaChange(id);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative inline-block">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={disabled}
+        className={cn(
+          "flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs transition-colors disabled:opacity-50",
+          current ? "bg-terra/10 text-ink" : "text-ink/50 hover:text-ink hover:bg-card-cream"
+        )}
+        aria-expanded={isOpen}
+        title={t("persona.pickerTitle")}
+      >
+        <UserRound className="w-3.5 h-3.5 text-terra" />
+        {current ? current.name : t("persona.none")}
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-20" onClick={() => setIsOpen(false)} />
+          <div className="absolute bottom-full left-0 mb-2 w-60 py-1 rounded-xl bg-card-cream border border-text-ink/10 shadow-md z-30">
+            {[{ id: null, name: t("persona.none") }, ...usable].map((option) => (
+              <button
+                key={option.id ?? "none"}
+                type="button"
+                onClick={() => choose(option.id)}
+                className="w-full flex items-center gap-2 px-3 py-1.5 text-sm text-ink text-left hover:bg-terra/10 transition-colors"
+              >
+                <span className="flex-1 truncate">{option.name}</span>
+                {(current?.id ?? null) === option.id && <Check className="w-3.5 h-3.5 text-terra" />}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => {
+                setIsOpen(false);
+                onManage();
+              }}
+              className="w-full flex items-center gap-2 px-3 py-1.5 mt-1 border-t border-text-ink/10 text-xs text-ink/60 text-left hover:text-terra transition-colors"
+            >
+              <Settings className="w-3.5 h-3.5" />
+              {t("persona.manage")}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,332 @@
+"use client";
+
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import { Settings, X, Plus, Trash2, Download, Upload, RotateCcw, KeyRound } from "lucide-react";
+import { toast } from "sonner";
+import { downloadFile } from "@/lib/utils";
+import { postAuth } from "@/lib/auth-client";
+import { MODELS, GENERATION_LIMITS, getModel, type GenerationSettings } from "@/lib/models";
+import {
+  DEFAULT_SETTINGS,
+  PERSONA_INSTRUCTIONS_MAX_LENGTH,
+  PERSONA_NAME_MAX_LENGTH,
+  RESPONSE_LANGUAGES,
+  INTERFACE_LANGUAGE,
+  exportSettingsJSON,
+  parseSettingsJSON,
+  type AppSettings,
+  type Persona,
+} from "@/lib/settings";
+import { useI18n } from "@/components/i18n-provider";
+
+interface SettingsDialogProps {
+  settings: AppSettings;
+  onSettingsChange: (settings: AppSettings) => void;
+  onClose: () => void;
+  // Shown for accounts signed in by email link that have no password yet
+  canAddPassword?: boolean;
+  onPasswordAdded?: () => void;
+}
+
+const newPersonaId = () => `persona-${Date.now().toString(36)}`;
+
+const fieldClass =
+  "w-full bg-paper border border-text-ink/10 rounded-lg px-3 py-2 text-sm text-ink outline-none focus:border-terra";
+
+// Defaults for new chats, answer language and personas; changes apply as they are made
+export default function SettingsDialog({
+  settings,
+  onSettingsChange,
+  onClose,
+  canAddPassword,
+  onPasswordAdded,
+}: SettingsDialogProps) {
+  const { t } = useI18n();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [password, setPassword] = useState("");
+  const [isSavingPassword, setIsSavingPassword] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const update = (changes: Partial<AppSettings>) => onSettingsChange({ ...settings, ...changes });
+  const maxTokens = getModel(settings.defaultModel)?.maxOutputTokens ?? GENERATION_LIMITS.maxOutputTokens.min;
+
+  const selectModel = (id: string) => {
+    const limit = getModel(id)?.maxOutputTokens ?? maxTokens;
+    update({
+      defaultModel: id,
+      generationSettings: {
+        ...settings.generationSettings,
+        maxOutputTokens: Math.min(settings.generationSettings.maxOutputTokens, limit),
+      },
+    });
+  };
+
+  const updateGeneration = (key: keyof GenerationSettings, value: number) =>
+    update({ generationSettings: { ...settings.generationSettings, [key]: value } });
+
+  const updatePersona = (id: string, changes: Partial<Persona>) =>
+    update({ personas: settings.personas.map((p) => (p.id === id ? { ...p, ...changes } : p)) });
+
+  const addPersona = () =>
+    update({ personas: [...settings.personas, { id: newPersonaId(), name: "", instructions: "" }] });
+
+  const removePersona = (id: string) =>
+    update({
+      personas: settings.personas.filter((p) => p.id !== id),
+      defaultPersonaId: settings.defaultPersonaId === id ? null : settings.defaultPersonaId,
+    });
+
+  const exportSettings = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(`documind-settings-${date}.json`, exportSettingsJSON(settings), "application/json");
+  };
+
+  const importSettings = async (file: File) => {
+    try {
+      onSettingsChange(parseSettingsJSON(await file.text()));
+      toast.success(t("toast.settingsImported"));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t("toast.settingsImportFailed"));
+    }
+  };
+
+  const addPassword = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSavingPassword(true);
+    try {
+      await postAuth("/api/auth/password", { password });
+      setPassword("");
+      toast.success(t("toast.passwordAdded"));
+      onPasswordAdded?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t("toast.passwordFailed"));
+    } finally {
+      setIsSavingPassword(false);
+    }
+  };
+
+  const resetSettings = () => {
+    if (confirm(t("settings.resetConfirm"))) {
+      onSettingsChange({ ...DEFAULT_SETTINGS });
+    }
+  };
+
+  const sliders: { key: keyof GenerationSettings; label: string; min: number; max: number; step: number }[] = [
+    { key: "temperature", label: t("generation.temperature"), ...GENERATION_LIMITS.temperature },
+    { key: "topP", label: t("generation.topP"), ...GENERATION_LIMITS.topP },
+    { key: "maxOutputTokens", label: t("generation.maxOutputTokens"), ...GENERATION_LIMITS.maxOutputTokens, max: maxTokens },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label={t("settings.title")}
+        className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-card-cream rounded-2xl shadow-xl border border-text-ink/10"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="sticky top-0 z-10 flex items-center gap-3 px-5 py-4 bg-card-cream border-b border-text-ink/10">
+          <Settings className="w-5 h-5 text-terra" />
+          <h2 className="text-lg font-serif font-semibold text-ink flex-1">{t("settings.title")}</h2>
+          <button onClick={onClose} className="p-1 text-ink/50 hover:text-ink transition-colors" aria-label={t("common.close")}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-6">
+          <section className="space-y-3">
+            <h3 className="text-xs font-medium text-ink/50 uppercase tracking-wide">{t("settings.newChats")}</h3>
+            <label className="block text-sm text-ink">
+              <span className="block text-xs text-ink/60 mb-1">{t("settings.defaultModel")}</span>
+              <select
+                value={settings.defaultModel}
+                onChange={(e) => selectModel(e.target.value)}
+                className={fieldClass}
+              >
+                {MODELS.map((m) => (
+                  <option key={m.id} value={m.id}>
+                    {m.label} — {t(m.descriptionKey)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {sliders.map(({ key, label, min, max, step }) => (
+              <label key={key} className="block">
+                <div className="flex justify-between text-xs text-ink/60 mb-1">
+                  <span>{label}</span>
+                  <span className="font-mono">{settings.generationSettings[key]}</span>
+                </div>
+                <input
+                  type="range"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={settings.generationSettings[key]}
+                  onChange={(e) => updateGeneration(key, Number(e.target.value))}
+                  className="w-full accent-terra"
+                />
+              </label>
+            ))}
+            <label className="block text-sm text-ink">
+              <span className="block text-xs text-ink/60 mb-1">{t("settings.defaultPersona")}</span>
+              <select
+                value={settings.defaultPersonaId ?? ""}
+                onChange={(e) => update({ defaultPersonaId: e.target.value || null })}
+                className={fieldClass}
+              >
+                <option value="">{t("persona.none")}</option>
+                {settings.personas
+                  .filter((p) => p.name.trim())
+                  .map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+              </select>
+            </label>
+          </section>
+
+          <section>
+            <h3 className="text-xs font-medium text-ink/50 uppercase tracking-wide mb-3">{t("settings.answers")}</h3>
+            <label className="block text-sm text-ink">
+              <span className="block text-xs text-ink/60 mb-1">{t("settings.responseLanguage")}</span>
+              <select
+                value={settings.responseLanguage}
+                onChange={(e) => update({ responseLanguage: e.target.value })}
+                className={fieldClass}
+              >
+                <option value="auto">{t("language.auto")}</option>
+                <option value={INTERFACE_LANGUAGE}>{t("language.interface")}</option>
+                {RESPONSE_LANGUAGES.filter((l) => l.id !== "auto").map((l) => (
+                  <option key={l.id} value={l.id}>
+                    {l.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </section>
+
+          <section>
+            <div className="flex items-center justify-between mb-1">
+              <h3 className="text-xs font-medium text-ink/50 uppercase tracking-wide">{t("settings.personas")}</h3>
+              <button
+                onClick={addPersona}
+                className="flex items-center gap-1 text-xs text-ink/50 hover:text-terra transition-colors"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                {t("settings.addPersona")}
+              </button>
+            </div>
+            <p className="text-[11px] text-ink/40 mb-3">{t("settings.personasHint")}</p>
+            <div className="space-y-3">
+              {settings.personas.map((persona) => (
+                <div key={persona.id} className="rounded-xl bg-paper border border-text-ink/10 p-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={persona.name}
+                      onChange={(e) => updatePersona(persona.id, { name: e.target.value })}
+                      maxLength={PERSONA_NAME_MAX_LENGTH}
+                      placeholder={t("settings.personaNamePlaceholder")}
+                      aria-label={t("settings.personaName")}
+                      className="flex-1 bg-transparent text-sm font-medium text-ink outline-none"
+                    />
+                    <button
+                      onClick={() => removePersona(persona.id)}
+                      className="p-1 text-ink/40 hover:text-red-600 transition-colors"
+                      aria-label={t("settings.deletePersona", { name: persona.name })}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <textarea
+                    value={persona.instructions}
+                    onChange={(e) => updatePersona(persona.id, { instructions: e.target.value })}
+                    maxLength={PERSONA_INSTRUCTIONS_MAX_LENGTH}
+                    rows={3}
+                    placeholder={t("settings.personaInstructionsPlaceholder")}
+                    aria-label={t("settings.personaInstructions")}
+                    className="w-full bg-card-cream/60 border border-text-ink/10 rounded-lg px-2 py-1.5 text-sm text-ink outline-none focus:border-terra resize-y"
+                  />
+                  <p className="text-[11px] text-ink/40 text-right">
+                    {(!persona.name.trim() || !persona.instructions.trim()) && `${t("settings.personaIncomplete")} · `}
+                    {persona.instructions.length} / {PERSONA_INSTRUCTIONS_MAX_LENGTH}
+                  </p>
+                </div>
+              ))}
+              {settings.personas.length === 0 && (
+                <p className="text-sm text-ink/50 text-center py-3">{t("settings.noPersonas")}</p>
+              )}
+            </div>
+          </section>
+
+          {canAddPassword && (
+            <section>
+              <h3 className="text-xs font-medium text-ink/50 uppercase tracking-wide mb-1">{t("settings.account")}</h3>
+              <p className="text-[11px] text-ink/40 mb-3">{t("settings.addPasswordHint")}</p>
+              <form onSubmit={addPassword} className="flex gap-2">
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder={t("settings.newPassword")}
+                  autoComplete="new-password"
+                  minLength={8}
+                  required
+                  className={fieldClass}
+                />
+                <button
+                  type="submit"
+                  disabled={isSavingPassword}
+                  className="flex-shrink-0 flex items-center gap-1.5 px-3 py-2 rounded-lg bg-terra text-white text-sm font-medium hover:bg-terra/90 transition-colors disabled:opacity-60"
+                >
+                  <KeyRound className="w-4 h-4" />
+                  {t("settings.addPassword")}
+                </button>
+              </form>
+            </section>
+          )}
+
+          <section className="flex flex-wrap items-center gap-2 pt-2 border-t border-text-ink/10">
+            <button
+              onClick={exportSettings}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-ink/70 hover:text-ink hover:bg-paper transition-colors"
+            >
+              <Download className="w-3.5 h-3.5" />
+              {t("settings.export")}
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-ink/70 hover:text-ink hover:bg-paper transition-colors"
+            >
+              <Upload className="w-3.5 h-3.5" />
+              {t("settings.import")}
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) importSettings(file);
+              }}
+            />
+            <button
+              onClick={resetSettings}
+              className="ml-auto flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-ink/50 hover:text-terra transition-colors"
+            >
+              <RotateCcw className="w-3.5 h-3.5" />
+              {t("settings.reset")}
+            </button>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,49 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { FileText, Clock, Settings, Sparkles, Plus, Trash2, BookOpen } from "lucide-react";
+import { useState, useEffect, useRef, type ReactNode } from "react";
+import {
+  Clock,
+  Settings,
+  Plus,
+  Trash2,
+  BookOpen,
+  Upload,
+  Archive,
+  LogOut,
+  BarChart3,
+  Search,
+  Pin,
+  Folder,
+  X,
+  Languages,
+  MessageSquareText,
+} from "lucide-react";
+import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import ModelPicker from "./model-picker";
+import ChatListItem from "./chat-list-item";
+import FolderItem from "./folder-item";
+import TagDot from "./tag-dot";
+import { useI18n } from "./i18n-provider";
+import { DEFAULT_MODEL, DEFAULT_GENERATION_SETTINGS, type GenerationSettings } from "@/lib/models";
+import { formatResetTime, type SessionInfo } from "@/lib/auth-client";
+import { LOCALES, isLocale } from "@/lib/i18n";
+import { INTERFACE_LANGUAGE, RESPONSE_LANGUAGES } from "@/lib/settings";
+import {
+  CHAT_DRAG_TYPE,
+  CHAT_TAG_COLORS,
+  type ChatFolder,
+  type ChatMetaUpdate,
+  type ChatTagColor,
+} from "@/lib/chat-types";
 
 interface HistoryItem {
   id: string;
   title: string;
   timestamp: number;
+  pinned?: boolean;
+  tags?: ChatTagColor[];
+  folderId?: string;
 }
 
 interface SidebarProps {
@@ -17,10 +53,73 @@ interface SidebarProps {
   onLoadChat?: (chatId: string) => void;
   onNewChat?: () => void;
   onClearHistory?: () => void;
+  model?: string;
+  onModelChange?: (model: string) => void;
+  generationSettings?: GenerationSettings;
+  onGenerationSettingsChange?: (settings: GenerationSettings) => void;
+  onExportAll?: () => void;
+  onImport?: (files: File[]) => void;
+  session?: SessionInfo | null;
+  onSignOut?: () => void;
+  onOpenUsage?: () => void;
+  onOpenHistory?: () => void;
+  onOpenSettings?: () => void;
+  // Language answers are written in (a settings value, see lib/settings)
+  responseLanguage?: string;
+  onResponseLanguageChange?: (language: string) => void;
+  folders?: ChatFolder[];
+  onFoldersChange?: (folders: ChatFolder[]) => void;
+  onUpdateChat?: (chatId: string, update: ChatMetaUpdate) => void;
+  onDeleteChat?: (chatId: string) => void;
 }
 
 const STORAGE_KEY = "documind_chats";
 
+// Unfiled, unpinned chats listed under Recent Chats; the rest are in the history browser
+const RECENT_LIMIT = 5;
+
+const newFolderId = () => `folder-${Date.now().toString(36)}`;
+
+const languageSelectClass =
+  "max-w-[110px] bg-transparent text-xs text-ink/70 text-right outline-none cursor-pointer hover:text-ink truncate";
+
+// Heading above a group of chats in the sidebar
+function SectionHeading({ icon: Icon, label, children }: { icon: typeof Clock; label: string; children?: ReactNode }) {
+  return (
+    <div className="flex items-center justify-between gap-2 mb-2 px-1">
+      <div className="flex items-center gap-2">
+        <Icon className="w-4 h-4 text-ink/50 stroke-[1.5px]" />
+        <h2 className="text-xs font-medium text-ink/50 uppercase tracking-wide">{label}</h2>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+// One line of today's usage; a limit of 0 means unlimited
+function UsageMeter({ label, used, limit }: { label: string; used: number; limit: number }) {
+  const ratio = limit > 0 ? Math.min(1, used / limit) : 0;
+  return (
+    <div className="mt-2">
+      <div className="flex justify-between text-[11px] text-ink/50">
+        <span>{label}</span>
+        <span>
+          {used.toLocaleString()}
+          {limit > 0 && ` / ${limit.toLocaleString()}`}
+        </span>
+      </div>
+      {limit > 0 && (
+        <div className="mt-1 h-1 rounded-full bg-text-ink/10 overflow-hidden">
+          <div
+            className={cn("h-full rounded-full", ratio >= 0.9 ? "bg-red-500" : "bg-terra")}
+            style={{ width: `${ratio * 100}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function Sidebar({
   isMobile = false,
   onClose,
@@ -28,8 +127,31 @@ export default function Sidebar({
   onLoadChat,
   onNewChat,
   onClearHistory,
+  model = DEFAULT_MODEL,
+  onModelChange,
+  generationSettings = DEFAULT_GENERATION_SETTINGS,
+  onGenerationSettingsChange,
+  onExportAll,
+  onImport,
+  session,
+  onSignOut,
+  onOpenUsage,
+  onOpenHistory,
+  onOpenSettings,
+  responseLanguage = "auto",
+  onResponseLanguageChange,
+  folders = [],
+  onFoldersChange,
+  onUpdateChat,
+  onDeleteChat,
 }: SidebarProps) {
+  const { t, locale, setLocale } = useI18n();
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [tagFilter, setTagFilter] = useState<ChatTagColor | null>(null);
+  const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
+  const [newFolderName, setNewFolderName] = useState<string | null>(null);
+  const [isRecentDropTarget, setIsRecentDropTarget] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // Load history from localStorage
   useEffect(() => {
@@ -38,7 +160,7 @@ export default function Sidebar({
         const savedChats = localStorage.getItem(STORAGE_KEY);
         if (savedChats) {
           const parsed: HistoryItem[] = JSON.parse(savedChats);
-          setHistory(parsed.sort((a, b) => b.timestamp - a.timestamp).slice(0, 5));
+          setHistory(parsed.sort((a, b) => b.timestamp - a.timestamp));
         } else {
           // Clear history when localStorage is empty
           setHistory([]);
@@ -73,11 +195,11 @@ export default function Sidebar({
     const hours = Math.floor(diff / 3600000);
     const days = Math.floor(diff / 86400000);
 
-    if (minutes < 1) return "Just now";
-    if (minutes < 60) return `${minutes}m ago`;
-    if (hours < 24) return `${hours}h ago`;
-    if (days < 7) return `${days}d ago`;
-    return new Date(timestamp).toLocaleDateString();
+    if (minutes < 1) return t("time.justNow");
+    if (minutes < 60) return t("time.minutesAgo", { count: minutes });
+    if (hours < 24) return t("time.hoursAgo", { count: hours });
+    if (days < 7) return t("time.daysAgo", { count: days });
+    return new Date(timestamp).toLocaleDateString(locale);
   };
 
   const handleNewChat = () => {
@@ -95,6 +217,53 @@ export default function Sidebar({
     onClose?.();
   };
 
+  // Chats filed in a folder that no longer exists count as unfiled
+  const folderIds = new Set(folders.map((f) => f.id));
+  const isFiled = (item: HistoryItem) => !!item.folderId && folderIds.has(item.folderId);
+  const pinned = history.filter((item) => item.pinned);
+  const recent = history.filter((item) => !item.pinned && !isFiled(item)).slice(0, RECENT_LIMIT);
+  const tagsInUse = CHAT_TAG_COLORS.filter((color) => history.some((item) => item.tags?.includes(color)));
+  const activeTagFilter = tagFilter && tagsInUse.includes(tagFilter) ? tagFilter : null;
+
+  const toggleFolder = (id: string) =>
+    setExpandedFolders((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const createFolder = () => {
+    const name = newFolderName?.trim();
+    setNewFolderName(null);
+    if (!name) return;
+    const folder = { id: newFolderId(), name: name.slice(0, 100) };
+    onFoldersChange?.([...folders, folder]);
+    setExpandedFolders((prev) => new Set(prev).add(folder.id));
+  };
+
+  const deleteFolder = (folder: ChatFolder) => {
+    onFoldersChange?.(folders.filter((f) => f.id !== folder.id));
+    const count = history.filter((item) => item.folderId === folder.id).length;
+    toast.success(t("sidebar.folderDeleted", { name: folder.name }), {
+      description:
+        count > 0 ? t(count === 1 ? "sidebar.folderChatsMoved.one" : "sidebar.folderChatsMoved.other", { count }) : undefined,
+    });
+  };
+
+  const renderChat = (item: HistoryItem) => (
+    <ChatListItem
+      key={item.id}
+      chat={item}
+      meta={formatTimestamp(item.timestamp)}
+      active={currentChatId === item.id}
+      folders={folders}
+      onOpen={() => handleLoadChat(item.id)}
+      onUpdate={(update) => onUpdateChat?.(item.id, update)}
+      onDelete={() => onDeleteChat?.(item.id)}
+    />
+  );
+
   const sidebarContent = (
     <>
       {/* Logo & Brand Area */}
@@ -105,7 +274,7 @@ export default function Sidebar({
           </div>
           <div>
             <h1 className="text-xl font-bold font-serif text-ink">Documind AI</h1>
-            <p className="text-xs text-ink/60 font-light">Document Analyst</p>
+            <p className="text-xs text-ink/60 font-light">{t("sidebar.tagline")}</p>
           </div>
         </div>
 
@@ -115,86 +284,303 @@ export default function Sidebar({
           className="w-full flex items-center gap-3 px-4 py-3 rounded-xl bg-terra/10 text-ink hover:bg-terra/20 transition-all border border-terra/30"
         >
           <Plus className="w-5 h-5 stroke-[1.5px]" />
-          <span className="font-medium">New Chat</span>
+          <span className="font-medium">{t("sidebar.newChat")}</span>
         </button>
       </div>
 
       {/* Chat History */}
       <div className="flex-1 overflow-y-auto px-4 pb-4">
-        <div className="flex items-center justify-between gap-2 mb-3 px-1">
-          <div className="flex items-center gap-2">
-            <Clock className="w-4 h-4 text-ink/50 stroke-[1.5px]" />
-            <h2 className="text-xs font-medium text-ink/50 uppercase tracking-wide">
-              Recent Chats
-            </h2>
-          </div>
-          {history.length > 0 && (
-            <button
-              onClick={handleClearHistory}
-              className="text-xs text-ink/50 hover:text-terra transition-colors flex items-center gap-1"
-            >
-              <Trash2 className="w-3.5 h-3.5 stroke-[1.5px]" />
-              Clear
-            </button>
-          )}
-        </div>
-
-        <div className="space-y-1">
-          {history.length === 0 ? (
-            <div className="px-3 py-8 text-center text-ink/50 text-sm">
-              No chat history yet.<br />Start a new conversation!
-            </div>
-          ) : (
-            history.map((item) => (
+        {/* Filter by color tag */}
+        {tagsInUse.length > 0 && (
+          <div className="flex items-center gap-1.5 mb-3 px-1">
+            {tagsInUse.map((color) => (
               <button
-                key={item.id}
+                key={color}
+                onClick={() => setTagFilter(activeTagFilter === color ? null : color)}
                 className={cn(
-                  "w-full text-left py-2.5 pr-3 transition-colors group",
-                  currentChatId === item.id
-                    ? "border-l-4 border-terra pl-3"
-                    : "border-l-4 border-transparent pl-3 hover:bg-card-cream/50"
+                  "p-0.5 rounded-full border-2 transition-colors",
+                  activeTagFilter === color ? "border-ink/60" : "border-transparent hover:border-ink/20"
                 )}
-                onClick={() => handleLoadChat(item.id)}
+                aria-label={t("sidebar.showTagged", { color: t(`tag.${color}`) })}
+                aria-pressed={activeTagFilter === color}
               >
-                <div className="flex items-start gap-3">
-                  <FileText className={cn(
-                    "w-4.5 h-4.5 flex-shrink-0 mt-0.5 stroke-[1.5px]",
-                    currentChatId === item.id ? "text-terra" : "text-ink/40 group-hover:text-ink/60"
-                  )} />
-                  <div className="flex-1 min-w-0">
-                    <p className={cn(
-                      "text-sm truncate",
-                      currentChatId === item.id ? "font-semibold text-ink" : "font-medium text-ink/70 group-hover:text-ink"
-                    )}>
-                      {item.title}
-                    </p>
-                    <p className="text-xs text-ink/40 mt-0.5">{formatTimestamp(item.timestamp)}</p>
-                  </div>
-                </div>
+                <TagDot color={color} className="w-3 h-3" />
               </button>
-            ))
-          )}
-        </div>
+            ))}
+            {activeTagFilter && (
+              <button
+                onClick={() => setTagFilter(null)}
+                className="ml-auto flex items-center gap-0.5 text-xs text-ink/50 hover:text-terra transition-colors"
+              >
+                <X className="w-3 h-3" />
+                {t("sidebar.clearFilter")}
+              </button>
+            )}
+          </div>
+        )}
+
+        {activeTagFilter ? (
+          <div className="space-y-1">
+            {history.filter((item) => item.tags?.includes(activeTagFilter)).map(renderChat)}
+          </div>
+        ) : (
+          <>
+            {pinned.length > 0 && (
+              <div className="mb-4">
+                <SectionHeading icon={Pin} label={t("sidebar.pinned")} />
+                <div className="space-y-1">{pinned.map(renderChat)}</div>
+              </div>
+            )}
+
+            {/* User-defined folders; chats are filed by dragging them onto a folder or from their menu */}
+            {(folders.length > 0 || history.length > 0) && (
+              <div className="mb-4">
+                <SectionHeading icon={Folder} label={t("sidebar.folders")}>
+                  <button
+                    onClick={() => setNewFolderName("")}
+                    className="text-xs text-ink/50 hover:text-terra transition-colors flex items-center gap-1"
+                  >
+                    <Plus className="w-3.5 h-3.5 stroke-[1.5px]" />
+                    {t("sidebar.newFolder")}
+                  </button>
+                </SectionHeading>
+                {newFolderName !== null && (
+                  <input
+                    autoFocus
+                    value={newFolderName}
+                    onChange={(e) => setNewFolderName(e.target.value)}
+                    onBlur={createFolder}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") createFolder();
+                      if (e.key === "Escape") setNewFolderName(null);
+                    }}
+                    maxLength={100}
+                    placeholder={t("sidebar.folderNamePlaceholder")}
+                    aria-label={t("sidebar.newFolderName")}
+                    className="w-full mb-1 bg-paper border border-terra/40 rounded-md px-2 py-1 text-sm text-ink outline-none"
+                  />
+                )}
+                {folders.length === 0 && newFolderName === null ? (
+                  <p className="px-1 text-xs text-ink/40">{t("sidebar.foldersEmpty")}</p>
+                ) : (
+                  <div className="space-y-0.5">
+                    {folders.map((folder) => {
+                      const chats = history.filter((item) => item.folderId === folder.id);
+                      return (
+                        <FolderItem
+                          key={folder.id}
+                          folder={folder}
+                          chatCount={chats.length}
+                          isExpanded={expandedFolders.has(folder.id)}
+                          onToggle={() => toggleFolder(folder.id)}
+                          onRename={(name) =>
+                            onFoldersChange?.(folders.map((f) => (f.id === folder.id ? { ...f, name } : f)))
+                          }
+                          onDelete={() => deleteFolder(folder)}
+                          onDropChat={(chatId) => onUpdateChat?.(chatId, { folderId: folder.id })}
+                        >
+                          {chats.map(renderChat)}
+                        </FolderItem>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Dropping a chat here takes it out of its folder */}
+            <div
+              onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes(CHAT_DRAG_TYPE)) return;
+                e.preventDefault();
+                setIsRecentDropTarget(true);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsRecentDropTarget(false);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                setIsRecentDropTarget(false);
+                const chatId = e.dataTransfer.getData(CHAT_DRAG_TYPE);
+                if (chatId) onUpdateChat?.(chatId, { folderId: undefined });
+              }}
+              className={cn("rounded-lg transition-colors", isRecentDropTarget && "bg-terra/10 ring-1 ring-terra/40")}
+            >
+              <SectionHeading icon={Clock} label={t("sidebar.recentChats")}>
+                {history.length > 0 && (
+                  <button
+                    onClick={handleClearHistory}
+                    className="text-xs text-ink/50 hover:text-terra transition-colors flex items-center gap-1"
+                  >
+                    <Trash2 className="w-3.5 h-3.5 stroke-[1.5px]" />
+                    {t("sidebar.clear")}
+                  </button>
+                )}
+              </SectionHeading>
+
+              <div className="space-y-1">
+                {history.length === 0 ? (
+                  <div className="px-3 py-8 text-center text-ink/50 text-sm">
+                    {t("sidebar.emptyTitle")}
+                    <br />
+                    {t("sidebar.emptyHint")}
+                  </div>
+                ) : recent.length === 0 ? (
+                  <p className="px-3 py-2 text-xs text-ink/40">{t("sidebar.allFiled")}</p>
+                ) : (
+                  recent.map(renderChat)
+                )}
+              </div>
+            </div>
+          </>
+        )}
+
+        {history.length > 0 && (
+          <button
+            onClick={() => {
+              onOpenHistory?.();
+              onClose?.();
+            }}
+            className="w-full mt-2 flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-medium text-ink/60 hover:text-ink hover:bg-card-cream/50 transition-colors"
+          >
+            <Search className="w-3.5 h-3.5 stroke-[1.5px]" />
+            {history.length > RECENT_LIMIT ? t("sidebar.searchAll", { count: history.length }) : t("sidebar.search")}
+          </button>
+        )}
       </div>
 
       {/* Footer Area */}
       <div className="p-4 border-t border-text-ink/10">
-        <button className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl bg-card-cream border border-text-ink/10 hover:border-terra/30 transition-all group mb-2">
-          <Sparkles className="w-4 h-4 text-terra stroke-[1.5px]" />
-          <div className="flex-1 text-left">
-            <p className="text-xs font-medium text-ink/50">Model</p>
-            <p className="text-sm font-medium text-ink group-hover:text-terra transition-colors">
-              Gemini 2.5 Flash
-            </p>
-          </div>
+        {/* Move chats between machines: zip of all chats out, JSON or zip exports in */}
+        <div className="flex gap-2 mb-2">
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="flex-1 flex items-center justify-center gap-1.5 px-2 py-2 rounded-xl text-xs font-medium text-ink/60 hover:text-ink hover:bg-card-cream/50 transition-colors"
+          >
+            <Upload className="w-3.5 h-3.5 stroke-[1.5px]" />
+            {t("sidebar.import")}
+          </button>
+          <button
+            onClick={onExportAll}
+            disabled={history.length === 0}
+            className="flex-1 flex items-center justify-center gap-1.5 px-2 py-2 rounded-xl text-xs font-medium text-ink/60 hover:text-ink hover:bg-card-cream/50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Archive className="w-3.5 h-3.5 stroke-[1.5px]" />
+            {t("sidebar.exportAll")}
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,.zip,application/json,application/zip"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              const files = Array.from(e.target.files || []);
+              e.target.value = "";
+              if (files.length > 0) {
+                onImport?.(files);
+                onClose?.();
+              }
+            }}
+          />
+        </div>
+
+        <ModelPicker
+          model={model}
+          onModelChange={onModelChange}
+          settings={generationSettings}
+          onSettingsChange={onGenerationSettingsChange}
+        />
+
+        <button
+          onClick={() => {
+            onOpenUsage?.();
+            onClose?.();
+          }}
+          className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl hover:bg-card-cream/50 transition-colors group"
+        >
+          <BarChart3 className="w-4 h-4 text-ink/50 group-hover:text-ink stroke-[1.5px]" />
+          <span className="text-sm font-medium text-ink/60 group-hover:text-ink">
+            {t("sidebar.usage")}
+          </span>
         </button>
 
-        <button className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl hover:bg-card-cream/50 transition-colors group">
+        <button
+          onClick={() => {
+            onOpenSettings?.();
+            onClose?.();
+          }}
+          className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl hover:bg-card-cream/50 transition-colors group"
+        >
           <Settings className="w-4 h-4 text-ink/50 group-hover:text-ink stroke-[1.5px]" />
           <span className="text-sm font-medium text-ink/60 group-hover:text-ink">
-            Settings
+            {t("sidebar.settings")}
           </span>
         </button>
+
+        {/* UI language, and the language answers are written in */}
+        <label className="w-full flex items-center gap-3 px-3 py-2 rounded-xl hover:bg-card-cream/50 transition-colors">
+          <Languages className="w-4 h-4 text-ink/50 stroke-[1.5px] flex-shrink-0" />
+          <span className="flex-1 text-sm font-medium text-ink/60">{t("sidebar.interfaceLanguage")}</span>
+          <select
+            value={locale}
+            onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+            className={languageSelectClass}
+          >
+            {LOCALES.map((l) => (
+              <option key={l.id} value={l.id}>
+                {l.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="w-full flex items-center gap-3 px-3 py-2 rounded-xl hover:bg-card-cream/50 transition-colors">
+          <MessageSquareText className="w-4 h-4 text-ink/50 stroke-[1.5px] flex-shrink-0" />
+          <span className="flex-1 text-sm font-medium text-ink/60">{t("sidebar.replyIn")}</span>
+          <select
+            value={responseLanguage}
+            onChange={(e) => onResponseLanguageChange?.(e.target.value)}
+            className={languageSelectClass}
+          >
+            <option value="auto">{t("language.auto")}</option>
+            <option value={INTERFACE_LANGUAGE}>{t("language.interface")}</option>
+            {RESPONSE_LANGUAGES.filter((l) => l.id !== "auto").map((l) => (
+              <option key={l.id} value={l.id}>
+                {l.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {/* Account and today's usage against the quotas */}
+        {session && (
+          <div className="mt-2 px-3 py-2 rounded-xl bg-card-cream/50">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs font-medium text-ink/70 truncate" title={session.user.email}>
+                {session.authDisabled ? t("sidebar.localAccount") : session.user.email}
+              </span>
+              {!session.authDisabled && (
+                <button
+                  onClick={onSignOut}
+                  className="p-1 text-ink/50 hover:text-terra transition-colors"
+                  aria-label={t("sidebar.signOut")}
+                  title={t("sidebar.signOut")}
+                >
+                  <LogOut className="w-3.5 h-3.5 stroke-[1.5px]" />
+                </button>
+              )}
+            </div>
+            <UsageMeter
+              label={t("sidebar.messagesToday")}
+              used={session.usage.requests}
+              limit={session.usage.limits.requestsPerDay}
+            />
+            <UsageMeter label={t("sidebar.tokensToday")} used={session.usage.tokens} limit={session.usage.limits.tokensPerDay} />
+            <p className="mt-1.5 text-[11px] text-ink/40">
+              {t("sidebar.resetsAt", { time: formatResetTime(session.usage.resetAt) })}
+            </p>
+          </div>
+        )}
       </div>
     </>
   );
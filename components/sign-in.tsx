@@ -0,0 +1,154 @@
+"use client";
+
+import { useState, FormEvent } from "react";
+import { BookOpen, Mail, KeyRound, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { postAuth } from "@/lib/auth-client";
+import { useI18n } from "@/components/i18n-provider";
+
+interface SignInProps {
+  // Set when the user arrived from an expired or already-used email link
+  linkExpired?: boolean;
+}
+
+type Method = "link" | "password";
+
+// Sign in with an emailed one-time link, or with email and password
+export default function SignIn({ linkExpired }: SignInProps) {
+  const { t } = useI18n();
+  const [method, setMethod] = useState<Method>("link");
+  const [isRegistering, setIsRegistering] = useState(false);
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+  // A registration is confirmed through an emailed link; the password is added
+  // afterwards from Settings, once that link has signed the user in
+  const [sentForRegistration, setSentForRegistration] = useState(false);
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      if (method === "link") {
+        await postAuth("/api/auth/magic-link", { email });
+        setSentForRegistration(false);
+        setLinkSentTo(email.trim());
+      } else if (isRegistering) {
+        await postAuth("/api/auth/register", { email });
+        setSentForRegistration(true);
+        setLinkSentTo(email.trim());
+      } else {
+        await postAuth("/api/auth/login", { email, password });
+        window.location.assign("/");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t("toast.signInFailed"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const tabs: { id: Method; label: string; icon: typeof Mail }[] = [
+    { id: "link", label: t("signIn.emailLink"), icon: Mail },
+    { id: "password", label: t("signIn.password"), icon: KeyRound },
+  ];
+
+  return (
+    <div className="min-h-screen bg-paper flex items-center justify-center p-4">
+      <div className="w-full max-w-sm bg-card-cream rounded-2xl border border-text-ink/10 shadow-sm p-6">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-11 h-11 bg-bg-sidebar rounded-xl flex items-center justify-center">
+            <BookOpen className="w-6 h-6 text-terra" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold font-serif text-ink">Documind AI</h1>
+            <p className="text-xs text-ink/60 font-light">{t("signIn.subtitle")}</p>
+          </div>
+        </div>
+
+        {linkExpired && !linkSentTo && (
+          <p className="mb-4 rounded-lg bg-amber-50 border border-amber-200 px-3 py-2 text-sm text-amber-800">
+            {t("signIn.linkExpired")}
+          </p>
+        )}
+
+        {linkSentTo ? (
+          <div className="text-center py-4">
+            <Mail className="w-10 h-10 text-terra mx-auto mb-3" />
+            <p className="text-sm text-ink">{t(sentForRegistration ? "signIn.sentForRegistration" : "signIn.sent")}</p>
+            <p className="text-sm text-ink font-semibold break-all">{linkSentTo}</p>
+            {sentForRegistration && <p className="text-xs text-ink/60 mt-2">{t("signIn.addPasswordLater")}</p>}
+            <p className="text-xs text-ink/50 mt-2">{t("signIn.linkValidity")}</p>
+            <button
+              onClick={() => setLinkSentTo(null)}
+              className="mt-4 text-sm text-terra hover:underline"
+            >
+              {t("signIn.differentEmail")}
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="flex gap-1 p-1 mb-4 rounded-xl bg-bg-sidebar">
+              {tabs.map(({ id, label, icon: Icon }) => (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => setMethod(id)}
+                  className={cn(
+                    "flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-sm transition-colors",
+                    method === id ? "bg-card-cream text-ink shadow-sm" : "text-ink/60 hover:text-ink"
+                  )}
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-3">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                autoComplete="email"
+                required
+                className="w-full bg-paper border border-text-ink/10 rounded-lg px-3 py-2 text-sm text-ink outline-none focus:border-terra"
+              />
+              {method === "password" && !isRegistering && (
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder={t("signIn.password")}
+                  autoComplete="current-password"
+                  required
+                  className="w-full bg-paper border border-text-ink/10 rounded-lg px-3 py-2 text-sm text-ink outline-none focus:border-terra"
+                />
+              )}
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-terra text-white text-sm font-medium hover:bg-terra/90 transition-colors disabled:opacity-60"
+              >
+                {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                {t(method === "link" ? "signIn.sendLink" : isRegistering ? "signIn.sendConfirmation" : "signIn.submit")}
+              </button>
+            </form>
+
+            {method === "password" && (
+              <p className="mt-4 text-center text-xs text-ink/60">
+                {t(isRegistering ? "signIn.haveAccount" : "signIn.newHere")}{" "}
+                <button onClick={() => setIsRegistering((r) => !r)} className="text-terra hover:underline">
+                  {t(isRegistering ? "signIn.submit" : "signIn.createAccount")}
+                </button>
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { cn } from "@/lib/utils";
+import type { ChatTagColor } from "@/lib/chat-types";
+
+const TAG_CLASSES: Record<ChatTagColor, string> = {
+  red: "bg-red-400",
+  orange: "bg-orange-400",
+  yellow: "bg-yellow-400",
+  green: "bg-green-500",
+  blue: "bg-blue-400",
+  purple: "bg-purple-400",
+};
+
+// A chat's color tag as a small dot
+export default function TagDot({ color, className }: { color: ChatTagColor; className?: string }) {
+  return <span className={cn("inline-block w-2 h-2 rounded-full flex-shrink-0", TAG_CLASSES[color], className)} />;
+}
@@ -0,0 +1,21 @@
+import { BarChart3, FileText, Languages, ListChecks, Mail, Scale, Search, Sparkles, Table2, Video, type LucideIcon } from "lucide-react";
+import type { TemplateIconName } from "@/lib/prompt-templates";
+
+const TEMPLATE_ICON_COMPONENTS: Record<TemplateIconName, LucideIcon> = {
+  "file-text": FileText,
+  "bar-chart": BarChart3,
+  video: Video,
+  languages: Languages,
+  sparkles: Sparkles,
+  "list-checks": ListChecks,
+  scale: Scale,
+  search: Search,
+  table: Table2,
+  mail: Mail,
+};
+
+// A prompt template's icon; unknown names fall back to sparkles
+export default function TemplateIcon({ icon, className }: { icon: TemplateIconName; className?: string }) {
+  const Icon = TEMPLATE_ICON_COMPONENTS[icon] ?? Sparkles;
+  return <Icon className={className} />;
+}
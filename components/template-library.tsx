@@ -0,0 +1,288 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { BookText, X, Plus, Pencil, Copy, Trash2, Search, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import TemplateIcon from "./template-icon";
+import {
+  BUILTIN_TEMPLATES,
+  TEMPLATE_BODY_MAX_LENGTH,
+  TEMPLATE_DESCRIPTION_MAX_LENGTH,
+  TEMPLATE_ICONS,
+  TEMPLATE_TITLE_MAX_LENGTH,
+  searchTemplates,
+  templateVariables,
+  type PromptTemplate,
+  type TemplateDraft,
+} from "@/lib/prompt-templates";
+import { useI18n } from "./i18n-provider";
+
+interface TemplateLibraryProps {
+  // The user's own templates and those shared with them (built-in ones are added here)
+  templates: PromptTemplate[];
+  onSave: (draft: TemplateDraft, id?: string) => Promise<void>;
+  onDelete: (template: PromptTemplate) => Promise<void>;
+  onUse: (template: PromptTemplate) => void;
+  onClose: () => void;
+}
+
+const EMPTY_DRAFT: TemplateDraft = { title: "", description: "", icon: "sparkles", body: "", featured: false, shared: false };
+
+// Helper function to take the editable fields of a template
+const toDraft = ({ title, description, icon, body, featured, shared }: PromptTemplate): TemplateDraft => ({
+  title,
+  description,
+  icon,
+  body,
+  featured,
+  shared,
+});
+
+const fieldClass =
+  "w-full bg-paper border border-text-ink/10 rounded-lg px-3 py-2 text-sm text-ink outline-none focus:border-terra";
+
+// Browse, create and edit prompt templates
+export default function TemplateLibrary({ templates, onSave, onDelete, onUse, onClose }: TemplateLibraryProps) {
+  const { t } = useI18n();
+  const [query, setQuery] = useState("");
+  // Template being edited; no ID means a new one
+  const [editing, setEditing] = useState<{ id?: string; draft: TemplateDraft } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Escape") return;
+      if (editing) setEditing(null);
+      else onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [editing, onClose]);
+
+  const matches = searchTemplates([...BUILTIN_TEMPLATES, ...templates], query);
+
+  const updateDraft = (changes: Partial<TemplateDraft>) =>
+    setEditing((current) => current && { ...current, draft: { ...current.draft, ...changes } });
+
+  const editCopy = (template: PromptTemplate) =>
+    setEditing({
+      draft: {
+        ...toDraft(template),
+        title: t("templates.copyName", { title: template.title }).slice(0, TEMPLATE_TITLE_MAX_LENGTH),
+        featured: false,
+        shared: false,
+      },
+    });
+
+  const save = async () => {
+    if (!editing) return;
+    setIsSaving(true);
+    try {
+      await onSave(editing.draft, editing.id);
+      setEditing(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t("toast.templateSaveFailed"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async (template: PromptTemplate) => {
+    if (!confirm(t("templates.deleteConfirm", { title: template.title }))) return;
+    try {
+      await onDelete(template);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t("toast.templateDeleteFailed"));
+    }
+  };
+
+  const variables = editing ? templateVariables(editing.draft.body) : [];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label={t("templates.title")}
+        className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-card-cream rounded-2xl shadow-xl border border-text-ink/10"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-5 py-4 border-b border-text-ink/10">
+          <BookText className="w-5 h-5 text-terra" />
+          <h2 className="text-lg font-serif font-semibold text-ink flex-1">{t("templates.title")}</h2>
+          {!editing && (
+            <button
+              onClick={() => setEditing({ draft: { ...EMPTY_DRAFT } })}
+              className="flex items-center gap-1 px-2 py-1 text-xs text-ink/60 hover:text-terra transition-colors"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              {t("templates.new")}
+            </button>
+          )}
+          <button onClick={onClose} className="p-1 text-ink/50 hover:text-ink transition-colors" aria-label={t("common.close")}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {editing ? (
+          <div className="flex-1 overflow-y-auto p-5 space-y-3">
+            <label className="block">
+              <span className="block text-xs text-ink/60 mb-1">{t("templates.fieldTitle")}</span>
+              <input
+                autoFocus
+                value={editing.draft.title}
+                onChange={(e) => updateDraft({ title: e.target.value })}
+                maxLength={TEMPLATE_TITLE_MAX_LENGTH}
+                placeholder={t("templates.titlePlaceholder")}
+                className={fieldClass}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-ink/60 mb-1">{t("templates.fieldDescription")}</span>
+              <input
+                value={editing.draft.description}
+                onChange={(e) => updateDraft({ description: e.target.value })}
+                maxLength={TEMPLATE_DESCRIPTION_MAX_LENGTH}
+                placeholder={t("templates.descriptionPlaceholder")}
+                className={fieldClass}
+              />
+            </label>
+            <div>
+              <span className="block text-xs text-ink/60 mb-1">{t("templates.fieldIcon")}</span>
+              <div className="flex flex-wrap gap-1.5" role="radiogroup" aria-label={t("templates.fieldIcon")}>
+                {TEMPLATE_ICONS.map((icon) => (
+                  <button
+                    key={icon}
+                    type="button"
+                    role="radio"
+                    aria-checked={editing.draft.icon === icon}
+                    aria-label={t(`templates.icon.${icon}`)}
+                    onClick={() => updateDraft({ icon })}
+                    className={cn(
+                      "p-2 rounded-lg border transition-colors",
+                      editing.draft.icon === icon ? "border-terra bg-terra/10" : "border-text-ink/10 hover:border-terra/40"
+                    )}
+                  >
+                    <TemplateIcon icon={icon} className="w-4 h-4 text-terra stroke-[1.5px]" />
+                  </button>
+                ))}
+              </div>
+            </div>
+            <label className="block">
+              <span className="block text-xs text-ink/60 mb-1">{t("templates.fieldPrompt")}</span>
+              <textarea
+                value={editing.draft.body}
+                onChange={(e) => updateDraft({ body: e.target.value })}
+                maxLength={TEMPLATE_BODY_MAX_LENGTH}
+                rows={5}
+                placeholder={t("templates.promptPlaceholder")}
+                className={cn(fieldClass, "resize-y")}
+              />
+            </label>
+            <p className="text-[11px] text-ink/40">
+              {t("templates.variablesHint", { variable: "{{name}}", withDefault: "{{name|default}}" })}
+              {variables.length > 0 && ` ${t("templates.variablesList", { names: variables.map((v) => v.name).join(", ") })}`}
+            </p>
+            <label className="flex items-center gap-2 text-sm text-ink">
+              <input
+                type="checkbox"
+                checked={editing.draft.featured}
+                onChange={(e) => updateDraft({ featured: e.target.checked })}
+                className="accent-terra"
+              />
+              {t("templates.featured")}
+            </label>
+            <label className="flex items-center gap-2 text-sm text-ink">
+              <input
+                type="checkbox"
+                checked={editing.draft.shared}
+                onChange={(e) => updateDraft({ shared: e.target.checked })}
+                className="accent-terra"
+              />
+              {t("templates.shareAll")}
+            </label>
+            <div className="flex justify-end gap-2 pt-2">
+              <button
+                onClick={() => setEditing(null)}
+                className="px-3 py-1.5 rounded-lg text-xs font-medium text-ink/60 hover:text-ink transition-colors"
+              >
+                {t("common.cancel")}
+              </button>
+              <button
+                onClick={save}
+                disabled={isSaving || !editing.draft.title.trim() || !editing.draft.body.trim()}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-terra text-white disabled:opacity-40 transition-opacity"
+              >
+                {isSaving && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                {t("templates.save")}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="px-5 pt-4">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-ink/40" />
+                <input
+                  autoFocus
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder={t("templates.search")}
+                  className={cn(fieldClass, "pl-9")}
+                />
+              </div>
+            </div>
+            <div className="flex-1 overflow-y-auto p-5 space-y-2">
+              {matches.map((template) => (
+                <div key={template.id} className="group flex items-start gap-3 rounded-xl bg-paper border border-text-ink/10 p-3">
+                  <TemplateIcon icon={template.icon} className="w-5 h-5 mt-0.5 text-terra stroke-[1.5px] flex-shrink-0" />
+                  <button onClick={() => onUse(template)} className="flex-1 min-w-0 text-left" title={t("templates.use")}>
+                    <span className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-ink truncate">{template.title}</span>
+                      <span className="text-[10px] uppercase tracking-wide text-ink/40 flex-shrink-0">
+                        {t(`templates.source.${template.source}`)}
+                        {template.source === "own" && template.shared && ` · ${t("templates.sharedSuffix")}`}
+                      </span>
+                    </span>
+                    {template.description && <span className="block text-xs text-ink/50">{template.description}</span>}
+                    <span className="block text-xs text-ink/40 mt-1 line-clamp-2">{template.body}</span>
+                  </button>
+                  <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                    {template.source === "own" ? (
+                      <>
+                        <button
+                          onClick={() => setEditing({ id: template.id, draft: toDraft(template) })}
+                          className="p-1 text-ink/40 hover:text-ink"
+                          aria-label={t("templates.edit", { title: template.title })}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => remove(template)}
+                          className="p-1 text-ink/40 hover:text-red-600"
+                          aria-label={t("templates.delete", { title: template.title })}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => editCopy(template)}
+                        className="p-1 text-ink/40 hover:text-ink"
+                        aria-label={t("templates.copy", { title: template.title })}
+                        title={t("templates.copyTitle")}
+                      >
+                        <Copy className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {matches.length === 0 && <p className="text-sm text-ink/50 text-center py-6">{t("templates.noMatches")}</p>}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Settings } from "lucide-react";
+import { cn } from "@/lib/utils";
+import TemplateIcon from "./template-icon";
+import { templateVariables, type PromptTemplate } from "@/lib/prompt-templates";
+import { useI18n } from "./i18n-provider";
+
+interface TemplatePaletteProps {
+  // Templates matching what was typed after "/", best first
+  matches: PromptTemplate[];
+  activeIndex: number;
+  onActiveIndexChange: (index: number) => void;
+  onPick: (template: PromptTemplate) => void;
+  onManage: () => void;
+  onClose: () => void;
+}
+
+// The "/" command palette above the composer. Keys are handled by the composer
+// input, which keeps focus: arrows move, Enter or Tab picks, Escape closes.
+export default function TemplatePalette({
+  matches,
+  activeIndex,
+  onActiveIndexChange,
+  onPick,
+  onManage,
+  onClose,
+}: TemplatePaletteProps) {
+  const { t } = useI18n();
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  return (
+    <>
+      <div className="fixed inset-0 z-20" onClick={onClose} />
+      <div
+        role="listbox"
+        aria-label={t("templates.title")}
+        className="absolute bottom-full left-0 right-0 mb-2 rounded-xl bg-card-cream border border-text-ink/10 shadow-md z-30 overflow-hidden"
+      >
+        <div ref={listRef} className="max-h-72 overflow-y-auto py-1">
+          {matches.map((template, i) => {
+            const variables = templateVariables(template.body);
+            return (
+              <button
+                key={template.id}
+                type="button"
+                role="option"
+                aria-selected={i === activeIndex}
+                data-index={i}
+                // Keep focus in the composer input
+                onMouseDown={(e) => e.preventDefault()}
+                onMouseEnter={() => onActiveIndexChange(i)}
+                onClick={() => onPick(template)}
+                className={cn(
+                  "w-full flex items-start gap-3 px-3 py-2 text-left transition-colors",
+                  i === activeIndex && "bg-terra/10"
+                )}
+              >
+                <TemplateIcon icon={template.icon} className="w-4 h-4 mt-0.5 text-terra stroke-[1.5px] flex-shrink-0" />
+                <span className="flex-1 min-w-0">
+                  <span className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-ink truncate">{template.title}</span>
+                    {template.source === "shared" && (
+                      <span className="text-[10px] uppercase tracking-wide text-ink/40">{t("templates.sharedSuffix")}</span>
+                    )}
+                  </span>
+                  {template.description && <span className="block text-xs text-ink/50 truncate">{template.description}</span>}
+                  {variables.length > 0 && (
+                    <span className="block text-[11px] text-ink/40 font-mono truncate">
+                      {variables.map((v) => `{{${v.name}}}`).join(" ")}
+                    </span>
+                  )}
+                </span>
+              </button>
+            );
+          })}
+          {matches.length === 0 && <p className="px-3 py-3 text-sm text-ink/50">{t("templates.noMatches")}</p>}
+        </div>
+        <div className="flex items-center justify-between px-3 py-1.5 border-t border-text-ink/10 text-[11px] text-ink/40">
+          <span>{t("templates.paletteHint")}</span>
+          <button
+            type="button"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={onManage}
+            className="flex items-center gap-1 hover:text-terra transition-colors"
+          >
+            <Settings className="w-3 h-3" />
+            {t("templates.manage")}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { X, CornerDownLeft } from "lucide-react";
+import TemplateIcon from "./template-icon";
+import { fillTemplate, templateVariables, type PromptTemplate } from "@/lib/prompt-templates";
+import { useI18n } from "./i18n-provider";
+
+interface TemplateVariablesFormProps {
+  template: PromptTemplate;
+  // Receives the template with its variables filled in
+  onSubmit: (text: string) => void;
+  onCancel: () => void;
+}
+
+// Asks for a template's variables before it goes into the composer
+export default function TemplateVariablesForm({ template, onSubmit, onCancel }: TemplateVariablesFormProps) {
+  const { t } = useI18n();
+  const variables = templateVariables(template.body);
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(variables.map((v) => [v.name, v.defaultValue]))
+  );
+  const missing = variables.some((v) => !values[v.name]?.trim() && !v.defaultValue);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!missing) onSubmit(fillTemplate(template.body, values));
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      onKeyDown={(e) => e.key === "Escape" && onCancel()}
+      className="mb-3 rounded-xl bg-card-cream border border-text-ink/10 p-3 space-y-2"
+    >
+      <div className="flex items-center gap-2">
+        <TemplateIcon icon={template.icon} className="w-4 h-4 text-terra stroke-[1.5px]" />
+        <span className="flex-1 text-sm font-medium text-ink truncate">{template.title}</span>
+        <button type="button" onClick={onCancel} className="p-1 text-ink/40 hover:text-ink" aria-label={t("templateForm.cancel")}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {variables.map((variable, i) => (
+          <label key={variable.name} className="block">
+            <span className="block text-xs text-ink/60 mb-1">{variable.name}</span>
+            <input
+              autoFocus={i === 0}
+              value={values[variable.name] ?? ""}
+              onChange={(e) => setValues((prev) => ({ ...prev, [variable.name]: e.target.value }))}
+              placeholder={variable.defaultValue || t("templateForm.enter", { name: variable.name })}
+              className="w-full bg-paper border border-text-ink/10 rounded-lg px-3 py-1.5 text-sm text-ink outline-none focus:border-terra"
+            />
+          </label>
+        ))}
+      </div>
+      <p className="text-xs text-ink/50 line-clamp-2">{fillTemplate(template.body, values)}</p>
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={missing}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-terra text-white disabled:opacity-40 transition-opacity"
+        >
+          <CornerDownLeft className="w-3.5 h-3.5" />
+          {t("templateForm.insert")}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Calculator,
+  CalendarDays,
+  ArrowRightLeft,
+  FileSpreadsheet,
+  Search,
+  Wrench,
+  ChevronRight,
+  Loader2,
+  AlertTriangle,
+  Download,
+  type LucideIcon,
+} from "lucide-react";
+import { cn, downloadFile } from "@/lib/utils";
+import { describeToolStep, type ToolStep } from "@/lib/tools/types";
+import type { MessageKey } from "@/lib/i18n";
+import { useI18n } from "@/components/i18n-provider";
+
+interface ToolStepsProps {
+  steps: ToolStep[];
+}
+
+const TOOL_ICONS: Record<string, LucideIcon> = {
+  calculator: Calculator,
+  date_calculator: CalendarDays,
+  convert_units: ArrowRightLeft,
+  table_to_csv: FileSpreadsheet,
+  search_documents: Search,
+};
+
+const TOOL_LABEL_KEYS: Record<string, MessageKey> = {
+  calculator: "tool.name.calculator",
+  date_calculator: "tool.name.date_calculator",
+  convert_units: "tool.name.convert_units",
+  table_to_csv: "tool.name.table_to_csv",
+  search_documents: "tool.name.search_documents",
+};
+
+// One tool call: a summary line that expands to the exact input and output
+function ToolStepItem({ step }: { step: ToolStep }) {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const Icon = TOOL_ICONS[step.name] || Wrench;
+  const isRunning = !step.result && !step.error;
+  const csv = step.name === "table_to_csv" && typeof step.result?.csv === "string" ? step.result.csv : null;
+
+  return (
+    <li className="rounded-lg border border-text-ink/10 bg-white/60">
+      <div className="flex items-center gap-2 px-2 py-1.5">
+        <button
+          type="button"
+          onClick={() => setIsOpen((open) => !open)}
+          className="flex flex-1 min-w-0 items-center gap-2 text-left"
+          aria-expanded={isOpen}
+        >
+          <ChevronRight className={cn("w-3.5 h-3.5 text-ink/40 flex-shrink-0 transition-transform", isOpen && "rotate-90")} />
+          <Icon className="w-3.5 h-3.5 text-terra flex-shrink-0" />
+          <span className="text-xs font-medium text-ink flex-shrink-0">{TOOL_LABEL_KEYS[step.name] ? t(TOOL_LABEL_KEYS[step.name]) : step.name}</span>
+          <span className="text-xs text-ink/50 truncate">{describeToolStep(step, t)}</span>
+        </button>
+        {isRunning && <Loader2 className="w-3.5 h-3.5 text-terra animate-spin flex-shrink-0" />}
+        {step.error && <AlertTriangle className="w-3.5 h-3.5 text-amber-600 flex-shrink-0" aria-label={t("tool.error")} />}
+        {csv && (
+          <button
+            type="button"
+            onClick={() => downloadFile(String(step.result?.fileName || "table.csv"), csv, "text/csv;charset=utf-8")}
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded-md text-[11px] font-medium text-ink/70 border border-text-ink/10 hover:border-terra/40 hover:text-terra transition-colors flex-shrink-0"
+          >
+            <Download className="w-3 h-3" />
+            CSV
+          </button>
+        )}
+      </div>
+      {isOpen && (
+        <div className="px-2 pb-2 space-y-1.5 text-[11px]">
+          <div>
+            <p className="font-semibold text-ink/60">{t("tool.input")}</p>
+            <pre className="p-2 rounded-md overflow-x-auto whitespace-pre-wrap break-words bg-ink/5 text-ink/80">
+              {JSON.stringify(step.args, null, 2)}
+            </pre>
+          </div>
+          {(step.result || step.error) && (
+            <div>
+              <p className="font-semibold text-ink/60">{t(step.error ? "tool.failed" : "tool.result")}</p>
+              <pre
+                className={cn(
+                  "p-2 rounded-md overflow-auto whitespace-pre-wrap break-words max-h-60",
+                  step.error ? "bg-amber-50 text-amber-800" : "bg-ink/5 text-ink/80"
+                )}
+              >
+                {step.error || JSON.stringify(step.result, null, 2)}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+// The tools an assistant answer called, in order, shown above the answer
+export default function ToolSteps({ steps }: ToolStepsProps) {
+  const { t } = useI18n();
+  return (
+    <ol className="flex flex-col gap-1 mb-2 w-full" aria-label={t("tool.steps")}>
+      {steps.map((step) => (
+        <ToolStepItem key={step.id} step={step} />
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,224 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { BarChart3, X, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getModel } from "@/lib/models";
+import type { MessageKey } from "@/lib/i18n";
+import type { ChatHistory } from "@/lib/chat-types";
+import {
+  DEFAULT_PRICES,
+  aggregateUsage,
+  formatCost,
+  formatTokens,
+  localDay,
+  sumTotals,
+  type ModelPrice,
+  type PriceTable,
+  type UsageRow,
+} from "@/lib/usage";
+import { useI18n } from "@/components/i18n-provider";
+
+interface UsageDashboardProps {
+  chats: ChatHistory[];
+  prices: PriceTable;
+  onPricesChange: (prices: PriceTable) => void;
+  onClose: () => void;
+}
+
+const RANGES: { days: number; label: MessageKey }[] = [
+  { days: 7, label: "usage.range.week" },
+  { days: 30, label: "usage.range.month" },
+  { days: 0, label: "usage.range.all" },
+];
+
+const modelLabel = (id: string) => getModel(id)?.label || id;
+
+// Token usage and cost across all chats by day and model, with editable prices
+export default function UsageDashboard({ chats, prices, onPricesChange, onClose }: UsageDashboardProps) {
+  const { t } = useI18n();
+  const [rangeDays, setRangeDays] = useState(30);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const allRows = useMemo(() => aggregateUsage(chats, prices), [chats, prices]);
+
+  // Rows in the selected range; days are compared as YYYY-MM-DD strings
+  const rows = useMemo(() => {
+    if (!rangeDays) return allRows;
+    const start = new Date();
+    start.setDate(start.getDate() - rangeDays + 1);
+    return allRows.filter((row) => row.day >= localDay(start));
+  }, [allRows, rangeDays]);
+
+  const totals = sumTotals(rows);
+
+  const byDay = useMemo(() => {
+    const days = new Map<string, UsageRow[]>();
+    for (const row of rows) days.set(row.day, [...(days.get(row.day) || []), row]);
+    return [...days.entries()];
+  }, [rows]);
+  const maxDayTokens = Math.max(1, ...byDay.map(([, dayRows]) => sumTotals(dayRows).totalTokens));
+
+  const byModel = useMemo(() => {
+    const models = new Map<string, UsageRow[]>();
+    for (const row of rows) models.set(row.model, [...(models.get(row.model) || []), row]);
+    return [...models.entries()].map(([model, modelRows]) => ({ model, totals: sumTotals(modelRows) }));
+  }, [rows]);
+
+  // Priced models plus any model that appears in the history
+  const pricedModels = [...new Set([...Object.keys(prices), ...allRows.map((row) => row.model)])];
+
+  const updatePrice = (model: string, field: keyof ModelPrice, value: string) => {
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < 0) return;
+    const current = prices[model] || { input: 0, output: 0 };
+    onPricesChange({ ...prices, [model]: { ...current, [field]: number } });
+  };
+
+  const stats = [
+    { label: t("usage.cost"), value: formatCost(totals.cost) },
+    { label: t("usage.replies"), value: totals.responses.toLocaleString() },
+    { label: t("usage.promptTokens"), value: formatTokens(totals.promptTokens) },
+    { label: t("usage.outputTokens"), value: formatTokens(totals.outputTokens + totals.thoughtsTokens) },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label={t("usage.title")}
+        className="w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-card-cream rounded-2xl shadow-xl border border-text-ink/10"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="sticky top-0 flex items-center gap-3 px-5 py-4 bg-card-cream border-b border-text-ink/10">
+          <BarChart3 className="w-5 h-5 text-terra" />
+          <h2 className="text-lg font-serif font-semibold text-ink flex-1">{t("usage.title")}</h2>
+          <div className="flex gap-1 p-1 rounded-lg bg-bg-sidebar">
+            {RANGES.map(({ days, label }) => (
+              <button
+                key={days}
+                onClick={() => setRangeDays(days)}
+                className={cn(
+                  "px-2 py-1 rounded-md text-xs transition-colors",
+                  rangeDays === days ? "bg-card-cream text-ink shadow-sm" : "text-ink/60 hover:text-ink"
+                )}
+              >
+                {t(label)}
+              </button>
+            ))}
+          </div>
+          <button onClick={onClose} className="p-1 text-ink/50 hover:text-ink transition-colors" aria-label={t("common.close")}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-6">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {stats.map(({ label, value }) => (
+              <div key={label} className="rounded-xl bg-paper border border-text-ink/10 px-3 py-2">
+                <p className="text-xs text-ink/50">{label}</p>
+                <p className="text-lg font-semibold text-ink">{value}</p>
+              </div>
+            ))}
+          </div>
+
+          {rows.length === 0 ? (
+            <p className="text-sm text-ink/50 text-center py-6">{t("usage.empty")}</p>
+          ) : (
+            <>
+              <section>
+                <h3 className="text-xs font-medium text-ink/50 uppercase tracking-wide mb-2">{t("usage.byDay")}</h3>
+                <div className="space-y-1.5">
+                  {byDay.map(([day, dayRows]) => {
+                    const dayTotals = sumTotals(dayRows);
+                    return (
+                      <div key={day} className="flex items-center gap-3 text-xs">
+                        <span className="w-20 text-ink/60 flex-shrink-0">{day}</span>
+                        <div className="flex-1 h-3 rounded bg-text-ink/5 overflow-hidden">
+                          <div
+                            className="h-full bg-terra/70 rounded"
+                            style={{ width: `${(dayTotals.totalTokens / maxDayTokens) * 100}%` }}
+                          />
+                        </div>
+                        <span className="w-14 text-right text-ink/70">{formatTokens(dayTotals.totalTokens)}</span>
+                        <span className="w-16 text-right text-ink">{formatCost(dayTotals.cost)}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+
+              <section>
+                <h3 className="text-xs font-medium text-ink/50 uppercase tracking-wide mb-2">{t("usage.byModel")}</h3>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-ink/50">
+                      <th className="font-medium py-1">{t("usage.model")}</th>
+                      <th className="font-medium py-1 text-right">{t("usage.replies")}</th>
+                      <th className="font-medium py-1 text-right">{t("usage.prompt")}</th>
+                      <th className="font-medium py-1 text-right">{t("usage.output")}</th>
+                      <th className="font-medium py-1 text-right">{t("usage.thinking")}</th>
+                      <th className="font-medium py-1 text-right">{t("usage.cost")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {byModel.map(({ model, totals: modelTotals }) => (
+                      <tr key={model} className="border-t border-text-ink/10 text-ink">
+                        <td className="py-1.5">{modelLabel(model)}</td>
+                        <td className="py-1.5 text-right">{modelTotals.responses}</td>
+                        <td className="py-1.5 text-right">{formatTokens(modelTotals.promptTokens)}</td>
+                        <td className="py-1.5 text-right">{formatTokens(modelTotals.outputTokens)}</td>
+                        <td className="py-1.5 text-right">{formatTokens(modelTotals.thoughtsTokens)}</td>
+                        <td className="py-1.5 text-right">{prices[model] ? formatCost(modelTotals.cost) : "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            </>
+          )}
+
+          <section>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-medium text-ink/50 uppercase tracking-wide">{t("usage.prices")}</h3>
+              <button
+                onClick={() => onPricesChange({ ...DEFAULT_PRICES })}
+                className="flex items-center gap-1 text-xs text-ink/50 hover:text-terra transition-colors"
+              >
+                <RotateCcw className="w-3 h-3" />
+                {t("usage.resetPrices")}
+              </button>
+            </div>
+            <div className="space-y-1.5">
+              {pricedModels.map((model) => (
+                <div key={model} className="flex items-center gap-2 text-xs">
+                  <span className="flex-1 text-ink">{modelLabel(model)}</span>
+                  {(["input", "output"] as const).map((field) => (
+                    <label key={field} className="flex items-center gap-1 text-ink/50">
+                      {t(field === "input" ? "usage.input" : "usage.output")}
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        value={prices[model]?.[field] ?? ""}
+                        placeholder="—"
+                        onChange={(e) => updatePrice(model, field, e.target.value)}
+                        className="w-20 bg-paper border border-text-ink/10 rounded-md px-2 py-1 text-ink outline-none focus:border-terra"
+                      />
+                    </label>
+                  ))}
+                </div>
+              ))}
+            </div>
+            <p className="mt-2 text-[11px] text-ink/40">{t("usage.pricesHint")}</p>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { ChatConflictError, ChatValidationError } from "@/lib/chat-store";
+import { AuthError } from "@/lib/auth";
+
+// JSON error responses in the { error, details } shape used by every API route
+
+export function errorResponse(status: number, error: string, details?: string): Response {
+  return new Response(JSON.stringify({ error, details }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+export function unauthorizedResponse(): Response {
+  return errorResponse(401, "Sign in required", "Your session has ended. Sign in again to continue.");
+}
+
+// Map errors thrown while signing in or registering onto a response
+export function authErrorResponse(error: unknown): Response {
+  if (error instanceof AuthError) {
+    return errorResponse(error.status, error.message);
+  }
+  if (error instanceof SyntaxError) {
+    return errorResponse(400, "Request body is not valid JSON");
+  }
+  console.error("[Auth] Error:", error);
+  return errorResponse(500, "Sign-in failed", error instanceof Error ? error.message : "Unknown error");
+}
+
+// Map errors thrown while handling a chat store request onto a response
+export function storeErrorResponse(error: unknown): Response {
+  if (error instanceof ChatValidationError) {
+    return errorResponse(400, error.message, "Check the request body and try again.");
+  }
+  if (error instanceof ChatConflictError) {
+    return errorResponse(409, error.message, "Chat IDs are unique across accounts; save the chat under a different ID.");
+  }
+  if (error instanceof SyntaxError) {
+    return errorResponse(400, "Request body is not valid JSON");
+  }
+  console.error("[Chats] Store error:", error);
+  return errorResponse(500, "Chat store error", error instanceof Error ? error.message : "Unknown error");
+}
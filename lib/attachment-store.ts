@@ -0,0 +1,76 @@
+import type { AttachedFile } from "@/lib/chat-types";
+
+// Attachment contents live in IndexedDB: base64 files quickly outgrow the
+// ~5MB localStorage quota that holds the chat history itself.
+
+const DB_NAME = "documind";
+const DB_VERSION = 1;
+const STORE = "attachments";
+
+interface StoredAttachment extends AttachedFile {
+  chatId: string;
+  addedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("chatId", "chatId");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Run one request in a transaction and resolve with its result
+async function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function saveAttachment(chatId: string, file: AttachedFile): Promise<void> {
+  const record: StoredAttachment = { ...file, chatId, addedAt: Date.now() };
+  await run("readwrite", (store) => store.put(record));
+}
+
+// Load attachments by ID, in the given order; missing entries are skipped
+export async function getAttachments(ids: string[]): Promise<AttachedFile[]> {
+  const records = await Promise.all(
+    ids.map((id) => run<StoredAttachment | undefined>("readonly", (store) => store.get(id)))
+  );
+  return records
+    .filter((r): r is StoredAttachment => !!r)
+    .map(({ chatId: _chatId, addedAt: _addedAt, ...file }) => file);
+}
+
+// Merge fields into a stored attachment, e.g. a fresh upload ID after re-uploading
+export async function updateAttachment(id: string, update: Partial<AttachedFile>): Promise<void> {
+  const record = await run<StoredAttachment | undefined>("readonly", (store) => store.get(id));
+  if (record) {
+    await run("readwrite", (store) => store.put({ ...record, ...update }));
+  }
+}
+
+export async function deleteAttachment(id: string): Promise<void> {
+  await run("readwrite", (store) => store.delete(id));
+}
+
+export async function clearAttachments(): Promise<void> {
+  await run("readwrite", (store) => store.clear());
+}
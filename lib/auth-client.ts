@@ -0,0 +1,63 @@
+import { toast } from "sonner";
+import type { SessionUser, UsageSummary } from "@/lib/auth";
+import type { Translate } from "@/lib/i18n";
+
+// Browser side of sign-in: the current session and how API access errors are shown
+
+export interface SessionInfo {
+  user: SessionUser;
+  authDisabled: boolean;
+  // Signed in by email link on an account without a password
+  canAddPassword: boolean;
+  usage: UsageSummary;
+}
+
+export async function fetchSession(): Promise<SessionInfo | null> {
+  try {
+    const response = await fetch("/api/auth/session");
+    return response.ok ? await response.json() : null;
+  } catch {
+    return null;
+  }
+}
+
+// Helper function to post credentials or an email to an auth route; throws the server's message
+export async function postAuth(path: string, body: Record<string, string>): Promise<void> {
+  const response = await fetch(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+}
+
+// Helper function to show when a limit resets: the time today, or the date and time
+export function formatResetTime(resetAt: number): string {
+  const reset = new Date(resetAt);
+  const time = { hour: "2-digit", minute: "2-digit" } as const;
+  return reset.toDateString() === new Date().toDateString()
+    ? reset.toLocaleTimeString([], time)
+    : reset.toLocaleString([], { month: "short", day: "numeric", ...time });
+}
+
+// Toast for responses that affect every chat, not just the failed message:
+// an ended session (401) or a rate limit / quota (429)
+export function notifyAccessError(status: number, body: string, t: Translate) {
+  let data: { error?: string; details?: string; resetAt?: number } = {};
+  try {
+    data = JSON.parse(body);
+  } catch {}
+
+  if (status === 401) {
+    toast.error(t("toast.sessionEnded"), {
+      description: t("toast.sessionEndedHint"),
+      action: { label: t("toast.signIn"), onClick: () => window.location.assign("/") },
+    });
+  } else if (status === 429) {
+    const resets = data.resetAt ? t("toast.resetsAt", { time: formatResetTime(data.resetAt) }) : "";
+    toast.error(data.error || t("toast.tooManyRequests"), { description: [data.details, resets].filter(Boolean).join(" ") });
+  }
+}
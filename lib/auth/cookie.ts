@@ -0,0 +1,12 @@
+// The session cookie. Kept free of server-only imports so proxy.ts can use it.
+
+export const SESSION_COOKIE = "documind_session";
+
+export function sessionCookie(token: string, expiresAt: number): string {
+  const secure = process.env.NODE_ENV === "production" ? "; Secure" : "";
+  return `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; SameSite=Lax; Expires=${new Date(expiresAt).toUTCString()}${secure}`;
+}
+
+export function clearSessionCookie(): string {
+  return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`;
+}
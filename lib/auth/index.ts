@@ -0,0 +1,5 @@
+export * from "./cookie";
+export * from "./session";
+export * from "./quota";
+export * from "./mailer";
+export { MIN_PASSWORD_LENGTH } from "./passwords";
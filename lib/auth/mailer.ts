@@ -0,0 +1,92 @@
+// Sends sign-in emails. The transport is chosen by MAILER:
+// - "console" (default): logs the link, for local development
+// - "resend": the Resend HTTP API (RESEND_API_KEY, MAIL_FROM)
+// Add a transport by implementing Mailer and adding a case to getMailer.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  id: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+function createConsoleMailer(): Mailer {
+  return {
+    id: "console",
+    async send(message) {
+      console.log(`[Mail] To: ${message.to}\n[Mail] Subject: ${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+function createResendMailer(apiKey: string, from: string): Mailer {
+  return {
+    id: "resend",
+    async send(message) {
+      const response = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ from, to: message.to, subject: message.subject, text: message.text, html: message.html }),
+      });
+      if (!response.ok) {
+        throw new Error(`Resend request failed (${response.status}): ${await response.text()}`);
+      }
+    },
+  };
+}
+
+export function getMailer(): Mailer {
+  const kind = process.env.MAILER || "console";
+
+  switch (kind) {
+    case "console":
+      return createConsoleMailer();
+    case "resend": {
+      const apiKey = process.env.RESEND_API_KEY;
+      if (!apiKey) {
+        throw new Error("RESEND_API_KEY is not set");
+      }
+      return createResendMailer(apiKey, process.env.MAIL_FROM || "DocuMind AI <onboarding@resend.dev>");
+    }
+    default:
+      throw new Error(`Unknown MAILER "${kind}". Use "console" or "resend".`);
+  }
+}
+
+// Origin for emailed links. The request's own origin comes from its Host header,
+// which the client chooses, so production requires APP_URL.
+export function authLinkOrigin(req: Request): string {
+  const appUrl = process.env.APP_URL;
+  if (appUrl) return appUrl.replace(/\/+$/, "");
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("APP_URL is not set; it is required to send sign-in links");
+  }
+  return new URL(req.url).origin;
+}
+
+// Email a one-time link to /api/auth/callback: a sign-in link, or the link that
+// confirms a new account
+export async function sendAuthLink(to: string, token: string, origin: string, purpose: "sign-in" | "register") {
+  const link = `${origin}/api/auth/callback?token=${encodeURIComponent(token)}`;
+  const expiry = "The link works once and expires in 15 minutes.";
+  if (purpose === "register") {
+    await getMailer().send({
+      to,
+      subject: "Confirm your DocuMind AI account",
+      text: `Open this link to confirm your email and create your DocuMind AI account. Once you are signed in, you can add a password under Settings.\n\n${link}\n\n${expiry} If you did not create an account, ignore this email.`,
+      html: `<p>Click to confirm your email and create your DocuMind AI account. Once you are signed in, you can add a password under Settings.</p><p><a href="${link}">Confirm account</a></p><p>${expiry} If you did not create an account, ignore this email.</p>`,
+    });
+  } else {
+    await getMailer().send({
+      to,
+      subject: "Sign in to DocuMind AI",
+      text: `Open this link to sign in to DocuMind AI:\n\n${link}\n\n${expiry} If you did not ask to sign in, ignore this email.`,
+      html: `<p>Click to sign in to DocuMind AI:</p><p><a href="${link}">Sign in</a></p><p>${expiry} If you did not ask to sign in, ignore this email.</p>`,
+    });
+  }
+}
@@ -0,0 +1,252 @@
+import { getDb } from "@/lib/db";
+
+// Per-user limits on /api/chat and /api/media: requests per minute, and
+// requests and tokens per day (UTC). Set a limit to 0 to turn it off. Counters
+// live in SQLite by default; QUOTA_STORE=memory keeps them in process (tests,
+// single instance).
+
+export type QuotaKind = "rate" | "requests" | "tokens";
+
+export interface QuotaLimits {
+  requestsPerMinute: number;
+  requestsPerDay: number;
+  tokensPerDay: number;
+}
+
+export interface UsageSummary {
+  requests: number;
+  tokens: number;
+  limits: QuotaLimits;
+  // When the daily counters reset (ms since epoch)
+  resetAt: number;
+}
+
+export type QuotaCheck =
+  | { allowed: true }
+  | { allowed: false; kind: QuotaKind; error: string; details: string; resetAt: number };
+
+// Counters that expire at the end of their window
+export interface UsageStore {
+  get(key: string): Promise<number>;
+  // Add to a counter and return its new value
+  increment(key: string, amount: number, expiresAt: number): Promise<number>;
+}
+
+export function createMemoryUsageStore(): UsageStore {
+  const counters = new Map<string, { count: number; expiresAt: number }>();
+  const live = (key: string) => {
+    const counter = counters.get(key);
+    if (counter && counter.expiresAt <= Date.now()) {
+      counters.delete(key);
+      return undefined;
+    }
+    return counter;
+  };
+  return {
+    async get(key) {
+      return live(key)?.count ?? 0;
+    },
+    async increment(key, amount, expiresAt) {
+      const counter = live(key) ?? { count: 0, expiresAt };
+      counter.count += amount;
+      counters.set(key, counter);
+      return counter.count;
+    },
+  };
+}
+
+export function createSqliteUsageStore(): UsageStore {
+  let lastSweep = 0;
+  return {
+    async get(key) {
+      const row = getDb()
+        .prepare("SELECT count FROM usage_counters WHERE key = ? AND expires_at > ?")
+        .get(key, Date.now()) as { count: number } | undefined;
+      return row?.count ?? 0;
+    },
+    async increment(key, amount, expiresAt) {
+      const db = getDb();
+      // Drop expired windows now and then
+      if (Date.now() - lastSweep > 60_000) {
+        db.prepare("DELETE FROM usage_counters WHERE expires_at <= ?").run(Date.now());
+        lastSweep = Date.now();
+      }
+      const row = db
+        .prepare(
+          `INSERT INTO usage_counters (key, count, expires_at) VALUES (?, ?, ?)
+           ON CONFLICT(key) DO UPDATE SET count = count + excluded.count
+           RETURNING count`
+        )
+        .get(key, amount, expiresAt) as { count: number };
+      return row.count;
+    },
+  };
+}
+
+// Reuse one store across hot reloads in development
+const globalStore = globalThis as typeof globalThis & { documindUsageStore?: UsageStore };
+
+export function getUsageStore(): UsageStore {
+  if (!globalStore.documindUsageStore) {
+    const kind = process.env.QUOTA_STORE || "sqlite";
+    if (kind !== "sqlite" && kind !== "memory") {
+      throw new Error(`Unknown QUOTA_STORE "${kind}". Use "sqlite" or "memory".`);
+    }
+    globalStore.documindUsageStore = kind === "memory" ? createMemoryUsageStore() : createSqliteUsageStore();
+  }
+  return globalStore.documindUsageStore;
+}
+
+// Helper function to read a numeric limit from the environment
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getQuotaLimits(): QuotaLimits {
+  return {
+    requestsPerMinute: readLimit("RATE_LIMIT_PER_MINUTE", 20),
+    requestsPerDay: readLimit("DAILY_REQUEST_QUOTA", 200),
+    tokensPerDay: readLimit("DAILY_TOKEN_QUOTA", 500_000),
+  };
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Helper function to get the current fixed window and when it ends
+function currentWindow(size: number) {
+  const start = Math.floor(Date.now() / size) * size;
+  return { id: start, end: start + size };
+}
+
+const dayKeys = (userId: string) => {
+  const day = currentWindow(DAY_MS);
+  return { requests: `requests:${userId}:${day.id}`, tokens: `tokens:${userId}:${day.id}`, resetAt: day.end };
+};
+
+// Count a chat request or media upload against the user's limits, or say which limit it hit
+export async function checkRequestQuota(userId: string): Promise<QuotaCheck> {
+  const store = getUsageStore();
+  const limits = getQuotaLimits();
+  const day = dayKeys(userId);
+
+  if (limits.tokensPerDay > 0 && (await store.get(day.tokens)) >= limits.tokensPerDay) {
+    return {
+      allowed: false,
+      kind: "tokens",
+      error: "Daily token quota reached",
+      details: `You have used your ${limits.tokensPerDay.toLocaleString("en-US")} tokens for today.`,
+      resetAt: day.resetAt,
+    };
+  }
+
+  if (limits.requestsPerMinute > 0) {
+    const minute = currentWindow(MINUTE_MS);
+    const count = await store.increment(`rate:${userId}:${minute.id}`, 1, minute.end);
+    if (count > limits.requestsPerMinute) {
+      return {
+        allowed: false,
+        kind: "rate",
+        error: "Too many requests",
+        details: `You can send ${limits.requestsPerMinute} messages per minute.`,
+        resetAt: minute.end,
+      };
+    }
+  }
+
+  if (limits.requestsPerDay > 0) {
+    const count = await store.increment(day.requests, 1, day.resetAt);
+    if (count > limits.requestsPerDay) {
+      return {
+        allowed: false,
+        kind: "requests",
+        error: "Daily request quota reached",
+        details: `You have sent your ${limits.requestsPerDay} messages for today.`,
+        resetAt: day.resetAt,
+      };
+    }
+  } else {
+    await store.increment(day.requests, 1, day.resetAt);
+  }
+
+  return { allowed: true };
+}
+
+// Sign-in routes are limited per email address and per client IP in 15-minute
+// windows, counted separately for each route: this caps sign-in emails sent to
+// one inbox and password guesses against one account
+export type AuthAction = "link" | "login" | "register";
+
+const AUTH_WINDOW_MS = 15 * MINUTE_MS;
+
+export function getAuthLimits() {
+  return {
+    perEmail: readLimit("AUTH_LIMIT_PER_EMAIL", 5),
+    perIp: readLimit("AUTH_LIMIT_PER_IP", 20),
+  };
+}
+
+// Helper function to get the client address. X-Forwarded-For is set by the
+// reverse proxy in front of the app; without one it can be forged, so the
+// per-email limit is what protects a given account.
+function clientIp(req: Request): string {
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",")[0].trim();
+  return forwarded || req.headers.get("x-real-ip") || "unknown";
+}
+
+// Count a sign-in attempt, or say that the address or client is over its limit
+export async function checkAuthRateLimit(req: Request, action: AuthAction, email: unknown): Promise<QuotaCheck> {
+  const store = getUsageStore();
+  const limits = getAuthLimits();
+  const window = currentWindow(AUTH_WINDOW_MS);
+  const address = typeof email === "string" ? email.trim().toLowerCase() : "";
+  const counters = [
+    { limit: limits.perIp, key: `auth:${action}:ip:${clientIp(req)}:${window.id}` },
+    { limit: limits.perEmail, key: `auth:${action}:email:${address}:${window.id}` },
+  ];
+  for (const { limit, key } of counters) {
+    if (limit > 0 && (await store.increment(key, 1, window.end)) > limit) {
+      return {
+        allowed: false,
+        kind: "rate",
+        error: "Too many sign-in attempts",
+        details: "Wait a few minutes and try again.",
+        resetAt: window.end,
+      };
+    }
+  }
+  return { allowed: true };
+}
+
+// Add the tokens a response used to today's total
+export async function recordTokenUsage(userId: string, tokens: number) {
+  if (tokens <= 0) return;
+  const day = dayKeys(userId);
+  await getUsageStore().increment(day.tokens, tokens, day.resetAt);
+}
+
+export async function getUsageSummary(userId: string): Promise<UsageSummary> {
+  const store = getUsageStore();
+  const day = dayKeys(userId);
+  return {
+    // Requests rejected at the daily limit are counted too, so cap the display
+    requests: Math.min(await store.get(day.requests), getQuotaLimits().requestsPerDay || Infinity),
+    tokens: await store.get(day.tokens),
+    limits: getQuotaLimits(),
+    resetAt: day.resetAt,
+  };
+}
+
+// 429 response for a request over its limit, in the { error, details } shape plus
+// the limit hit and when it resets
+export function quotaExceededResponse(check: Extract<QuotaCheck, { allowed: false }>): Response {
+  const retryAfter = Math.max(1, Math.ceil((check.resetAt - Date.now()) / 1000));
+  return new Response(
+    JSON.stringify({ error: check.error, details: check.details, quota: check.kind, resetAt: check.resetAt }),
+    {
+      status: 429,
+      headers: { "Content-Type": "application/json", "Retry-After": String(retryAfter) },
+    }
+  );
+}
@@ -0,0 +1,214 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { getDb } from "@/lib/db";
+import { hashPassword, verifyPassword, MIN_PASSWORD_LENGTH } from "./passwords";
+import { SESSION_COOKIE } from "./cookie";
+
+// Accounts and sessions. Users sign in with an emailed magic link or with a
+// password; either way they get a random session token in an httpOnly cookie.
+// Only SHA-256 hashes of session and link tokens are stored. Every account has
+// proved its address: a registration is confirmed by an emailed link, and the
+// password is added afterwards from the session that link starts.
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const LOGIN_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+// With AUTH_DISABLED=true every request acts as this user (single-user installs)
+const LOCAL_USER: SessionUser = { id: "local", email: "local" };
+
+export interface SessionUser {
+  id: string;
+  email: string;
+}
+
+// How a session was started
+export type SessionMethod = "link" | "password";
+
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export const isAuthDisabled = () => process.env.AUTH_DISABLED === "true";
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+// Helper function to normalize and check an email address
+function normalizeEmail(input: unknown): string {
+  const email = typeof input === "string" ? input.trim().toLowerCase() : "";
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) || email.length > 254) {
+    throw new AuthError("Enter a valid email address");
+  }
+  return email;
+}
+
+// AUTH_ALLOWED_EMAILS limits sign-in to listed addresses and @domains
+function checkAllowed(email: string) {
+  const allowed = (process.env.AUTH_ALLOWED_EMAILS || "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  if (allowed.length === 0) return;
+  const domain = email.slice(email.indexOf("@"));
+  if (!allowed.includes(email) && !allowed.includes(domain)) {
+    throw new AuthError("This email address is not allowed to sign in", 403);
+  }
+}
+
+function checkPassword(password: unknown): asserts password is string {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+function findOrCreateUser(email: string): SessionUser {
+  const db = getDb();
+  const existing = db.prepare("SELECT id, email FROM users WHERE email = ?").get(email) as SessionUser | undefined;
+  if (existing) return existing;
+  const user = { id: randomUUID(), email };
+  db.prepare("INSERT INTO users (id, email, created_at) VALUES (?, ?, ?)").run(user.id, email, Date.now());
+  return user;
+}
+
+// Helper function to store a one-time link token
+function issueLoginToken(email: string): string {
+  const token = randomBytes(32).toString("base64url");
+  const db = getDb();
+  db.prepare("DELETE FROM login_tokens WHERE expires_at < ?").run(Date.now());
+  db.prepare("INSERT INTO login_tokens (token_hash, email, expires_at) VALUES (?, ?, ?)").run(
+    hashToken(token),
+    email,
+    Date.now() + LOGIN_TOKEN_TTL_MS
+  );
+  return token;
+}
+
+// Start a registration; the caller mails the confirmation link. The account only
+// exists once the link is opened, and it has no password until its owner adds
+// one from that email-link session (addPassword). Nothing chosen at registration
+// is carried through the link, since whoever registers need not own the inbox.
+export function registerUser(emailInput: unknown): { email: string; token: string } {
+  const email = normalizeEmail(emailInput);
+  checkAllowed(email);
+  if (getDb().prepare("SELECT 1 FROM users WHERE email = ?").get(email)) {
+    throw new AuthError("An account with this email already exists. Sign in with an email link to add a password.", 409);
+  }
+  return { email, token: issueLoginToken(email) };
+}
+
+export async function verifyCredentials(emailInput: unknown, password: unknown): Promise<SessionUser> {
+  const email = normalizeEmail(emailInput);
+  const row = getDb().prepare("SELECT id, email, password_hash FROM users WHERE email = ?").get(email) as
+    | (SessionUser & { password_hash: string | null })
+    | undefined;
+  if (!row?.password_hash || typeof password !== "string" || !(await verifyPassword(password, row.password_hash))) {
+    throw new AuthError("Incorrect email or password", 401);
+  }
+  return { id: row.id, email: row.email };
+}
+
+// Create a one-time sign-in token for an email; the caller mails the link
+export function createLoginToken(emailInput: unknown): { email: string; token: string } {
+  const email = normalizeEmail(emailInput);
+  checkAllowed(email);
+  return { email, token: issueLoginToken(email) };
+}
+
+// Exchange a magic-link token for its user, creating the account on first use;
+// each link works once
+export function consumeLoginToken(token: string): SessionUser | null {
+  const db = getDb();
+  return db.transaction(() => {
+    const row = db
+      .prepare("DELETE FROM login_tokens WHERE token_hash = ? RETURNING email, expires_at")
+      .get(hashToken(token)) as { email: string; expires_at: number } | undefined;
+    if (!row || row.expires_at < Date.now()) return null;
+    return findOrCreateUser(row.email);
+  })();
+}
+
+export function createSession(userId: string, method: SessionMethod): { token: string; expiresAt: number } {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+  const db = getDb();
+  db.prepare("DELETE FROM sessions WHERE expires_at < ?").run(Date.now());
+  db.prepare("INSERT INTO sessions (token_hash, user_id, method, expires_at) VALUES (?, ?, ?, ?)").run(
+    hashToken(token),
+    userId,
+    method,
+    expiresAt
+  );
+  return { token, expiresAt };
+}
+
+export function deleteSession(token: string) {
+  getDb().prepare("DELETE FROM sessions WHERE token_hash = ?").run(hashToken(token));
+}
+
+// Helper function to look up a live session and its account
+function findSession(token: string) {
+  const row = getDb()
+    .prepare(
+      `SELECT u.id, u.email, u.password_hash IS NOT NULL AS has_password, s.method, s.expires_at
+       FROM sessions s JOIN users u ON u.id = s.user_id
+       WHERE s.token_hash = ?`
+    )
+    .get(hashToken(token)) as
+    | (SessionUser & { has_password: number; method: SessionMethod; expires_at: number })
+    | undefined;
+  return row && row.expires_at >= Date.now() ? row : null;
+}
+
+// Look up the user for a session token (from the cookie); null when signed out or expired
+export function getUserForToken(token: string | undefined): SessionUser | null {
+  if (isAuthDisabled()) return LOCAL_USER;
+  const session = token ? findSession(token) : null;
+  return session && { id: session.id, email: session.email };
+}
+
+// Helper function to find a session that may add a password: one started by an
+// email link (which proved the address), on an account that has none
+function passwordlessLinkSession(token: string | undefined) {
+  if (isAuthDisabled() || !token) return null;
+  const session = findSession(token);
+  return session && session.method === "link" && !session.has_password ? session : null;
+}
+
+export function canAddPassword(token: string | undefined): boolean {
+  return passwordlessLinkSession(token) !== null;
+}
+
+export async function addPassword(token: string | undefined, password: unknown): Promise<void> {
+  checkPassword(password);
+  const session = passwordlessLinkSession(token);
+  if (!session) {
+    throw new AuthError("Sign in with an email link to add a password", 403);
+  }
+  getDb()
+    .prepare("UPDATE users SET password_hash = ? WHERE id = ? AND password_hash IS NULL")
+    .run(await hashPassword(password), session.id);
+}
+
+// Helper function to read the session token from a request's Cookie header
+export function getSessionToken(req: Request): string | undefined {
+  const cookies = req.headers.get("cookie") || "";
+  for (const part of cookies.split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name !== SESSION_COOKIE) continue;
+    try {
+      return decodeURIComponent(value.join("="));
+    } catch {
+      // A malformed cookie is treated as no session rather than a server error
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+export function getSessionUser(req: Request): SessionUser | null {
+  return getUserForToken(getSessionToken(req));
+}
@@ -0,0 +1,190 @@
+import type { CellValue } from "@/lib/extraction";
+
+// Charts in answers: the model writes a ```chart block holding a JSON spec, and the
+// message renderer draws it. Shared by the chat route (instruction) and the UI (parsing).
+
+export type ChartType = "line" | "bar" | "pie" | "scatter";
+
+export const CHART_TYPES: ChartType[] = ["line", "bar", "pie", "scatter"];
+
+export interface ChartPoint {
+  // Category label for line, bar and pie charts; a number for scatter charts
+  x: string | number;
+  // null marks a missing value (a gap in a line)
+  y: number | null;
+}
+
+export interface ChartSeries {
+  name: string;
+  data: ChartPoint[];
+}
+
+export interface ChartSpec {
+  type: ChartType;
+  title: string;
+  xLabel: string;
+  yLabel: string;
+  // Appended to values in tooltips and the table header, e.g. "%" or "USD m"
+  unit: string;
+  // Categories in display order; empty for scatter charts
+  labels: string[];
+  series: ChartSeries[];
+}
+
+const MAX_SERIES = 8;
+const MAX_POINTS = 500;
+const MAX_TEXT_LENGTH = 120;
+
+export const CHART_INSTRUCTION = `When numbers are easier to grasp as a chart (trends, comparisons, shares, or re-plotting figures read from a document or image), add a chart as a fenced \`\`\`chart block holding only JSON:
+{"type": "line" | "bar" | "pie" | "scatter", "title": "...", "xLabel": "...", "yLabel": "...", "unit": "...", "labels": ["Q1", "Q2"], "series": [{"name": "Revenue", "data": [12.5, 14.1]}]}
+Each series' data lines up with "labels"; scatter data are [x, y] pairs and need no labels; a pie chart has exactly one series. Write plain numbers (no thousands separators or currency signs; put the unit in "unit") and null for a missing value, with at most ${MAX_SERIES} series of ${MAX_POINTS} points. Only plot numbers from the documents or your answer, and still state the key figures in the text.`;
+
+// Helper function to read a value as a number: numbers, numeric strings ("1,234", "12%") or null
+function toValue(value: unknown): number | null | undefined {
+  if (value === null) return null;
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value === "string") {
+    const cleaned = value.replace(/[,\s%$€£¥]/g, "");
+    if (cleaned === "") return null;
+    const number = Number(cleaned);
+    return Number.isFinite(number) ? number : undefined;
+  }
+  return undefined;
+}
+
+const text = (value: unknown) => (typeof value === "string" ? value.trim().slice(0, MAX_TEXT_LENGTH) : "");
+
+// Helper function to check a chart block's JSON and normalize it into a ChartSpec
+export function parseChartSpec(source: string): { valid: true; spec: ChartSpec } | { valid: false; error: string } {
+  let input: Record<string, unknown>;
+  try {
+    input = JSON.parse(source);
+  } catch {
+    return { valid: false, error: "The chart is not valid JSON" };
+  }
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { valid: false, error: "The chart must be a JSON object" };
+  }
+
+  const type = String(input.type || "").toLowerCase() as ChartType;
+  if (!CHART_TYPES.includes(type)) {
+    return { valid: false, error: `Unknown chart type "${String(input.type)}" (use ${CHART_TYPES.join(", ")})` };
+  }
+
+  // A single series may be given as a top-level "data"
+  const rawSeries = Array.isArray(input.series)
+    ? input.series
+    : Array.isArray(input.data)
+      ? [{ name: input.yLabel, data: input.data }]
+      : null;
+  if (!rawSeries || rawSeries.length === 0 || rawSeries.length > MAX_SERIES) {
+    return { valid: false, error: `The chart needs between 1 and ${MAX_SERIES} series` };
+  }
+  if (type === "pie" && rawSeries.length > 1) {
+    return { valid: false, error: "A pie chart takes exactly one series" };
+  }
+
+  const givenLabels = Array.isArray(input.labels) ? input.labels.map((label) => String(label ?? "")) : null;
+  const labels = givenLabels ? [...givenLabels] : [];
+  const series: ChartSeries[] = [];
+  let pointCount = 0;
+
+  for (const [index, raw] of rawSeries.entries()) {
+    const entry = (raw && typeof raw === "object" ? raw : {}) as { name?: unknown; data?: unknown };
+    // Series names key the chart data and the table columns, so they must be unique
+    const base = text(entry.name) || (rawSeries.length === 1 && text(input.yLabel)) || `Series ${index + 1}`;
+    let name = base;
+    for (let n = 2; series.some((s) => s.name === name); n++) name = `${base} (${n})`;
+
+    if (!Array.isArray(entry.data) || entry.data.length === 0) {
+      return { valid: false, error: `Series "${name}" has no data` };
+    }
+    pointCount += entry.data.length;
+    if (pointCount > MAX_POINTS) {
+      return { valid: false, error: `The chart has more than ${MAX_POINTS} points` };
+    }
+
+    const data: ChartPoint[] = [];
+    for (const [i, item] of entry.data.entries()) {
+      // [x, y] pairs and { x, y } objects carry their own x; plain values line up with the labels
+      const pair = Array.isArray(item)
+        ? { x: item[0], y: item[1] }
+        : item && typeof item === "object"
+          ? (item as { x?: unknown; y?: unknown })
+          : null;
+      const y = toValue(pair ? pair.y : item);
+      if (y === undefined) {
+        return { valid: false, error: `Series "${name}" has a value that is not a number: ${JSON.stringify(pair ? pair.y : item)}` };
+      }
+
+      if (type === "scatter") {
+        const x = pair ? toValue(pair.x) : undefined;
+        if (x === undefined || x === null) {
+          return { valid: false, error: `Scatter points must be [x, y] pairs of numbers (series "${name}")` };
+        }
+        if (y !== null) data.push({ x, y });
+        continue;
+      }
+
+      let label: string;
+      if (pair) {
+        label = String(pair.x ?? "");
+        if (!labels.includes(label)) labels.push(label);
+      } else if (givenLabels && i < givenLabels.length) {
+        label = givenLabels[i];
+      } else {
+        return { valid: false, error: `Series "${name}" has more values than there are labels` };
+      }
+      data.push({ x: label, y });
+    }
+    series.push({ name, data });
+  }
+
+  if (!series.some((s) => s.data.some((point) => point.y !== null))) {
+    return { valid: false, error: "The chart has no data" };
+  }
+
+  return {
+    valid: true,
+    spec: {
+      type,
+      title: text(input.title),
+      xLabel: text(input.xLabel),
+      yLabel: text(input.yLabel),
+      unit: text(input.unit),
+      labels: type === "scatter" ? [] : labels,
+      series,
+    },
+  };
+}
+
+// The data behind a chart as table columns and rows (for the table view and CSV download):
+// one row per label with a column per series, or one row per point for scatter charts
+export function chartTable(spec: ChartSpec): { columns: string[]; rows: Record<string, CellValue>[] } {
+  const withUnit = (name: string) => (spec.unit ? `${name} (${spec.unit})` : name);
+
+  if (spec.type === "scatter") {
+    const xColumn = spec.xLabel || "x";
+    let yColumn = withUnit(spec.yLabel || "y");
+    if (yColumn === xColumn) yColumn = `${yColumn} (y)`;
+    return {
+      columns: ["Series", xColumn, yColumn],
+      rows: spec.series.flatMap((s) => s.data.map((point) => ({ Series: s.name, [xColumn]: point.x, [yColumn]: point.y }))),
+    };
+  }
+
+  const labelColumn = spec.xLabel || "Label";
+  const valueColumns = spec.series.map((s) => {
+    const column = withUnit(s.name);
+    return column === labelColumn ? `${column} (value)` : column;
+  });
+  return {
+    columns: [labelColumn, ...valueColumns],
+    rows: spec.labels.map((label) => ({
+      [labelColumn]: label,
+      ...Object.fromEntries(
+        spec.series.map((s, i) => [valueColumns[i], s.data.find((point) => point.x === label)?.y ?? null])
+      ),
+    })),
+  };
+}
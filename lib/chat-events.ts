@@ -0,0 +1,55 @@
+import type { FinishReason, TokenUsage } from "@/lib/providers/types";
+import type { ExtractionRow } from "@/lib/extraction";
+import type { ComparisonRow } from "@/lib/comparison";
+import type { ContextSummary } from "@/lib/context";
+
+// Events streamed by /api/chat as newline-delimited JSON (one event per line).
+// Shared by the route (encoding) and the chat UI (parsing).
+export type ChatEvent =
+  | { type: "delta"; text: string }
+  | { type: "usage"; usage: TokenUsage }
+  | { type: "finish"; reason: FinishReason }
+  | { type: "safety"; message: string; reason?: string }
+  | { type: "error"; message: string }
+  // Validated records from an extraction request, sent after the raw JSON deltas
+  | { type: "extraction"; rows: ExtractionRow[]; warnings: string[] }
+  // The clause-by-clause result of a compare request, sent after the raw JSON deltas
+  | { type: "comparison"; summary: string; rows: ComparisonRow[]; warnings: string[] }
+  // The model called a tool; its result follows once the tool has run
+  | { type: "toolCall"; id: string; name: string; args: Record<string, unknown> }
+  | { type: "toolResult"; id: string; result?: Record<string, unknown>; error?: string }
+  // Older turns were summarized to fit the context budget; sent before the first delta
+  | { type: "summary"; summary: ContextSummary; usage?: TokenUsage };
+
+export const CHAT_EVENT_CONTENT_TYPE = "application/x-ndjson; charset=utf-8";
+
+export function encodeChatEvent(event: ChatEvent): string {
+  return JSON.stringify(event) + "\n";
+}
+
+// Parse an NDJSON event stream into typed events as they arrive
+export async function* parseChatEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line) as ChatEvent;
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) yield JSON.parse(buffer) as ChatEvent;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,355 @@
+import { createElement } from "react";
+import Markdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import { getActivePath } from "@/lib/chat-tree";
+import { getChatTree, type ChatHistory, type Message } from "@/lib/chat-types";
+import { getModel } from "@/lib/models";
+import type { ExtractionResult } from "@/lib/extraction";
+import { CHANGE_LABELS, countChanges, type ComparisonResult, type ComparisonRow } from "@/lib/comparison";
+import { TOOL_LABELS, describeToolStep } from "@/lib/tools/types";
+
+// Export chats as Markdown, JSON (full fidelity: the whole message tree, model,
+// settings and document metadata) or a print-ready HTML report, document
+// comparisons as reports of their own, and merge JSON
+// exports back into the history. Document contents stay in IndexedDB and are
+// not exported; imported chats list their documents but must re-attach them.
+
+export const CHAT_EXPORT_FORMAT = "documind-chat";
+export const CHAT_EXPORT_VERSION = 1;
+
+export interface ChatExport {
+  format: typeof CHAT_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  chat: ChatHistory;
+}
+
+export interface ImportSummary {
+  history: ChatHistory[];
+  added: number;
+  // Chats whose ID was taken by a different chat; imported under a new ID
+  renamed: number;
+  // Exact duplicates of chats already in the history
+  skipped: number;
+}
+
+// Helper function to build a file name from a chat title
+export function chatFileName(chat: ChatHistory, extension: string): string {
+  const slug = chat.title.toLowerCase().replace(/[^a-z0-9一-鿿]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 50);
+  return `${slug || "chat"}-${chat.id}.${extension}`;
+}
+
+export function exportChatJSON(chat: ChatHistory): string {
+  // Legacy flat lists are converted so every export has a tree
+  const { messages: _legacy, ...rest } = chat;
+  const data: ChatExport = {
+    format: CHAT_EXPORT_FORMAT,
+    version: CHAT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    chat: { ...rest, tree: getChatTree(chat) },
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const roleLabel = (message: Message) => (message.role === "user" ? "You" : "DocuMind AI");
+
+// Helper function to collect the header fields shared by Markdown and HTML exports
+function chatDetails(chat: ChatHistory): [string, string][] {
+  return [
+    ["Date", new Date(chat.timestamp).toLocaleString()],
+    ["Model", getModel(chat.model || "")?.label || chat.model || "Default"],
+    ...(chat.documents?.length
+      ? [["Documents", chat.documents.map((d) => `${d.name} (${formatSize(d.size)})`).join(", ")] as [string, string]]
+      : []),
+  ];
+}
+
+function extractionToMarkdown({ schema, rows }: ExtractionResult): string {
+  const columns = schema.fields.map((f) => f.name);
+  const cell = (value: unknown) => String(value ?? "").replace(/\|/g, "\\|").replace(/\n/g, " ");
+  return [
+    `**${schema.name}** (${rows.length} rows)`,
+    "",
+    `| ${columns.join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${columns.map((c) => cell(row[c])).join(" | ")} |`),
+  ].join("\n");
+}
+
+// Helper function to describe a clause's pages, e.g. "p.3 → p.4"
+const clausePages = ({ pageA, pageB }: ComparisonRow) =>
+  pageA || pageB ? `${pageA ? `p.${pageA}` : "—"} → ${pageB ? `p.${pageB}` : "—"}` : "";
+
+// Helper function to summarize the change counts, e.g. "3 changed, 1 added, 0 removed, 12 unchanged"
+function changeTotals(rows: ComparisonRow[]): string {
+  const counts = countChanges(rows);
+  return `${counts.changed} changed, ${counts.added} added, ${counts.removed} removed, ${counts.unchanged} unchanged`;
+}
+
+function comparisonToMarkdown({ documents, summary, rows }: ComparisonResult): string {
+  const cell = (value: string | null) => (value ?? "—").replace(/\|/g, "\\|").replace(/\n/g, " ");
+  return [
+    `**A:** ${documents.a.name} · **B:** ${documents.b.name} (${changeTotals(rows)})`,
+    ...(summary ? ["", summary] : []),
+    "",
+    "| Clause | Change | A | B | Note |",
+    "| --- | --- | --- | --- | --- |",
+    ...rows.map(
+      (row) =>
+        `| ${cell([row.clause, clausePages(row)].filter(Boolean).join(" "))} | ${CHANGE_LABELS[row.change]} | ${cell(row.a)} | ${cell(row.b)} | ${cell(row.note)} |`
+    ),
+  ].join("\n");
+}
+
+// Helper function to describe the tools an answer called, one line per call
+const toolStepLines = (message: Message) =>
+  (message.toolSteps || []).map(
+    (step) =>
+      `${TOOL_LABELS[step.name] || step.name}: ${step.error ? `failed (${step.error})` : describeToolStep(step)}`
+  );
+
+// Helper function to get a message's body as Markdown, including failure notes
+function messageBody(message: Message): string {
+  const parts = [
+    toolStepLines(message)
+      .map((line) => `- 🔧 ${line}`)
+      .join("\n"),
+    message.extraction
+      ? extractionToMarkdown(message.extraction)
+      : message.comparison
+        ? comparisonToMarkdown(message.comparison)
+        : message.content,
+  ];
+  if (message.safetyMessage) parts.push(`> ⚠️ ${message.safetyMessage}`);
+  if (message.error) parts.push(`> ⚠️ ${message.error.replace(/\n+/g, " ")}`);
+  if (message.stopped) parts.push("> _Stopped before the answer finished._");
+  return parts.filter(Boolean).join("\n\n");
+}
+
+// The selected branch of the conversation as Markdown
+export function exportChatMarkdown(chat: ChatHistory): string {
+  const header = [`# ${chat.title}`, "", ...chatDetails(chat).map(([label, value]) => `- **${label}:** ${value}`)];
+  const body = getActivePath(getChatTree(chat)).map((m) => `### ${roleLabel(m)}\n\n${messageBody(m)}`);
+  return [...header, "", "---", "", body.join("\n\n")].join("\n") + "\n";
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const REPORT_STYLES = `
+  body { font-family: Georgia, "Times New Roman", serif; color: #2D2D2D; background: #FDFBF7; max-width: 800px; margin: 40px auto; padding: 0 24px; line-height: 1.6; }
+  h1 { font-size: 26px; margin-bottom: 4px; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 2px 12px; font: 13px/1.5 system-ui, sans-serif; color: #555; }
+  dt { font-weight: 600; }
+  dd { margin: 0; }
+  .message { border-top: 1px solid rgba(45,45,45,0.12); padding: 16px 0; break-inside: avoid-page; }
+  .role { font: 600 12px system-ui, sans-serif; text-transform: uppercase; letter-spacing: 0.05em; color: #D99B83; margin-bottom: 6px; }
+  .user .body { white-space: pre-wrap; font-style: italic; }
+  pre { background: #2D2D2D; color: #FDFBF7; padding: 12px; border-radius: 6px; overflow-x: auto; font-size: 13px; }
+  code { font-size: 0.9em; }
+  table { border-collapse: collapse; width: 100%; font: 13px system-ui, sans-serif; margin: 8px 0; }
+  th, td { border: 1px solid rgba(45,45,45,0.2); padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: rgba(217,155,131,0.15); }
+  .change { font: 600 11px system-ui, sans-serif; text-transform: uppercase; white-space: nowrap; }
+  .added { background: #f0fdf4; } .added .change { color: #15803d; }
+  .removed { background: #fef2f2; } .removed .change { color: #b91c1c; }
+  .changed { background: #fffbeb; } .changed .change { color: #b45309; }
+  .unchanged { color: #777; }
+  .tools { font: 12px system-ui, sans-serif; color: #666; margin: 0 0 8px; padding-left: 18px; }
+  .notice { font: 13px system-ui, sans-serif; color: #9a3412; background: #fff7ed; border-left: 3px solid #f59e0b; padding: 6px 10px; margin-top: 8px; }
+  footer { margin-top: 32px; font: 12px system-ui, sans-serif; color: #999; }
+  @media print { body { background: white; margin: 0; max-width: none; } a { color: inherit; } }
+`;
+
+function extractionToHtml({ schema, rows }: ExtractionResult): string {
+  const columns = schema.fields.map((f) => f.name);
+  return `<p><strong>${escapeHtml(schema.name)}</strong> (${rows.length} rows)</p>
+<table><thead><tr>${columns.map((c) => `<th>${escapeHtml(c)}</th>`).join("")}</tr></thead>
+<tbody>${rows.map((row) => `<tr>${columns.map((c) => `<td>${escapeHtml(String(row[c] ?? ""))}</td>`).join("")}</tr>`).join("")}</tbody></table>`;
+}
+
+function comparisonToHtml({ documents, summary, rows }: ComparisonResult): string {
+  const text = (value: string | null) => (value === null ? "—" : escapeHtml(value));
+  return `<p><strong>A:</strong> ${escapeHtml(documents.a.name)} · <strong>B:</strong> ${escapeHtml(documents.b.name)} (${changeTotals(rows)})</p>
+${summary ? `<p>${escapeHtml(summary)}</p>` : ""}
+<table><thead><tr><th>Clause</th><th>Change</th><th>A</th><th>B</th><th>Note</th></tr></thead>
+<tbody>${rows
+    .map(
+      (row) =>
+        `<tr class="${row.change}"><td>${escapeHtml(row.clause)}<br><small>${clausePages(row)}</small></td><td class="change">${CHANGE_LABELS[row.change]}</td><td>${text(row.a)}</td><td>${text(row.b)}</td><td>${escapeHtml(row.note)}</td></tr>`
+    )
+    .join("")}</tbody></table>`;
+}
+
+// Helper function to wrap report contents in a standalone, print-ready page
+function reportPage(title: string, details: [string, string][], body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<dl>${details.map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`).join("")}</dl>
+${body}
+<footer>Exported from DocuMind AI on ${escapeHtml(new Date().toLocaleString())}</footer>
+</body>
+</html>
+`;
+}
+
+// A document comparison on its own, as a print-ready HTML report or Markdown
+export function exportComparisonHTML(result: ComparisonResult, question: string): string {
+  const details: [string, string][] = [
+    ["Date", new Date().toLocaleString()],
+    ["Question", question],
+  ];
+  return reportPage(`${result.documents.a.name} vs ${result.documents.b.name}`, details, comparisonToHtml(result));
+}
+
+export function exportComparisonMarkdown(result: ComparisonResult, question: string): string {
+  return [
+    `# ${result.documents.a.name} vs ${result.documents.b.name}`,
+    "",
+    `- **Date:** ${new Date().toLocaleString()}`,
+    `- **Question:** ${question}`,
+    "",
+    comparisonToMarkdown(result),
+  ].join("\n") + "\n";
+}
+
+// A standalone, print-ready HTML report of the selected branch. Answers go
+// through the same Markdown renderer as the chat. Loaded on demand since the
+// server renderer is only needed here.
+export async function exportChatHTML(chat: ChatHistory): Promise<string> {
+  const { renderToStaticMarkup } = await import("react-dom/server");
+
+  const messages = getActivePath(getChatTree(chat)).map((message) => {
+    let body: string;
+    if (message.extraction) {
+      body = extractionToHtml(message.extraction);
+    } else if (message.comparison) {
+      body = comparisonToHtml(message.comparison);
+    } else if (message.role === "assistant") {
+      body = renderToStaticMarkup(createElement(Markdown, { remarkPlugins: [remarkGfm] }, message.content));
+    } else {
+      body = escapeHtml(message.content);
+    }
+    const notices = [message.safetyMessage, message.error, message.stopped ? "Stopped before the answer finished." : ""]
+      .filter(Boolean)
+      .map((text) => `<p class="notice">${escapeHtml(text!)}</p>`)
+      .join("");
+    const tools = toolStepLines(message);
+    const toolList = tools.length > 0 ? `<ul class="tools">${tools.map((line) => `<li>${escapeHtml(line)}</li>`).join("")}</ul>` : "";
+    return `<section class="message ${message.role}"><div class="role">${roleLabel(message)}</div>${toolList}<div class="body">${body}</div>${notices}</section>`;
+  });
+
+  return reportPage(chat.title, chatDetails(chat), messages.join("\n"));
+}
+
+// Every chat as JSON (for re-import) and Markdown (for reading), in one zip
+export function exportAllChatsZip(chats: ChatHistory[]): Uint8Array {
+  const files: Record<string, Uint8Array> = {};
+  for (const chat of chats) {
+    files[`json/${chatFileName(chat, "json")}`] = strToU8(exportChatJSON(chat));
+    files[`markdown/${chatFileName(chat, "md")}`] = strToU8(exportChatMarkdown(chat));
+  }
+  return zipSync(files);
+}
+
+// Helper function to check the shape of an imported chat; returns null when unusable
+function normalizeChat(raw: any): ChatHistory | null {
+  if (!raw || typeof raw.id !== "string" || !raw.id) return null;
+  const hasTree = Array.isArray(raw.tree?.nodes) && raw.tree.selected && typeof raw.tree.selected === "object";
+  if (!hasTree && !Array.isArray(raw.messages)) return null;
+
+  const { messages: _legacy, ...chat } = raw as ChatHistory;
+  return {
+    ...chat,
+    title: typeof raw.title === "string" && raw.title ? raw.title : "Imported chat",
+    timestamp: typeof raw.timestamp === "number" ? raw.timestamp : Date.now(),
+    tree: getChatTree(raw),
+    documents: Array.isArray(raw.documents) ? raw.documents : [],
+  };
+}
+
+// Helper function to pull chats out of one parsed JSON file: a single chat export,
+// a list of exports, or a raw documind_chats array
+function chatsFromJSON(data: any): ChatHistory[] {
+  const items = Array.isArray(data) ? data : [data];
+  return items
+    .map((item) => normalizeChat(item?.format === CHAT_EXPORT_FORMAT ? item.chat : item))
+    .filter((chat): chat is ChatHistory => chat !== null);
+}
+
+// Read chats from exported .json files or a bulk .zip export
+export async function readImportFile(file: File): Promise<ChatHistory[]> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const isZip = file.name.toLowerCase().endsWith(".zip") || (bytes[0] === 0x50 && bytes[1] === 0x4b);
+
+  const texts = isZip
+    ? Object.entries(unzipSync(bytes, { filter: (entry) => entry.name.toLowerCase().endsWith(".json") })).map(
+        ([, data]) => strFromU8(data)
+      )
+    : [strFromU8(bytes)];
+
+  const chats: ChatHistory[] = [];
+  for (const text of texts) {
+    try {
+      chats.push(...chatsFromJSON(JSON.parse(text)));
+    } catch {
+      throw new Error(`${file.name} contains a file that is not valid JSON`);
+    }
+  }
+  if (chats.length === 0) {
+    throw new Error(`No DocuMind chats found in ${file.name}`);
+  }
+  return chats;
+}
+
+// Merge imported chats into the history. A chat whose ID is already used by an
+// identical chat is skipped; one that differs (e.g. continued on another
+// machine) is kept alongside the existing chat under a new ID.
+export function mergeImportedChats(existing: ChatHistory[], imported: ChatHistory[]): ImportSummary {
+  const byId = new Map(existing.map((chat) => [chat.id, chat]));
+  let added = 0;
+  let renamed = 0;
+  let skipped = 0;
+
+  for (const chat of imported) {
+    if (!byId.has(chat.id)) {
+      byId.set(chat.id, chat);
+      added++;
+      continue;
+    }
+
+    // Also compare with copies from earlier imports, so importing twice adds nothing
+    const tree = JSON.stringify(chat.tree);
+    const isDuplicate = [...byId.values()].some(
+      (c) => (c.id === chat.id || c.id.startsWith(`${chat.id}-imported`)) && JSON.stringify(getChatTree(c)) === tree
+    );
+    if (isDuplicate) {
+      skipped++;
+      continue;
+    }
+
+    let id = `${chat.id}-imported`;
+    for (let n = 2; byId.has(id); n++) id = `${chat.id}-imported-${n}`;
+    byId.set(id, { ...chat, id, title: `${chat.title} (imported)` });
+    renamed++;
+  }
+
+  return {
+    history: [...byId.values()].sort((a, b) => b.timestamp - a.timestamp),
+    added,
+    renamed,
+    skipped,
+  };
+}
@@ -0,0 +1,140 @@
+import { getChatTree, type ChatHistory } from "@/lib/chat-types";
+
+// Full-text search over chat titles and messages for the history browser, and
+// the date groups it lists chats under. Every branch of a chat is searched, not
+// only the one that was last shown.
+
+// [start, end) offsets of a match in a piece of text
+export type MatchRange = [number, number];
+
+export interface MessageMatch {
+  messageId: string;
+  role: "user" | "assistant";
+  // Excerpt around the first match, with ranges relative to it
+  snippet: string;
+  ranges: MatchRange[];
+}
+
+export interface ChatSearchResult {
+  chat: ChatHistory;
+  titleRanges: MatchRange[];
+  // Matching messages in conversation order, at most MAX_MESSAGE_MATCHES
+  matches: MessageMatch[];
+  matchCount: number;
+}
+
+// Recent chats fall into named buckets (labelled by the UI), older ones by month
+export type DateGroup =
+  | { kind: "today" | "yesterday" | "last7Days" | "last30Days" }
+  | { kind: "month"; year: number; month: number };
+
+export interface ChatGroup {
+  // Stable identity of the group, e.g. "today" or "2024-3"
+  key: string;
+  group: DateGroup;
+  chats: ChatHistory[];
+}
+
+const MAX_MESSAGE_MATCHES = 3;
+// Characters of context kept before the first match in a snippet, and its total length
+const SNIPPET_LEAD = 40;
+const SNIPPET_LENGTH = 160;
+
+const DAY_MS = 86400000;
+
+// Helper function to split a query into lowercase search terms
+export function searchTerms(query: string): string[] {
+  return [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))];
+}
+
+// Every occurrence of any term, merged where they overlap
+export function findRanges(text: string, terms: string[]): MatchRange[] {
+  const lower = text.toLowerCase();
+  const ranges: MatchRange[] = [];
+  for (const term of terms) {
+    for (let i = lower.indexOf(term); i !== -1; i = lower.indexOf(term, i + term.length)) {
+      ranges.push([i, i + term.length]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const merged: MatchRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  }
+  return merged;
+}
+
+// Helper function to cut an excerpt around the first match, starting on a word boundary where possible
+function makeSnippet(text: string, terms: string[]): string {
+  const flat = text.replace(/\s+/g, " ");
+  const first = findRanges(flat, terms)[0]?.[0] ?? 0;
+  let start = Math.max(0, first - SNIPPET_LEAD);
+  if (start > 0) {
+    const space = flat.indexOf(" ", start);
+    if (space !== -1 && space < first) start = space + 1;
+  }
+  const end = Math.min(flat.length, start + SNIPPET_LENGTH);
+  return (start > 0 ? "…" : "") + flat.slice(start, end) + (end < flat.length ? "…" : "");
+}
+
+// Chats where every term appears in the title or some message, newest first
+export function searchChats(chats: ChatHistory[], query: string): ChatSearchResult[] {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return [];
+
+  const results: ChatSearchResult[] = [];
+  for (const chat of chats) {
+    const messages = getChatTree(chat).nodes;
+    const haystack = [chat.title, ...messages.map((m) => m.content)].join("\n").toLowerCase();
+    if (!terms.every((term) => haystack.includes(term))) continue;
+
+    const matches: MessageMatch[] = [];
+    let matchCount = 0;
+    for (const message of messages) {
+      const content = message.content.toLowerCase();
+      if (!terms.some((term) => content.includes(term))) continue;
+      matchCount++;
+      if (matches.length < MAX_MESSAGE_MATCHES) {
+        const snippet = makeSnippet(message.content, terms);
+        matches.push({ messageId: message.id, role: message.role, snippet, ranges: findRanges(snippet, terms) });
+      }
+    }
+
+    results.push({ chat, titleRanges: findRanges(chat.title, terms), matches, matchCount });
+  }
+  return results.sort((a, b) => b.chat.timestamp - a.chat.timestamp);
+}
+
+// Helper function to get local midnight of a time
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Date group of a chat updated at `timestamp`: recent buckets, then month and year
+export function dateGroup(timestamp: number, now: number): DateGroup {
+  const today = startOfDay(now);
+  if (timestamp >= today) return { kind: "today" };
+  if (timestamp >= today - DAY_MS) return { kind: "yesterday" };
+  if (timestamp >= today - 7 * DAY_MS) return { kind: "last7Days" };
+  if (timestamp >= today - 30 * DAY_MS) return { kind: "last30Days" };
+  const date = new Date(timestamp);
+  return { kind: "month", year: date.getFullYear(), month: date.getMonth() };
+}
+
+// Consecutive runs of chats in the same group; expects chats sorted newest first
+export function groupChatsByDate(chats: ChatHistory[], now: number): ChatGroup[] {
+  const groups: ChatGroup[] = [];
+  for (const chat of chats) {
+    const group = dateGroup(chat.timestamp, now);
+    const key = group.kind === "month" ? `${group.year}-${group.month}` : group.kind;
+    const last = groups[groups.length - 1];
+    if (last?.key === key) last.chats.push(chat);
+    else groups.push({ key, group, chats: [chat] });
+  }
+  return groups;
+}
@@ -0,0 +1,477 @@
+import type Database from "better-sqlite3";
+import { getDb } from "@/lib/db";
+import { addNode, removeNode, type MessageTree } from "@/lib/chat-tree";
+import {
+  CHAT_TAG_COLORS,
+  getChatTree,
+  type ChatDocument,
+  type ChatFolder,
+  type ChatHistory,
+  type ChatTagColor,
+  type Message,
+} from "@/lib/chat-types";
+import { getModel, validateChatOptions, type GenerationSettings } from "@/lib/models";
+
+// Server-side chat store (see lib/db.ts for the database). A chat is one row
+// owned by one user; its message tree and document set are rows in their own
+// tables, and the user's folders are a list of their own. Every function takes the signed-in user's ID and only sees their
+// chats. Document contents are not stored here: PDFs and images live in the
+// browser (IndexedDB) and the upload store, video and audio in the Gemini Files API.
+
+export interface ChatSummary {
+  id: string;
+  title: string;
+  timestamp: number;
+  messageCount: number;
+  documentCount: number;
+}
+
+export class ChatValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChatValidationError";
+  }
+}
+
+// A chat ID already used by another user's chat
+export class ChatConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChatConflictError";
+  }
+}
+
+interface ChatRow {
+  id: string;
+  title: string;
+  timestamp: number;
+  model: string | null;
+  generation_settings: string | null;
+  selected: string;
+  custom_title: number;
+  pinned: number;
+  tags: string;
+  folder_id: string | null;
+  persona_id: string | null;
+}
+
+interface MessageRow {
+  id: string;
+  parent_id: string | null;
+  role: Message["role"];
+  content: string;
+  data: string;
+}
+
+interface AttachmentRow {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  enabled: number;
+}
+
+const toMessage = (row: MessageRow): Message => ({
+  ...JSON.parse(row.data),
+  id: row.id,
+  parentId: row.parent_id,
+  role: row.role,
+  content: row.content,
+});
+
+const toDocument = (row: AttachmentRow): ChatDocument => ({
+  id: row.id,
+  name: row.name,
+  type: row.type,
+  size: row.size,
+  enabled: Boolean(row.enabled),
+});
+
+// Helper function to split a message into its columns and the JSON of everything else
+function messageColumns(chatId: string, message: Message, position: number) {
+  const { id, parentId, role, content, ...data } = message;
+  return { chat_id: chatId, id, parent_id: parentId, position, role, content, data: JSON.stringify(data) };
+}
+
+function readChat(db: Database.Database, row: ChatRow): ChatHistory {
+  const messages = db
+    .prepare("SELECT id, parent_id, role, content, data FROM messages WHERE chat_id = ? ORDER BY position")
+    .all(row.id) as MessageRow[];
+  const attachments = db
+    .prepare("SELECT id, name, type, size, enabled FROM attachments WHERE chat_id = ? ORDER BY position")
+    .all(row.id) as AttachmentRow[];
+
+  return {
+    id: row.id,
+    title: row.title,
+    timestamp: row.timestamp,
+    tree: { nodes: messages.map(toMessage), selected: JSON.parse(row.selected) },
+    model: row.model ?? undefined,
+    generationSettings: row.generation_settings ? (JSON.parse(row.generation_settings) as GenerationSettings) : undefined,
+    documents: attachments.map(toDocument),
+    customTitle: Boolean(row.custom_title),
+    pinned: Boolean(row.pinned),
+    tags: JSON.parse(row.tags),
+    folderId: row.folder_id ?? undefined,
+    personaId: row.persona_id ?? undefined,
+  };
+}
+
+// Helper function to check a message sent by the client
+export function validateMessage(input: any): Message {
+  if (!input || typeof input.id !== "string" || !input.id) {
+    throw new ChatValidationError("Message must have an id");
+  }
+  if (input.role !== "user" && input.role !== "assistant") {
+    throw new ChatValidationError(`Invalid role for message ${input.id}`);
+  }
+  if (typeof input.content !== "string") {
+    throw new ChatValidationError(`Message ${input.id} must have text content`);
+  }
+  if (input.parentId !== null && input.parentId !== undefined && typeof input.parentId !== "string") {
+    throw new ChatValidationError(`Invalid parentId for message ${input.id}`);
+  }
+  return { ...input, parentId: input.parentId ?? null };
+}
+
+// Helper function to check a document entry sent by the client
+export function validateDocument(input: any): ChatDocument {
+  if (!input || typeof input.id !== "string" || typeof input.name !== "string" || typeof input.type !== "string") {
+    throw new ChatValidationError("Attachment must have an id, name and type");
+  }
+  return {
+    id: input.id,
+    name: input.name,
+    type: input.type,
+    size: Number.isFinite(input.size) ? input.size : 0,
+    enabled: input.enabled !== false,
+  };
+}
+
+// Helper function to keep known tag colors, each once
+function validateTags(input: any): ChatTagColor[] {
+  if (!Array.isArray(input)) return [];
+  return CHAT_TAG_COLORS.filter((color) => input.includes(color));
+}
+
+// Helper function to check a folder ID; anything else means "no folder"
+const validateFolderId = (input: any): string | undefined =>
+  typeof input === "string" && input && input.length <= 200 ? input : undefined;
+
+// Helper function to check generation settings against the limits the chat route
+// applies; a model this server does not offer is checked as the default model
+function validateGenerationSettings(model: string | undefined, settings: unknown): GenerationSettings | undefined {
+  if (settings === undefined || settings === null) return undefined;
+  const result = validateChatOptions(model && getModel(model) ? model : undefined, settings);
+  if (!result.valid) throw new ChatValidationError(result.error);
+  return result.settings;
+}
+
+// Helper function to check a full chat sent by the client (legacy flat lists are upgraded)
+export function validateChat(input: any, id?: string): ChatHistory {
+  if (!input || typeof input !== "object") {
+    throw new ChatValidationError("Expected a chat object");
+  }
+  const chatId = id ?? input.id;
+  if (typeof chatId !== "string" || !chatId || chatId.length > 200) {
+    throw new ChatValidationError("Chat must have an id");
+  }
+  if (input.tree && (!Array.isArray(input.tree.nodes) || typeof input.tree.selected !== "object")) {
+    throw new ChatValidationError("Chat tree must have nodes and selected");
+  }
+
+  const tree = getChatTree({ ...input, tree: input.tree ?? (input.messages ? undefined : { nodes: [], selected: {} }) });
+  const model = typeof input.model === "string" ? input.model : undefined;
+  return {
+    id: chatId,
+    title: typeof input.title === "string" && input.title ? input.title.slice(0, 500) : "New Chat",
+    timestamp: typeof input.timestamp === "number" ? input.timestamp : Date.now(),
+    tree: { nodes: tree.nodes.map(validateMessage), selected: tree.selected },
+    model,
+    generationSettings: validateGenerationSettings(model, input.generationSettings),
+    documents: Array.isArray(input.documents) ? input.documents.map(validateDocument) : [],
+    customTitle: input.customTitle === true,
+    pinned: input.pinned === true,
+    tags: validateTags(input.tags),
+    folderId: validateFolderId(input.folderId),
+    personaId: typeof input.personaId === "string" && input.personaId.length <= 200 ? input.personaId : undefined,
+  };
+}
+
+// Helper function to check a folder list sent by the client
+export function validateFolders(input: any): ChatFolder[] {
+  if (!Array.isArray(input)) {
+    throw new ChatValidationError("Expected a list of folders");
+  }
+  const ids = new Set<string>();
+  return input.map((folder: any) => {
+    const id = validateFolderId(folder?.id);
+    if (!id || typeof folder.name !== "string" || !folder.name.trim()) {
+      throw new ChatValidationError("Folder must have an id and a name");
+    }
+    if (ids.has(id)) throw new ChatValidationError(`Folder ${id} is listed twice`);
+    ids.add(id);
+    return { id, name: folder.name.trim().slice(0, 100) };
+  });
+}
+
+// Helper function to check that a chat exists and belongs to the user
+function ownsChat(db: Database.Database, userId: string, chatId: string): boolean {
+  return Boolean(db.prepare("SELECT 1 FROM chats WHERE id = ? AND user_id = ?").get(chatId, userId));
+}
+
+export function listChats(userId: string): ChatSummary[] {
+  return getDb()
+    .prepare(
+      `SELECT c.id, c.title, c.timestamp,
+         (SELECT COUNT(*) FROM messages m WHERE m.chat_id = c.id) AS messageCount,
+         (SELECT COUNT(*) FROM attachments a WHERE a.chat_id = c.id) AS documentCount
+       FROM chats c WHERE c.user_id = ? ORDER BY c.timestamp DESC`
+    )
+    .all(userId) as ChatSummary[];
+}
+
+export function listFullChats(userId: string): ChatHistory[] {
+  const db = getDb();
+  const rows = db.prepare("SELECT * FROM chats WHERE user_id = ? ORDER BY timestamp DESC").all(userId) as ChatRow[];
+  return rows.map((row) => readChat(db, row));
+}
+
+export function getChat(userId: string, id: string): ChatHistory | null {
+  const db = getDb();
+  const row = db.prepare("SELECT * FROM chats WHERE id = ? AND user_id = ?").get(id, userId) as ChatRow | undefined;
+  return row ? readChat(db, row) : null;
+}
+
+// Create or replace a whole chat, including its messages and documents
+export function saveChat(userId: string, chat: ChatHistory): ChatHistory {
+  const db = getDb();
+  db.transaction(() => {
+    const { changes } = db.prepare(
+      `INSERT INTO chats (id, user_id, title, timestamp, model, generation_settings, selected,
+         custom_title, pinned, tags, folder_id, persona_id)
+       VALUES (@id, @user_id, @title, @timestamp, @model, @generation_settings, @selected,
+         @custom_title, @pinned, @tags, @folder_id, @persona_id)
+       ON CONFLICT(id) DO UPDATE SET title = excluded.title, timestamp = excluded.timestamp, model = excluded.model,
+         generation_settings = excluded.generation_settings, selected = excluded.selected,
+         custom_title = excluded.custom_title, pinned = excluded.pinned, tags = excluded.tags,
+         folder_id = excluded.folder_id, persona_id = excluded.persona_id
+       WHERE chats.user_id = excluded.user_id`
+    ).run({
+      id: chat.id,
+      user_id: userId,
+      title: chat.title,
+      timestamp: chat.timestamp,
+      model: chat.model ?? null,
+      generation_settings: chat.generationSettings ? JSON.stringify(chat.generationSettings) : null,
+      selected: JSON.stringify(chat.tree.selected),
+      custom_title: chat.customTitle ? 1 : 0,
+      pinned: chat.pinned ? 1 : 0,
+      tags: JSON.stringify(chat.tags ?? []),
+      folder_id: chat.folderId ?? null,
+      persona_id: chat.personaId ?? null,
+    });
+    if (changes === 0) throw new ChatConflictError(`Chat ID ${chat.id} is already in use`);
+
+    db.prepare("DELETE FROM messages WHERE chat_id = ?").run(chat.id);
+    const insertMessage = db.prepare(
+      `INSERT INTO messages (chat_id, id, parent_id, position, role, content, data)
+       VALUES (@chat_id, @id, @parent_id, @position, @role, @content, @data)`
+    );
+    chat.tree.nodes.forEach((message, i) => insertMessage.run(messageColumns(chat.id, message, i)));
+
+    db.prepare("DELETE FROM attachments WHERE chat_id = ?").run(chat.id);
+    const insertAttachment = db.prepare(
+      `INSERT INTO attachments (chat_id, id, position, name, type, size, enabled)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    );
+    (chat.documents ?? []).forEach((doc, i) =>
+      insertAttachment.run(chat.id, doc.id, i, doc.name, doc.type, doc.size, doc.enabled ? 1 : 0)
+    );
+  })();
+  return chat;
+}
+
+// Change chat-level fields; returns null when the chat does not exist. A new
+// title counts as a rename, and a folderId of null takes the chat out of its folder.
+export function updateChat(
+  userId: string,
+  id: string,
+  update: {
+    title?: string;
+    model?: string;
+    generationSettings?: unknown;
+    timestamp?: number;
+    pinned?: boolean;
+    tags?: ChatTagColor[];
+    folderId?: string | null;
+  }
+): ChatHistory | null {
+  const chat = getChat(userId, id);
+  if (!chat) return null;
+  const renamed = typeof update.title === "string" && !!update.title;
+  const model = typeof update.model === "string" ? update.model : chat.model;
+  const next = {
+    ...chat,
+    title: renamed ? update.title!.slice(0, 500) : chat.title,
+    customTitle: renamed || chat.customTitle,
+    model,
+    generationSettings: validateGenerationSettings(model, update.generationSettings) ?? chat.generationSettings,
+    timestamp: typeof update.timestamp === "number" ? update.timestamp : Date.now(),
+    pinned: typeof update.pinned === "boolean" ? update.pinned : chat.pinned,
+    tags: update.tags !== undefined ? validateTags(update.tags) : chat.tags,
+    folderId: update.folderId !== undefined ? validateFolderId(update.folderId) : chat.folderId,
+  };
+  getDb()
+    .prepare(
+      `UPDATE chats SET title = ?, model = ?, generation_settings = ?, timestamp = ?,
+         custom_title = ?, pinned = ?, tags = ?, folder_id = ? WHERE id = ?`
+    )
+    .run(
+      next.title,
+      next.model ?? null,
+      next.generationSettings ? JSON.stringify(next.generationSettings) : null,
+      next.timestamp,
+      next.customTitle ? 1 : 0,
+      next.pinned ? 1 : 0,
+      JSON.stringify(next.tags ?? []),
+      next.folderId ?? null,
+      id
+    );
+  return next;
+}
+
+export function deleteChat(userId: string, id: string): boolean {
+  return getDb().prepare("DELETE FROM chats WHERE id = ? AND user_id = ?").run(id, userId).changes > 0;
+}
+
+export function deleteAllChats(userId: string): number {
+  return getDb().prepare("DELETE FROM chats WHERE user_id = ?").run(userId).changes;
+}
+
+// Helper function to write a chat's selection map and bump its timestamp
+function touchChat(db: Database.Database, id: string, selected: MessageTree<Message>["selected"]) {
+  db.prepare("UPDATE chats SET selected = ?, timestamp = ? WHERE id = ?").run(JSON.stringify(selected), Date.now(), id);
+}
+
+// Add a message under its parent and select it, like addNode on the client.
+// Returns null when the chat does not exist.
+export function addMessage(userId: string, chatId: string, message: Message): Message | null {
+  const db = getDb();
+  return db.transaction(() => {
+    const chat = getChat(userId, chatId);
+    if (!chat) return null;
+    if (message.parentId && !chat.tree.nodes.some((m) => m.id === message.parentId)) {
+      throw new ChatValidationError(`Parent message ${message.parentId} does not exist`);
+    }
+    if (chat.tree.nodes.some((m) => m.id === message.id)) {
+      throw new ChatValidationError(`Message ${message.id} already exists`);
+    }
+
+    db.prepare(
+      `INSERT INTO messages (chat_id, id, parent_id, position, role, content, data)
+       VALUES (@chat_id, @id, @parent_id, @position, @role, @content, @data)`
+    ).run(messageColumns(chatId, message, chat.tree.nodes.length));
+    touchChat(db, chatId, addNode(chat.tree, message).selected);
+    return message;
+  })();
+}
+
+// Replace a message's content and fields; its place in the tree cannot change
+export function updateMessage(
+  userId: string,
+  chatId: string,
+  messageId: string,
+  update: Partial<Message>
+): Message | null {
+  const db = getDb();
+  return db.transaction(() => {
+    if (!ownsChat(db, userId, chatId)) return null;
+    const row = db
+      .prepare("SELECT id, parent_id, role, content, data FROM messages WHERE chat_id = ? AND id = ?")
+      .get(chatId, messageId) as MessageRow | undefined;
+    if (!row) return null;
+
+    const message = validateMessage({ ...toMessage(row), ...update, id: row.id, parentId: row.parent_id });
+    const { role, content, data } = messageColumns(chatId, message, 0);
+    db.prepare("UPDATE messages SET role = ?, content = ?, data = ? WHERE chat_id = ? AND id = ?").run(
+      role,
+      content,
+      data,
+      chatId,
+      messageId
+    );
+    db.prepare("UPDATE chats SET timestamp = ? WHERE id = ?").run(Date.now(), chatId);
+    return message;
+  })();
+}
+
+// Delete a message and every reply below it; returns the number of messages removed
+export function deleteMessage(userId: string, chatId: string, messageId: string): number {
+  const db = getDb();
+  return db.transaction(() => {
+    const chat = getChat(userId, chatId);
+    if (!chat || !chat.tree.nodes.some((m) => m.id === messageId)) return 0;
+
+    const tree = removeNode(chat.tree, messageId);
+    const kept = new Set(tree.nodes.map((m) => m.id));
+    const remove = db.prepare("DELETE FROM messages WHERE chat_id = ? AND id = ?");
+    const removed = chat.tree.nodes.filter((m) => !kept.has(m.id));
+    for (const message of removed) remove.run(chatId, message.id);
+    touchChat(db, chatId, tree.selected);
+    return removed.length;
+  })();
+}
+
+export function listAttachments(userId: string, chatId: string): ChatDocument[] | null {
+  const db = getDb();
+  if (!ownsChat(db, userId, chatId)) return null;
+  const rows = db
+    .prepare("SELECT id, name, type, size, enabled FROM attachments WHERE chat_id = ? ORDER BY position")
+    .all(chatId) as AttachmentRow[];
+  return rows.map(toDocument);
+}
+
+// Add or replace one document in a chat's document set
+export function saveAttachment(userId: string, chatId: string, doc: ChatDocument): ChatDocument | null {
+  const db = getDb();
+  return db.transaction(() => {
+    if (!ownsChat(db, userId, chatId)) return null;
+    const { next } = db
+      .prepare("SELECT COALESCE(MAX(position) + 1, 0) AS next FROM attachments WHERE chat_id = ?")
+      .get(chatId) as { next: number };
+    db.prepare(
+      `INSERT INTO attachments (chat_id, id, position, name, type, size, enabled) VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(chat_id, id) DO UPDATE SET name = excluded.name, type = excluded.type, size = excluded.size,
+         enabled = excluded.enabled`
+    ).run(chatId, doc.id, next, doc.name, doc.type, doc.size, doc.enabled ? 1 : 0);
+    db.prepare("UPDATE chats SET timestamp = ? WHERE id = ?").run(Date.now(), chatId);
+    return doc;
+  })();
+}
+
+export function deleteAttachment(userId: string, chatId: string, attachmentId: string): boolean {
+  const db = getDb();
+  if (!ownsChat(db, userId, chatId)) return false;
+  return db.prepare("DELETE FROM attachments WHERE chat_id = ? AND id = ?").run(chatId, attachmentId).changes > 0;
+}
+
+export function listFolders(userId: string): ChatFolder[] {
+  return getDb().prepare("SELECT id, name FROM folders WHERE user_id = ? ORDER BY position").all(userId) as ChatFolder[];
+}
+
+// Replace the user's folder list. Chats filed in a folder that is no longer
+// listed move back out of it.
+export function saveFolders(userId: string, folders: ChatFolder[]): ChatFolder[] {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare("DELETE FROM folders WHERE user_id = ?").run(userId);
+    const insert = db.prepare("INSERT INTO folders (user_id, id, position, name) VALUES (?, ?, ?, ?)");
+    folders.forEach((folder, i) => insert.run(userId, folder.id, i, folder.name));
+    db.prepare(
+      `UPDATE chats SET folder_id = NULL WHERE user_id = ? AND folder_id IS NOT NULL
+         AND folder_id NOT IN (SELECT id FROM folders WHERE user_id = ?)`
+    ).run(userId, userId);
+  })();
+  return folders;
+}
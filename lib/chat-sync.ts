@@ -0,0 +1,304 @@
+import type { ChatFolder, ChatHistory } from "@/lib/chat-types";
+
+// Client side of the server chat store (/api/chats). localStorage keeps an
+// offline cache of every chat: the UI renders from it immediately, saves are
+// queued to the server, and changes made offline are pushed on the next sync.
+// The folder list is cached and synced the same way, as a whole.
+
+const UNSYNCED_KEY = "documind_unsynced_chats";
+const DELETED_KEY = "documind_deleted_chats";
+const OWNER_KEY = "documind_chats_owner";
+const FOLDERS_KEY = "documind_folders";
+const FOLDERS_UNSYNCED_KEY = "documind_folders_unsynced";
+
+// Helper function to read or write a list of chat IDs in localStorage
+function readIds(key: string): Set<string> {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(key) || "[]"));
+  } catch {
+    return new Set();
+  }
+}
+
+function writeIds(key: string, ids: Set<string>) {
+  if (ids.size === 0) localStorage.removeItem(key);
+  else localStorage.setItem(key, JSON.stringify([...ids]));
+}
+
+function markIds(key: string, id: string, present: boolean) {
+  const ids = readIds(key);
+  if (present) ids.add(id);
+  else ids.delete(id);
+  writeIds(key, ids);
+}
+
+// Chat IDs are shared by all accounts on the server, so new chats get random ones
+export function newChatId(): string {
+  return crypto.randomUUID();
+}
+
+// The server answers 409 when another account already uses the chat's ID
+class ChatIdTakenError extends Error {}
+
+async function putChat(chat: ChatHistory): Promise<void> {
+  const response = await fetch(`/api/chats/${encodeURIComponent(chat.id)}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(chat),
+  });
+  if (response.status === 409) throw new ChatIdTakenError(`Chat ID ${chat.id} is taken`);
+  if (!response.ok) throw new Error(`Saving chat failed with status ${response.status}`);
+}
+
+async function deleteRemote(path: string): Promise<void> {
+  const response = await fetch(path, { method: "DELETE" });
+  // Already gone counts as deleted
+  if (!response.ok && response.status !== 404) throw new Error(`Delete failed with status ${response.status}`);
+}
+
+// Saves are coalesced per chat and sent one at a time, so an older version
+// can never overwrite a newer one on the server
+const queued = new Map<string, ChatHistory>();
+let flushing: Promise<void> | null = null;
+
+async function flushQueue() {
+  while (queued.size > 0) {
+    const [id, chat] = queued.entries().next().value!;
+    queued.delete(id);
+    try {
+      await putChat(chat);
+      if (!queued.has(id)) markIds(UNSYNCED_KEY, id, false);
+    } catch (error) {
+      if (error instanceof ChatIdTakenError) {
+        reissueChatId(chat);
+        continue;
+      }
+      // Stays marked unsynced and is retried on the next sync
+      console.warn("[Sync] Chat saved offline only:", error);
+    }
+  }
+  flushing = null;
+}
+
+export function queueChatSave(chat: ChatHistory) {
+  markIds(UNSYNCED_KEY, chat.id, true);
+  queued.set(chat.id, chat);
+  flushing ??= flushQueue();
+}
+
+// Dispatched with { from, to } when a chat is moved to a new ID
+export const CHAT_ID_REISSUED_EVENT = "chat-id-reissued";
+
+// Move a chat whose ID the server refused to a fresh one and queue it for upload
+// again. The cache and the open-chat key follow it; the UI is told through
+// CHAT_ID_REISSUED_EVENT. Retrying under the taken ID would fail forever.
+function reissueChatId(chat: ChatHistory): ChatHistory {
+  const latest = queued.get(chat.id) ?? chat;
+  queued.delete(chat.id);
+  markIds(UNSYNCED_KEY, chat.id, false);
+  const renamed = { ...latest, id: newChatId() };
+
+  try {
+    const cached: ChatHistory[] = JSON.parse(localStorage.getItem("documind_chats") || "[]");
+    const updated = cached.map((c) => (c.id === chat.id ? { ...c, id: renamed.id } : c));
+    localStorage.setItem("documind_chats", JSON.stringify(updated));
+  } catch {}
+  if (localStorage.getItem("documind_current_chat") === chat.id) {
+    localStorage.setItem("documind_current_chat", renamed.id);
+  }
+
+  console.warn("[Sync] Chat ID", chat.id, "is taken on the server; moved to", renamed.id);
+  window.dispatchEvent(new CustomEvent(CHAT_ID_REISSUED_EVENT, { detail: { from: chat.id, to: renamed.id } }));
+  queueChatSave(renamed);
+  return renamed;
+}
+
+export async function deleteChatRemote(id: string) {
+  queued.delete(id);
+  markIds(UNSYNCED_KEY, id, false);
+  try {
+    await deleteRemote(`/api/chats/${encodeURIComponent(id)}`);
+  } catch (error) {
+    console.warn("[Sync] Delete will be retried:", error);
+    markIds(DELETED_KEY, id, true);
+  }
+}
+
+export async function deleteAllChatsRemote() {
+  queued.clear();
+  localStorage.removeItem(UNSYNCED_KEY);
+  try {
+    await deleteRemote("/api/chats");
+    localStorage.removeItem(DELETED_KEY);
+  } catch (error) {
+    console.error("[Sync] Failed to clear chats on the server:", error);
+    throw error;
+  }
+}
+
+export function loadCachedFolders(): ChatFolder[] {
+  try {
+    return JSON.parse(localStorage.getItem(FOLDERS_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+async function putFolders(folders: ChatFolder[]): Promise<void> {
+  const response = await fetch("/api/folders", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ folders }),
+  });
+  if (!response.ok) throw new Error(`Saving folders failed with status ${response.status}`);
+}
+
+// Only the latest folder list is worth sending
+let queuedFolders: ChatFolder[] | null = null;
+let flushingFolders: Promise<void> | null = null;
+
+async function flushFolders() {
+  while (queuedFolders) {
+    const folders = queuedFolders;
+    queuedFolders = null;
+    try {
+      await putFolders(folders);
+      if (!queuedFolders) localStorage.removeItem(FOLDERS_UNSYNCED_KEY);
+    } catch (error) {
+      console.warn("[Sync] Folders saved offline only:", error);
+    }
+  }
+  flushingFolders = null;
+}
+
+export function queueFoldersSave(folders: ChatFolder[]) {
+  localStorage.setItem(FOLDERS_KEY, JSON.stringify(folders));
+  localStorage.setItem(FOLDERS_UNSYNCED_KEY, "1");
+  queuedFolders = folders;
+  flushingFolders ??= flushFolders();
+}
+
+// Resolves once queued saves have been sent
+export async function flushChatSaves(): Promise<void> {
+  await Promise.all([flushing, flushingFolders]);
+}
+
+// Forget this browser's copy of the signed-in user's chats (on sign-out)
+export function clearChatCache() {
+  queued.clear();
+  queuedFolders = null;
+  for (const key of [
+    OWNER_KEY,
+    UNSYNCED_KEY,
+    DELETED_KEY,
+    FOLDERS_KEY,
+    FOLDERS_UNSYNCED_KEY,
+    "documind_chats",
+    "documind_current_chat",
+    "documind_templates",
+  ]) {
+    localStorage.removeItem(key);
+  }
+}
+
+// Make the cache belong to userId before anything reads it. A cache another
+// account left in this browser is dropped (returns true; the caller clears the
+// attachments too). A cache without an owner holds history from before sign-in
+// existed: it is adopted, and its chats are uploaded on the next sync.
+export function claimChatCache(userId: string): boolean {
+  const owner = localStorage.getItem(OWNER_KEY);
+  if (owner === userId) return false;
+  if (owner) {
+    clearChatCache();
+    localStorage.setItem(OWNER_KEY, userId);
+    return true;
+  }
+  try {
+    const cached: ChatHistory[] = JSON.parse(localStorage.getItem("documind_chats") || "[]");
+    const unsynced = readIds(UNSYNCED_KEY);
+    for (const chat of cached) unsynced.add(chat.id);
+    writeIds(UNSYNCED_KEY, unsynced);
+  } catch {}
+  localStorage.setItem(OWNER_KEY, userId);
+  return false;
+}
+
+// Folder list from the server, or the cached list when it changed offline (it is
+// pushed first) or the server cannot be reached (null)
+export async function syncFolders(): Promise<ChatFolder[] | null> {
+  try {
+    if (localStorage.getItem(FOLDERS_UNSYNCED_KEY)) {
+      const cached = loadCachedFolders();
+      await putFolders(cached);
+      localStorage.removeItem(FOLDERS_UNSYNCED_KEY);
+      return cached;
+    }
+    const response = await fetch("/api/folders");
+    if (!response.ok) throw new Error(`Loading folders failed with status ${response.status}`);
+    const { folders } = await response.json();
+    localStorage.setItem(FOLDERS_KEY, JSON.stringify(folders));
+    return folders;
+  } catch (error) {
+    console.warn("[Sync] Folders not synced:", error);
+    return null;
+  }
+}
+
+// Reconcile the local cache with the server and return the merged history, or
+// null when the server cannot be reached (the cache stays authoritative).
+// The cache must have been claimed for the signed-in user (claimChatCache).
+export async function syncChats(cached: ChatHistory[]): Promise<ChatHistory[] | null> {
+  let server: ChatHistory[];
+  try {
+    const response = await fetch("/api/chats?full=1");
+    if (!response.ok) throw new Error(`Loading chats failed with status ${response.status}`);
+    server = (await response.json()).chats;
+  } catch (error) {
+    console.warn("[Sync] Working offline:", error);
+    return null;
+  }
+
+  const unsynced = readIds(UNSYNCED_KEY);
+
+  // Deletes made while offline
+  const deleted = readIds(DELETED_KEY);
+  for (const id of [...deleted]) {
+    try {
+      await deleteRemote(`/api/chats/${encodeURIComponent(id)}`);
+      deleted.delete(id);
+    } catch {}
+  }
+  writeIds(DELETED_KEY, deleted);
+
+  const merged = new Map(server.filter((chat) => !deleted.has(chat.id)).map((chat) => [chat.id, chat]));
+
+  // Local changes the server has not seen win unless the server copy is newer.
+  // Cached chats that are neither unsynced nor on the server were deleted elsewhere.
+  for (const chat of cached) {
+    if (!unsynced.has(chat.id)) continue;
+    const remote = merged.get(chat.id);
+    if (remote && remote.timestamp > chat.timestamp) {
+      unsynced.delete(chat.id);
+      continue;
+    }
+    try {
+      await putChat(chat);
+      unsynced.delete(chat.id);
+    } catch (error) {
+      if (error instanceof ChatIdTakenError) {
+        // Uploaded by the save queue under its new ID
+        unsynced.delete(chat.id);
+        const renamed = reissueChatId(chat);
+        unsynced.add(renamed.id);
+        merged.set(renamed.id, renamed);
+        continue;
+      }
+      console.warn("[Sync] Could not upload chat", chat.id, error);
+    }
+    merged.set(chat.id, chat);
+  }
+
+  writeIds(UNSYNCED_KEY, unsynced);
+
+  return [...merged.values()].sort((a, b) => b.timestamp - a.timestamp);
+}
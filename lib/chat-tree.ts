@@ -0,0 +1,125 @@
+// Conversation tree. Editing a question or regenerating an answer adds a sibling
+// instead of overwriting, so every variant is kept and can be switched back to.
+// The visible conversation is the "active path": from the root, follow each
+// node's selected child.
+
+export interface TreeNode {
+  id: string;
+  // null for the first message of a chat
+  parentId: string | null;
+}
+
+export interface MessageTree<M extends TreeNode> {
+  // In creation order, which is also sibling order
+  nodes: M[];
+  // Selected child per parent ID (ROOT for top-level messages)
+  selected: Record<string, string>;
+}
+
+export const ROOT = "root";
+
+const parentKey = (parentId: string | null) => parentId ?? ROOT;
+
+export function emptyTree<M extends TreeNode>(): MessageTree<M> {
+  return { nodes: [], selected: {} };
+}
+
+// Build a single-branch tree from a flat message list (chats saved before branching)
+export function treeFromMessages<M extends { id: string }>(
+  messages: M[]
+): MessageTree<M & TreeNode> {
+  const tree = emptyTree<M & TreeNode>();
+  let parentId: string | null = null;
+  for (const message of messages) {
+    const node = { ...message, parentId } as M & TreeNode;
+    tree.nodes.push(node);
+    tree.selected[parentKey(parentId)] = node.id;
+    parentId = node.id;
+  }
+  return tree;
+}
+
+export function getChildren<M extends TreeNode>(tree: MessageTree<M>, parentId: string | null): M[] {
+  return tree.nodes.filter((n) => n.parentId === parentId);
+}
+
+// Siblings of a node (including itself) and its position among them
+export function getSiblings<M extends TreeNode>(tree: MessageTree<M>, node: M): { siblings: M[]; index: number } {
+  const siblings = getChildren(tree, node.parentId);
+  return { siblings, index: siblings.findIndex((s) => s.id === node.id) };
+}
+
+// The visible conversation: follow selected children from the root, falling back
+// to the newest child when nothing is selected
+export function getActivePath<M extends TreeNode>(tree: MessageTree<M>): M[] {
+  const path: M[] = [];
+  let parentId: string | null = null;
+
+  while (true) {
+    const children: M[] = getChildren(tree, parentId);
+    if (children.length === 0) break;
+    const selectedId = tree.selected[parentKey(parentId)];
+    const next: M = children.find((c) => c.id === selectedId) || children[children.length - 1];
+    path.push(next);
+    parentId = next.id;
+  }
+
+  return path;
+}
+
+// The path from the root down to (and including) a node
+export function getPathTo<M extends TreeNode>(tree: MessageTree<M>, id: string | null): M[] {
+  const byId = new Map(tree.nodes.map((n) => [n.id, n]));
+  const path: M[] = [];
+  let current = id ? byId.get(id) : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+// Add a node under its parent and make it the selected branch
+export function addNode<M extends TreeNode>(tree: MessageTree<M>, node: M): MessageTree<M> {
+  return {
+    nodes: [...tree.nodes, node],
+    selected: { ...tree.selected, [parentKey(node.parentId)]: node.id },
+  };
+}
+
+// Select a node, and every ancestor on the way, so it becomes part of the active path
+export function selectNode<M extends TreeNode>(tree: MessageTree<M>, id: string): MessageTree<M> {
+  const selected = { ...tree.selected };
+  for (const node of getPathTo(tree, id)) {
+    selected[parentKey(node.parentId)] = node.id;
+  }
+  return { ...tree, selected };
+}
+
+// Replace fields of one node, leaving the tree's shape and selection unchanged
+export function updateNode<M extends TreeNode>(tree: MessageTree<M>, id: string, update: Partial<M>): MessageTree<M> {
+  return { ...tree, nodes: tree.nodes.map((node) => (node.id === id ? { ...node, ...update } : node)) };
+}
+
+// Remove a node and everything below it. Parents that had it selected fall back
+// to their latest remaining child.
+export function removeNode<M extends TreeNode>(tree: MessageTree<M>, id: string): MessageTree<M> {
+  const removed = new Set([id]);
+  // Children always come after their parent in creation order
+  for (const node of tree.nodes) {
+    if (node.parentId && removed.has(node.parentId)) removed.add(node.id);
+  }
+
+  const nodes = tree.nodes.filter((node) => !removed.has(node.id));
+  const selected: Record<string, string> = {};
+  for (const [parent, child] of Object.entries(tree.selected)) {
+    if (parent !== ROOT && removed.has(parent)) continue;
+    if (!removed.has(child)) {
+      selected[parent] = child;
+      continue;
+    }
+    const fallback = nodes.filter((node) => parentKey(node.parentId) === parent).pop();
+    if (fallback) selected[parent] = fallback.id;
+  }
+  return { nodes, selected };
+}
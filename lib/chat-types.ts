@@ -0,0 +1,104 @@
+import type { FinishReason, TokenUsage } from "@/lib/providers/types";
+import type { GenerationSettings } from "@/lib/models";
+import type { ExtractionSchema, ExtractionResult } from "@/lib/extraction";
+import type { ComparisonDocuments, ComparisonResult } from "@/lib/comparison";
+import type { ContextSummary } from "@/lib/context";
+import type { ToolStep } from "@/lib/tools/types";
+import { treeFromMessages, type MessageTree, type TreeNode } from "@/lib/chat-tree";
+
+export interface Message extends TreeNode {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  // Why the assistant stopped; absent on messages saved before it was tracked
+  finishReason?: FinishReason;
+  safetyMessage?: string;
+  error?: string;
+  // The user stopped generation; content holds the partial answer
+  stopped?: boolean;
+  // User messages in extraction mode: the fields to extract
+  extractionSchema?: ExtractionSchema;
+  // Assistant answers to extraction requests: the (possibly edited) table
+  extraction?: ExtractionResult;
+  // User messages in compare mode: the documents labelled A and B
+  compareDocuments?: ComparisonDocuments;
+  // Assistant answers to compare requests: the clause-by-clause table
+  comparison?: ComparisonResult;
+  // Assistant answers: the tools the model called on the way, in order
+  toolSteps?: ToolStep[];
+  // Assistant answers: the model that wrote them, when, and the tokens it reported
+  model?: string;
+  createdAt?: number;
+  usage?: TokenUsage;
+  // Assistant answers written after older turns were summarized to fit the context budget
+  contextSummary?: ContextSummary;
+}
+
+export interface AttachedFile {
+  id: string;
+  name: string;
+  type: string;
+  // ID in the server upload store (see /api/uploads)
+  uploadId?: string;
+  // Original bytes, kept in IndexedDB to re-upload once the server copy expires
+  blob?: Blob;
+  // Inline contents as a data URL; only on attachments saved before uploads existed
+  base64?: string;
+  // Gemini Files API URI for uploaded video and audio
+  fileUri?: string;
+  // Byte size, when known without decoding base64
+  size?: number;
+}
+
+// A document in a chat's document set. Contents are stored in IndexedDB
+// (see attachment-store); the chat history only keeps this metadata.
+export interface ChatDocument {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  // Whether the document is sent with the next question
+  enabled: boolean;
+}
+
+// Colors a chat can be tagged with in the sidebar
+export const CHAT_TAG_COLORS = ["red", "orange", "yellow", "green", "blue", "purple"] as const;
+
+export type ChatTagColor = (typeof CHAT_TAG_COLORS)[number];
+
+// MIME type of a chat dragged onto a folder in the sidebar
+export const CHAT_DRAG_TYPE = "application/x-documind-chat";
+
+// A user-defined folder (project) chats can be filed into
+export interface ChatFolder {
+  id: string;
+  name: string;
+}
+
+export interface ChatHistory {
+  id: string;
+  title: string;
+  timestamp: number;
+  tree: MessageTree<Message>;
+  // Flat list written before conversations were branched; read once via getChatTree
+  messages?: Omit<Message, "parentId">[];
+  model?: string;
+  generationSettings?: GenerationSettings;
+  documents?: ChatDocument[];
+  // Set once the user renames the chat; the title is no longer taken from the first question
+  customTitle?: boolean;
+  // Listed above other chats in the sidebar
+  pinned?: boolean;
+  tags?: ChatTagColor[];
+  folderId?: string;
+  // Persona from the user's settings used for this chat's answers
+  personaId?: string;
+}
+
+// Sidebar actions on a chat; a title counts as a rename
+export type ChatMetaUpdate = Partial<Pick<ChatHistory, "title" | "pinned" | "tags" | "folderId">>;
+
+// The chat's message tree, upgrading chats saved as a flat list
+export function getChatTree(chat: ChatHistory): MessageTree<Message> {
+  return chat.tree ?? treeFromMessages(chat.messages ?? []);
+}
@@ -0,0 +1,37 @@
+// Page citations in model answers, e.g. "[p.12]", "[p.3-4]" or "[contract.pdf, p.12]".
+// They are rewritten to markdown links with a "#cite" href so ReactMarkdown hands
+// them to the link renderer, which draws them as clickable chips.
+
+export interface Citation {
+  page: number;
+  document?: string;
+}
+
+const CITATION_PATTERN = /\[(?:([^[\]\n]+?),\s*)?pp?\.\s?(\d+)(?:\s*[-–]\s*\d+)?\](?!\()/g;
+const CODE_PATTERN = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)/;
+const CITATION_HREF = "#cite";
+
+// Helper function to turn citations into links, leaving code untouched
+export function linkCitations(markdown: string): string {
+  return markdown
+    .split(CODE_PATTERN)
+    .map((segment, i) =>
+      i % 2 === 1
+        ? segment
+        : segment.replace(CITATION_PATTERN, (match, document: string | undefined, page: string) => {
+            const params = new URLSearchParams({ page });
+            if (document) params.set("doc", document.trim());
+            return `[${match.slice(1, -1)}](${CITATION_HREF}?${params})`;
+          })
+    )
+    .join("");
+}
+
+// Read a citation back from a link href; null for ordinary links
+export function parseCitationHref(href: string | undefined): Citation | null {
+  if (!href?.startsWith(`${CITATION_HREF}?`)) return null;
+  const params = new URLSearchParams(href.slice(CITATION_HREF.length + 1));
+  const page = Number(params.get("page"));
+  if (!Number.isInteger(page) || page < 1) return null;
+  return { page, document: params.get("doc") || undefined };
+}
@@ -0,0 +1,223 @@
+import type { ResponseSchema } from "@/lib/providers/types";
+
+// Document comparison: the user marks two of a chat's documents as A and B, the
+// model compares them clause by clause as JSON, and the result is shown as a
+// two-column diff table. Shared by the chat route (validation, parsing) and the UI.
+
+export type ChangeKind = "added" | "removed" | "changed" | "unchanged";
+
+export const CHANGE_KINDS: ChangeKind[] = ["added", "removed", "changed", "unchanged"];
+
+export const CHANGE_LABELS: Record<ChangeKind, string> = {
+  added: "Added in B",
+  removed: "Removed from A",
+  changed: "Changed",
+  unchanged: "Unchanged",
+};
+
+// The two documents a compare-mode question is about (chat document IDs and names)
+export interface ComparisonDocuments {
+  a: { id: string; name: string };
+  b: { id: string; name: string };
+}
+
+export interface ComparisonRow {
+  // Clause or topic, e.g. "Termination"
+  clause: string;
+  // What the clause says in each document; null when it is missing there
+  a: string | null;
+  b: string | null;
+  // "added" is only in B, "removed" only in A
+  change: ChangeKind;
+  // What the difference means in practice
+  note: string;
+  pageA: number | null;
+  pageB: number | null;
+}
+
+export interface ComparisonResult {
+  documents: ComparisonDocuments;
+  // A few sentences on the most important differences
+  summary: string;
+  rows: ComparisonRow[];
+  // Problems found while validating the model's output
+  warnings: string[];
+}
+
+const MAX_REF_LENGTH = 500;
+
+// Helper function to check the { a, b } file references sent with a compare request.
+// A reference is an upload ID, a Files API URI or, for older inline files, the file name.
+export function validateComparison(
+  input: unknown
+): { valid: true; refs: { a: string; b: string } } | { valid: false; error: string } {
+  const comparison = input as { a?: unknown; b?: unknown };
+  const isRef = (ref: unknown): ref is string => typeof ref === "string" && ref.length > 0 && ref.length <= MAX_REF_LENGTH;
+  if (!comparison || typeof comparison !== "object" || !isRef(comparison.a) || !isRef(comparison.b)) {
+    return { valid: false, error: "Comparison must name a document A and a document B" };
+  }
+  if (comparison.a === comparison.b) {
+    return { valid: false, error: "Documents A and B must be different documents" };
+  }
+  return { valid: true, refs: { a: comparison.a, b: comparison.b } };
+}
+
+// Response schema for JSON mode: { summary, rows: [ { clause, a, b, change, note, pageA, pageB } ] }
+export const COMPARISON_RESPONSE_SCHEMA: ResponseSchema = {
+  type: "object",
+  properties: {
+    summary: { type: "string", description: "The most important differences in two to four sentences" },
+    rows: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          clause: { type: "string", description: "Clause number and heading, or the topic" },
+          a: { type: "string", nullable: true, description: "What document A says; null if A has no such clause" },
+          b: { type: "string", nullable: true, description: "What document B says; null if B has no such clause" },
+          change: { type: "string", format: "enum", enum: CHANGE_KINDS },
+          note: { type: "string", description: "Practical effect of the difference; empty when unchanged" },
+          pageA: { type: "integer", nullable: true },
+          pageB: { type: "integer", nullable: true },
+        },
+        required: ["clause", "change"],
+      },
+    },
+  },
+  required: ["summary", "rows"],
+};
+
+// Helper function to put a file name in quotes without letting it break out of them
+const quoteName = (name: string) => `"${name.replace(/["\r\n]/g, " ").slice(0, 200)}"`;
+
+// Label sent before a document's contents, so the model knows which file is which
+export function documentLabel(name: string, label?: "A" | "B"): string {
+  return label ? `Document ${label}: ${quoteName(name)}` : `Document: ${quoteName(name)}`;
+}
+
+// Appended to the system prompt for compare requests
+export function comparisonInstruction(nameA: string, nameB: string): string {
+  return `You are comparing two documents the user labelled A and B. Document A is ${quoteName(nameA)} and document B is ${quoteName(nameB)}; each is sent after a line naming it.
+Return JSON of the form {"summary": "...", "rows": [...]} with one row per clause (or section, for documents without numbered clauses). Follow the order of document A, then add clauses that only appear in B where they fit.
+For each row:
+- clause: the clause number and heading, or a short topic
+- a, b: the relevant wording from each document, quoted exactly when short and closely paraphrased when long; null when that document has no such clause
+- change: "unchanged" when the meaning is the same, "changed" when it differs, "added" when only B has it, "removed" when only A has it
+- note: what the difference means in practice, e.g. who it favours; empty for unchanged clauses
+- pageA, pageB: the page the clause starts on in each document, or null
+Include unchanged clauses so the comparison is complete, but keep their text short. If the user's question names particular topics, cover those in most detail. Never invent wording that is not in the documents.`;
+}
+
+// Helper function to read a page number; anything else becomes null
+const readPage = (value: unknown) => (Number.isInteger(value) && (value as number) > 0 ? (value as number) : null);
+
+// Helper function to read a clause text; empty or missing becomes null
+const readText = (value: unknown) =>
+  value === null || value === undefined || String(value).trim() === "" ? null : String(value).trim();
+
+// Parse and validate the model's JSON output. Throws when it is not the expected
+// shape at all; rows with an unknown change kind are classified from their text.
+export function parseComparison(text: string): Omit<ComparisonResult, "documents"> {
+  // Some providers wrap JSON mode output in a code fence
+  const json = text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, "$1");
+
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The model did not return valid JSON");
+  }
+  if (!Array.isArray(data?.rows)) {
+    throw new Error('The model response has no "rows" list');
+  }
+
+  const warnings: string[] = [];
+  const rows = data.rows.map((item: any, i: number): ComparisonRow => {
+    const a = readText(item?.a);
+    const b = readText(item?.b);
+    let change = item?.change as ChangeKind;
+    if (!CHANGE_KINDS.includes(change)) {
+      change = a === null ? "added" : b === null ? "removed" : a === b ? "unchanged" : "changed";
+      warnings.push(`Row ${i + 1}: unknown change "${String(item?.change)}", shown as ${change}`);
+    }
+    return {
+      clause: readText(item?.clause) ?? `Clause ${i + 1}`,
+      a,
+      b,
+      change,
+      note: readText(item?.note) ?? "",
+      pageA: readPage(item?.pageA),
+      pageB: readPage(item?.pageB),
+    };
+  });
+
+  return { summary: typeof data.summary === "string" ? data.summary.trim() : "", rows, warnings };
+}
+
+// Number of rows of each change kind
+export function countChanges(rows: ComparisonRow[]): Record<ChangeKind, number> {
+  const counts = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  for (const row of rows) counts[row.change]++;
+  return counts;
+}
+
+export interface DiffSegment {
+  text: string;
+  // Only in this side of a changed clause
+  changed: boolean;
+}
+
+// Longer texts are shown without word highlighting (the diff is quadratic)
+const MAX_DIFF_WORDS = 400;
+
+// Word-level diff of a changed clause: each side split into segments, with the
+// words the other side lacks marked. Null when a side is missing or too long.
+export function diffWords(a: string, b: string): { a: DiffSegment[]; b: DiffSegment[] } | null {
+  const wordsA = a.match(/\S+\s*/g) || [];
+  const wordsB = b.match(/\S+\s*/g) || [];
+  if (wordsA.length > MAX_DIFF_WORDS || wordsB.length > MAX_DIFF_WORDS) return null;
+
+  // Longest common subsequence table, compared without trailing whitespace
+  const key = (word: string) => word.trim().toLowerCase();
+  const lcs = Array.from({ length: wordsA.length + 1 }, () => new Array<number>(wordsB.length + 1).fill(0));
+  for (let i = wordsA.length - 1; i >= 0; i--) {
+    for (let j = wordsB.length - 1; j >= 0; j--) {
+      lcs[i][j] = key(wordsA[i]) === key(wordsB[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segmentsA: DiffSegment[] = [];
+  const segmentsB: DiffSegment[] = [];
+  // Helper function to append a word, merging it into the previous segment of the same kind
+  const push = (segments: DiffSegment[], text: string, changed: boolean) => {
+    const last = segments[segments.length - 1];
+    if (last && last.changed === changed) last.text += text;
+    else segments.push({ text, changed });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < wordsA.length || j < wordsB.length) {
+    if (i < wordsA.length && j < wordsB.length && key(wordsA[i]) === key(wordsB[j])) {
+      push(segmentsA, wordsA[i++], false);
+      push(segmentsB, wordsB[j++], false);
+    } else if (j >= wordsB.length || (i < wordsA.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      push(segmentsA, wordsA[i++], true);
+    } else {
+      push(segmentsB, wordsB[j++], true);
+    }
+  }
+  return { a: segmentsA, b: segmentsB };
+}
+
+// The documents to compare: the chosen ones while they are still in the chat,
+// otherwise the first two candidates. Null with fewer than two documents.
+export function pickComparisonDocuments(
+  candidates: { id: string; name: string }[],
+  chosen: { a: string | null; b: string | null }
+): ComparisonDocuments | null {
+  const a = candidates.find((d) => d.id === chosen.a) ?? candidates[0];
+  const b =
+    candidates.find((d) => d.id === chosen.b && d.id !== a?.id) ?? candidates.find((d) => d.id !== a?.id);
+  return a && b ? { a: { id: a.id, name: a.name }, b: { id: b.id, name: b.name } } : null;
+}
@@ -0,0 +1,124 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import { dirname, join } from "path";
+
+// The app's SQLite database (CHAT_DB_PATH, default ./data/documind.db): chat
+// history and folders, prompt templates, accounts and sessions, and persistent
+// usage counters.
+
+const DB_PATH = process.env.CHAT_DB_PATH || join(process.cwd(), "data", "documind.db");
+
+// Each entry upgrades the schema by one version (tracked in PRAGMA user_version)
+const MIGRATIONS = [
+  `CREATE TABLE chats (
+     id TEXT PRIMARY KEY,
+     title TEXT NOT NULL,
+     timestamp INTEGER NOT NULL,
+     model TEXT,
+     generation_settings TEXT,
+     selected TEXT NOT NULL DEFAULT '{}'
+   );
+   CREATE TABLE messages (
+     chat_id TEXT NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+     id TEXT NOT NULL,
+     parent_id TEXT,
+     position INTEGER NOT NULL,
+     role TEXT NOT NULL,
+     content TEXT NOT NULL,
+     data TEXT NOT NULL DEFAULT '{}',
+     PRIMARY KEY (chat_id, id)
+   );
+   CREATE TABLE attachments (
+     chat_id TEXT NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+     id TEXT NOT NULL,
+     position INTEGER NOT NULL,
+     name TEXT NOT NULL,
+     type TEXT NOT NULL,
+     size INTEGER NOT NULL,
+     enabled INTEGER NOT NULL DEFAULT 1,
+     PRIMARY KEY (chat_id, id)
+   );
+   CREATE INDEX chats_timestamp ON chats(timestamp DESC);`,
+  // Accounts. Chats saved before sign-in existed belong to the "local" user,
+  // which is the only user when AUTH_DISABLED is set.
+  `CREATE TABLE users (
+     id TEXT PRIMARY KEY,
+     email TEXT NOT NULL UNIQUE,
+     password_hash TEXT,
+     created_at INTEGER NOT NULL
+   );
+   CREATE TABLE sessions (
+     token_hash TEXT PRIMARY KEY,
+     user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+     expires_at INTEGER NOT NULL
+   );
+   CREATE TABLE login_tokens (
+     token_hash TEXT PRIMARY KEY,
+     email TEXT NOT NULL,
+     expires_at INTEGER NOT NULL
+   );
+   CREATE TABLE usage_counters (
+     key TEXT PRIMARY KEY,
+     count INTEGER NOT NULL,
+     expires_at INTEGER NOT NULL
+   );
+   ALTER TABLE chats ADD COLUMN user_id TEXT NOT NULL DEFAULT 'local';
+   CREATE INDEX chats_user ON chats(user_id, timestamp DESC);`,
+  // Chat organization: renamed titles, pins, color tags and folders
+  `ALTER TABLE chats ADD COLUMN custom_title INTEGER NOT NULL DEFAULT 0;
+   ALTER TABLE chats ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0;
+   ALTER TABLE chats ADD COLUMN tags TEXT NOT NULL DEFAULT '[]';
+   ALTER TABLE chats ADD COLUMN folder_id TEXT;
+   CREATE TABLE folders (
+     user_id TEXT NOT NULL,
+     id TEXT NOT NULL,
+     position INTEGER NOT NULL,
+     name TEXT NOT NULL,
+     PRIMARY KEY (user_id, id)
+   );`,
+  // Persona chosen for a chat (personas themselves are user settings kept in the browser)
+  `ALTER TABLE chats ADD COLUMN persona_id TEXT;`,
+  // Prompt templates; shared ones are listed for every account
+  `CREATE TABLE prompt_templates (
+     id TEXT PRIMARY KEY,
+     user_id TEXT NOT NULL,
+     title TEXT NOT NULL,
+     description TEXT NOT NULL DEFAULT '',
+     icon TEXT NOT NULL,
+     body TEXT NOT NULL,
+     featured INTEGER NOT NULL DEFAULT 0,
+     shared INTEGER NOT NULL DEFAULT 0,
+     created_at INTEGER NOT NULL
+   );
+   CREATE INDEX prompt_templates_user ON prompt_templates(user_id, created_at);`,
+  // How a session was started (only email-link sessions may add a password), and
+  // the password a registration sets once its email link is opened
+  `ALTER TABLE sessions ADD COLUMN method TEXT NOT NULL DEFAULT 'password';
+   ALTER TABLE login_tokens ADD COLUMN password_hash TEXT;`,
+  // Registration links no longer carry a password; drop pending ones that do
+  `DELETE FROM login_tokens WHERE password_hash IS NOT NULL;
+   ALTER TABLE login_tokens DROP COLUMN password_hash;`,
+];
+
+// Reuse one connection across hot reloads in development
+const globalStore = globalThis as typeof globalThis & { documindDb?: Database.Database };
+
+export function getDb(): Database.Database {
+  if (globalStore.documindDb) return globalStore.documindDb;
+
+  if (DB_PATH !== ":memory:") mkdirSync(dirname(DB_PATH), { recursive: true });
+  const db = new Database(DB_PATH);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+
+  const version = db.pragma("user_version", { simple: true }) as number;
+  for (let v = version; v < MIGRATIONS.length; v++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[v]);
+      db.pragma(`user_version = ${v + 1}`);
+    })();
+  }
+
+  globalStore.documindDb = db;
+  return db;
+}
@@ -0,0 +1,214 @@
+import type { ResponseSchema } from "@/lib/providers/types";
+
+// Structured extraction: the user describes the fields of one record, the model
+// returns every matching record as JSON, and the result is shown as a table.
+// Shared by the chat route (schema validation, parsing) and the UI.
+
+export type FieldType = "string" | "number" | "integer" | "boolean" | "date";
+
+export const FIELD_TYPES: FieldType[] = ["string", "number", "integer", "boolean", "date"];
+
+export interface ExtractionField {
+  name: string;
+  type: FieldType;
+  description?: string;
+  required?: boolean;
+}
+
+export interface ExtractionSchema {
+  id: string;
+  name: string;
+  fields: ExtractionField[];
+}
+
+export type CellValue = string | number | boolean | null;
+export type ExtractionRow = Record<string, CellValue>;
+
+export interface ExtractionResult {
+  schema: ExtractionSchema;
+  rows: ExtractionRow[];
+  // Problems found while validating the model's output (missing or mistyped values)
+  warnings: string[];
+}
+
+export const MAX_FIELDS = 30;
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/;
+
+export const BUILTIN_SCHEMAS: ExtractionSchema[] = [
+  {
+    id: "invoice-line-items",
+    name: "Invoice line items",
+    fields: [
+      { name: "description", type: "string", required: true },
+      { name: "quantity", type: "number" },
+      { name: "unit_price", type: "number" },
+      { name: "amount", type: "number", required: true, description: "Line total" },
+      { name: "currency", type: "string", description: "ISO 4217 code, e.g. USD" },
+    ],
+  },
+  {
+    id: "contract-parties",
+    name: "Contract parties",
+    fields: [
+      { name: "name", type: "string", required: true },
+      { name: "role", type: "string", description: "e.g. Buyer, Seller, Licensor" },
+      { name: "address", type: "string" },
+      { name: "signatory", type: "string", description: "Person signing on the party's behalf" },
+    ],
+  },
+  {
+    id: "key-dates",
+    name: "Key dates & deadlines",
+    fields: [
+      { name: "event", type: "string", required: true },
+      { name: "date", type: "date", required: true },
+      { name: "page", type: "integer", description: "Page the date appears on" },
+    ],
+  },
+];
+
+// Helper function to check a schema sent by the client before it reaches the model
+export function validateSchema(
+  input: unknown
+): { valid: true; schema: ExtractionSchema } | { valid: false; error: string } {
+  const schema = input as ExtractionSchema;
+  if (!schema || typeof schema !== "object" || !Array.isArray(schema.fields)) {
+    return { valid: false, error: "Extraction schema must have a list of fields" };
+  }
+  if (schema.fields.length === 0 || schema.fields.length > MAX_FIELDS) {
+    return { valid: false, error: `Extraction schema must have between 1 and ${MAX_FIELDS} fields` };
+  }
+
+  const names = new Set<string>();
+  for (const field of schema.fields) {
+    if (typeof field?.name !== "string" || !FIELD_NAME_PATTERN.test(field.name)) {
+      return { valid: false, error: `Invalid field name: ${String(field?.name)} (use letters, digits and _)` };
+    }
+    if (names.has(field.name)) {
+      return { valid: false, error: `Duplicate field name: ${field.name}` };
+    }
+    if (!FIELD_TYPES.includes(field.type)) {
+      return { valid: false, error: `Invalid type for ${field.name}: ${String(field.type)}` };
+    }
+    names.add(field.name);
+  }
+
+  return {
+    valid: true,
+    schema: {
+      id: String(schema.id || "custom"),
+      name: String(schema.name || "Custom schema").slice(0, 100),
+      fields: schema.fields.map(({ name, type, description, required }) => ({
+        name,
+        type,
+        description: typeof description === "string" ? description.slice(0, 300) : undefined,
+        required: Boolean(required),
+      })),
+    },
+  };
+}
+
+// Response schema for JSON mode: { rows: [ { ...fields } ] }
+export function toResponseSchema(fields: ExtractionField[]): ResponseSchema {
+  const properties: Record<string, ResponseSchema> = {};
+  for (const field of fields) {
+    const description = [field.description, field.type === "date" ? "Date as YYYY-MM-DD" : ""]
+      .filter(Boolean)
+      .join(". ");
+    properties[field.name] = {
+      type: field.type === "date" ? "string" : field.type,
+      ...(description ? { description } : {}),
+      ...(field.required ? {} : { nullable: true }),
+    };
+  }
+
+  return {
+    type: "object",
+    properties: {
+      rows: {
+        type: "array",
+        items: {
+          type: "object",
+          properties,
+          required: fields.filter((f) => f.required).map((f) => f.name),
+        },
+      },
+    },
+    required: ["rows"],
+  };
+}
+
+// Appended to the system prompt for extraction requests
+export function extractionInstruction(schema: ExtractionSchema): string {
+  const fieldList = schema.fields
+    .map((f) => `- ${f.name} (${f.type}${f.required ? ", required" : ""})${f.description ? `: ${f.description}` : ""}`)
+    .join("\n");
+
+  return `You are extracting structured data ("${schema.name}") from the user's documents.
+Return JSON of the form {"rows": [...]} with one object per record found, using exactly these fields:
+${fieldList}
+Include every matching record in document order. Use null for values that are not present; never invent values. Numbers must not include currency symbols or thousands separators.`;
+}
+
+// Helper function to coerce one value to its field type; undefined means it could not be read
+function coerceValue(value: unknown, type: FieldType): CellValue | undefined {
+  if (value === null || value === undefined || value === "") return null;
+
+  switch (type) {
+    case "number":
+    case "integer": {
+      const number = typeof value === "number" ? value : Number(String(value).replace(/[^0-9.eE+-]/g, ""));
+      if (!Number.isFinite(number) || (typeof value !== "number" && !/\d/.test(String(value)))) return undefined;
+      return type === "integer" && !Number.isInteger(number) ? undefined : number;
+    }
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      if (/^(true|yes)$/i.test(String(value))) return true;
+      if (/^(false|no)$/i.test(String(value))) return false;
+      return undefined;
+    case "date":
+      return /^\d{4}-\d{2}-\d{2}/.test(String(value)) ? String(value).slice(0, 10) : undefined;
+    default:
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+  }
+}
+
+// Parse and validate the model's JSON output. Throws when it is not the expected
+// shape at all; individual bad values are kept as warnings so nothing is lost.
+export function parseExtraction(text: string, schema: ExtractionSchema): ExtractionResult {
+  // Some providers wrap JSON mode output in a code fence
+  const json = text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, "$1");
+
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The model did not return valid JSON");
+  }
+
+  const items = Array.isArray(data) ? data : data?.rows;
+  if (!Array.isArray(items)) {
+    throw new Error('The model response has no "rows" list');
+  }
+
+  const warnings: string[] = [];
+  const rows = items.map((item: any, i: number) => {
+    const row: ExtractionRow = {};
+    for (const field of schema.fields) {
+      const raw = item?.[field.name];
+      const value = coerceValue(raw, field.type);
+      if (value === undefined) {
+        warnings.push(`Row ${i + 1}: "${String(raw)}" is not a valid ${field.type} for ${field.name}`);
+        row[field.name] = typeof raw === "object" ? JSON.stringify(raw) : String(raw);
+      } else {
+        if (value === null && field.required) {
+          warnings.push(`Row ${i + 1}: missing ${field.name}`);
+        }
+        row[field.name] = value;
+      }
+    }
+    return row;
+  });
+
+  return { schema, rows, warnings };
+}
@@ -0,0 +1,156 @@
+// Client for the Gemini Files API resumable upload protocol. Media too large to
+// inline (video, audio) is uploaded once, processed by Google, and then
+// referenced from prompts by its file URI.
+//
+// GEMINI_FILES_BASE_URL points the client at another host, e.g. the local
+// stand-in server in scripts/gemini-files-stub.mjs.
+
+export interface GeminiFile {
+  // Resource name, e.g. "files/abc123"
+  name: string;
+  uri: string;
+  mimeType: string;
+  displayName?: string;
+  sizeBytes?: string;
+  state: "PROCESSING" | "ACTIVE" | "FAILED" | "STATE_UNSPECIFIED";
+  error?: { message?: string };
+}
+
+interface FilesClientOptions {
+  apiKey: string;
+  baseUrl?: string;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_BASE_URL = "https://generativelanguage.googleapis.com";
+// Upload chunks must be a multiple of 256KB
+const CHUNK_SIZE = 8 * 1024 * 1024;
+
+function baseUrlOf(options: FilesClientOptions): string {
+  return (options.baseUrl || process.env.GEMINI_FILES_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+}
+
+async function checkResponse(response: Response, action: string): Promise<Response> {
+  if (!response.ok) {
+    const details = await response.text().catch(() => "");
+    throw new Error(`Gemini Files API ${action} failed (${response.status}): ${details.slice(0, 300)}`);
+  }
+  return response;
+}
+
+// Upload a stream of `size` bytes in resumable chunks and return the created file
+export async function uploadFile(
+  body: ReadableStream<Uint8Array>,
+  file: { size: number; mimeType: string; displayName: string },
+  options: FilesClientOptions
+): Promise<GeminiFile> {
+  const baseUrl = baseUrlOf(options);
+
+  // 1. Start a resumable session
+  const start = await checkResponse(
+    await fetch(`${baseUrl}/upload/v1beta/files?key=${encodeURIComponent(options.apiKey)}`, {
+      method: "POST",
+      headers: {
+        "X-Goog-Upload-Protocol": "resumable",
+        "X-Goog-Upload-Command": "start",
+        "X-Goog-Upload-Header-Content-Length": String(file.size),
+        "X-Goog-Upload-Header-Content-Type": file.mimeType,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ file: { display_name: file.displayName } }),
+      signal: options.signal,
+    }),
+    "start"
+  );
+  const uploadUrl = start.headers.get("x-goog-upload-url");
+  if (!uploadUrl) {
+    throw new Error("Gemini Files API did not return an upload URL");
+  }
+
+  // 2. Send the bytes in fixed-size chunks, finalizing with the last one. Reads
+  // are collected as they arrive and copied into a chunk once it is full.
+  const reader = body.getReader();
+  let parts: Uint8Array[] = [];
+  let buffered = 0;
+  let offset = 0;
+  let streamDone = false;
+
+  while (true) {
+    while (!streamDone && buffered < CHUNK_SIZE) {
+      const { done, value } = await reader.read();
+      if (done) {
+        streamDone = true;
+      } else {
+        parts.push(value);
+        buffered += value.length;
+      }
+    }
+
+    // The read that crosses the chunk's end stays buffered as a view, not a copy
+    const chunk = new Uint8Array(Math.min(buffered, CHUNK_SIZE));
+    const rest: Uint8Array[] = [];
+    let filled = 0;
+    for (const part of parts) {
+      const take = Math.min(part.length, chunk.length - filled);
+      if (take > 0) chunk.set(take === part.length ? part : part.subarray(0, take), filled);
+      if (take < part.length) rest.push(part.subarray(take));
+      filled += take;
+    }
+    parts = rest;
+    buffered -= chunk.length;
+    const isLast = streamDone && buffered === 0;
+
+    const response = await checkResponse(
+      await fetch(uploadUrl, {
+        method: "POST",
+        headers: {
+          "Content-Length": String(chunk.length),
+          "X-Goog-Upload-Offset": String(offset),
+          "X-Goog-Upload-Command": isLast ? "upload, finalize" : "upload",
+        },
+        body: chunk,
+        signal: options.signal,
+      }),
+      "upload"
+    );
+    offset += chunk.length;
+
+    if (isLast) {
+      if (offset !== file.size) {
+        throw new Error(`Upload size mismatch: expected ${file.size} bytes, sent ${offset}`);
+      }
+      const { file: uploaded } = await response.json();
+      return uploaded as GeminiFile;
+    }
+  }
+}
+
+export async function getFile(name: string, options: FilesClientOptions): Promise<GeminiFile> {
+  const response = await checkResponse(
+    await fetch(`${baseUrlOf(options)}/v1beta/${name}?key=${encodeURIComponent(options.apiKey)}`, {
+      signal: options.signal,
+    }),
+    "get"
+  );
+  return (await response.json()) as GeminiFile;
+}
+
+// Poll until the file leaves PROCESSING; throws if processing fails or times out
+export async function waitForFileActive(
+  name: string,
+  options: FilesClientOptions & { pollIntervalMs?: number; timeoutMs?: number }
+): Promise<GeminiFile> {
+  const deadline = Date.now() + (options.timeoutMs ?? 5 * 60 * 1000);
+
+  while (true) {
+    const file = await getFile(name, options);
+    if (file.state === "ACTIVE") return file;
+    if (file.state === "FAILED") {
+      throw new Error(`Processing failed for ${file.displayName || name}: ${file.error?.message || "unknown error"}`);
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${file.displayName || name} to finish processing`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, options.pollIntervalMs ?? 2000));
+  }
+}
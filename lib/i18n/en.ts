@@ -0,0 +1,442 @@
+// English UI strings, the reference every other locale must cover.
+// {name} placeholders are filled in by translate().
+
+const en = {
+  // Shared
+  "common.cancel": "Cancel",
+  "common.undo": "Undo",
+  "common.close": "Close",
+
+  // Languages
+  "language.auto": "Same as the question",
+  "language.interface": "Same as the interface",
+
+  // Relative times in the chat list
+  "time.justNow": "Just now",
+  "time.minutesAgo": "{count}m ago",
+  "time.hoursAgo": "{count}h ago",
+  "time.daysAgo": "{count}d ago",
+
+  // Chat tag colors
+  "tag.red": "red",
+  "tag.orange": "orange",
+  "tag.yellow": "yellow",
+  "tag.green": "green",
+  "tag.blue": "blue",
+  "tag.purple": "purple",
+
+  // Sidebar
+  "sidebar.tagline": "Document Analyst",
+  "sidebar.newChat": "New Chat",
+  "sidebar.showTagged": "Show {color} chats",
+  "sidebar.clearFilter": "Clear filter",
+  "sidebar.pinned": "Pinned",
+  "sidebar.folders": "Folders",
+  "sidebar.newFolder": "New",
+  "sidebar.folderNamePlaceholder": "Folder name",
+  "sidebar.newFolderName": "New folder name",
+  "sidebar.foldersEmpty": "Create a folder to group chats by project.",
+  "sidebar.folderDeleted": "Deleted folder “{name}”",
+  "sidebar.folderChatsMoved.one": "{count} chat was moved back to Recent Chats.",
+  "sidebar.folderChatsMoved.other": "{count} chats were moved back to Recent Chats.",
+  "sidebar.recentChats": "Recent Chats",
+  "sidebar.clear": "Clear",
+  "sidebar.emptyTitle": "No chat history yet.",
+  "sidebar.emptyHint": "Start a new conversation!",
+  "sidebar.allFiled": "Every chat is pinned or in a folder.",
+  "sidebar.searchAll": "Search all {count} chats",
+  "sidebar.search": "Search chats",
+  "sidebar.import": "Import",
+  "sidebar.exportAll": "Export all",
+  "sidebar.usage": "Usage & costs",
+  "sidebar.settings": "Settings",
+  "sidebar.interfaceLanguage": "Language",
+  "sidebar.replyIn": "Reply in",
+  "sidebar.localAccount": "Local account",
+  "sidebar.signOut": "Sign out",
+  "sidebar.messagesToday": "Messages today",
+  "sidebar.tokensToday": "Tokens today",
+  "sidebar.resetsAt": "Resets at {time}",
+
+  // Chat
+  "chat.heroTitle": "Your Research Companion",
+  "chat.heroSubtitle": "Ready to uncover new insights from your documents?",
+  "chat.browseTemplates": "Browse all templates · or type / in the message box",
+  "chat.dropFiles": "Drop files here",
+  "chat.dropHint": "Supports images, PDFs, video and audio",
+  "chat.openSidebar": "Open sidebar",
+  "chat.thinking": "Thinking...",
+  "chat.saveAndSend": "Save & send",
+  "chat.extractLabel": "Extract · {schema}",
+  "chat.editAndResend": "Edit and resend",
+  "chat.regenerate": "Regenerate response",
+  "chat.extracting": "Extracting {schema}...",
+  "chat.comparing": "Comparing {a} with {b}...",
+  "chat.characters": "{count} characters",
+  "chat.previewFile": "Preview {name}",
+  "chat.removeFile": "Remove {name}",
+  "chat.uploadProgress": "Uploading file... {percent}%",
+  "chat.attachFile": "Attach file",
+  "chat.extractMode": "Extract data as a table",
+  "chat.compareMode": "Compare two documents",
+  "chat.placeholder": "Write your thoughts, or / for templates...",
+  "chat.placeholderExtract": "What should be extracted? (optional)",
+  "chat.placeholderCompare": "What should the comparison focus on? (optional)",
+  "chat.stop": "Stop generating",
+  "chat.send": "Send message",
+  "chat.composerHint": "Press Enter to send · / for templates · Drag & drop files anywhere",
+  "chat.openUsage": "Open usage dashboard",
+  "chat.chatTokens": "This chat: {tokens} tokens",
+  // Sent as the question when extract or compare mode is used without one
+  "chat.extractQuestion": "Extract all {schema} from the documents",
+  "chat.compareQuestion": "Compare {a} (A) with {b} (B)",
+  "chat.toolStopped": "Stopped",
+  "chat.errorReply": "Sorry, something went wrong. Please try again later.",
+  "chat.errorPrefix": "Error: {message}",
+  "chat.clearConfirm": "Are you sure you want to clear all chat history?",
+  // Title of a chat whose first message has no text
+  "chat.defaultTitle": "New Chat",
+
+  // Answers
+  "answer.copyCode": "Copy code",
+  "answer.copy": "Copy",
+  "answer.copied": "Copied",
+  "answer.diagramFailed": "This diagram could not be drawn.",
+  "answer.chartFailed": "This chart could not be drawn: {error}",
+  "answer.openCitation": "Open {document} at page {page}",
+  "answer.citedDocument": "the document",
+
+  // Charts in answers
+  "chart.showTable": "Show data table",
+  "chart.showChart": "Show chart",
+  "chart.data": "Data",
+  "chart.chart": "Chart",
+
+  // Generation settings
+  "generation.temperature": "Temperature",
+  "generation.topP": "Top P",
+  "generation.maxOutputTokens": "Max tokens",
+
+  // Messages
+  "message.previousVersion": "Previous version",
+  "message.nextVersion": "Next version",
+  "message.safetyBlocked": "The response was blocked by the model's safety filters.",
+  "message.stopped": "Stopped",
+  "message.cutOff": "Response cut off at the maximum output length. Raise “{setting}” to get longer answers.",
+  "message.summarized.one": "{count} earlier message summarized for the model",
+  "message.summarized.other": "{count} earlier messages summarized for the model",
+  "message.summaryHeading": "Summary sent in place of the messages above",
+  "message.usageIn": "{count} in",
+  "message.usageOut": "{count} out",
+  "message.usageThinking": "{count} thinking",
+  "message.promptTokens": "{count} prompt tokens",
+  "message.outputTokens": "{count} output tokens",
+  "message.thinkingTokens": "{count} thinking tokens",
+  "message.costAtPrices": "{cost} at current prices",
+  "message.noPrice": "No price set for this model",
+
+  // Chat documents
+  "documents.heading": "Documents in this chat · {enabled} of {total} included in the next question",
+  "documents.exclude": "Exclude from the next question",
+  "documents.include": "Include in the next question",
+  "documents.remove": "Remove {name} from this chat",
+
+  // Models
+  "model.heading": "Model",
+  "model.description.flash": "Fast and capable, best for most documents",
+  "model.description.pro": "Deepest reasoning for complex analysis",
+  "model.description.flashLite": "Lowest latency and cost",
+  "model.description.flash20": "Previous generation, widely available",
+  "model.advanced": "Advanced settings",
+  "model.resetSettings": "Reset to defaults",
+
+  // Personas
+  "persona.pickerTitle": "Persona for this chat",
+  "persona.none": "No persona",
+  "persona.manage": "Manage personas",
+
+  // Settings dialog
+  "settings.title": "Settings",
+  "settings.newChats": "New chats",
+  "settings.defaultModel": "Default model",
+  "settings.defaultPersona": "Default persona",
+  "settings.answers": "Answers",
+  "settings.responseLanguage": "Response language",
+  "settings.personas": "Personas",
+  "settings.addPersona": "Add persona",
+  "settings.personasHint": "A persona is extra instructions for the model, chosen per chat above the message box. They add to the built-in instructions and cannot turn off document grounding or citations.",
+  "settings.personaName": "Persona name",
+  "settings.personaNamePlaceholder": "Name, e.g. Contract lawyer",
+  "settings.deletePersona": "Delete persona {name}",
+  "settings.personaInstructions": "Persona instructions",
+  "settings.personaInstructionsPlaceholder": "How should the model read documents and answer?",
+  "settings.personaIncomplete": "Needs a name and instructions",
+  "settings.noPersonas": "No personas yet.",
+  "settings.account": "Account",
+  "settings.addPasswordHint": "You signed in with an email link. Add a password to also sign in with email and password.",
+  "settings.newPassword": "New password",
+  "settings.addPassword": "Add password",
+  "settings.export": "Export",
+  "settings.import": "Import",
+  "settings.reset": "Reset to defaults",
+  "settings.resetConfirm": "Reset all settings, including your personas, to the defaults?",
+
+  // Sign-in
+  "signIn.subtitle": "Sign in to analyze your documents",
+  "signIn.emailLink": "Email link",
+  "signIn.password": "Password",
+  "signIn.linkExpired": "That sign-in link has expired or was already used. Request a new one.",
+  "signIn.sentForRegistration": "To finish creating your account, open the link we sent to",
+  "signIn.sent": "We sent a sign-in link to",
+  "signIn.addPasswordLater": "Once you are signed in, add a password under Settings.",
+  "signIn.linkValidity": "The link works once and expires in 15 minutes.",
+  "signIn.differentEmail": "Use a different email",
+  "signIn.sendLink": "Email me a sign-in link",
+  "signIn.sendConfirmation": "Email me a confirmation link",
+  "signIn.submit": "Sign in",
+  "signIn.haveAccount": "Already have an account?",
+  "signIn.newHere": "New here?",
+  "signIn.createAccount": "Create an account",
+  // The page an emailed link opens; its button spends the link
+  "signIn.confirmTitle": "Sign in to DocuMind AI",
+  "signIn.confirmText": "Continue to DocuMind AI with this email link.",
+
+  // Chat history
+  "history.title": "Chat history",
+  "history.count.one": "{count} chat",
+  "history.count.other": "{count} chats",
+  "history.matchCount": "{count} of {total} chats",
+  "history.searchPlaceholder": "Search titles and messages",
+  "history.clearSearch": "Clear search",
+  "history.noMatches": "No chats match “{query}”.",
+  "history.you": "You: ",
+  "history.assistant": "Documind: ",
+  "history.moreMatches.one": "{count} more matching message",
+  "history.moreMatches.other": "{count} more matching messages",
+  // Date groups
+  "history.today": "Today",
+  "history.yesterday": "Yesterday",
+  "history.last7Days": "Last 7 days",
+  "history.last30Days": "Last 30 days",
+
+  // Chat list
+  "chatItem.title": "Chat title",
+  "chatItem.options": "Chat options",
+  "chatItem.rename": "Rename",
+  "chatItem.pin": "Pin to top",
+  "chatItem.unpin": "Unpin",
+  "chatItem.colorTags": "Color tags",
+  "chatItem.addTag": "Add {color} tag",
+  "chatItem.removeTag": "Remove {color} tag",
+  "chatItem.moveToFolder": "Move to folder",
+  "chatItem.removeFromFolder": "Remove from folder",
+  "chatItem.delete": "Delete",
+  // Folders
+  "folder.name": "Folder name",
+  "folder.rename": "Rename folder {name}",
+  "folder.delete": "Delete folder {name}",
+  "folder.empty": "Drag chats here",
+
+  // Prompt templates
+  "templates.title": "Prompt templates",
+  "templates.new": "New template",
+  "templates.fieldTitle": "Title",
+  "templates.titlePlaceholder": "e.g. Compare two reports",
+  "templates.fieldDescription": "Description",
+  "templates.descriptionPlaceholder": "Shown under the title",
+  "templates.fieldIcon": "Icon",
+  "templates.fieldPrompt": "Prompt",
+  "templates.promptPlaceholder": "Summarize the {{section}} section in {{language|English}}.",
+  "templates.variablesHint": "Write {variable} for a value asked for when the template is used, or {withDefault} to suggest one.",
+  "templates.variablesList": "Variables: {names}.",
+  "templates.featured": "Show as a card when starting a new chat",
+  "templates.shareAll": "Share with everyone on this server",
+  "templates.save": "Save template",
+  "templates.search": "Search templates",
+  "templates.use": "Use this template",
+  "templates.sharedSuffix": "shared",
+  "templates.edit": "Edit template {title}",
+  "templates.delete": "Delete template {title}",
+  "templates.deleteConfirm": "Delete the template “{title}”?",
+  "templates.copy": "Copy template {title}",
+  "templates.copyTitle": "Make an editable copy",
+  "templates.copyName": "{title} (copy)",
+  "templates.noMatches": "No templates match.",
+  "templates.paletteHint": "↑↓ to choose · Enter to use · Esc to close",
+  "templates.manage": "Manage templates",
+  // Where a template comes from
+  "templates.source.builtin": "Built-in",
+  "templates.source.own": "Yours",
+  "templates.source.shared": "Shared with you",
+  // Template icons, read out by screen readers
+  "templates.icon.file-text": "Document",
+  "templates.icon.bar-chart": "Chart",
+  "templates.icon.video": "Video",
+  "templates.icon.languages": "Languages",
+  "templates.icon.sparkles": "Sparkles",
+  "templates.icon.list-checks": "Checklist",
+  "templates.icon.scale": "Scales",
+  "templates.icon.search": "Search",
+  "templates.icon.table": "Table",
+  "templates.icon.mail": "Mail",
+
+  // Usage dashboard
+  "usage.title": "Usage",
+  "usage.range.week": "7 days",
+  "usage.range.month": "30 days",
+  "usage.range.all": "All time",
+  "usage.cost": "Cost",
+  "usage.replies": "Replies",
+  "usage.promptTokens": "Prompt tokens",
+  "usage.outputTokens": "Output tokens",
+  "usage.empty": "No usage recorded in this period. Token counts are kept for replies from now on.",
+  "usage.byDay": "By day",
+  "usage.byModel": "By model",
+  "usage.model": "Model",
+  "usage.prompt": "Prompt",
+  "usage.output": "Output",
+  "usage.thinking": "Thinking",
+  "usage.prices": "Prices (USD per 1M tokens)",
+  "usage.resetPrices": "Reset",
+  "usage.input": "Input",
+  "usage.pricesHint": "Thinking tokens are billed at the output price. Costs are estimates from the token counts each reply reported.",
+
+  // Document preview
+  "preview.label": "Preview of {name}",
+  "preview.page": "p.{page}",
+  "preview.cited": "Cited · p.{page}",
+  "preview.openFailed": "This PDF could not be opened.",
+  "preview.close": "Close preview",
+  "preview.pageMissing": "Page {page} is not in this document ({count} pages).",
+  "preview.media": "Video and audio are stored with Gemini and cannot be previewed here.",
+  "preview.notStored": "This file is no longer stored in this browser.",
+  "preview.unsupported": "Preview is not available for this file type.",
+
+  // Chat export
+  "export.title": "Export chat",
+  "export.markdown": "Markdown",
+  "export.json": "JSON (re-importable)",
+  "export.html": "HTML report",
+  "export.print": "Print / Save as PDF",
+
+  // Extraction
+  "extraction.extract": "Extract",
+  "extraction.unsaved": "{name} (unsaved)",
+  "extraction.builtIn": "Built-in",
+  "extraction.saved": "Saved",
+  "extraction.fields.one": "{count} field",
+  "extraction.fields.other": "{count} fields",
+  "extraction.schemaName": "Schema name",
+  "extraction.fieldName": "Field name",
+  "extraction.fieldType": "Field type",
+  "extraction.fieldDescription": "Field description",
+  "extraction.descriptionPlaceholder": "Description (optional)",
+  "extraction.required": "Required",
+  "extraction.removeField": "Remove {name}",
+  "extraction.addField": "Add field",
+  "extraction.saveChanges": "Save changes",
+  "extraction.saveAsNew": "Save as new schema",
+  "extraction.deleteSchema": "Delete schema",
+  // Name of an edited built-in schema saved as a custom one
+  "extraction.customName": "{name} (custom)",
+  "extraction.rows.one": "{count} row",
+  "extraction.rows.other": "{count} rows",
+  "extraction.yes": "Yes",
+  "extraction.no": "No",
+  "extraction.empty": "No matching records were found.",
+  "extraction.deleteRow": "Delete row {row}",
+  "extraction.addRow": "Add row",
+  "extraction.review.one": "{count} value needs review",
+  "extraction.review.other": "{count} values need review",
+
+  // Comparison
+  "compare.attachTwo": "Attach two documents (PDFs or images) to compare them clause by clause.",
+  "compare.documentA": "Document A",
+  "compare.documentB": "Document B",
+  "compare.swap": "Swap A and B",
+  "compare.versus": "vs",
+  "compare.report": "Report",
+  "compare.changesOnly": "Changes only",
+  "compare.clause": "Clause",
+  "compare.notIn": "Not in {side}",
+  "compare.page": "{side} p.{page}",
+  "compare.noClauses": "No clauses were compared.",
+  "compare.noDifferences": "The documents have no differences.",
+  "compare.review.one": "{count} row needs review",
+  "compare.review.other": "{count} rows need review",
+  "compare.kind.added": "added",
+  "compare.kind.removed": "removed",
+  "compare.kind.changed": "changed",
+  "compare.kind.unchanged": "unchanged",
+  "compare.change.added": "Added in B",
+  "compare.change.removed": "Removed from A",
+  "compare.change.changed": "Changed",
+  "compare.change.unchanged": "Unchanged",
+
+  // Tool steps
+  "tool.steps": "Tool steps",
+  "tool.error": "Tool error",
+  "tool.input": "Input",
+  "tool.result": "Result",
+  "tool.failed": "Error",
+  "tool.name.calculator": "Calculator",
+  "tool.name.date_calculator": "Date calculator",
+  "tool.name.convert_units": "Unit conversion",
+  "tool.name.table_to_csv": "Table to CSV",
+  "tool.name.search_documents": "Document search",
+  "tool.days.one": "{count} day",
+  "tool.days.other": "{count} days",
+  "tool.rows.one": "{count} row",
+  "tool.rows.other": "{count} rows",
+  "tool.passages.one": "{count} passage",
+  "tool.passages.other": "{count} passages",
+  "tool.buildingCsv": "Building CSV",
+
+  // Template variables
+  "templateForm.cancel": "Cancel template",
+  "templateForm.enter": "Enter {name}",
+  "templateForm.insert": "Insert",
+
+  // Toasts
+  "toast.imported.one": "Imported {count} chat",
+  "toast.imported.other": "Imported {count} chats",
+  "toast.importRenamed": "{count} kept alongside existing chats with the same ID",
+  "toast.importSkipped": "{count} already present",
+  "toast.importHint": "Attach the documents again to ask follow-up questions.",
+  "toast.importFailed": "Failed to import chats",
+  "toast.chatDeleted": "Deleted “{title}”",
+  "toast.clearRemoteFailed": "Could not clear chats on the server",
+  "toast.historyCleared": "History cleared successfully",
+  "toast.fileTooLarge": "File too large: {name} (Max {max})",
+  "toast.uploading": "Uploading {name}...",
+  "toast.processing": "Processing {name}...",
+  "toast.processingHint": "Long recordings can take a few minutes",
+  "toast.fileAttached": "File attached: {name}",
+  "toast.fileReady": "Ready for analysis",
+  "toast.fileFailed": "Failed to process {name}",
+  "toast.documentsSkipped": "Some documents are no longer stored in this browser and were skipped",
+  "toast.compareNeedsTwo": "Attach two documents to compare",
+  "toast.storeAttachmentsFailed": "Could not store attachments in this browser",
+  "toast.citedDocumentMissing": "The cited document is no longer in this chat",
+  "toast.documentNotStored": "{name} is no longer stored in this browser",
+  "toast.citationFailed": "Failed to open the cited document",
+  "toast.printBlocked": "Allow pop-ups to print the report",
+  "toast.exportFailed": "Failed to export this chat",
+  "toast.settingsImported": "Settings imported",
+  "toast.settingsImportFailed": "Failed to import settings",
+  "toast.schemaSaved": "Saved \"{name}\"",
+  "toast.templateSaveFailed": "Could not save the template",
+  "toast.templateDeleteFailed": "Could not delete the template",
+  "toast.signInFailed": "Sign-in failed",
+  "toast.passwordAdded": "Password added",
+  "toast.passwordFailed": "Could not add the password",
+  "toast.copyFailed": "Could not copy to the clipboard",
+  "toast.chartPngFailed": "Could not save the chart as PNG",
+  "toast.sessionEnded": "Your session has ended",
+  "toast.sessionEndedHint": "Sign in again to keep chatting.",
+  "toast.signIn": "Sign in",
+  "toast.tooManyRequests": "Too many requests",
+  "toast.resetsAt": "Resets at {time}.",
+};
+
+export default en;
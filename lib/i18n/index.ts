@@ -0,0 +1,48 @@
+import en from "./en";
+import zhCN from "./zh-CN";
+
+// UI translations. The locale lives in a cookie so the server renders the first
+// page in it; components read strings through useI18n() (components/i18n-provider).
+// The language answers are written in is a separate setting (lib/settings).
+
+export type Locale = "en" | "zh-CN";
+
+export type MessageKey = keyof typeof en;
+
+export type TranslationVars = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, vars?: TranslationVars) => string;
+
+// `language` is the name the chat route's reply-language instruction uses
+export const LOCALES: { id: Locale; label: string; language: string }[] = [
+  { id: "en", label: "English", language: "English" },
+  { id: "zh-CN", label: "简体中文", language: "Simplified Chinese" },
+];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const LOCALE_COOKIE = "documind_locale";
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { en, "zh-CN": zhCN };
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some((l) => l.id === value);
+}
+
+// Pick the UI locale for a request: the saved cookie, else the first supported
+// language in the browser's Accept-Language header, else English
+export function resolveLocale(cookie: string | undefined, acceptLanguage: string | null): Locale {
+  if (isLocale(cookie)) return cookie;
+  for (const entry of (acceptLanguage || "").split(",")) {
+    const primary = entry.split(";")[0].trim().toLowerCase().split("-")[0];
+    if (primary === "zh") return "zh-CN";
+    if (primary === "en") return "en";
+  }
+  return DEFAULT_LOCALE;
+}
+
+// Look up a string and fill in its {name} placeholders
+export function translate(locale: Locale, key: MessageKey, vars?: TranslationVars): string {
+  const template = MESSAGES[locale][key] ?? en[key];
+  return vars ? template.replace(/\{(\w+)\}/g, (match, name: string) => (name in vars ? String(vars[name]) : match)) : template;
+}
@@ -0,0 +1,443 @@
+import type en from "./en";
+
+// Simplified Chinese UI strings
+
+const zhCN: Record<keyof typeof en, string> = {
+  // Shared
+  "common.cancel": "取消",
+  "common.undo": "撤销",
+  "common.close": "关闭",
+
+  // Languages
+  "language.auto": "与提问语言相同",
+  "language.interface": "与界面语言相同",
+
+  // Relative times in the chat list
+  "time.justNow": "刚刚",
+  "time.minutesAgo": "{count} 分钟前",
+  "time.hoursAgo": "{count} 小时前",
+  "time.daysAgo": "{count} 天前",
+
+  // Chat tag colors
+  "tag.red": "红色",
+  "tag.orange": "橙色",
+  "tag.yellow": "黄色",
+  "tag.green": "绿色",
+  "tag.blue": "蓝色",
+  "tag.purple": "紫色",
+
+  // Sidebar
+  "sidebar.tagline": "文档分析助手",
+  "sidebar.newChat": "新对话",
+  "sidebar.showTagged": "显示{color}标签的对话",
+  "sidebar.clearFilter": "清除筛选",
+  "sidebar.pinned": "已置顶",
+  "sidebar.folders": "文件夹",
+  "sidebar.newFolder": "新建",
+  "sidebar.folderNamePlaceholder": "文件夹名称",
+  "sidebar.newFolderName": "新文件夹名称",
+  "sidebar.foldersEmpty": "创建文件夹，按项目整理对话。",
+  "sidebar.folderDeleted": "已删除文件夹“{name}”",
+  "sidebar.folderChatsMoved.one": "{count} 个对话已移回最近对话。",
+  "sidebar.folderChatsMoved.other": "{count} 个对话已移回最近对话。",
+  "sidebar.recentChats": "最近对话",
+  "sidebar.clear": "清空",
+  "sidebar.emptyTitle": "还没有对话记录。",
+  "sidebar.emptyHint": "开始一段新对话吧！",
+  "sidebar.allFiled": "所有对话都已置顶或归入文件夹。",
+  "sidebar.searchAll": "搜索全部 {count} 个对话",
+  "sidebar.search": "搜索对话",
+  "sidebar.import": "导入",
+  "sidebar.exportAll": "全部导出",
+  "sidebar.usage": "用量与费用",
+  "sidebar.settings": "设置",
+  "sidebar.interfaceLanguage": "界面语言",
+  "sidebar.replyIn": "回答语言",
+  "sidebar.localAccount": "本地账户",
+  "sidebar.signOut": "退出登录",
+  "sidebar.messagesToday": "今日消息",
+  "sidebar.tokensToday": "今日 Token",
+  "sidebar.resetsAt": "{time} 重置",
+
+  // Chat
+  "chat.heroTitle": "你的研究伙伴",
+  "chat.heroSubtitle": "准备好从文档中发现新见解了吗？",
+  "chat.browseTemplates": "浏览全部模板 · 或在输入框中输入 /",
+  "chat.dropFiles": "将文件拖放到这里",
+  "chat.dropHint": "支持图片、PDF、视频和音频",
+  "chat.openSidebar": "打开侧边栏",
+  "chat.thinking": "思考中...",
+  "chat.saveAndSend": "保存并发送",
+  "chat.extractLabel": "提取 · {schema}",
+  "chat.editAndResend": "编辑并重新发送",
+  "chat.regenerate": "重新生成回答",
+  "chat.extracting": "正在提取{schema}...",
+  "chat.comparing": "正在比较 {a} 和 {b}...",
+  "chat.characters": "{count} 个字符",
+  "chat.previewFile": "预览 {name}",
+  "chat.removeFile": "移除 {name}",
+  "chat.uploadProgress": "正在上传文件... {percent}%",
+  "chat.attachFile": "添加附件",
+  "chat.extractMode": "将数据提取为表格",
+  "chat.compareMode": "比较两份文档",
+  "chat.placeholder": "写下你的想法，或输入 / 使用模板...",
+  "chat.placeholderExtract": "需要提取什么？（可选）",
+  "chat.placeholderCompare": "比较应侧重哪些方面？（可选）",
+  "chat.stop": "停止生成",
+  "chat.send": "发送消息",
+  "chat.composerHint": "按 Enter 发送 · 输入 / 使用模板 · 可将文件拖放到任意位置",
+  "chat.openUsage": "打开用量面板",
+  "chat.chatTokens": "本对话：{tokens} Token",
+  // Sent as the question when extract or compare mode is used without one
+  "chat.extractQuestion": "从文档中提取所有{schema}",
+  "chat.compareQuestion": "比较 {a}（A）与 {b}（B）",
+  "chat.toolStopped": "已停止",
+  "chat.errorReply": "抱歉，发生了错误。请稍后再试。",
+  "chat.errorPrefix": "错误：{message}",
+  "chat.clearConfirm": "确定要清空所有对话记录吗？",
+  // Title of a chat whose first message has no text
+  "chat.defaultTitle": "新对话",
+
+  // Answers
+  "answer.copyCode": "复制代码",
+  "answer.copy": "复制",
+  "answer.copied": "已复制",
+  "answer.diagramFailed": "无法绘制此示意图。",
+  "answer.chartFailed": "无法绘制此图表：{error}",
+  "answer.openCitation": "打开{document}第 {page} 页",
+  "answer.citedDocument": "该文档",
+
+  // Charts in answers
+  "chart.showTable": "显示数据表",
+  "chart.showChart": "显示图表",
+  "chart.data": "数据",
+  "chart.chart": "图表",
+
+  // Generation settings
+  "generation.temperature": "温度",
+  "generation.topP": "Top P",
+  "generation.maxOutputTokens": "最大 token 数",
+
+  // Messages
+  "message.previousVersion": "上一个版本",
+  "message.nextVersion": "下一个版本",
+  "message.safetyBlocked": "该回复被模型的安全过滤器拦截。",
+  "message.stopped": "已停止",
+  "message.cutOff": "回复达到最大输出长度，已被截断。调高“{setting}”可获得更长的回答。",
+  "message.summarized.one": "已为模型总结之前的 {count} 条消息",
+  "message.summarized.other": "已为模型总结之前的 {count} 条消息",
+  "message.summaryHeading": "代替以上消息发送的摘要",
+  "message.usageIn": "输入 {count}",
+  "message.usageOut": "输出 {count}",
+  "message.usageThinking": "思考 {count}",
+  "message.promptTokens": "提示 {count} token",
+  "message.outputTokens": "输出 {count} token",
+  "message.thinkingTokens": "思考 {count} token",
+  "message.costAtPrices": "按当前价格计 {cost}",
+  "message.noPrice": "尚未为此模型设置价格",
+
+  // Chat documents
+  "documents.heading": "本对话中的文档 · 下一个问题将包含其中 {enabled} 个（共 {total} 个）",
+  "documents.exclude": "不包含在下一个问题中",
+  "documents.include": "包含在下一个问题中",
+  "documents.remove": "从本对话中移除 {name}",
+
+  // Models
+  "model.heading": "模型",
+  "model.description.flash": "快速且强大，适合大多数文档",
+  "model.description.pro": "推理最深入，适合复杂分析",
+  "model.description.flashLite": "延迟和成本最低",
+  "model.description.flash20": "上一代模型，可用范围广",
+  "model.advanced": "高级设置",
+  "model.resetSettings": "恢复默认值",
+
+  // Personas
+  "persona.pickerTitle": "本对话使用的角色",
+  "persona.none": "不使用角色",
+  "persona.manage": "管理角色",
+
+  // Settings dialog
+  "settings.title": "设置",
+  "settings.newChats": "新对话",
+  "settings.defaultModel": "默认模型",
+  "settings.defaultPersona": "默认角色",
+  "settings.answers": "回答",
+  "settings.responseLanguage": "回答语言",
+  "settings.personas": "角色",
+  "settings.addPersona": "添加角色",
+  "settings.personasHint": "角色是给模型的额外指令，可在消息框上方为每个对话单独选择。角色只会补充内置指令，无法关闭基于文档的回答或引用。",
+  "settings.personaName": "角色名称",
+  "settings.personaNamePlaceholder": "名称，例如：合同律师",
+  "settings.deletePersona": "删除角色 {name}",
+  "settings.personaInstructions": "角色指令",
+  "settings.personaInstructionsPlaceholder": "模型应如何阅读文档并作答？",
+  "settings.personaIncomplete": "需要填写名称和指令",
+  "settings.noPersonas": "还没有角色。",
+  "settings.account": "账户",
+  "settings.addPasswordHint": "你是通过邮件链接登录的。添加密码后，也可以用邮箱和密码登录。",
+  "settings.newPassword": "新密码",
+  "settings.addPassword": "添加密码",
+  "settings.export": "导出",
+  "settings.import": "导入",
+  "settings.reset": "恢复默认设置",
+  "settings.resetConfirm": "要将所有设置（包括你的角色）恢复为默认值吗？",
+
+  // Sign-in
+  "signIn.subtitle": "登录以分析你的文档",
+  "signIn.emailLink": "邮件链接",
+  "signIn.password": "密码",
+  "signIn.linkExpired": "该登录链接已过期或已被使用，请重新获取。",
+  "signIn.sentForRegistration": "请打开我们发送到以下邮箱的链接，以完成账户创建：",
+  "signIn.sent": "我们已将登录链接发送到：",
+  "signIn.addPasswordLater": "登录后，可在“设置”中添加密码。",
+  "signIn.linkValidity": "该链接只能使用一次，15 分钟后失效。",
+  "signIn.differentEmail": "使用其他邮箱",
+  "signIn.sendLink": "给我发送登录链接",
+  "signIn.sendConfirmation": "给我发送确认链接",
+  "signIn.submit": "登录",
+  "signIn.haveAccount": "已有账户？",
+  "signIn.newHere": "第一次使用？",
+  "signIn.createAccount": "创建账户",
+  // The page an emailed link opens; its button spends the link
+  "signIn.confirmTitle": "登录 DocuMind AI",
+  "signIn.confirmText": "使用此邮件链接继续登录 DocuMind AI。",
+
+  // Chat history
+  "history.title": "对话历史",
+  "history.count.one": "{count} 个对话",
+  "history.count.other": "{count} 个对话",
+  "history.matchCount": "{total} 个对话中的 {count} 个",
+  "history.searchPlaceholder": "搜索标题和消息",
+  "history.clearSearch": "清除搜索",
+  "history.noMatches": "没有与“{query}”匹配的对话。",
+  "history.you": "你：",
+  "history.assistant": "Documind：",
+  "history.moreMatches.one": "还有 {count} 条匹配的消息",
+  "history.moreMatches.other": "还有 {count} 条匹配的消息",
+  // Date groups
+  "history.today": "今天",
+  "history.yesterday": "昨天",
+  "history.last7Days": "过去 7 天",
+  "history.last30Days": "过去 30 天",
+
+  // Chat list
+  "chatItem.title": "对话标题",
+  "chatItem.options": "对话选项",
+  "chatItem.rename": "重命名",
+  "chatItem.pin": "置顶",
+  "chatItem.unpin": "取消置顶",
+  "chatItem.colorTags": "颜色标签",
+  "chatItem.addTag": "添加{color}标签",
+  "chatItem.removeTag": "移除{color}标签",
+  "chatItem.moveToFolder": "移到文件夹",
+  "chatItem.removeFromFolder": "移出文件夹",
+  "chatItem.delete": "删除",
+  // Folders
+  "folder.name": "文件夹名称",
+  "folder.rename": "重命名文件夹 {name}",
+  "folder.delete": "删除文件夹 {name}",
+  "folder.empty": "将对话拖到这里",
+
+  // Prompt templates
+  "templates.title": "提示词模板",
+  "templates.new": "新建模板",
+  "templates.fieldTitle": "标题",
+  "templates.titlePlaceholder": "例如：比较两份报告",
+  "templates.fieldDescription": "描述",
+  "templates.descriptionPlaceholder": "显示在标题下方",
+  "templates.fieldIcon": "图标",
+  "templates.fieldPrompt": "提示词",
+  "templates.promptPlaceholder": "用{{language|中文}}总结{{section}}部分。",
+  "templates.variablesHint": "写 {variable} 表示使用模板时需要填写的值，写 {withDefault} 可提供建议值。",
+  "templates.variablesList": "变量：{names}。",
+  "templates.featured": "开始新对话时显示为卡片",
+  "templates.shareAll": "与此服务器上的所有人共享",
+  "templates.save": "保存模板",
+  "templates.search": "搜索模板",
+  "templates.use": "使用此模板",
+  "templates.sharedSuffix": "已共享",
+  "templates.edit": "编辑模板 {title}",
+  "templates.delete": "删除模板 {title}",
+  "templates.deleteConfirm": "要删除模板“{title}”吗？",
+  "templates.copy": "复制模板 {title}",
+  "templates.copyTitle": "创建可编辑的副本",
+  "templates.copyName": "{title}（副本）",
+  "templates.noMatches": "没有匹配的模板。",
+  "templates.paletteHint": "↑↓ 选择 · Enter 使用 · Esc 关闭",
+  "templates.manage": "管理模板",
+  // Where a template comes from
+  "templates.source.builtin": "内置",
+  "templates.source.own": "我的",
+  "templates.source.shared": "他人共享",
+  // Template icons, read out by screen readers
+  "templates.icon.file-text": "文档",
+  "templates.icon.bar-chart": "图表",
+  "templates.icon.video": "视频",
+  "templates.icon.languages": "语言",
+  "templates.icon.sparkles": "闪光",
+  "templates.icon.list-checks": "清单",
+  "templates.icon.scale": "天平",
+  "templates.icon.search": "搜索",
+  "templates.icon.table": "表格",
+  "templates.icon.mail": "邮件",
+
+  // Usage dashboard
+  "usage.title": "用量",
+  "usage.range.week": "7 天",
+  "usage.range.month": "30 天",
+  "usage.range.all": "全部",
+  "usage.cost": "费用",
+  "usage.replies": "回复数",
+  "usage.promptTokens": "提示 token",
+  "usage.outputTokens": "输出 token",
+  "usage.empty": "此期间没有用量记录。从现在起会记录每条回复的 token 数。",
+  "usage.byDay": "按天",
+  "usage.byModel": "按模型",
+  "usage.model": "模型",
+  "usage.prompt": "提示",
+  "usage.output": "输出",
+  "usage.thinking": "思考",
+  "usage.prices": "价格（美元 / 百万 token）",
+  "usage.resetPrices": "重置",
+  "usage.input": "输入",
+  "usage.pricesHint": "思考 token 按输出价格计费。费用是根据每条回复报告的 token 数估算的。",
+
+  // Document preview
+  "preview.label": "{name} 的预览",
+  "preview.page": "第 {page} 页",
+  "preview.cited": "引用 · 第 {page} 页",
+  "preview.openFailed": "无法打开此 PDF。",
+  "preview.close": "关闭预览",
+  "preview.pageMissing": "本文档没有第 {page} 页（共 {count} 页）。",
+  "preview.media": "视频和音频保存在 Gemini 中，无法在此预览。",
+  "preview.notStored": "此文件已不在本浏览器中保存。",
+  "preview.unsupported": "此文件类型不支持预览。",
+
+  // Chat export
+  "export.title": "导出对话",
+  "export.markdown": "Markdown",
+  "export.json": "JSON（可重新导入）",
+  "export.html": "HTML 报告",
+  "export.print": "打印 / 另存为 PDF",
+
+  // Extraction
+  "extraction.extract": "提取",
+  "extraction.unsaved": "{name}（未保存）",
+  "extraction.builtIn": "内置",
+  "extraction.saved": "已保存",
+  "extraction.fields.one": "{count} 个字段",
+  "extraction.fields.other": "{count} 个字段",
+  "extraction.schemaName": "模板名称",
+  "extraction.fieldName": "字段名",
+  "extraction.fieldType": "字段类型",
+  "extraction.fieldDescription": "字段说明",
+  "extraction.descriptionPlaceholder": "说明（可选）",
+  "extraction.required": "必填",
+  "extraction.removeField": "删除 {name}",
+  "extraction.addField": "添加字段",
+  "extraction.saveChanges": "保存更改",
+  "extraction.saveAsNew": "另存为新模板",
+  "extraction.deleteSchema": "删除模板",
+  // Name of an edited built-in schema saved as a custom one
+  "extraction.customName": "{name}（自定义）",
+  "extraction.rows.one": "{count} 行",
+  "extraction.rows.other": "{count} 行",
+  "extraction.yes": "是",
+  "extraction.no": "否",
+  "extraction.empty": "没有找到匹配的记录。",
+  "extraction.deleteRow": "删除第 {row} 行",
+  "extraction.addRow": "添加行",
+  "extraction.review.one": "{count} 个值需要核对",
+  "extraction.review.other": "{count} 个值需要核对",
+
+  // Comparison
+  "compare.attachTwo": "附加两个文档（PDF 或图片）即可逐条比较。",
+  "compare.documentA": "文档 A",
+  "compare.documentB": "文档 B",
+  "compare.swap": "交换 A 和 B",
+  "compare.versus": "对比",
+  "compare.report": "报告",
+  "compare.changesOnly": "仅显示差异",
+  "compare.clause": "条款",
+  "compare.notIn": "{side} 中没有",
+  "compare.page": "{side} 第 {page} 页",
+  "compare.noClauses": "没有比较任何条款。",
+  "compare.noDifferences": "两个文档没有差异。",
+  "compare.review.one": "{count} 行需要核对",
+  "compare.review.other": "{count} 行需要核对",
+  "compare.kind.added": "新增",
+  "compare.kind.removed": "删除",
+  "compare.kind.changed": "修改",
+  "compare.kind.unchanged": "未变",
+  "compare.change.added": "B 中新增",
+  "compare.change.removed": "A 中删除",
+  "compare.change.changed": "修改",
+  "compare.change.unchanged": "未变",
+
+  // Tool steps
+  "tool.steps": "工具步骤",
+  "tool.error": "工具出错",
+  "tool.input": "输入",
+  "tool.result": "结果",
+  "tool.failed": "错误",
+  "tool.name.calculator": "计算器",
+  "tool.name.date_calculator": "日期计算",
+  "tool.name.convert_units": "单位换算",
+  "tool.name.table_to_csv": "表格转 CSV",
+  "tool.name.search_documents": "文档搜索",
+  "tool.days.one": "{count} 天",
+  "tool.days.other": "{count} 天",
+  "tool.rows.one": "{count} 行",
+  "tool.rows.other": "{count} 行",
+  "tool.passages.one": "{count} 个段落",
+  "tool.passages.other": "{count} 个段落",
+  "tool.buildingCsv": "正在生成 CSV",
+
+  // Template variables
+  "templateForm.cancel": "取消模板",
+  "templateForm.enter": "输入{name}",
+  "templateForm.insert": "插入",
+
+  // Toasts
+  "toast.imported.one": "已导入 {count} 个对话",
+  "toast.imported.other": "已导入 {count} 个对话",
+  "toast.importRenamed": "{count} 个与现有对话 ID 相同，已并列保留",
+  "toast.importSkipped": "{count} 个已存在",
+  "toast.importHint": "如需继续追问，请重新添加文档。",
+  "toast.importFailed": "导入对话失败",
+  "toast.chatDeleted": "已删除“{title}”",
+  "toast.clearRemoteFailed": "无法清空服务器上的对话",
+  "toast.historyCleared": "对话记录已清空",
+  "toast.fileTooLarge": "文件过大：{name}（上限 {max}）",
+  "toast.uploading": "正在上传 {name}...",
+  "toast.processing": "正在处理 {name}...",
+  "toast.processingHint": "较长的录音可能需要几分钟",
+  "toast.fileAttached": "已添加文件：{name}",
+  "toast.fileReady": "可以开始分析了",
+  "toast.fileFailed": "处理 {name} 失败",
+  "toast.documentsSkipped": "部分文档已不在此浏览器中，已跳过",
+  "toast.compareNeedsTwo": "请添加两份文档以进行比较",
+  "toast.storeAttachmentsFailed": "无法在此浏览器中保存附件",
+  "toast.citedDocumentMissing": "引用的文档已不在此对话中",
+  "toast.documentNotStored": "{name} 已不在此浏览器中",
+  "toast.citationFailed": "无法打开引用的文档",
+  "toast.printBlocked": "请允许弹出窗口以打印报告",
+  "toast.exportFailed": "导出此对话失败",
+  "toast.settingsImported": "设置已导入",
+  "toast.settingsImportFailed": "导入设置失败",
+  "toast.schemaSaved": "已保存“{name}”",
+  "toast.templateSaveFailed": "无法保存模板",
+  "toast.templateDeleteFailed": "无法删除模板",
+  "toast.signInFailed": "登录失败",
+  "toast.passwordAdded": "密码已添加",
+  "toast.passwordFailed": "无法添加密码",
+  "toast.copyFailed": "无法复制到剪贴板",
+  "toast.chartPngFailed": "无法将图表保存为 PNG",
+  "toast.sessionEnded": "你的会话已结束",
+  "toast.sessionEndedHint": "请重新登录以继续对话。",
+  "toast.signIn": "登录",
+  "toast.tooManyRequests": "请求过于频繁",
+  "toast.resetsAt": "将于 {time} 重置。",
+};
+
+export default zhCN;
@@ -0,0 +1,26 @@
+import { linkCitations } from "@/lib/citations";
+
+// Preparing model answers for the chat's Markdown renderer (GFM, math, code, diagrams)
+
+const CODE_PATTERN = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)/;
+
+// Helper function to rewrite LaTeX delimiters to the dollar form remark-math reads:
+// \[...\] becomes a $$ block and \(...\) inline $$...$$. Single dollars are left
+// alone (and not parsed as math) since answers about money are full of them.
+export function normalizeMath(markdown: string): string {
+  return markdown
+    .split(CODE_PATTERN)
+    .map((segment, i) =>
+      i % 2 === 1
+        ? segment
+        : segment
+            .replace(/\\\[([\s\S]+?)\\\]/g, (_, math: string) => `\n$$\n${math.trim()}\n$$\n`)
+            .replace(/\\\(([\s\S]+?)\\\)/g, (_, math: string) => `$$${math.trim()}$$`)
+    )
+    .join("");
+}
+
+// An answer as it is handed to the renderer: math delimiters normalized and page citations linked
+export function prepareMarkdown(markdown: string): string {
+  return linkCitations(normalizeMath(markdown));
+}
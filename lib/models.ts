@@ -0,0 +1,119 @@
+import type { MessageKey } from "@/lib/i18n";
+
+// Models the app may request and the generation settings users can tune.
+// Shared by the UI (picker, advanced panel) and the chat route (validation).
+
+export interface ModelOption {
+  id: string;
+  label: string;
+  // Translation key of the one-line description shown in the pickers
+  descriptionKey: MessageKey;
+  // Upper bound for maxOutputTokens on this model
+  maxOutputTokens: number;
+  // Input token limit
+  contextWindow: number;
+  // Default prompt size before older turns are summarized (see lib/context.ts)
+  contextBudget: number;
+}
+
+export const MODELS: ModelOption[] = [
+  {
+    id: "gemini-2.5-flash",
+    label: "Gemini 2.5 Flash",
+    descriptionKey: "model.description.flash",
+    maxOutputTokens: 65536,
+    contextWindow: 1048576,
+    contextBudget: 128000,
+  },
+  {
+    id: "gemini-2.5-pro",
+    label: "Gemini 2.5 Pro",
+    descriptionKey: "model.description.pro",
+    maxOutputTokens: 65536,
+    contextWindow: 1048576,
+    contextBudget: 200000,
+  },
+  {
+    id: "gemini-2.5-flash-lite",
+    label: "Gemini 2.5 Flash-Lite",
+    descriptionKey: "model.description.flashLite",
+    maxOutputTokens: 65536,
+    contextWindow: 1048576,
+    contextBudget: 128000,
+  },
+  {
+    id: "gemini-2.0-flash",
+    label: "Gemini 2.0 Flash",
+    descriptionKey: "model.description.flash20",
+    maxOutputTokens: 8192,
+    contextWindow: 1048576,
+    contextBudget: 128000,
+  },
+];
+
+export const DEFAULT_MODEL = "gemini-2.5-flash";
+
+export interface GenerationSettings {
+  temperature: number;
+  topP: number;
+  maxOutputTokens: number;
+}
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  temperature: 0.7,
+  topP: 0.95,
+  maxOutputTokens: 8192,
+};
+
+// Safe ranges enforced on the server; also drive the sliders in the UI
+export const GENERATION_LIMITS = {
+  temperature: { min: 0, max: 2, step: 0.1 },
+  topP: { min: 0, max: 1, step: 0.05 },
+  maxOutputTokens: { min: 256, step: 256 },
+};
+
+export function getModel(id: string): ModelOption | undefined {
+  return MODELS.find((m) => m.id === id);
+}
+
+export type ChatOptionsResult =
+  | { valid: true; model: ModelOption; settings: GenerationSettings }
+  | { valid: false; error: string };
+
+// Validate the model and generation settings sent with a chat request.
+// Missing values fall back to the defaults; present but invalid values are rejected.
+export function validateChatOptions(model: unknown, settings: unknown): ChatOptionsResult {
+  const modelId = model ?? DEFAULT_MODEL;
+  const option = typeof modelId === "string" ? getModel(modelId) : undefined;
+  if (!option) {
+    return { valid: false, error: `Unsupported model: ${String(modelId)}` };
+  }
+
+  const input = (settings ?? {}) as Partial<Record<keyof GenerationSettings, unknown>>;
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { valid: false, error: "Generation settings must be an object" };
+  }
+
+  const resolved = { ...DEFAULT_GENERATION_SETTINGS };
+  const ranges: Record<keyof GenerationSettings, { min: number; max: number }> = {
+    temperature: GENERATION_LIMITS.temperature,
+    topP: GENERATION_LIMITS.topP,
+    maxOutputTokens: { min: GENERATION_LIMITS.maxOutputTokens.min, max: option.maxOutputTokens },
+  };
+
+  for (const key of Object.keys(ranges) as (keyof GenerationSettings)[]) {
+    const value = input[key];
+    if (value === undefined) continue;
+
+    const { min, max } = ranges[key];
+    if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+      return { valid: false, error: `${key} must be a number between ${min} and ${max}` };
+    }
+    if (key === "maxOutputTokens" && !Number.isInteger(value)) {
+      return { valid: false, error: "maxOutputTokens must be an integer" };
+    }
+    resolved[key] = value;
+  }
+
+  return { valid: true, model: option, settings: resolved };
+}
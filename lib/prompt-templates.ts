@@ -0,0 +1,154 @@
+// Prompt templates: reusable questions picked from the "/" palette in the
+// composer or the cards on an empty chat. A template's body can hold variables,
+// written {{name}} or {{name|default}}, that are asked for when it is used.
+// Built-in templates ship with the app; users' own templates are stored on the
+// server (lib/template-store.ts) and can be shared with every account there.
+
+export const TEMPLATE_TITLE_MAX_LENGTH = 100;
+export const TEMPLATE_DESCRIPTION_MAX_LENGTH = 200;
+export const TEMPLATE_BODY_MAX_LENGTH = 8000;
+
+// Icon names a template can use (drawn by components/template-icon.tsx)
+export const TEMPLATE_ICONS = [
+  "file-text",
+  "bar-chart",
+  "video",
+  "languages",
+  "sparkles",
+  "list-checks",
+  "scale",
+  "search",
+  "table",
+  "mail",
+] as const;
+export type TemplateIconName = (typeof TEMPLATE_ICONS)[number];
+
+export interface PromptTemplate {
+  id: string;
+  title: string;
+  description: string;
+  icon: TemplateIconName;
+  body: string;
+  // Shown as a card on an empty chat
+  featured: boolean;
+  // Visible to every account on this server
+  shared: boolean;
+  // Built in, the user's own, or shared by another account (only "own" can be edited)
+  source: "builtin" | "own" | "shared";
+}
+
+// What the editor sends when creating or updating a template
+export type TemplateDraft = Pick<PromptTemplate, "title" | "description" | "icon" | "body" | "featured" | "shared">;
+
+export interface TemplateVariable {
+  name: string;
+  defaultValue: string;
+}
+
+export const BUILTIN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: "builtin-summarize-contract",
+    title: "Summarize this contract",
+    description: "Extract key points from legal documents",
+    icon: "file-text",
+    body: "Summarize this contract: the parties, key obligations, deadlines, payment terms and termination clauses. Pay particular attention to {{focus|liability and indemnities}}.",
+    featured: true,
+    shared: false,
+    source: "builtin",
+  },
+  {
+    id: "builtin-financial-chart",
+    title: "Analyze this financial chart",
+    description: "Get insights from data visualizations",
+    icon: "bar-chart",
+    body: "Analyze this financial chart. Describe the main trends, notable highs and lows, and what they suggest about {{focus|overall performance}}.",
+    featured: true,
+    shared: false,
+    source: "builtin",
+  },
+  {
+    id: "builtin-video-insights",
+    title: "Extract insights from video",
+    description: "Analyze video frames and content",
+    icon: "video",
+    body: "Extract the key insights from this video: the main topics, important moments with their timestamps, and the takeaways.",
+    featured: true,
+    shared: false,
+    source: "builtin",
+  },
+  {
+    id: "builtin-translate",
+    title: "Translate this document",
+    description: "Convert content to any language",
+    icon: "languages",
+    body: "Translate this document into {{language}}, keeping its structure and headings.",
+    featured: true,
+    shared: false,
+    source: "builtin",
+  },
+];
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*(?:\|([^}]*))?\}\}/g;
+
+// Variables in a template body, in order of first appearance. The first default given for a name wins.
+export function templateVariables(body: string): TemplateVariable[] {
+  const variables = new Map<string, TemplateVariable>();
+  for (const match of body.matchAll(VARIABLE_PATTERN)) {
+    if (!variables.has(match[1])) {
+      variables.set(match[1], { name: match[1], defaultValue: (match[2] ?? "").trim() });
+    }
+  }
+  return [...variables.values()];
+}
+
+// Replace variables with the given values, falling back to their defaults
+export function fillTemplate(body: string, values: Record<string, string>): string {
+  return body.replace(VARIABLE_PATTERN, (_, name: string, defaultValue?: string) => {
+    const value = values[name]?.trim();
+    return value || (defaultValue ?? "").trim();
+  });
+}
+
+// Cards for an empty chat: the user's featured templates first, then the built-in ones
+export function startTemplates(templates: PromptTemplate[], limit = 4): PromptTemplate[] {
+  return [...templates.filter((t) => t.source !== "builtin" && t.featured), ...BUILTIN_TEMPLATES].slice(0, limit);
+}
+
+// Score how well a query matches text as a subsequence, or -1 when it does not.
+// Consecutive characters and characters at the start of a word score higher.
+export function fuzzyScore(query: string, text: string): number {
+  const q = query.toLowerCase().replace(/\s+/g, "");
+  if (!q) return 0;
+  const t = text.toLowerCase();
+
+  let score = 0;
+  let streak = 0;
+  let from = 0;
+  for (const char of q) {
+    const index = t.indexOf(char, from);
+    if (index === -1) return -1;
+    streak = index === from && from > 0 ? streak + 1 : 0;
+    const wordStart = index === 0 || /[\s\-_/]/.test(t[index - 1]);
+    score += 1 + streak * 2 + (wordStart ? 3 : 0);
+    from = index + 1;
+  }
+  // Prefer shorter titles when matches are otherwise equal
+  return score - t.length * 0.001;
+}
+
+// Templates matching a palette query, best first. Titles count more than
+// descriptions; bodies are long, so they only match the query word for word.
+export function searchTemplates(templates: PromptTemplate[], query: string): PromptTemplate[] {
+  const phrase = query.trim().toLowerCase();
+  if (!phrase) return templates;
+  return templates
+    .map((template) => {
+      const title = fuzzyScore(phrase, template.title);
+      const description = fuzzyScore(phrase, template.description);
+      const body = template.body.toLowerCase().includes(phrase) ? 0 : -1;
+      return { template, score: title >= 0 ? title * 2 : Math.max(description, body) };
+    })
+    .filter(({ score }) => score >= 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ template }) => template);
+}
@@ -0,0 +1,120 @@
+import {
+  GoogleGenerativeAI,
+  FinishReason as GeminiFinishReason,
+  FunctionCallingMode,
+  type Content,
+  type FunctionDeclaration,
+  type GenerationConfig as GeminiGenerationConfig,
+  type UsageMetadata,
+} from "@google/generative-ai";
+import type { LLMProvider, FinishReason, ChatContent } from "./types";
+
+// Thinking tokens are reported by 2.5 models but not yet typed by this SDK version
+type GeminiUsage = UsageMetadata & { thoughtsTokenCount?: number };
+
+// Helper function to map Gemini finish reasons onto the normalized set
+function mapFinishReason(reason?: string): FinishReason {
+  switch (reason) {
+    case GeminiFinishReason.STOP:
+      return "stop";
+    case GeminiFinishReason.MAX_TOKENS:
+      return "length";
+    case GeminiFinishReason.SAFETY:
+    case GeminiFinishReason.RECITATION:
+    case GeminiFinishReason.BLOCKLIST:
+    case GeminiFinishReason.PROHIBITED_CONTENT:
+    case GeminiFinishReason.SPII:
+      return "safety";
+    default:
+      return "other";
+  }
+}
+
+// Helper function to drop the call IDs the chat route adds to tool calls and results;
+// the SDK's content types have no ID field
+function toGeminiContents(contents: ChatContent[]): Content[] {
+  return contents.map(({ role, parts }) => ({
+    role,
+    parts: parts.map((part) => {
+      if ("functionCall" in part) {
+        return { functionCall: { name: part.functionCall.name, args: part.functionCall.args } };
+      }
+      if ("functionResponse" in part) {
+        return { functionResponse: { name: part.functionResponse.name, response: part.functionResponse.response } };
+      }
+      return part;
+    }),
+  }));
+}
+
+export function createGeminiProvider(apiKey: string): LLMProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  return {
+    id: "gemini",
+    async *streamText({ model, systemInstruction, contents, generationConfig, tools, toolChoice, signal }) {
+      const generativeModel = genAI.getGenerativeModel({ model, systemInstruction });
+      const result = await generativeModel.generateContentStream(
+        {
+          contents: toGeminiContents(contents),
+          // Our ResponseSchema uses plain strings where the SDK declares the SchemaType enum
+          generationConfig: generationConfig as GeminiGenerationConfig,
+          ...(tools?.length
+            ? {
+                tools: [{ functionDeclarations: tools as FunctionDeclaration[] }],
+                toolConfig: {
+                  functionCallingConfig: {
+                    mode: toolChoice === "none" ? FunctionCallingMode.NONE : FunctionCallingMode.AUTO,
+                  },
+                },
+              }
+            : {}),
+        },
+        { signal }
+      );
+
+      let finishReason: string | undefined;
+      let usage: GeminiUsage | undefined;
+
+      for await (const chunk of result.stream) {
+        if (signal?.aborted) return;
+
+        // A blocked prompt has no candidates, so chunk.text() would throw
+        if (chunk.promptFeedback?.blockReason) {
+          finishReason = GeminiFinishReason.SAFETY;
+          break;
+        }
+
+        const candidate = chunk.candidates?.[0];
+        const text = candidate?.content?.parts?.map((p) => p.text || "").join("") || "";
+        if (text) {
+          yield { type: "text", text };
+        }
+        // Function calls arrive whole, each in its own part
+        for (const part of candidate?.content?.parts || []) {
+          if (part.functionCall) {
+            yield {
+              type: "toolCall",
+              call: { name: part.functionCall.name, args: (part.functionCall.args || {}) as Record<string, unknown> },
+            };
+          }
+        }
+        if (candidate?.finishReason) finishReason = candidate.finishReason;
+        if (chunk.usageMetadata) usage = chunk.usageMetadata;
+      }
+
+      if (usage) {
+        yield {
+          type: "usage",
+          usage: {
+            promptTokens: usage.promptTokenCount || 0,
+            outputTokens: usage.candidatesTokenCount || 0,
+            thoughtsTokens: usage.thoughtsTokenCount || 0,
+            totalTokens: usage.totalTokenCount || 0,
+          },
+        };
+      }
+      yield { type: "finish", reason: mapFinishReason(finishReason), rawReason: finishReason };
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { createGeminiProvider } from "./gemini";
+import { createOpenAICompatibleProvider } from "./openai-compatible";
+import { createMockProvider } from "./mock";
+import type { LLMProvider } from "./types";
+
+export * from "./types";
+
+// Select the LLM provider from LLM_PROVIDER ("gemini" | "openai" | "mock"), default Gemini
+export function getProvider(): LLMProvider {
+  const kind = process.env.LLM_PROVIDER || "gemini";
+
+  switch (kind) {
+    case "gemini": {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) {
+        throw new Error("GEMINI_API_KEY is not set");
+      }
+      return createGeminiProvider(apiKey);
+    }
+    case "openai":
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL,
+      });
+    case "mock":
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${kind}". Use "gemini", "openai" or "mock".`);
+  }
+}
@@ -0,0 +1,89 @@
+import { readFileSync } from "fs";
+import { estimateTokens, type LLMProvider, type FinishReason, type GenerateRequest, type ToolCall } from "./types";
+
+// One canned reply. The first entry whose `match` (a case-insensitive regex) matches
+// the last user message wins; entries without `match` match everything.
+export interface MockScriptEntry {
+  match?: string;
+  response: string;
+  finishReason?: FinishReason;
+  // Throw this message mid-stream instead of finishing normally
+  error?: string;
+  // Pause between streamed words, to exercise streaming UI
+  delayMs?: number;
+  // Tools to call before answering; the response is streamed once their results are back
+  toolCalls?: Omit<ToolCall, "id">[];
+}
+
+const DEFAULT_SCRIPT: MockScriptEntry[] = [
+  {
+    response: "This is a mock response from DocuMind AI. You asked: {{input}}",
+  },
+];
+
+// Helper function to load the script from MOCK_PROVIDER_SCRIPT (a JSON file path)
+export function loadMockScript(path = process.env.MOCK_PROVIDER_SCRIPT): MockScriptEntry[] {
+  if (!path) return DEFAULT_SCRIPT;
+  const script = JSON.parse(readFileSync(path, "utf8"));
+  if (!Array.isArray(script)) {
+    throw new Error(`Mock provider script ${path} must contain a JSON array`);
+  }
+  return script;
+}
+
+// Helper function to pull the text of the last user turn (not a turn of tool results)
+function lastUserText({ contents }: GenerateRequest): string {
+  const last = [...contents].reverse().find((c) => c.role === "user" && c.parts.some((p) => "text" in p));
+  return last?.parts.map((p) => ("text" in p ? p.text : "")).join("\n").trim() || "";
+}
+
+// Scripted provider for local development and CI, selected with LLM_PROVIDER=mock
+export function createMockProvider(script: MockScriptEntry[] = loadMockScript()): LLMProvider {
+  return {
+    id: "mock",
+    async *streamText(request) {
+      const input = lastUserText(request);
+      const entry =
+        script.find((e) => !e.match || new RegExp(e.match, "i").test(input)) ||
+        DEFAULT_SCRIPT[0];
+      const response = entry.response.replace(/\{\{input\}\}/g, input);
+
+      // Call the scripted tools unless their results are already in the conversation
+      const lastTurn = request.contents[request.contents.length - 1];
+      const hasResults = lastTurn?.parts.some((p) => "functionResponse" in p);
+      if (entry.toolCalls?.length && request.tools?.length && request.toolChoice !== "none" && !hasResults) {
+        for (const call of entry.toolCalls) {
+          yield { type: "toolCall", call };
+        }
+        yield { type: "finish", reason: "stop" };
+        return;
+      }
+
+      // Stream word by word, keeping the separating whitespace
+      const words = response.match(/\S+\s*/g) || [];
+      for (const word of words) {
+        if (request.signal?.aborted) return;
+        if (entry.delayMs) {
+          await new Promise((resolve) => setTimeout(resolve, entry.delayMs));
+        }
+        yield { type: "text", text: word };
+      }
+
+      if (entry.error) {
+        throw new Error(entry.error);
+      }
+
+      const promptText = [request.systemInstruction || "", ...request.contents.flatMap((c) =>
+        c.parts.map((p) => ("text" in p ? p.text : ""))
+      )].join("\n");
+      const promptTokens = estimateTokens(promptText);
+      const outputTokens = estimateTokens(response);
+
+      yield {
+        type: "usage",
+        usage: { promptTokens, outputTokens, totalTokens: promptTokens + outputTokens },
+      };
+      yield { type: "finish", reason: entry.finishReason || "stop" };
+    },
+  };
+}
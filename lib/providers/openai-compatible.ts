@@ -0,0 +1,187 @@
+import type { LLMProvider, FinishReason, ChatContent, TokenUsage, ToolCall } from "./types";
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string;
+  apiKey?: string;
+  // Overrides the requested model, for servers that only host one model
+  model?: string;
+}
+
+// Helper function to convert Gemini-shaped contents into OpenAI chat messages
+function toOpenAIMessages(systemInstruction: string | undefined, contents: ChatContent[]) {
+  const messages: any[] = [];
+  if (systemInstruction) {
+    messages.push({ role: "system", content: systemInstruction });
+  }
+
+  for (const content of contents) {
+    if (content.role === "model") {
+      const calls = content.parts.flatMap((p) => ("functionCall" in p ? [p.functionCall] : []));
+      messages.push({
+        role: "assistant",
+        content: content.parts.map((p) => ("text" in p ? p.text : "")).join("") || null,
+        ...(calls.length > 0
+          ? {
+              tool_calls: calls.map((call) => ({
+                id: call.id || call.name,
+                type: "function",
+                function: { name: call.name, arguments: JSON.stringify(call.args) },
+              })),
+            }
+          : {}),
+      });
+      continue;
+    }
+
+    // Tool results are separate "tool" messages, answering the calls of the previous turn
+    const results = content.parts.flatMap((p) => ("functionResponse" in p ? [p.functionResponse] : []));
+    for (const result of results) {
+      messages.push({ role: "tool", tool_call_id: result.id || result.name, content: JSON.stringify(result.response) });
+    }
+    const parts = content.parts.filter((p) => !("functionResponse" in p) && !("functionCall" in p));
+    if (parts.length === 0) continue;
+
+    messages.push({
+      role: "user",
+      content: parts.map((part) => {
+        if ("text" in part) {
+          return { type: "text", text: part.text };
+        }
+        if ("fileData" in part) {
+          // Files API URIs are only readable by Gemini
+          return { type: "text", text: `[Attached ${part.fileData.mimeType} file is not available to this model]` };
+        }
+        if (!("inlineData" in part)) return { type: "text", text: "" };
+        const dataUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+        if (part.inlineData.mimeType.startsWith("image/")) {
+          return { type: "image_url", image_url: { url: dataUrl } };
+        }
+        return { type: "file", file: { filename: "document", file_data: dataUrl } };
+      }),
+    });
+  }
+
+  return messages;
+}
+
+// Helper function to map OpenAI finish reasons onto the normalized set
+function mapFinishReason(reason?: string | null): FinishReason {
+  switch (reason) {
+    case "stop":
+      return "stop";
+    case "length":
+      return "length";
+    case "content_filter":
+      return "safety";
+    default:
+      return "other";
+  }
+}
+
+// Streams from any server implementing the OpenAI /chat/completions API
+// (OpenAI, vLLM, Ollama, LiteLLM, ...)
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+
+  return {
+    id: "openai",
+    async *streamText({ model, systemInstruction, contents, generationConfig, tools, toolChoice, signal }) {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: options.model || model,
+          messages: toOpenAIMessages(systemInstruction, contents),
+          stream: true,
+          stream_options: { include_usage: true },
+          temperature: generationConfig?.temperature,
+          top_p: generationConfig?.topP,
+          max_tokens: generationConfig?.maxOutputTokens,
+          response_format: generationConfig?.responseSchema
+            ? { type: "json_schema", json_schema: { name: "response", schema: generationConfig.responseSchema } }
+            : undefined,
+          tools: tools?.length
+            ? tools.map((tool) => ({ type: "function", function: tool }))
+            : undefined,
+          tool_choice: tools?.length ? toolChoice || "auto" : undefined,
+        }),
+        signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const details = await response.text().catch(() => "");
+        throw new Error(`OpenAI-compatible API error ${response.status}: ${details.slice(0, 500)}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      let finishReason: string | null = null;
+      let usage: TokenUsage | undefined;
+      // Tool calls stream in fragments keyed by index; arguments are a JSON string
+      const toolCalls: { id?: string; name: string; arguments: string }[] = [];
+
+      while (true) {
+        if (signal?.aborted) {
+          await reader.cancel();
+          return;
+        }
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Server-sent events: one "data: ..." line per event
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, "");
+          if (!line.startsWith("data:") || !data || data === "[DONE]") continue;
+
+          const event = JSON.parse(data);
+          const choice = event.choices?.[0];
+          const text = choice?.delta?.content;
+          if (text) {
+            yield { type: "text", text };
+          }
+          for (const fragment of choice?.delta?.tool_calls || []) {
+            const call = (toolCalls[fragment.index ?? 0] ??= { name: "", arguments: "" });
+            if (fragment.id) call.id = fragment.id;
+            if (fragment.function?.name) call.name += fragment.function.name;
+            if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+          }
+          if (choice?.finish_reason) finishReason = choice.finish_reason;
+          if (event.usage) {
+            // Reasoning models count their reasoning inside completion_tokens
+            const reasoning = event.usage.completion_tokens_details?.reasoning_tokens || 0;
+            usage = {
+              promptTokens: event.usage.prompt_tokens || 0,
+              outputTokens: (event.usage.completion_tokens || 0) - reasoning,
+              thoughtsTokens: reasoning,
+              totalTokens: event.usage.total_tokens || 0,
+            };
+          }
+        }
+      }
+
+      for (const call of toolCalls) {
+        if (!call?.name) continue;
+        let args: ToolCall["args"] = {};
+        try {
+          args = JSON.parse(call.arguments || "{}");
+        } catch {
+          // Malformed arguments reach the tool as an empty object, which reports what is missing
+        }
+        yield { type: "toolCall", call: { id: call.id, name: call.name, args } };
+      }
+      if (usage) {
+        yield { type: "usage", usage };
+      }
+      // "tool_calls" is a normal end of turn; the route runs the calls and continues
+      if (finishReason === "tool_calls") finishReason = "stop";
+      yield { type: "finish", reason: mapFinishReason(finishReason), rawReason: finishReason || undefined };
+    },
+  };
+}
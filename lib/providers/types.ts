@@ -0,0 +1,95 @@
+// Provider-neutral request and stream types. Message contents use the Gemini
+// shape (role "user" | "model", parts with text or inline data) since that is
+// what the chat route builds; other providers translate from it.
+
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  // Media uploaded through the Gemini Files API
+  | { fileData: { mimeType: string; fileUri: string } }
+  // A tool call the model made (in a "model" turn) and its result (in the following "user" turn)
+  | { functionCall: ToolCall }
+  | { functionResponse: { id?: string; name: string; response: Record<string, unknown> } };
+
+export interface ChatContent {
+  role: "user" | "model";
+  parts: ContentPart[];
+}
+
+// JSON schema subset accepted by Gemini's structured output (OpenAPI 3.0 style)
+export interface ResponseSchema {
+  type: "string" | "number" | "integer" | "boolean" | "array" | "object";
+  description?: string;
+  nullable?: boolean;
+  // Allowed values of a string; Gemini also needs format "enum"
+  format?: "enum";
+  enum?: string[];
+  items?: ResponseSchema;
+  properties?: Record<string, ResponseSchema>;
+  required?: string[];
+}
+
+// A function the model may call; its parameters use the same schema subset as JSON mode
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: ResponseSchema;
+}
+
+export interface ToolCall {
+  // Set by the chat route to pair calls with results; Gemini does not return one
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface GenerationConfig {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  // JSON mode: the model returns a single JSON document matching responseSchema
+  responseMimeType?: "application/json";
+  responseSchema?: ResponseSchema;
+}
+
+export interface GenerateRequest {
+  model: string;
+  systemInstruction?: string;
+  contents: ChatContent[];
+  generationConfig?: GenerationConfig;
+  tools?: ToolDeclaration[];
+  // "none" makes the model answer in text even though tools are declared
+  toolChoice?: "auto" | "none";
+  // Aborting abandons the upstream request; the stream then ends without a finish chunk
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  // Answer tokens, not counting thinking
+  outputTokens: number;
+  // Tokens spent thinking before answering (billed as output); 0 when not reported
+  thoughtsTokens?: number;
+  totalTokens: number;
+}
+
+// Normalized reason a generation ended
+export type FinishReason = "stop" | "length" | "safety" | "other";
+
+export type StreamChunk =
+  | { type: "text"; text: string }
+  | { type: "usage"; usage: TokenUsage }
+  // Reported once the call is complete; a turn can contain several
+  | { type: "toolCall"; call: ToolCall }
+  | { type: "finish"; reason: FinishReason; rawReason?: string };
+
+export interface LLMProvider {
+  id: string;
+  streamText(request: GenerateRequest): AsyncIterable<StreamChunk>;
+}
+
+// Rough token estimate (~4 characters per token) for providers that don't report usage
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,50 @@
+export interface Chunk {
+  text: string;
+  page: number;
+}
+
+export interface ChunkOptions {
+  // Target chunk length in characters
+  chunkSize?: number;
+  // Characters repeated between consecutive chunks of the same page
+  overlap?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 1200;
+const DEFAULT_OVERLAP = 200;
+
+// Split page texts into overlapping chunks that never cross a page boundary,
+// so every chunk can be attributed to exactly one page.
+export function chunkPages(pages: string[], options: ChunkOptions = {}): Chunk[] {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const overlap = Math.min(options.overlap ?? DEFAULT_OVERLAP, Math.floor(chunkSize / 2));
+  const chunks: Chunk[] = [];
+
+  pages.forEach((pageText, index) => {
+    const text = pageText.trim();
+    if (!text) return;
+
+    let start = 0;
+    while (start < text.length) {
+      let end = Math.min(start + chunkSize, text.length);
+
+      // Prefer to break on a sentence or word boundary
+      if (end < text.length) {
+        const window = text.slice(start, end);
+        const breakAt = Math.max(window.lastIndexOf(". "), window.lastIndexOf("\n"));
+        if (breakAt > chunkSize / 2) {
+          end = start + breakAt + 1;
+        } else {
+          const space = window.lastIndexOf(" ");
+          if (space > chunkSize / 2) end = start + space;
+        }
+      }
+
+      chunks.push({ text: text.slice(start, end).trim(), page: index + 1 });
+      if (end >= text.length) break;
+      start = end - overlap;
+    }
+  });
+
+  return chunks;
+}
@@ -0,0 +1,95 @@
+import { GoogleGenerativeAI, TaskType } from "@google/generative-ai";
+
+export interface Embedder {
+  // Identifies the embedding space; vectors from different embedders never mix
+  id: string;
+  embed(texts: string[], purpose: "document" | "query"): Promise<number[][]>;
+}
+
+const GEMINI_EMBEDDING_MODEL = "text-embedding-004";
+const GEMINI_BATCH_LIMIT = 100;
+const LOCAL_DIMENSIONS = 512;
+
+// Gemini embedding API, batched to stay under the per-request limit
+export function createGeminiEmbedder(apiKey: string): Embedder {
+  const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: GEMINI_EMBEDDING_MODEL });
+
+  return {
+    id: `gemini:${GEMINI_EMBEDDING_MODEL}`,
+    async embed(texts, purpose) {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += GEMINI_BATCH_LIMIT) {
+        const batch = texts.slice(i, i + GEMINI_BATCH_LIMIT);
+        const { embeddings } = await model.batchEmbedContents({
+          requests: batch.map((text) => ({
+            content: { role: "user", parts: [{ text }] },
+            taskType: purpose === "query" ? TaskType.RETRIEVAL_QUERY : TaskType.RETRIEVAL_DOCUMENT,
+          })),
+        });
+        vectors.push(...embeddings.map((e) => e.values));
+      }
+      return vectors;
+    },
+  };
+}
+
+// FNV-1a, used to hash features into vector buckets
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Deterministic, dependency-free embedder based on feature hashing of words and
+// character trigrams. Quality is far below a real model, but it needs no network
+// and always produces the same vectors, which is what offline runs and tests need.
+export function createLocalEmbedder(dimensions = LOCAL_DIMENSIONS): Embedder {
+  const embedOne = (text: string) => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    for (const word of words) {
+      const features = [`w:${word}`];
+      const padded = ` ${word} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        features.push(`t:${padded.slice(i, i + 3)}`);
+      }
+      for (const feature of features) {
+        const h = hash(feature);
+        // Use one bit of the hash as a sign to reduce collision bias
+        vector[h % dimensions] += h & 0x80000000 ? -1 : 1;
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map((v) => v / norm);
+  };
+
+  return {
+    id: `local:hash-${dimensions}`,
+    async embed(texts) {
+      return texts.map(embedOne);
+    },
+  };
+}
+
+// Select the embedder from EMBEDDER ("gemini" | "local"). Defaults to Gemini when
+// an API key is configured and falls back to the local embedder otherwise.
+export function getEmbedder(): Embedder {
+  const kind = process.env.EMBEDDER;
+  const apiKey = process.env.GEMINI_API_KEY;
+
+  if (kind === "local") {
+    return createLocalEmbedder();
+  }
+  if (kind === "gemini" || (!kind && apiKey)) {
+    if (!apiKey) {
+      throw new Error("EMBEDDER=gemini requires GEMINI_API_KEY");
+    }
+    return createGeminiEmbedder(apiKey);
+  }
+  return createLocalEmbedder();
+}
@@ -0,0 +1,94 @@
+import { createHash } from "crypto";
+import { extractPdfPages } from "./pdf";
+import { chunkPages, type ChunkOptions } from "./chunker";
+import { getEmbedder, type Embedder } from "./embedder";
+import { getChatIndex, findChatIndex, type SearchResult } from "./vector-index";
+
+export type { Embedder } from "./embedder";
+export type { SearchResult } from "./vector-index";
+
+export interface IngestResult {
+  documentId: string;
+  pages: number;
+  chunks: number;
+  // False when the PDF has no extractable text (e.g. a scan) and must be sent inline
+  indexed: boolean;
+}
+
+const DEFAULT_TOP_K = 6;
+
+// Content hash of a document, so re-uploading the same file is a no-op
+export function documentIdFor(base64: string): string {
+  return createHash("sha256").update(base64.replace(/^data:[^;]+;base64,/, "")).digest("hex").slice(0, 16);
+}
+
+// Extract, chunk, embed and index a PDF into the chat's vector index
+export async function ingestPdf(
+  chatId: string,
+  file: { name: string; base64: string },
+  options: ChunkOptions & { embedder?: Embedder } = {}
+): Promise<IngestResult> {
+  const embedder = options.embedder ?? getEmbedder();
+  const index = getChatIndex(chatId, embedder.id);
+  const documentId = documentIdFor(file.base64);
+
+  if (index.hasDocument(documentId)) {
+    return { documentId, pages: 0, chunks: 0, indexed: true };
+  }
+
+  const pages = await extractPdfPages(file.base64);
+  const chunks = chunkPages(pages, options);
+  if (chunks.length === 0) {
+    return { documentId, pages: pages.length, chunks: 0, indexed: false };
+  }
+
+  const vectors = await embedder.embed(chunks.map((c) => c.text), "document");
+  index.add(
+    chunks.map((chunk, i) => ({
+      id: `${documentId}:${i}`,
+      documentId,
+      documentName: file.name,
+      page: chunk.page,
+      text: chunk.text,
+      vector: vectors[i],
+    }))
+  );
+
+  return { documentId, pages: pages.length, chunks: chunks.length, indexed: true };
+}
+
+// Retrieve the top-k chunks of a chat's documents for a query, optionally only
+// from some documents. An empty query (a bare file upload) falls back to the
+// opening chunks of the documents.
+export async function retrieve(
+  chatId: string,
+  query: string,
+  options: { topK?: number; embedder?: Embedder; documentIds?: string[] } = {}
+): Promise<SearchResult[]> {
+  const index = findChatIndex(chatId);
+  if (!index || index.size === 0) return [];
+
+  const topK = options.topK ?? DEFAULT_TOP_K;
+  const documentIds = options.documentIds && new Set(options.documentIds);
+  if (!query.trim()) return index.head(topK, documentIds);
+
+  const embedder = options.embedder ?? getEmbedder();
+  if (embedder.id !== index.embedderId) return [];
+
+  const [queryVector] = await embedder.embed([query], "query");
+  return index.search(queryVector, topK, documentIds);
+}
+
+// Render retrieved chunks as a grounded context block for the prompt
+export function formatContext(results: SearchResult[]): string {
+  const excerpts = [...results]
+    .sort((a, b) => a.documentName.localeCompare(b.documentName) || a.page - b.page)
+    .map((r) => `[${r.documentName}, p.${r.page}]\n${r.text}`)
+    .join("\n\n---\n\n");
+
+  return `Relevant excerpts from the uploaded documents (retrieved for this question):
+
+${excerpts}
+
+Answer using these excerpts. If they do not contain the answer, say so.`;
+}
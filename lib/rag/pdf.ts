@@ -0,0 +1,15 @@
+import { extractText, getDocumentProxy } from "unpdf";
+
+// Strip a data URL prefix and decode base64 into raw bytes
+export function base64ToBytes(base64: string): Uint8Array {
+  const data = base64.replace(/^data:[^;]+;base64,/, "");
+  return new Uint8Array(Buffer.from(data, "base64"));
+}
+
+// Extract the text layer of a PDF, one string per page (index 0 = page 1).
+// Scanned PDFs without a text layer come back as empty strings.
+export async function extractPdfPages(base64: string): Promise<string[]> {
+  const pdf = await getDocumentProxy(base64ToBytes(base64));
+  const { text } = await extractText(pdf, { mergePages: false });
+  return text.map((page) => page.replace(/[ \t]+/g, " ").trim());
+}
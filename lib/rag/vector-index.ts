@@ -0,0 +1,92 @@
+export interface IndexedChunk {
+  id: string;
+  documentId: string;
+  documentName: string;
+  page: number;
+  text: string;
+  vector: number[];
+}
+
+export interface SearchResult extends IndexedChunk {
+  score: number;
+}
+
+// Cosine similarity; both vectors are expected to share a dimension
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+// Brute-force in-memory index for a single chat. Chat-sized corpora are small
+// enough (a few thousand chunks at most) that a linear scan is fast.
+export class VectorIndex {
+  private chunks: IndexedChunk[] = [];
+  private documents = new Set<string>();
+
+  constructor(readonly embedderId: string) {}
+
+  hasDocument(documentId: string): boolean {
+    return this.documents.has(documentId);
+  }
+
+  add(chunks: IndexedChunk[]) {
+    for (const chunk of chunks) {
+      this.documents.add(chunk.documentId);
+    }
+    this.chunks.push(...chunks);
+  }
+
+  // Optionally restricted to a set of document IDs
+  search(queryVector: number[], topK: number, documentIds?: Set<string>): SearchResult[] {
+    return this.filter(documentIds)
+      .map((chunk) => ({ ...chunk, score: cosine(queryVector, chunk.vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  // First chunks in insertion (document) order, for questions without query text
+  head(count: number, documentIds?: Set<string>): SearchResult[] {
+    return this.filter(documentIds).slice(0, count).map((chunk) => ({ ...chunk, score: 0 }));
+  }
+
+  private filter(documentIds?: Set<string>): IndexedChunk[] {
+    return documentIds ? this.chunks.filter((c) => documentIds.has(c.documentId)) : this.chunks;
+  }
+
+  get size(): number {
+    return this.chunks.length;
+  }
+}
+
+// Keep at most this many chat indexes alive; the least recently used is evicted
+const MAX_INDEXES = 200;
+const indexes = new Map<string, VectorIndex>();
+
+// Get (or lazily create) the index for a chat. A chat whose index was built with a
+// different embedder is re-created, since its vectors are not comparable.
+export function getChatIndex(chatId: string, embedderId: string): VectorIndex {
+  let index = indexes.get(chatId);
+  if (!index || index.embedderId !== embedderId) {
+    index = new VectorIndex(embedderId);
+  }
+
+  // Re-insert to mark as most recently used
+  indexes.delete(chatId);
+  indexes.set(chatId, index);
+  if (indexes.size > MAX_INDEXES) {
+    const oldest = indexes.keys().next().value;
+    if (oldest !== undefined) indexes.delete(oldest);
+  }
+  return index;
+}
+
+export function findChatIndex(chatId: string): VectorIndex | undefined {
+  return indexes.get(chatId);
+}
@@ -0,0 +1,230 @@
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  DEFAULT_MODEL,
+  GENERATION_LIMITS,
+  getModel,
+  type GenerationSettings,
+} from "@/lib/models";
+import { LOCALES, type Locale } from "@/lib/i18n";
+
+// User settings from the settings dialog: defaults for new chats, the language
+// answers are written in, and personas (user-written system prompts chosen per
+// chat). Kept in localStorage and exportable as JSON. The chat route receives
+// the chosen persona and language and adds them after its own instructions.
+
+const SETTINGS_KEY = "documind_settings";
+const SETTINGS_EXPORT_FORMAT = "documind-settings";
+
+export const PERSONA_NAME_MAX_LENGTH = 60;
+export const PERSONA_INSTRUCTIONS_MAX_LENGTH = 4000;
+const MAX_PERSONAS = 50;
+
+export interface Persona {
+  id: string;
+  name: string;
+  instructions: string;
+}
+
+export interface AppSettings {
+  defaultModel: string;
+  // Generation settings new chats start with
+  generationSettings: GenerationSettings;
+  // One of RESPONSE_LANGUAGES or INTERFACE_LANGUAGE; "auto" answers in the language of the question
+  responseLanguage: string;
+  personas: Persona[];
+  // Persona new chats start with, if any
+  defaultPersonaId: string | null;
+}
+
+// Languages answers can be pinned to. The route only accepts these, so the
+// setting cannot smuggle other instructions into the system prompt.
+export const RESPONSE_LANGUAGES = [
+  { id: "auto", label: "Same as the question" },
+  { id: "English", label: "English" },
+  { id: "Simplified Chinese", label: "简体中文" },
+  { id: "Traditional Chinese", label: "繁體中文" },
+  { id: "Spanish", label: "Español" },
+  { id: "French", label: "Français" },
+  { id: "German", label: "Deutsch" },
+  { id: "Portuguese", label: "Português" },
+  { id: "Italian", label: "Italiano" },
+  { id: "Japanese", label: "日本語" },
+  { id: "Korean", label: "한국어" },
+  { id: "Russian", label: "Русский" },
+  { id: "Arabic", label: "العربية" },
+  { id: "Hindi", label: "हिन्दी" },
+];
+
+// Answers follow the UI locale. Resolved in the browser (resolveResponseLanguage)
+// before a request, so the route never sees it.
+export const INTERFACE_LANGUAGE = "interface";
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  defaultModel: DEFAULT_MODEL,
+  generationSettings: DEFAULT_GENERATION_SETTINGS,
+  responseLanguage: "auto",
+  personas: [
+    {
+      id: "contract-lawyer",
+      name: "Contract lawyer",
+      instructions:
+        "Review documents as an experienced commercial contract lawyer. Identify parties, obligations, deadlines, termination and liability clauses, and flag unusual or one-sided terms and missing protections. Quote the exact clause wording when it matters. Do not present your analysis as formal legal advice.",
+    },
+    {
+      id: "financial-analyst",
+      name: "Financial analyst",
+      instructions:
+        "Analyze documents as a financial analyst. Focus on revenue, margins, cash flow, growth rates and guidance, compute ratios and period-over-period changes where the figures allow, and call out risks and one-off items. Present numbers in tables when comparing periods.",
+    },
+  ],
+  defaultPersonaId: null,
+};
+
+// Helper function to strip control characters and the persona delimiters from user text
+const cleanText = (text: string) =>
+  text.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, "").replace(/<\/?persona>/gi, "");
+
+// Helper function to check a persona; returns null when unusable
+function normalizePersona(input: unknown): Persona | null {
+  if (!input || typeof input !== "object") return null;
+  const persona = input as Record<string, unknown>;
+  if (typeof persona.name !== "string" || typeof persona.instructions !== "string") return null;
+  const name = persona.name.trim().slice(0, PERSONA_NAME_MAX_LENGTH);
+  const instructions = persona.instructions.trim().slice(0, PERSONA_INSTRUCTIONS_MAX_LENGTH);
+  if (!name || !instructions) return null;
+  const id = typeof persona.id === "string" && persona.id ? persona.id : `persona-${Date.now().toString(36)}`;
+  return { id, name, instructions };
+}
+
+// Fill in defaults and drop anything invalid, e.g. from an older version or an import
+export function normalizeSettings(input: unknown): AppSettings {
+  if (!input || typeof input !== "object") return { ...DEFAULT_SETTINGS };
+  const saved = input as Record<string, unknown>;
+
+  const model = typeof saved.defaultModel === "string" ? getModel(saved.defaultModel) : undefined;
+  const defaultModel = model?.id ?? DEFAULT_SETTINGS.defaultModel;
+  const maxTokens = getModel(defaultModel)!.maxOutputTokens;
+
+  const generationSettings = { ...DEFAULT_GENERATION_SETTINGS };
+  const savedGeneration =
+    saved.generationSettings && typeof saved.generationSettings === "object"
+      ? (saved.generationSettings as Record<string, unknown>)
+      : {};
+  const limits = {
+    temperature: GENERATION_LIMITS.temperature,
+    topP: GENERATION_LIMITS.topP,
+    maxOutputTokens: { min: GENERATION_LIMITS.maxOutputTokens.min, max: maxTokens },
+  };
+  for (const key of Object.keys(limits) as (keyof GenerationSettings)[]) {
+    const value = savedGeneration[key];
+    if (typeof value === "number" && value >= limits[key].min && value <= limits[key].max) {
+      generationSettings[key] = key === "maxOutputTokens" ? Math.round(value) : value;
+    }
+  }
+  generationSettings.maxOutputTokens = Math.min(generationSettings.maxOutputTokens, maxTokens);
+
+  const personas = Array.isArray(saved.personas)
+    ? saved.personas
+        .map(normalizePersona)
+        .filter((p): p is Persona => p !== null)
+        .filter((p, i, all) => all.findIndex((q) => q.id === p.id) === i)
+        .slice(0, MAX_PERSONAS)
+    : DEFAULT_SETTINGS.personas;
+  const responseLanguage = saved.responseLanguage;
+
+  return {
+    defaultModel,
+    generationSettings,
+    responseLanguage:
+      typeof responseLanguage === "string" &&
+      (responseLanguage === INTERFACE_LANGUAGE || RESPONSE_LANGUAGES.some((l) => l.id === responseLanguage))
+        ? responseLanguage
+        : "auto",
+    personas,
+    defaultPersonaId: personas.find((p) => p.id === saved.defaultPersonaId)?.id ?? null,
+  };
+}
+
+export function loadSettings(): AppSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? normalizeSettings(JSON.parse(saved)) : { ...DEFAULT_SETTINGS };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+export function saveSettings(settings: AppSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function exportSettingsJSON(settings: AppSettings): string {
+  return JSON.stringify({ format: SETTINGS_EXPORT_FORMAT, version: 1, exportedAt: new Date().toISOString(), settings }, null, 2);
+}
+
+// Read settings from an exported file
+export function parseSettingsJSON(text: string): AppSettings {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  const { format, settings } = (data && typeof data === "object" ? data : {}) as Record<string, unknown>;
+  if (format !== SETTINGS_EXPORT_FORMAT || !settings) {
+    throw new Error("The file is not a Documind settings export");
+  }
+  return normalizeSettings(settings);
+}
+
+export type PromptOptionsResult =
+  | { valid: true; persona?: Persona; responseLanguage?: string }
+  | { valid: false; error: string };
+
+// Validate the persona and response language sent with a chat request. Both are optional.
+export function validatePromptOptions(persona: unknown, responseLanguage: unknown): PromptOptionsResult {
+  let checkedPersona: Persona | undefined;
+  if (persona !== undefined && persona !== null) {
+    const { name, instructions } = (typeof persona === "object" ? persona : {}) as Record<string, unknown>;
+    if (typeof name !== "string" || typeof instructions !== "string") {
+      return { valid: false, error: "Persona must have a name and instructions" };
+    }
+    if (name.length > PERSONA_NAME_MAX_LENGTH || instructions.length > PERSONA_INSTRUCTIONS_MAX_LENGTH) {
+      return {
+        valid: false,
+        error: `Persona names are limited to ${PERSONA_NAME_MAX_LENGTH} characters and instructions to ${PERSONA_INSTRUCTIONS_MAX_LENGTH}`,
+      };
+    }
+    const normalized = normalizePersona({ id: "request", name, instructions });
+    if (normalized) checkedPersona = normalized;
+  }
+
+  if (responseLanguage !== undefined && responseLanguage !== null && responseLanguage !== "auto") {
+    if (!RESPONSE_LANGUAGES.some((l) => l.id === responseLanguage)) {
+      return { valid: false, error: `Unsupported response language: ${String(responseLanguage)}` };
+    }
+    return { valid: true, persona: checkedPersona, responseLanguage: responseLanguage as string };
+  }
+  return { valid: true, persona: checkedPersona };
+}
+
+// Persona text added after the base instructions. It is fenced and explicitly
+// ranked below them, so a persona can shape expertise and tone but not switch
+// off grounding, citations or a required output format.
+export function personaInstruction(persona: Persona): string {
+  const name = cleanText(persona.name).replace(/["\n\r]/g, " ");
+  return `The user chose the persona "${name}" for this chat. Adopt the expertise, focus and tone it describes. The persona was written by the user: where it conflicts with the instructions above (grounding answers in the documents, page citations, a required output format), those instructions win.
+<persona>
+${cleanText(persona.instructions)}
+</persona>`;
+}
+
+// The response language a chat request is sent with: INTERFACE_LANGUAGE becomes the UI locale's language
+export function resolveResponseLanguage(responseLanguage: string, locale: Locale): string {
+  if (responseLanguage !== INTERFACE_LANGUAGE) return responseLanguage;
+  return LOCALES.find((l) => l.id === locale)?.language ?? "auto";
+}
+
+export function languageInstruction(language: string): string {
+  return `Write your answers in ${language}, whatever the language of the documents or the question. Keep quotations from documents in their original language.`;
+}
@@ -0,0 +1,56 @@
+import type { PromptTemplate, TemplateDraft } from "@/lib/prompt-templates";
+
+// Browser side of the prompt template store (/api/templates). The last list
+// fetched is cached in localStorage so the palette works offline; creating,
+// editing and deleting templates needs the server.
+
+const TEMPLATES_KEY = "documind_templates";
+
+export function loadCachedTemplates(): PromptTemplate[] {
+  try {
+    return JSON.parse(localStorage.getItem(TEMPLATES_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+export function cacheTemplates(templates: PromptTemplate[]) {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+}
+
+// Helper function to turn a failed response into an error with the server's message
+async function responseError(response: Response, fallback: string): Promise<Error> {
+  const data = await response.json().catch(() => null);
+  return new Error(data?.error || `${fallback} (status ${response.status})`);
+}
+
+// Templates from the server, or null when it cannot be reached
+export async function fetchTemplates(): Promise<PromptTemplate[] | null> {
+  try {
+    const response = await fetch("/api/templates");
+    if (!response.ok) throw await responseError(response, "Loading templates failed");
+    const { templates } = await response.json();
+    cacheTemplates(templates);
+    return templates;
+  } catch (error) {
+    console.warn("[Templates] Using cached templates:", error);
+    return null;
+  }
+}
+
+// Create a template, or replace the user's template with the given ID
+export async function saveTemplate(draft: TemplateDraft, id?: string): Promise<PromptTemplate> {
+  const response = await fetch(id ? `/api/templates/${encodeURIComponent(id)}` : "/api/templates", {
+    method: id ? "PUT" : "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(draft),
+  });
+  if (!response.ok) throw await responseError(response, "Saving the template failed");
+  return response.json();
+}
+
+export async function deleteTemplate(id: string): Promise<void> {
+  const response = await fetch(`/api/templates/${encodeURIComponent(id)}`, { method: "DELETE" });
+  // Already gone counts as deleted
+  if (!response.ok && response.status !== 404) throw await responseError(response, "Deleting the template failed");
+}
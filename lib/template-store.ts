@@ -0,0 +1,106 @@
+import { randomUUID } from "crypto";
+import { getDb } from "@/lib/db";
+import { ChatValidationError } from "@/lib/chat-store";
+import {
+  TEMPLATE_BODY_MAX_LENGTH,
+  TEMPLATE_DESCRIPTION_MAX_LENGTH,
+  TEMPLATE_ICONS,
+  TEMPLATE_TITLE_MAX_LENGTH,
+  type PromptTemplate,
+  type TemplateDraft,
+  type TemplateIconName,
+} from "@/lib/prompt-templates";
+
+// Server-side store for users' prompt templates (see lib/prompt-templates.ts).
+// Users edit only their own templates; shared ones are listed, read-only, for
+// every other account.
+
+interface TemplateRow {
+  id: string;
+  user_id: string;
+  title: string;
+  description: string;
+  icon: string;
+  body: string;
+  featured: number;
+  shared: number;
+}
+
+// Helper function to turn a row into a template as seen by the given user
+function readTemplate(row: TemplateRow, userId: string): PromptTemplate {
+  const own = row.user_id === userId;
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    icon: row.icon as TemplateIconName,
+    body: row.body,
+    // Featuring is the owner's choice for their own start screen
+    featured: own && row.featured === 1,
+    shared: row.shared === 1,
+    source: own ? "own" : "shared",
+  };
+}
+
+// Helper function to check a template sent by the client
+export function validateTemplate(input: any): TemplateDraft {
+  if (!input || typeof input !== "object") {
+    throw new ChatValidationError("Template must be an object");
+  }
+  const title = typeof input.title === "string" ? input.title.trim() : "";
+  const body = typeof input.body === "string" ? input.body.trim() : "";
+  if (!title || !body) {
+    throw new ChatValidationError("Template must have a title and a prompt");
+  }
+  if (title.length > TEMPLATE_TITLE_MAX_LENGTH || body.length > TEMPLATE_BODY_MAX_LENGTH) {
+    throw new ChatValidationError(
+      `Template titles are limited to ${TEMPLATE_TITLE_MAX_LENGTH} characters and prompts to ${TEMPLATE_BODY_MAX_LENGTH}`
+    );
+  }
+  const description = typeof input.description === "string" ? input.description.trim() : "";
+  return {
+    title,
+    description: description.slice(0, TEMPLATE_DESCRIPTION_MAX_LENGTH),
+    icon: TEMPLATE_ICONS.includes(input.icon) ? input.icon : "sparkles",
+    body,
+    featured: input.featured === true,
+    shared: input.shared === true,
+  };
+}
+
+// The user's own templates, oldest first, then templates other accounts shared
+export function listTemplates(userId: string): PromptTemplate[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT * FROM prompt_templates WHERE user_id = ? OR shared = 1
+       ORDER BY user_id = ? DESC, created_at, id`
+    )
+    .all(userId, userId) as TemplateRow[];
+  return rows.map((row) => readTemplate(row, userId));
+}
+
+export function createTemplate(userId: string, draft: TemplateDraft): PromptTemplate {
+  const id = `template-${randomUUID()}`;
+  getDb()
+    .prepare(
+      `INSERT INTO prompt_templates (id, user_id, title, description, icon, body, featured, shared, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(id, userId, draft.title, draft.description, draft.icon, draft.body, draft.featured ? 1 : 0, draft.shared ? 1 : 0, Date.now());
+  return { id, ...draft, source: "own" };
+}
+
+// Replace one of the user's templates; null when they have no template with that ID
+export function updateTemplate(userId: string, id: string, draft: TemplateDraft): PromptTemplate | null {
+  const { changes } = getDb()
+    .prepare(
+      `UPDATE prompt_templates SET title = ?, description = ?, icon = ?, body = ?, featured = ?, shared = ?
+       WHERE id = ? AND user_id = ?`
+    )
+    .run(draft.title, draft.description, draft.icon, draft.body, draft.featured ? 1 : 0, draft.shared ? 1 : 0, id, userId);
+  return changes > 0 ? { id, ...draft, source: "own" } : null;
+}
+
+export function deleteTemplate(userId: string, id: string): boolean {
+  return getDb().prepare("DELETE FROM prompt_templates WHERE id = ? AND user_id = ?").run(id, userId).changes > 0;
+}
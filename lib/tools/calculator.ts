@@ -0,0 +1,141 @@
+import { ToolError, type Tool } from "./types";
+
+const MAX_EXPRESSION_LENGTH = 500;
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: (x, digits = 0) => Math.round(x * 10 ** digits) / 10 ** digits,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+// Evaluate an arithmetic expression: + - * / % (remainder) ^ (power), parentheses,
+// the constants pi and e and the functions above. A small recursive-descent parser,
+// so model-written input is never passed to eval.
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|[a-z_]+|\*\*|[-+*/%^(),]|\S/gi) || [];
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new ToolError(`Expected "${token}" in "${expression}"`);
+  };
+
+  // sum := product (("+" | "-") product)*
+  const sum = (): number => {
+    let value = product();
+    while (peek() === "+" || peek() === "-") {
+      value = next() === "+" ? value + product() : value - product();
+    }
+    return value;
+  };
+
+  // product := unary (("*" | "/" | "%") unary)*
+  const product = (): number => {
+    let value = unary();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const operator = next();
+      const right = unary();
+      value = operator === "*" ? value * right : operator === "/" ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // unary := ("-" | "+") unary | power; so -2^2 is -4
+  const unary = (): number => {
+    if (peek() === "-") {
+      next();
+      return -unary();
+    }
+    if (peek() === "+") {
+      next();
+      return unary();
+    }
+    return power();
+  };
+
+  // power := primary (("^" | "**") unary)?, right-associative
+  const power = (): number => {
+    const base = primary();
+    if (peek() === "^" || peek() === "**") {
+      next();
+      return base ** unary();
+    }
+    return base;
+  };
+
+  // primary := number | constant | function "(" sum ("," sum)* ")" | "(" sum ")"
+  const primary = (): number => {
+    const token = next();
+    if (token === undefined) throw new ToolError(`"${expression}" ends unexpectedly`);
+    if (token === "(") {
+      const value = sum();
+      expect(")");
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+
+    const name = token.toLowerCase();
+    if (name in CONSTANTS) return CONSTANTS[name];
+    if (name in FUNCTIONS) {
+      expect("(");
+      const args = [sum()];
+      while (peek() === ",") {
+        next();
+        args.push(sum());
+      }
+      expect(")");
+      return FUNCTIONS[name](...args);
+    }
+    throw new ToolError(`Unknown name or symbol "${token}" in "${expression}"`);
+  };
+
+  const value = sum();
+  if (position < tokens.length) {
+    throw new ToolError(`Unexpected "${tokens[position]}" in "${expression}"`);
+  }
+  return value;
+}
+
+export const calculatorTool: Tool = {
+  declaration: {
+    name: "calculator",
+    description:
+      "Evaluate an arithmetic expression exactly. Use it for any calculation instead of doing arithmetic yourself. " +
+      "Supports + - * / % (remainder) ^ (power), parentheses, pi, e and sqrt, abs, round(x, digits), floor, ceil, ln, log (base 10), exp, sin, cos, tan, min, max, pow.",
+    parameters: {
+      type: "object",
+      properties: {
+        expression: { type: "string", description: 'e.g. "(1250.50 * 12) * 1.19" or "round(100 / 3, 2)"' },
+      },
+      required: ["expression"],
+    },
+  },
+  run({ expression }) {
+    if (typeof expression !== "string" || !expression.trim()) {
+      throw new ToolError("expression must be a non-empty string");
+    }
+    if (expression.length > MAX_EXPRESSION_LENGTH) {
+      throw new ToolError(`expression must be at most ${MAX_EXPRESSION_LENGTH} characters`);
+    }
+    const result = evaluateExpression(expression);
+    if (!Number.isFinite(result)) {
+      throw new ToolError(`"${expression}" does not evaluate to a finite number`);
+    }
+    // Round away floating-point noise (0.1 + 0.2 = 0.30000000000000004)
+    return { expression, result: Number(result.toPrecision(15)) };
+  },
+};
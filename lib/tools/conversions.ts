@@ -0,0 +1,226 @@
+import { ToolError, type Tool } from "./types";
+
+// Units per dimension, as [names, size in the dimension's base unit]. Names are
+// matched case-insensitively; the first, the usual symbol, is the one reported back.
+const UNIT_TABLE: Record<string, [string[], number][]> = {
+  length: [
+    [["mm", "millimeter", "millimeters", "millimetre", "millimetres"], 0.001],
+    [["cm", "centimeter", "centimeters", "centimetre", "centimetres"], 0.01],
+    [["m", "meter", "meters", "metre", "metres"], 1],
+    [["km", "kilometer", "kilometers", "kilometre", "kilometres"], 1000],
+    [["in", "inch", "inches"], 0.0254],
+    [["ft", "foot", "feet"], 0.3048],
+    [["yd", "yard", "yards"], 0.9144],
+    [["mi", "mile", "miles"], 1609.344],
+    [["nmi", "nautical mile", "nautical miles"], 1852],
+  ],
+  mass: [
+    [["mg", "milligram", "milligrams"], 0.000001],
+    [["g", "gram", "grams"], 0.001],
+    [["kg", "kilogram", "kilograms"], 1],
+    [["t", "tonne", "tonnes", "metric ton", "metric tons"], 1000],
+    [["oz", "ounce", "ounces"], 0.028349523125],
+    [["lb", "lbs", "pound", "pounds"], 0.45359237],
+    [["st", "stone", "stones"], 6.35029318],
+    [["short ton", "short tons", "us ton"], 907.18474],
+  ],
+  volume: [
+    [["mL", "milliliter", "milliliters", "millilitre", "millilitres"], 0.001],
+    [["L", "liter", "liters", "litre", "litres"], 1],
+    [["m3", "cubic meter", "cubic meters", "cubic metre", "cubic metres"], 1000],
+    [["tsp", "teaspoon", "teaspoons"], 0.00492892159375],
+    [["tbsp", "tablespoon", "tablespoons"], 0.01478676478125],
+    [["fl oz", "fluid ounce", "fluid ounces"], 0.0295735295625],
+    [["cup", "cups"], 0.2365882365],
+    [["pt", "pint", "pints"], 0.473176473],
+    [["qt", "quart", "quarts"], 0.946352946],
+    [["gal", "gallon", "gallons", "us gallon"], 3.785411784],
+    [["imp gal", "imperial gallon", "imperial gallons"], 4.54609],
+    [["bbl", "barrel", "barrels"], 158.987294928],
+  ],
+  area: [
+    [["cm2", "square centimeter", "square centimeters"], 0.0001],
+    [["m2", "square meter", "square meters", "square metre", "square metres"], 1],
+    [["ha", "hectare", "hectares"], 10000],
+    [["km2", "square kilometer", "square kilometers"], 1000000],
+    [["in2", "square inch", "square inches"], 0.00064516],
+    [["ft2", "sq ft", "square foot", "square feet"], 0.09290304],
+    [["yd2", "square yard", "square yards"], 0.83612736],
+    [["acre", "acres"], 4046.8564224],
+    [["mi2", "square mile", "square miles"], 2589988.110336],
+  ],
+  time: [
+    [["ms", "millisecond", "milliseconds"], 0.001],
+    [["s", "sec", "second", "seconds"], 1],
+    [["min", "minute", "minutes"], 60],
+    [["h", "hr", "hour", "hours"], 3600],
+    [["day", "days"], 86400],
+    [["week", "weeks"], 604800],
+  ],
+  data: [
+    [["B", "byte", "bytes"], 1],
+    [["KB", "kilobyte", "kilobytes"], 1e3],
+    [["MB", "megabyte", "megabytes"], 1e6],
+    [["GB", "gigabyte", "gigabytes"], 1e9],
+    [["TB", "terabyte", "terabytes"], 1e12],
+    [["KiB", "kibibyte", "kibibytes"], 1024],
+    [["MiB", "mebibyte", "mebibytes"], 1024 ** 2],
+    [["GiB", "gibibyte", "gibibytes"], 1024 ** 3],
+    [["TiB", "tebibyte", "tebibytes"], 1024 ** 4],
+  ],
+  speed: [
+    [["m/s", "meters per second"], 1],
+    [["km/h", "kph", "kilometers per hour"], 1 / 3.6],
+    [["mph", "miles per hour"], 0.44704],
+    [["kn", "knot", "knots"], 1852 / 3600],
+    [["ft/s", "feet per second"], 0.3048],
+  ],
+  energy: [
+    [["J", "joule", "joules"], 1],
+    [["kJ", "kilojoule", "kilojoules"], 1000],
+    [["cal", "calorie", "calories"], 4.184],
+    [["kcal", "kilocalorie", "kilocalories"], 4184],
+    [["Wh", "watt hour", "watt hours"], 3600],
+    [["kWh", "kilowatt hour", "kilowatt hours"], 3600000],
+    [["BTU", "btus"], 1055.05585262],
+  ],
+  pressure: [
+    [["Pa", "pascal", "pascals"], 1],
+    [["kPa", "kilopascal", "kilopascals"], 1000],
+    [["bar", "bars"], 100000],
+    [["psi"], 6894.757293168],
+    [["atm", "atmosphere", "atmospheres"], 101325],
+  ],
+};
+
+// Temperatures have offsets, so they convert through Celsius instead of a factor
+const TEMPERATURES: Record<string, { name: string; toC: (v: number) => number; fromC: (v: number) => number }> = {};
+for (const [names, toC, fromC] of [
+  [["c", "°c", "celsius"], (v: number) => v, (v: number) => v],
+  [["f", "°f", "fahrenheit"], (v: number) => ((v - 32) * 5) / 9, (v: number) => (v * 9) / 5 + 32],
+  [["k", "kelvin"], (v: number) => v - 273.15, (v: number) => v + 273.15],
+] as const) {
+  for (const name of names) TEMPERATURES[name] = { name: names[0].toUpperCase(), toC, fromC };
+}
+
+// Currency units per US dollar. A fixed reference table, not live rates; set
+// CURRENCY_RATES to a JSON map (e.g. {"EUR": 0.92}) to use current ones.
+const DEFAULT_CURRENCY_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.86,
+  GBP: 0.74,
+  JPY: 147,
+  CNY: 7.18,
+  HKD: 7.85,
+  CHF: 0.8,
+  CAD: 1.37,
+  AUD: 1.53,
+  NZD: 1.68,
+  SGD: 1.28,
+  INR: 87.5,
+  KRW: 1390,
+  SEK: 9.6,
+  NOK: 10.1,
+  DKK: 6.4,
+  PLN: 3.65,
+  MXN: 18.7,
+  BRL: 5.5,
+  ZAR: 17.7,
+};
+const DEFAULT_RATES_DATE = "2025-08";
+
+// Currency rates: CURRENCY_RATES (JSON map of currency code to units per USD) overrides the table above
+export function getCurrencyRates(): { rates: Record<string, number>; source: string } {
+  try {
+    const overrides = JSON.parse(process.env.CURRENCY_RATES || "{}");
+    const valid = Object.entries(overrides).filter(
+      (entry): entry is [string, number] => /^[A-Z]{3}$/.test(entry[0]) && typeof entry[1] === "number" && entry[1] > 0
+    );
+    if (valid.length > 0) {
+      return { rates: { ...DEFAULT_CURRENCY_RATES, ...Object.fromEntries(valid) }, source: "the rates configured by the server (CURRENCY_RATES)" };
+    }
+  } catch {
+    console.warn("[Tools] CURRENCY_RATES is not valid JSON; using the built-in rates");
+  }
+  return { rates: DEFAULT_CURRENCY_RATES, source: `built-in reference rates from ${DEFAULT_RATES_DATE}, not live market rates` };
+}
+
+// Helper function to find a unit by any of its names
+function findUnit(name: string): { dimension: string; name: string; factor: number } | undefined {
+  const key = name.trim().toLowerCase();
+  for (const [dimension, units] of Object.entries(UNIT_TABLE)) {
+    for (const [names, factor] of units) {
+      if (names.some((n) => n.toLowerCase() === key)) return { dimension, name: names[0], factor };
+    }
+  }
+  return undefined;
+}
+
+// Round away floating-point noise (0.30000000000000004) without losing real precision
+const tidy = (value: number) => Number(value.toPrecision(12));
+
+// Convert a value between units of the same dimension, temperatures or currencies
+export function convert(value: number, from: string, to: string): Record<string, unknown> {
+  const fromKey = from.trim().toLowerCase();
+  const toKey = to.trim().toLowerCase();
+
+  if (fromKey in TEMPERATURES && toKey in TEMPERATURES) {
+    const result = TEMPERATURES[toKey].fromC(TEMPERATURES[fromKey].toC(value));
+    return { value, from: TEMPERATURES[fromKey].name, to: TEMPERATURES[toKey].name, result: tidy(result) };
+  }
+
+  const { rates, source } = getCurrencyRates();
+  const fromCode = from.trim().toUpperCase();
+  const toCode = to.trim().toUpperCase();
+  if (fromCode in rates && toCode in rates) {
+    const result = (value / rates[fromCode]) * rates[toCode];
+    return {
+      value,
+      from: fromCode,
+      to: toCode,
+      result: Number(result.toFixed(4)),
+      rate: tidy(rates[toCode] / rates[fromCode]),
+      note: `Converted with ${source}`,
+    };
+  }
+
+  const fromUnit = findUnit(from);
+  const toUnit = findUnit(to);
+  if (!fromUnit || !toUnit) {
+    const unknown = !fromUnit ? from : to;
+    throw new ToolError(
+      `Unknown unit or currency "${unknown}". Supported: ${Object.keys(UNIT_TABLE).join(", ")}, temperature (C, F, K) and the currencies ${Object.keys(rates).join(", ")}`
+    );
+  }
+  if (fromUnit.dimension !== toUnit.dimension) {
+    throw new ToolError(`Cannot convert ${fromUnit.dimension} (${fromUnit.name}) to ${toUnit.dimension} (${toUnit.name})`);
+  }
+  return { value, from: fromUnit.name, to: toUnit.name, result: tidy((value * fromUnit.factor) / toUnit.factor) };
+}
+
+export const conversionTool: Tool = {
+  declaration: {
+    name: "convert_units",
+    description:
+      "Convert a value between units of length, mass, volume, area, time, data size, speed, energy, pressure or temperature, " +
+      "or between currencies given as ISO codes (USD, EUR, GBP, JPY, CNY, ...). Currency rates come from a fixed local table, not live markets; mention that when quoting them.",
+    parameters: {
+      type: "object",
+      properties: {
+        value: { type: "number" },
+        from: { type: "string", description: 'Unit or currency code, e.g. "km", "lb", "F", "EUR"' },
+        to: { type: "string", description: 'Unit or currency code, e.g. "mi", "kg", "C", "USD"' },
+      },
+      required: ["value", "from", "to"],
+    },
+  },
+  run({ value, from, to }) {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new ToolError("value must be a number");
+    }
+    if (typeof from !== "string" || typeof to !== "string") {
+      throw new ToolError("from and to must be unit names or currency codes");
+    }
+    return convert(value, from, to);
+  },
+};
@@ -0,0 +1,136 @@
+import { ToolError, type Tool } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const UNITS = ["days", "weeks", "months", "years", "business_days"];
+// Keeps loops over business days and results within a sensible range
+const MAX_AMOUNT = 100000;
+
+// Helper function to read a YYYY-MM-DD date (or "today") as a UTC date
+function parseDate(value: unknown, field: string): Date {
+  if (value === "today") {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  }
+  const match = typeof value === "string" && /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (match) {
+    const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+    // Rejects dates like 2025-02-30, which Date.UTC would roll over
+    if (date.getUTCMonth() === Number(match[2]) - 1) return date;
+  }
+  throw new ToolError(`${field} must be a date written YYYY-MM-DD, or "today"`);
+}
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const isWeekend = (date: Date) => date.getUTCDay() === 0 || date.getUTCDay() === 6;
+
+// Helper function to add calendar months, clamping to the end of shorter months (Jan 31 + 1 month = Feb 28)
+function addMonths(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)));
+}
+
+// Helper function to count Monday-to-Friday days after start, up to and including end
+function businessDaysBetween(start: Date, end: Date): number {
+  const sign = end >= start ? 1 : -1;
+  let count = 0;
+  for (let t = start.getTime() + sign * DAY_MS; sign * (end.getTime() - t) >= 0; t += sign * DAY_MS) {
+    if (!isWeekend(new Date(t))) count += sign;
+  }
+  return count;
+}
+
+// Helper function to count whole calendar months from start to end
+function wholeMonthsBetween(start: Date, end: Date): number {
+  const sign = end >= start ? 1 : -1;
+  let months =
+    (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + (end.getUTCMonth() - start.getUTCMonth());
+  if (sign * (addMonths(start, months).getTime() - end.getTime()) > 0) months -= sign;
+  return months;
+}
+
+// Date arithmetic on calendar dates (no times or time zones); business days skip
+// weekends but not public holidays
+export function calculateDate(args: Record<string, unknown>): Record<string, unknown> {
+  const date = parseDate(args.date, "date");
+
+  switch (args.operation) {
+    case "add": {
+      const amount = args.amount;
+      if (!Number.isInteger(amount) || Math.abs(amount as number) > MAX_AMOUNT) {
+        throw new ToolError(`amount must be a whole number between -${MAX_AMOUNT} and ${MAX_AMOUNT}`);
+      }
+      const unit = (args.unit as string) || "days";
+      const n = amount as number;
+      let result: Date;
+      switch (unit) {
+        case "days":
+          result = new Date(date.getTime() + n * DAY_MS);
+          break;
+        case "weeks":
+          result = new Date(date.getTime() + n * 7 * DAY_MS);
+          break;
+        case "months":
+          result = addMonths(date, n);
+          break;
+        case "years":
+          result = addMonths(date, n * 12);
+          break;
+        case "business_days": {
+          result = date;
+          for (let left = Math.abs(n); left > 0; ) {
+            result = new Date(result.getTime() + Math.sign(n) * DAY_MS);
+            if (!isWeekend(result)) left--;
+          }
+          break;
+        }
+        default:
+          throw new ToolError(`unit must be one of ${UNITS.join(", ")}`);
+      }
+      return { date: formatDate(result), weekday: WEEKDAYS[result.getUTCDay()] };
+    }
+    case "difference": {
+      const end = parseDate(args.endDate, "endDate");
+      const days = Math.round((end.getTime() - date.getTime()) / DAY_MS);
+      const months = wholeMonthsBetween(date, end);
+      return {
+        from: formatDate(date),
+        to: formatDate(end),
+        days,
+        weeks: Math.trunc(days / 7),
+        businessDays: businessDaysBetween(date, end),
+        wholeMonths: months,
+        wholeYears: Math.trunc(months / 12),
+      };
+    }
+    case "weekday":
+      return { date: formatDate(date), weekday: WEEKDAYS[date.getUTCDay()] };
+    default:
+      throw new ToolError('operation must be "add", "difference" or "weekday"');
+  }
+}
+
+export const dateTool: Tool = {
+  declaration: {
+    name: "date_calculator",
+    description:
+      "Calendar date arithmetic. add: the date a number of days, weeks, months, years or business days after (or, with a negative amount, before) a date. " +
+      "difference: days, weeks, business days and whole months and years from date to endDate. weekday: the day of the week of a date. " +
+      "Business days skip weekends but not public holidays.",
+    parameters: {
+      type: "object",
+      properties: {
+        operation: { type: "string", format: "enum", enum: ["add", "difference", "weekday"] },
+        date: { type: "string", description: 'Start date as YYYY-MM-DD, or "today"' },
+        amount: { type: "integer", description: "For add: how many units to add; negative to subtract" },
+        unit: { type: "string", format: "enum", enum: UNITS, description: "For add; defaults to days" },
+        endDate: { type: "string", description: 'For difference: end date as YYYY-MM-DD, or "today"' },
+      },
+      required: ["operation", "date"],
+    },
+  },
+  run: calculateDate,
+};
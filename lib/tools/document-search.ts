@@ -0,0 +1,36 @@
+import { retrieve } from "@/lib/rag";
+import { ToolError, type Tool } from "./types";
+
+const DEFAULT_RESULTS = 5;
+const MAX_RESULTS = 10;
+const MAX_QUERY_LENGTH = 500;
+
+// Searches the chat's indexed PDFs, for questions the excerpts retrieved up front do not cover
+export const documentSearchTool: Tool = {
+  declaration: {
+    name: "search_documents",
+    description:
+      "Search the user's uploaded documents for passages about a topic. Use it when the excerpts you were given do not cover something, " +
+      "or to look up several topics in turn. Returns matching passages with their document name and page; cite them as [document name, p.N].",
+    parameters: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "What to look for, in words likely to appear in the document" },
+        limit: { type: "integer", description: `Number of passages to return (1-${MAX_RESULTS}, default ${DEFAULT_RESULTS})` },
+      },
+      required: ["query"],
+    },
+  },
+  isAvailable: ({ chatId, documentIds }) => Boolean(chatId) && documentIds.length > 0,
+  async run({ query, limit }, { chatId, documentIds }) {
+    if (typeof query !== "string" || !query.trim() || query.length > MAX_QUERY_LENGTH) {
+      throw new ToolError(`query must be between 1 and ${MAX_QUERY_LENGTH} characters`);
+    }
+    const topK = Number.isInteger(limit) ? Math.min(Math.max(limit as number, 1), MAX_RESULTS) : DEFAULT_RESULTS;
+    const results = await retrieve(chatId!, query, { documentIds, topK });
+    return {
+      query,
+      results: results.map((r) => ({ document: r.documentName, page: r.page, text: r.text })),
+    };
+  },
+};
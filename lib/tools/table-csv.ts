@@ -0,0 +1,49 @@
+import { toCSV } from "@/lib/table-export";
+import { ToolError, type Tool } from "./types";
+
+const MAX_COLUMNS = 50;
+const MAX_ROWS = 1000;
+
+// Turns a table the model has assembled (e.g. from a document) into a CSV file the chat offers for download
+export const tableCsvTool: Tool = {
+  declaration: {
+    name: "table_to_csv",
+    description:
+      "Turn a table into a CSV file the user can download. Use it when the user asks for a table as CSV or a spreadsheet. " +
+      "Pass the column names and the rows as lists of cell values in column order.",
+    parameters: {
+      type: "object",
+      properties: {
+        columns: { type: "array", items: { type: "string" } },
+        rows: { type: "array", items: { type: "array", items: { type: "string" } } },
+        fileName: { type: "string", description: 'Suggested file name, e.g. "payment-schedule.csv"' },
+      },
+      required: ["columns", "rows"],
+    },
+  },
+  run({ columns, rows, fileName }) {
+    if (!Array.isArray(columns) || columns.length === 0 || columns.length > MAX_COLUMNS) {
+      throw new ToolError(`columns must list between 1 and ${MAX_COLUMNS} column names`);
+    }
+    if (!Array.isArray(rows) || rows.length > MAX_ROWS || !rows.every(Array.isArray)) {
+      throw new ToolError(`rows must be a list of at most ${MAX_ROWS} rows, each a list of cell values`);
+    }
+    // Rows are keyed by column name, so repeated names are numbered
+    const names: string[] = [];
+    columns.forEach((c, i) => {
+      const base = String(c ?? "").trim() || `Column ${i + 1}`;
+      let name = base;
+      for (let n = 2; names.includes(name); n++) name = `${base} (${n})`;
+      names.push(name);
+    });
+    const records = (rows as unknown[][]).map((row) =>
+      Object.fromEntries(names.map((name, i) => [name, row[i] === undefined || row[i] === null ? null : String(row[i])]))
+    );
+    const name = typeof fileName === "string" && fileName.trim() ? fileName.trim() : "table.csv";
+    return {
+      fileName: /\.csv$/i.test(name) ? name : `${name}.csv`,
+      rowCount: records.length,
+      csv: toCSV(names, records),
+    };
+  },
+};
@@ -0,0 +1,78 @@
+import type { ToolDeclaration } from "@/lib/providers/types";
+import { translate, type Translate } from "@/lib/i18n";
+
+// Types and helpers shared by the tool registry (server) and the chat UI, which
+// renders each call as a step of the answer. Nothing here may import server-only code.
+
+// What a tool can see besides its arguments
+export interface ToolContext {
+  chatId?: string;
+  // The chat's indexed PDFs enabled for this question
+  documentIds: string[];
+}
+
+export interface Tool {
+  declaration: ToolDeclaration;
+  // Results go back to the model as JSON, so they must be plain objects
+  run(args: Record<string, unknown>, context: ToolContext): Promise<Record<string, unknown>> | Record<string, unknown>;
+  // Whether the tool is offered for this request; offered always when absent
+  isAvailable?(context: ToolContext): boolean;
+}
+
+// Bad arguments or an impossible request; the message is shown to the model so it can correct the call
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ToolError";
+  }
+}
+
+// One tool call of an assistant answer, as streamed to the chat and stored with the message
+export interface ToolStep {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  // Absent while the tool is running
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+// Names shown in the chat for each tool
+export const TOOL_LABELS: Record<string, string> = {
+  calculator: "Calculator",
+  date_calculator: "Date calculator",
+  convert_units: "Unit conversion",
+  table_to_csv: "Table to CSV",
+  search_documents: "Document search",
+};
+
+// One line describing a step: what was asked and, once done, the answer.
+// Written in English unless the chat UI passes its translate function.
+export function describeToolStep(
+  { name, args, result }: ToolStep,
+  t: Translate = (key, vars) => translate("en", key, vars)
+): string {
+  const r = result || {};
+  const isOne = (value: unknown) => Number(value) === 1;
+  switch (name) {
+    case "calculator":
+      return result ? `${args.expression} = ${r.result}` : String(args.expression ?? "");
+    case "date_calculator":
+      if (!result) return `${args.operation} ${args.date}`;
+      return r.days !== undefined
+        ? `${r.from} → ${r.to}: ${t(isOne(r.days) ? "tool.days.one" : "tool.days.other", { count: String(r.days) })}`
+        : `${r.date} (${r.weekday})`;
+    case "convert_units":
+      return result ? `${r.value} ${r.from} = ${r.result} ${r.to}` : `${args.value} ${args.from} → ${args.to}`;
+    case "table_to_csv":
+      return result
+        ? `${r.fileName} · ${t(isOne(r.rowCount) ? "tool.rows.one" : "tool.rows.other", { count: String(r.rowCount) })}`
+        : t("tool.buildingCsv");
+    case "search_documents":
+      return result && Array.isArray(r.results)
+        ? `"${args.query}" · ${t(r.results.length === 1 ? "tool.passages.one" : "tool.passages.other", { count: r.results.length })}`
+        : `"${args.query ?? ""}"`;
+    default:
+      return JSON.stringify(args).slice(0, 80);
+  }
+}
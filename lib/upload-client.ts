@@ -0,0 +1,88 @@
+import { updateAttachment } from "@/lib/attachment-store";
+import type { AttachedFile } from "@/lib/chat-types";
+
+// Browser helpers for sending files to the upload endpoints with real progress.
+// fetch() cannot report upload progress, so these use XMLHttpRequest.
+
+export interface UploadedFile {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  expiresAt: number;
+}
+
+export interface UploadedMedia {
+  name: string;
+  uri: string;
+  mimeType: string;
+  displayName: string;
+}
+
+// Send a request body and resolve with the parsed JSON response.
+// `onProgress` receives the fraction of the body sent, from 0 to 1.
+function sendWithProgress<T>(
+  url: string,
+  body: XMLHttpRequestBodyInit,
+  headers: Record<string, string>,
+  onProgress?: (fraction: number) => void
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", url);
+    for (const [name, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(name, value);
+    }
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      let data: any = null;
+      try {
+        data = JSON.parse(xhr.responseText);
+      } catch {}
+      if (xhr.status >= 200 && xhr.status < 300 && data) {
+        resolve(data as T);
+      } else {
+        reject(new Error(data?.details || data?.error || `HTTP error! status: ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Network error during upload"));
+    xhr.onabort = () => reject(new Error("Upload cancelled"));
+    xhr.send(body);
+  });
+}
+
+// Upload a document or image as multipart/form-data to /api/uploads
+export async function uploadFile(file: Blob & { name?: string }, onProgress?: (fraction: number) => void): Promise<UploadedFile> {
+  const form = new FormData();
+  form.append("file", file, file.name || "upload");
+  const { files } = await sendWithProgress<{ files: UploadedFile[] }>("/api/uploads", form, {}, onProgress);
+  return files[0];
+}
+
+// Upload a video or audio file to /api/media, which resolves once processing is done
+export function uploadMedia(file: File, onProgress?: (fraction: number) => void): Promise<UploadedMedia> {
+  return sendWithProgress<UploadedMedia>(
+    "/api/media",
+    file,
+    { "Content-Type": file.type, "X-File-Name": encodeURIComponent(file.name) },
+    onProgress
+  );
+}
+
+// Re-upload attachments whose server copies expired, updating their upload IDs
+// in place and in IndexedDB
+export async function reuploadAttachments(attachments: AttachedFile[], expiredIds: string[]): Promise<void> {
+  for (const attachment of attachments) {
+    if (!attachment.uploadId || !expiredIds.includes(attachment.uploadId)) continue;
+    if (!attachment.blob) {
+      throw new Error(`${attachment.name} has expired on the server and must be attached again`);
+    }
+
+    const uploaded = await uploadFile(new File([attachment.blob], attachment.name, { type: attachment.type }));
+    attachment.uploadId = uploaded.id;
+    await updateAttachment(attachment.id, { uploadId: uploaded.id });
+  }
+}
@@ -0,0 +1,135 @@
+import { createHash, randomUUID } from "crypto";
+import { createWriteStream } from "fs";
+import { mkdir, readFile, readdir, rename, rm, stat, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Transform, type Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+// Content-addressed temp store for uploaded files. A file's ID is the SHA-256 of
+// its bytes, so uploading the same document twice stores it once. Entries
+// expire after UPLOAD_TTL_HOURS (default 24) and are swept on later uploads.
+
+export interface StoredUpload {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export class UploadTooLargeError extends Error {
+  constructor(readonly limit: number) {
+    super(`File exceeds the ${Math.round(limit / (1024 * 1024))}MB upload limit`);
+    this.name = "UploadTooLargeError";
+  }
+}
+
+const UPLOAD_DIR = process.env.UPLOAD_DIR || join(tmpdir(), "documind-uploads");
+const TTL_MS = Number(process.env.UPLOAD_TTL_HOURS || 24) * 60 * 60 * 1000;
+const ID_PATTERN = /^[a-f0-9]{64}$/;
+
+const blobPath = (id: string) => join(UPLOAD_DIR, id);
+const metaPath = (id: string) => join(UPLOAD_DIR, `${id}.json`);
+
+// Stream a file into the store while hashing it. Aborts with UploadTooLargeError
+// once more than `maxBytes` have arrived.
+export async function saveUpload(
+  stream: Readable,
+  file: { name: string; type: string },
+  maxBytes: number
+): Promise<StoredUpload> {
+  await mkdir(UPLOAD_DIR, { recursive: true });
+
+  const hash = createHash("sha256");
+  let size = 0;
+  const meter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (size > maxBytes) {
+        callback(new UploadTooLargeError(maxBytes));
+        return;
+      }
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+
+  const tempPath = join(UPLOAD_DIR, `.incoming-${randomUUID()}`);
+  try {
+    await pipeline(stream, meter, createWriteStream(tempPath));
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+
+  const id = hash.digest("hex");
+  const now = Date.now();
+  const existing = await getUpload(id);
+
+  if (existing) {
+    // Duplicate content: keep the stored bytes and just refresh the expiry
+    await rm(tempPath, { force: true });
+  } else {
+    await rename(tempPath, blobPath(id));
+  }
+
+  const upload: StoredUpload = {
+    id,
+    name: file.name,
+    type: file.type,
+    size,
+    createdAt: existing?.createdAt ?? now,
+    expiresAt: now + TTL_MS,
+  };
+  await writeFile(metaPath(id), JSON.stringify(upload));
+  return upload;
+}
+
+// Metadata of a live upload, or null if unknown or expired
+export async function getUpload(id: string): Promise<StoredUpload | null> {
+  if (!ID_PATTERN.test(id)) return null;
+  try {
+    const upload: StoredUpload = JSON.parse(await readFile(metaPath(id), "utf8"));
+    return upload.expiresAt > Date.now() ? upload : null;
+  } catch {
+    return null;
+  }
+}
+
+// An upload's contents as a data URL, the shape the chat route inlines
+export async function readUploadAsDataUrl(id: string): Promise<string | null> {
+  const upload = await getUpload(id);
+  if (!upload) return null;
+  const bytes = await readFile(blobPath(id));
+  return `data:${upload.type || "application/octet-stream"};base64,${bytes.toString("base64")}`;
+}
+
+// Delete expired uploads and abandoned partial writes
+export async function sweepExpiredUploads(): Promise<number> {
+  let removed = 0;
+  const entries = await readdir(UPLOAD_DIR).catch(() => [] as string[]);
+
+  for (const entry of entries) {
+    const path = join(UPLOAD_DIR, entry);
+    if (entry.startsWith(".incoming-")) {
+      const { mtimeMs } = await stat(path).catch(() => ({ mtimeMs: Date.now() }));
+      if (Date.now() - mtimeMs > TTL_MS) {
+        await rm(path, { force: true });
+        removed++;
+      }
+      continue;
+    }
+
+    if (!entry.endsWith(".json")) continue;
+    const id = entry.slice(0, -".json".length);
+    if (!(await getUpload(id))) {
+      await rm(blobPath(id), { force: true });
+      await rm(metaPath(id), { force: true });
+      removed++;
+    }
+  }
+
+  return removed;
+}
@@ -0,0 +1,153 @@
+import type { TokenUsage } from "@/lib/providers/types";
+import { getChatTree, type ChatHistory, type Message } from "@/lib/chat-types";
+
+// Token usage and cost of assistant replies, per message, per chat and per day
+// and model. Prices are editable in the usage dashboard and kept in localStorage.
+
+const PRICES_KEY = "documind_model_prices";
+
+// USD per million tokens. Thinking tokens are billed as output.
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Paid-tier list prices (prompts up to 200k tokens) when these models were added
+export const DEFAULT_PRICES: PriceTable = {
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+};
+
+export interface UsageTotals {
+  responses: number;
+  promptTokens: number;
+  outputTokens: number;
+  thoughtsTokens: number;
+  totalTokens: number;
+  // USD; responses from models without a price add nothing
+  cost: number;
+}
+
+export interface UsageRow {
+  // Local date, YYYY-MM-DD
+  day: string;
+  model: string;
+  totals: UsageTotals;
+}
+
+// Helper function to check a stored price: both rates finite and not negative
+function isValidPrice(price: unknown): price is ModelPrice {
+  if (!price || typeof price !== "object") return false;
+  const { input, output } = price as Record<string, unknown>;
+  return [input, output].every((value) => typeof value === "number" && Number.isFinite(value) && value >= 0);
+}
+
+// Saved prices over the defaults; invalid entries are dropped
+export function loadPrices(): PriceTable {
+  const prices = { ...DEFAULT_PRICES };
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(PRICES_KEY) || "{}");
+    if (saved && typeof saved === "object" && !Array.isArray(saved)) {
+      for (const [model, price] of Object.entries(saved)) {
+        if (isValidPrice(price)) prices[model] = { input: price.input, output: price.output };
+      }
+    }
+  } catch {}
+  return prices;
+}
+
+export function savePrices(prices: PriceTable) {
+  localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+}
+
+export function usageCost(usage: TokenUsage, price: ModelPrice | undefined): number {
+  if (!price) return 0;
+  const output = usage.outputTokens + (usage.thoughtsTokens || 0);
+  return (usage.promptTokens * price.input + output * price.output) / 1_000_000;
+}
+
+// Helper function to add up the usage of two model calls made for one reply
+export function combineUsage(a?: TokenUsage, b?: TokenUsage): TokenUsage | undefined {
+  if (!a || !b) return a || b;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    thoughtsTokens: (a.thoughtsTokens || 0) + (b.thoughtsTokens || 0),
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
+
+export const emptyTotals = (): UsageTotals => ({
+  responses: 0,
+  promptTokens: 0,
+  outputTokens: 0,
+  thoughtsTokens: 0,
+  totalTokens: 0,
+  cost: 0,
+});
+
+// Helper function to add one reply's usage to running totals (mutates totals)
+function addUsage(totals: UsageTotals, usage: TokenUsage, price: ModelPrice | undefined) {
+  totals.responses++;
+  totals.promptTokens += usage.promptTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.thoughtsTokens += usage.thoughtsTokens || 0;
+  totals.totalTokens += usage.totalTokens;
+  totals.cost += usageCost(usage, price);
+}
+
+// Every reply in the tree counts, including regenerated branches that are not shown
+export function chatUsageTotals(messages: Message[], prices: PriceTable, fallbackModel?: string): UsageTotals {
+  const totals = emptyTotals();
+  for (const message of messages) {
+    if (message.usage) addUsage(totals, message.usage, prices[message.model || fallbackModel || ""]);
+  }
+  return totals;
+}
+
+// Helper function to get a time's local date as YYYY-MM-DD
+export const localDay = (time: number | Date) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+};
+
+// Usage of all chats grouped by day and model, newest day first. Replies saved
+// before their time was recorded count on the chat's last update.
+export function aggregateUsage(chats: ChatHistory[], prices: PriceTable): UsageRow[] {
+  const rows = new Map<string, UsageRow>();
+  for (const chat of chats) {
+    for (const message of getChatTree(chat).nodes) {
+      if (!message.usage) continue;
+      const day = localDay(message.createdAt ?? chat.timestamp);
+      const model = message.model || chat.model || "unknown";
+      const key = `${day}|${model}`;
+      if (!rows.has(key)) rows.set(key, { day, model, totals: emptyTotals() });
+      addUsage(rows.get(key)!.totals, message.usage, prices[model]);
+    }
+  }
+  return [...rows.values()].sort((a, b) => b.day.localeCompare(a.day) || a.model.localeCompare(b.model));
+}
+
+export function sumTotals(rows: UsageRow[]): UsageTotals {
+  const totals = emptyTotals();
+  for (const { totals: row } of rows) {
+    (Object.keys(totals) as (keyof UsageTotals)[]).forEach((key) => (totals[key] += row[key]));
+  }
+  return totals;
+}
+
+export function formatTokens(count: number): string {
+  if (count < 1000) return String(count);
+  if (count < 1_000_000) return `${(count / 1000).toFixed(count < 10_000 ? 1 : 0)}k`;
+  return `${(count / 1_000_000).toFixed(1)}M`;
+}
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return "$0";
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
@@ -16,3 +16,18 @@ export function fileToBase64(file: File): Promise<string> {
     reader.readAsDataURL(file);
   });
 }
+
+// Video and audio are too large to inline and go through the Gemini Files API
+export function isMediaType(type: string): boolean {
+  return type.startsWith("video/") || type.startsWith("audio/");
+}
+
+// Save data as a file through a temporary download link
+export function downloadFile(filename: string, data: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,121 @@
+// Local stand-in for the Gemini Files API resumable upload protocol, for
+// development and tests without a Google account.
+//
+//   node scripts/gemini-files-stub.mjs
+//   GEMINI_FILES_BASE_URL=http://localhost:4010 npm run dev
+//
+// Env: PORT (default 4010), STUB_PROCESSING_POLLS (status checks a file stays
+// PROCESSING before turning ACTIVE, default 2), STUB_FAIL_PATTERN (regex on the
+// display name; matching files end up FAILED).
+
+import { createServer } from "node:http";
+import { randomUUID } from "node:crypto";
+
+const port = Number(process.env.PORT || 4010);
+const processingPolls = Number(process.env.STUB_PROCESSING_POLLS ?? 2);
+const failPattern = process.env.STUB_FAIL_PATTERN ? new RegExp(process.env.STUB_FAIL_PATTERN) : null;
+const baseUrl = `http://localhost:${port}`;
+
+const sessions = new Map();
+const files = new Map();
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, baseUrl);
+  const body = await readBody(req);
+
+  // Start a resumable upload session
+  if (req.method === "POST" && url.pathname === "/upload/v1beta/files") {
+    if (req.headers["x-goog-upload-command"] !== "start") {
+      return sendJson(res, 400, { error: { message: "Expected X-Goog-Upload-Command: start" } });
+    }
+    const id = randomUUID().slice(0, 12);
+    const metadata = body.length ? JSON.parse(body.toString("utf8")) : {};
+    sessions.set(id, {
+      id,
+      displayName: metadata.file?.display_name || id,
+      mimeType: req.headers["x-goog-upload-header-content-type"] || "application/octet-stream",
+      size: Number(req.headers["x-goog-upload-header-content-length"] || 0),
+      received: 0,
+    });
+    res.writeHead(200, {
+      "X-Goog-Upload-URL": `${baseUrl}/upload/session/${id}`,
+      "X-Goog-Upload-Status": "active",
+    });
+    return res.end();
+  }
+
+  // Upload (and optionally finalize) a chunk
+  const sessionMatch = url.pathname.match(/^\/upload\/session\/([\w-]+)$/);
+  if (req.method === "POST" && sessionMatch) {
+    const session = sessions.get(sessionMatch[1]);
+    if (!session) return sendJson(res, 404, { error: { message: "Unknown upload session" } });
+
+    const offset = Number(req.headers["x-goog-upload-offset"]);
+    if (offset !== session.received) {
+      return sendJson(res, 400, { error: { message: `Expected offset ${session.received}, got ${offset}` } });
+    }
+    session.received += body.length;
+
+    const command = String(req.headers["x-goog-upload-command"] || "");
+    if (!command.includes("finalize")) {
+      res.writeHead(200, { "X-Goog-Upload-Status": "active" });
+      return res.end();
+    }
+
+    if (session.received !== session.size) {
+      return sendJson(res, 400, { error: { message: `Expected ${session.size} bytes, received ${session.received}` } });
+    }
+    sessions.delete(session.id);
+
+    const file = {
+      name: `files/${session.id}`,
+      displayName: session.displayName,
+      mimeType: session.mimeType,
+      sizeBytes: String(session.size),
+      uri: `${baseUrl}/v1beta/files/${session.id}`,
+      state: "PROCESSING",
+    };
+    files.set(file.name, { file, pollsLeft: processingPolls });
+    console.log(`[stub] Stored ${file.name} (${file.displayName}, ${file.sizeBytes} bytes)`);
+    return sendJson(res, 200, { file }, { "X-Goog-Upload-Status": "final" });
+  }
+
+  // File status
+  const fileMatch = url.pathname.match(/^\/v1beta\/(files\/[\w-]+)$/);
+  if (req.method === "GET" && fileMatch) {
+    const entry = files.get(fileMatch[1]);
+    if (!entry) return sendJson(res, 404, { error: { message: "File not found" } });
+
+    if (entry.file.state === "PROCESSING") {
+      if (entry.pollsLeft > 0) {
+        entry.pollsLeft--;
+      } else if (failPattern?.test(entry.file.displayName)) {
+        entry.file.state = "FAILED";
+        entry.file.error = { message: "Stub processing failure" };
+      } else {
+        entry.file.state = "ACTIVE";
+      }
+    }
+    return sendJson(res, 200, entry.file);
+  }
+
+  sendJson(res, 404, { error: { message: `No route for ${req.method} ${url.pathname}` } });
+});
+
+server.listen(port, () => {
+  console.log(`[stub] Gemini Files API stand-in listening on ${baseUrl}`);
+});